@@ -0,0 +1,13 @@
+/** @type {import('jest').Config} */
+module.exports = {
+    testEnvironment: 'node',
+    roots: ['<rootDir>/test'],
+    testMatch: ['**/*.test.ts'],
+    transform: {
+        '^.+\\.ts$': ['ts-jest', { tsconfig: '<rootDir>/test/tsconfig.json' }]
+    },
+    setupFiles: ['<rootDir>/test/setup-env.ts'],
+    // Every suite recreates the schema of the same test database
+    maxWorkers: 1,
+    testTimeout: 30000
+};
@@ -23,6 +23,7 @@ language-select =
     🌐 Please select your language:
     Пожалуйста, выберите язык:
 language-changed = Language changed successfully!
+language-name = 🇬🇧 English
 
 balance-title = 💰 Your balance:
 balance-no-balance = No balances yet
@@ -37,6 +38,17 @@ deposit-enter-amount =
     💵 Enter amount to deposit in { $emoji } { $name }:
 
     💡 <i>Note: If you have products with known prices, you can skip this step and offer users your products directly with pricing, then proceed to creating an invoice.</i>
+deposit-enter-payments = 🔢 How many payments should the invoice accept? Enter a number from 1 to { $max }, e.g. for a top-up link shared with several payers:
+deposit-single-payment = 1️⃣ Single payment
+deposit-invalid-payments = ❌ Please enter a whole number from 1 to { $max }
+deposit-select-expiry = ⏰ How long should the invoice stay open?
+deposit-expiry-minutes = { $count } min
+deposit-expiry-hours = { $count } h
+deposit-expiry-days = { $count } d
+deposit-payment-underpaid = ⚠️ You paid { $paid } { $emoji } { $name } instead of the requested { $requested } { $emoji } { $name }, so { $received } { $emoji } { $name } was credited after fees.
+deposit-payment-overpaid = ⚠️ You paid { $paid } { $emoji } { $name }, more than the requested { $requested } { $emoji } { $name }. The whole payment was credited: { $received } { $emoji } { $name } after fees.
+deposit-notification-paid = ✅ You successfully deposited { $amount } { $emoji } { $name }!
+deposit-notification-payment-num = 🔢 Payment { $paymentNum } of { $total }
 deposit-creating-invoice = ⏳ Creating invoice...
 deposit-invoice-created = 
     💳 Invoice created successfully!
@@ -102,12 +114,12 @@ withdrawal-confirmation =
 withdrawal-confirm-button = ✅ Confirm Withdrawal
 withdrawal-cancel-button = ❌ Cancel
 
-withdrawal-withdrawal-details = 
+withdrawal-details = 
     🌐 Withdrawal Details
 
     💰 Amount: { $amount } { $emoji } { $name }
     💸 Fee: { $fee } { $emoji } { $name }
-    💰 Total: { $totalAmount } { $emoji } { $name }
+    💰 Total: { $total } { $emoji } { $name }
     🌐 Network: { $network }
     🔗 Address: { $address }
     📊 Status: { $statusEmoji } { $status }
@@ -119,9 +131,9 @@ transfer-enter-amount = 💵 Enter amount to transfer in { $emoji } { $name }:
 transfer-enter-recipient = 
     👤 Enter recipient's Telegram ID:
 
-Your Telegram ID: <code>{ $userId }</code> (tap to copy)
+    Your Telegram ID: <code>{ $userId }</code> (tap to copy)
 
-Amount: { $amount } { $emoji } { $name }
+    Amount: { $amount } { $emoji } { $name }
 
 transfer-confirm-transfer = 
     📋 Transfer Confirmation
@@ -139,19 +151,44 @@ transfer-transfer-success =
     🆔 Transfer ID: { $transferId }
 
 multicheque-select-currency = 💱 Select currency for cheque:
-multicheque-enter-amount = 💵 Enter amount for cheque in { $emoji } { $name }:
+multicheque-enter-users = 👥 How many users can activate the cheque? Enter a number from 1 to { $max }:
+multicheque-enter-amount = 💵 Enter amount per user in { $emoji } { $name } ({ $users } users):
 multicheque-confirm-multicheque = 
     🎫 Cheque Confirmation
 
-    💰 Amount: { $amount } { $emoji } { $name }
+    💰 Per user: { $amount } { $emoji } { $name }
+    👥 Users: { $users }
+    💵 Total: { $total } { $emoji } { $name }
 
-    Please confirm the cheque creation:
+    🔑 Password: { $password }
+    📝 Description: { $description }
+    🤝 Referral: { $refPercent }%
+    🤖 Captcha: { $captcha }
+    ⭐ Premium only: { $premium }
 
+    Adjust the options or confirm the cheque creation:
 multicheque-multicheque-success = 
     ✅ Cheque created successfully!
 
-    💰 Amount: { $amount } { $emoji } { $name }
+    💰 Per user: { $amount } { $emoji } { $name }
+    👥 Users: { $users }
+    💵 Total: { $total } { $emoji } { $name }
     🆔 Cheque ID: { $chequeId }
+multicheque-button-password = 🔑 Password
+multicheque-button-description = 📝 Description
+multicheque-button-ref = 🤝 Referral: { $percent }%
+multicheque-button-captcha = 🤖 Captcha: { $state }
+multicheque-button-premium = ⭐ Premium: { $state }
+multicheque-button-remove = 🗑 Remove
+multicheque-enter-password = 🔑 Enter a password users must provide to activate the cheque (up to { $max } characters):
+multicheque-enter-description = 📝 Enter a description shown to users who open the cheque (up to { $max } characters):
+multicheque-enter-ref-percent = 🤝 Enter the referral program percent from 0 to 100. This share of each activation is paid to users who invite others to the cheque:
+multicheque-invalid-users = ❌ Please enter a whole number from 1 to { $max }
+multicheque-invalid-ref-percent = ❌ Please enter a whole number from 0 to 100
+multicheque-text-too-long = ❌ Please enter text of up to { $max } characters
+multicheque-option-not-set = —
+multicheque-option-on = on
+multicheque-option-off = off
 
 invoices-title = 📋 Your invoices:
 
@@ -165,7 +202,9 @@ invoices-invoice-detail =
     💳 Invoice Details
 
     💰 Amount: { $amount } { $emoji } { $name }
-    �� Status: { $statusEmoji } { $status }
+    { $paymentsInfo }
+    { $amountReceivedInfo }
+    📊 Status: { $statusEmoji } { $status }
     🆔 Invoice ID: { $invoiceId }
     📅 Created: { $createdAt }
 
@@ -177,6 +216,26 @@ invoices-payment-info =
     • Or wait for automatic webhook processing
     • Payment status will update automatically
 
+invoices-amount-received-info = 💸 Received: { $amountReceived } { $emoji } { $name }
+    📊 Fee: { $fee } { $emoji } { $name }
+invoices-amount-mismatch-info = ⚠️ Paid: { $amountPaid } { $emoji } { $name } instead of { $amountRequested } { $emoji } { $name }
+invoices-payments-info = 🔢 Payments: { $count }/{ $total } ({ $totalAmount } { $emoji } { $name } in total)
+invoices-expires-info = ⏰ Expires: { $expiresAt }
+error-invoice-has-payments = Invoices that received payments can't be deleted
+invoices-view-details = 🔍 View Invoice
+
+invoices-pagination = Showing { $start }-{ $end } of { $total } invoices
+
+invoices-pay-with-xrocket = 💳 Pay with xRocket Pay
+invoices-pay-now = 💳 Pay Now
+invoices-check-payment = 🔄 Check Payment
+invoices-delete = 🗑️ Delete Invoice
+invoices-back-to-list = 📋 Back to Invoices
+invoices-deleted-successfully = 🗑️ Invoice deleted successfully!
+error-invoice-not-found = Invoice not found
+pagination-previous = ⬅️ Previous
+pagination-next = Next ➡️
+
 withdrawals-select-type = 📋 Select withdrawal history type:
 withdrawals-transfers-title = 🔄 Your transfers:
 
@@ -261,6 +320,29 @@ cheques-users = 👥 Users:
 cheques-status = 📊 Status:
 cheques-cheque-id = 🆔 Cheque ID:
 cheques-created = 📅 Created:
+cheques-activations = 👥 Activations: { $activations }/{ $users }
+cheques-remaining = ↩️ Unclaimed:
+cheques-password = 🔑 Password:
+cheques-description = 📝 Description:
+cheques-cancel = ❌ Cancel Cheque
+cheques-confirm-cancel = ✅ Yes, cancel
+cheques-cancel-confirm = 
+    ❌ Cancel cheque #{ $chequeId }?
+
+    Unclaimed activations will be disabled and { $amount } { $emoji } { $name } will be returned to your balance.
+cheques-cancelled = ✅ Cheque cancelled. { $amount } { $emoji } { $name } has been returned to your balance.
+cheques-cancel-unavailable = ❌ This cheque can no longer be cancelled
+cheques-view-details = 🔍 View Cheque
+cheques-notification-activated = 
+    🎫 Your cheque #{ $chequeId } was claimed!
+
+    💰 { $amount } { $emoji } { $name } per user
+    👥 Activations: { $activations }/{ $users }
+cheques-notification-completed = 
+    ✅ Your cheque #{ $chequeId } has been fully claimed!
+
+    💰 { $amount } { $emoji } { $name } per user
+    👥 Activations: { $activations }/{ $users }
 
 # Withdrawal-related keys
 withdrawals-back-to-list = ⬅️ Back to Withdrawals
@@ -282,6 +364,90 @@ withdrawals-comment = 💬 Comment:
 withdrawals-check-status = 🔄 Check Status
 withdrawals-view-transaction = 🔗 View Transaction
 withdrawals-back-to-withdrawals = 📊 Back to Withdrawals
+withdrawals-view-details = 🔍 View Details
+withdrawals-notification-completed = 
+    ✅ Your withdrawal is completed!
+
+    💰 Amount: { $amount } { $emoji } { $name }
+    🌐 Network: { $network }
+    🔗 Address: { $address }
+withdrawals-notification-failed = 
+    ❌ Your withdrawal has failed
+
+    💰 Amount: { $amount } { $emoji } { $name }
+    🌐 Network: { $network }
+    🔗 Address: { $address }
+withdrawals-notification-refunded = ↩️ { $amount } { $emoji } { $name } has been returned to your balance.
+
+# Limit-related keys
+limits-min = The minimum amount is { $limit } { $name }. Please enter a larger amount.
+limits-max = The maximum amount per operation is { $limit } { $name }. Please enter a smaller amount.
+limits-daily = This exceeds your limit of { $limit } { $name } per 24 hours. You can use up to { $remaining } { $name } right now.
+limits-monthly = This exceeds your limit of { $limit } { $name } per 30 days. You can use up to { $remaining } { $name } right now.
+
+# Admin-related keys
+account-frozen = ❄️ Your account is frozen. You can still view your balance and history, but transfers, cheques and withdrawals are disabled. Please contact support.
+admin-help = 
+    🛠 Admin commands
+
+    /user <telegram id or @username> - details, balances and recent activity
+    /credit <user> <amount> <currency> <reason> - add funds to a balance
+    /debit <user> <amount> <currency> <reason> - take funds from a balance
+    /block <user> - ignore all messages from the user
+    /unblock <user> - allow the user to use the bot again
+    /freeze <user> - let the user view their balance but not move funds
+    /unfreeze <user> - allow the user to move funds again
+    /setlimit <user> <operation> <currency> <min|max|daily|monthly> <amount|unlimited|default> - override a limit
+    /audit <user> [currency] - latest balance changes with who made them
+    /mismatches - invoice payments of a different amount than requested awaiting review
+    /reviewed <payment id> - mark a flagged invoice payment as reviewed
+    /session <user> - show the stored conversation state of a user
+    /clearsession <user> - reset a user stuck in a conversation step
+admin-usage-user = Usage: /user <telegram id or @username>
+admin-usage-balance = Usage: /{ $command } <user> <amount> <currency> <reason>
+admin-usage-status = Usage: /{ $command } <user>
+admin-usage-setlimit = Usage: /setlimit <user> <{ $operations }> <{ $currencies }> <min|max|daily|monthly> <amount|unlimited|default>
+admin-usage-audit = Usage: /audit <user> [currency]
+admin-usage-reviewed = Usage: /reviewed <payment id>
+admin-usage-session = Usage: /{ $command } <user>
+admin-user-not-found = User { $query } not found
+admin-invalid-currency = Unknown currency { $currency }, use one of: { $currencies }
+admin-command-failed = ❌ { $error }
+admin-none = —
+admin-user-details = 
+    👤 User #{ $id }
+    🆔 Telegram ID: { $telegramId }
+    📛 Username: { $username }
+    🌐 Language: { $language }
+    🚦 Status: { $status }
+    📅 Registered: { $createdAt }
+admin-section-balances = 💰 Balances:
+admin-section-invoices = 📥 Recent invoices:
+admin-section-transfers = 🔄 Recent transfers:
+admin-section-withdrawals = 💸 Recent withdrawals:
+admin-section-limits = 📏 Limit overrides:
+admin-invoice-item = #{ $id } { $amount } { $currency } - { $status } ({ $date })
+admin-transfer-item = #{ $id } { $amount } { $currency } → { $recipient } - { $status } ({ $date })
+admin-withdrawal-item = #{ $id } { $amount } { $currency } via { $network } - { $status } ({ $date })
+admin-limit-item = { $operation } { $currency }: { $limits }
+admin-section-audit = 🧾 Balance changes of user #{ $id }:
+admin-audit-item = #{ $id } { $date } { $action } { $amount } { $currency }: { $before } → { $after } by { $actor }
+admin-section-mismatches = ⚠️ Invoice payments awaiting review:
+admin-mismatch-item = #{ $id } invoice #{ $invoiceId } of user #{ $userId } { $mismatch }: paid { $paid } of { $requested } { $currency }, credited { $received } ({ $date })
+admin-payment-reviewed = ✅ Payment #{ $id } marked as reviewed
+admin-payment-not-flagged = Payment #{ $id } not found or not awaiting review
+admin-session-details = Session of user #{ $id }:
+    { $session }
+admin-session-empty = User #{ $id } has no active session
+admin-session-cleared = ✅ Session of user #{ $id } cleared
+admin-balance-credited = ✅ Credited { $amount } { $currency } to user #{ $id }. New balance: { $balance } { $currency }
+admin-balance-debited = ✅ Debited { $amount } { $currency } from user #{ $id }. New balance: { $balance } { $currency }
+admin-user-banned = 🚫 User #{ $id } is blocked
+admin-user-frozen = ❄️ User #{ $id } is frozen
+admin-user-active = ✅ User #{ $id } is active again
+admin-limit-set = ✅ { $operation } { $kind } limit of user #{ $id } set to { $limit } { $currency }
+admin-limit-reset = ✅ { $operation } { $kind } limit of user #{ $id } in { $currency } reset to the configured default
+admin-limit-unlimited = ✅ { $operation } { $kind } limit of user #{ $id } in { $currency } lifted
 
 # Common words
 total = total 
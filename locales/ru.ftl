@@ -23,6 +23,7 @@ language-select =
     🌐 Please select your language:
     Пожалуйста, выберите язык:
 language-changed = Язык успешно изменен!
+language-name = 🇷🇺 Русский
 
 balance-title = 💰 Ваш баланс:
 balance-no-balance = Пока нет балансов
@@ -37,6 +38,17 @@ deposit-enter-amount =
     💵 Введите сумму для пополнения в { $emoji } { $name }:
 
     💡 <i>Примечание: Если у вас есть продукты с известными ценами, вы можете пропустить этот шаг и предложить пользователям ваши продукты напрямую с ценами, а затем перейти к созданию инвойса.</i>
+deposit-enter-payments = 🔢 Сколько платежей должен принимать инвойс? Введите число от 1 до { $max }, например для ссылки пополнения, которой поделятся несколько плательщиков:
+deposit-single-payment = 1️⃣ Один платеж
+deposit-invalid-payments = ❌ Пожалуйста, введите целое число от 1 до { $max }
+deposit-select-expiry = ⏰ Как долго инвойс должен быть открыт?
+deposit-expiry-minutes = { $count } мин
+deposit-expiry-hours = { $count } ч
+deposit-expiry-days = { $count } д
+deposit-payment-underpaid = ⚠️ Вы оплатили { $paid } { $emoji } { $name } вместо запрошенных { $requested } { $emoji } { $name }, поэтому зачислено { $received } { $emoji } { $name } за вычетом комиссии.
+deposit-payment-overpaid = ⚠️ Вы оплатили { $paid } { $emoji } { $name }, больше запрошенных { $requested } { $emoji } { $name }. Зачислен весь платеж: { $received } { $emoji } { $name } за вычетом комиссии.
+deposit-notification-paid = ✅ Вы успешно пополнили баланс на { $amount } { $emoji } { $name }!
+deposit-notification-payment-num = 🔢 Платеж { $paymentNum } из { $total }
 deposit-creating-invoice = ⏳ Создание инвойса...
 deposit-invoice-created = 
     💳 Инвойс успешно создан!
@@ -136,18 +148,44 @@ transfer-transfer-success =
     🆔 ID перевода: { $transferId }
 
 multicheque-select-currency = 💱 Выберите валюту для чека:
-multicheque-enter-amount = 💵 Введите сумму для чека в { $emoji } { $name }:
+multicheque-enter-users = 👥 Сколько пользователей смогут активировать чек? Введите число от 1 до { $max }:
+multicheque-enter-amount = 💵 Введите сумму на одного пользователя в { $emoji } { $name } ({ $users } польз.):
 multicheque-confirm-multicheque = 
     🎫 Подтверждение чека
 
-    💰 Сумма: { $amount } { $emoji } { $name }
+    💰 На пользователя: { $amount } { $emoji } { $name }
+    👥 Пользователей: { $users }
+    💵 Итого: { $total } { $emoji } { $name }
+
+    🔑 Пароль: { $password }
+    📝 Описание: { $description }
+    🤝 Реферальная программа: { $refPercent }%
+    🤖 Капча: { $captcha }
+    ⭐ Только Premium: { $premium }
 
-    Пожалуйста, подтвердите создание чека:
+    Измените параметры или подтвердите создание чека:
 multicheque-multicheque-success = 
     ✅ Чек успешно создан!
 
-    💰 Сумма: { $amount } { $emoji } { $name }
+    💰 На пользователя: { $amount } { $emoji } { $name }
+    👥 Пользователей: { $users }
+    💵 Итого: { $total } { $emoji } { $name }
     🆔 ID чека: { $chequeId }
+multicheque-button-password = 🔑 Пароль
+multicheque-button-description = 📝 Описание
+multicheque-button-ref = 🤝 Рефералы: { $percent }%
+multicheque-button-captcha = 🤖 Капча: { $state }
+multicheque-button-premium = ⭐ Premium: { $state }
+multicheque-button-remove = 🗑 Удалить
+multicheque-enter-password = 🔑 Введите пароль, который пользователи должны указать для активации чека (до { $max } символов):
+multicheque-enter-description = 📝 Введите описание, которое увидят пользователи, открывшие чек (до { $max } символов):
+multicheque-enter-ref-percent = 🤝 Введите процент реферальной программы от 0 до 100. Эта доля каждой активации выплачивается пользователям, пригласившим других к чеку:
+multicheque-invalid-users = ❌ Пожалуйста, введите целое число от 1 до { $max }
+multicheque-invalid-ref-percent = ❌ Пожалуйста, введите целое число от 0 до 100
+multicheque-text-too-long = ❌ Пожалуйста, введите текст длиной до { $max } символов
+multicheque-option-not-set = —
+multicheque-option-on = вкл
+multicheque-option-off = выкл
 
 invoices-title = 📋 Ваши инвойсы:
 
@@ -160,6 +198,7 @@ invoices-invoice-detail =
     💳 Детали инвойса
 
     💰 Сумма: { $amount } { $emoji } { $name }
+    { $paymentsInfo }
     { $amountReceivedInfo }
     📊 Статус: { $statusEmoji } { $status }
     🆔 ID инвойса: { $invoiceId }
@@ -168,7 +207,7 @@ invoices-invoice-detail =
     { $paymentInfo }
 
 invoices-amount-received-info = 💸 Получено: { $amountReceived } { $emoji } { $name }
-📊 Комиссия: { $fee } { $emoji } { $name }
+    📊 Комиссия: { $fee } { $emoji } { $name }
 
 invoices-payment-info = 
     💡 Обработка платежа:
@@ -185,6 +224,11 @@ invoices-delete = 🗑️ Удалить инвойс
 invoices-back-to-list = 📋 К списку инвойсов
 invoices-deleted-successfully = 🗑️ Инвойс успешно удалён!
 error-invoice-not-found = Инвойс не найден
+error-invoice-has-payments = Инвойс с полученными платежами нельзя удалить
+invoices-view-details = 🔍 Открыть инвойс
+invoices-amount-mismatch-info = ⚠️ Оплачено: { $amountPaid } { $emoji } { $name } вместо { $amountRequested } { $emoji } { $name }
+invoices-payments-info = 🔢 Платежи: { $count }/{ $total } (всего { $totalAmount } { $emoji } { $name })
+invoices-expires-info = ⏰ Истекает: { $expiresAt }
 pagination-previous = ⬅️ Предыдущая
 pagination-next = Следующая ➡️
 
@@ -270,6 +314,29 @@ cheques-users = 👥 Пользователи:
 cheques-status = 📊 Статус:
 cheques-cheque-id = 🆔 ID чека:
 cheques-created = 📅 Создан:
+cheques-activations = 👥 Активации: { $activations }/{ $users }
+cheques-remaining = ↩️ Не получено:
+cheques-password = 🔑 Пароль:
+cheques-description = 📝 Описание:
+cheques-cancel = ❌ Отменить чек
+cheques-confirm-cancel = ✅ Да, отменить
+cheques-cancel-confirm = 
+    ❌ Отменить чек #{ $chequeId }?
+
+    Оставшиеся активации будут отключены, а { $amount } { $emoji } { $name } вернутся на ваш баланс.
+cheques-cancelled = ✅ Чек отменен. { $amount } { $emoji } { $name } возвращены на ваш баланс.
+cheques-cancel-unavailable = ❌ Этот чек больше нельзя отменить
+cheques-view-details = 🔍 Посмотреть чек
+cheques-notification-activated = 
+    🎫 Ваш чек #{ $chequeId } активирован!
+
+    💰 { $amount } { $emoji } { $name } на пользователя
+    👥 Активации: { $activations }/{ $users }
+cheques-notification-completed = 
+    ✅ Ваш чек #{ $chequeId } полностью активирован!
+
+    💰 { $amount } { $emoji } { $name } на пользователя
+    👥 Активации: { $activations }/{ $users }
 
 # Withdrawal-related keys
 withdrawals-back-to-list = ⬅️ К списку выводов
@@ -291,6 +358,90 @@ withdrawals-comment = 💬 Комментарий:
 withdrawals-check-status = 🔄 Проверить статус
 withdrawals-view-transaction = 🔗 Посмотреть транзакцию
 withdrawals-back-to-withdrawals = 📊 К списку выводов
+withdrawals-view-details = 🔍 Подробнее
+withdrawals-notification-completed = 
+    ✅ Ваш вывод выполнен!
+
+    💰 Сумма: { $amount } { $emoji } { $name }
+    🌐 Сеть: { $network }
+    🔗 Адрес: { $address }
+withdrawals-notification-failed = 
+    ❌ Ваш вывод не выполнен
+
+    💰 Сумма: { $amount } { $emoji } { $name }
+    🌐 Сеть: { $network }
+    🔗 Адрес: { $address }
+withdrawals-notification-refunded = ↩️ { $amount } { $emoji } { $name } возвращены на ваш баланс.
+
+# Limit-related keys
+limits-min = Минимальная сумма — { $limit } { $name }. Введите сумму побольше.
+limits-max = Максимальная сумма одной операции — { $limit } { $name }. Введите сумму поменьше.
+limits-daily = Это превышает ваш лимит { $limit } { $name } за 24 часа. Сейчас доступно не более { $remaining } { $name }.
+limits-monthly = Это превышает ваш лимит { $limit } { $name } за 30 дней. Сейчас доступно не более { $remaining } { $name }.
+
+# Admin-related keys
+account-frozen = ❄️ Ваш аккаунт заморожен. Вы можете просматривать баланс и историю, но переводы, чеки и выводы недоступны. Обратитесь в поддержку.
+admin-help = 
+    🛠 Команды администратора
+
+    /user <telegram id или @username> - данные, балансы и последние операции
+    /credit <пользователь> <сумма> <валюта> <причина> - зачислить средства на баланс
+    /debit <пользователь> <сумма> <валюта> <причина> - списать средства с баланса
+    /block <пользователь> - игнорировать все сообщения пользователя
+    /unblock <пользователь> - снова разрешить пользователю пользоваться ботом
+    /freeze <пользователь> - разрешить пользователю только просмотр баланса, без движения средств
+    /unfreeze <пользователь> - снова разрешить пользователю движение средств
+    /setlimit <пользователь> <операция> <валюта> <min|max|daily|monthly> <сумма|unlimited|default> - переопределить лимит
+    /audit <пользователь> [валюта] - последние изменения баланса и кто их сделал
+    /mismatches - платежи по инвойсам с суммой, отличной от запрошенной, ожидающие проверки
+    /reviewed <id платежа> - отметить платеж как проверенный
+    /session <пользователь> - показать сохранённое состояние диалога пользователя
+    /clearsession <пользователь> - сбросить пользователя, застрявшего на шаге диалога
+admin-usage-user = Использование: /user <telegram id или @username>
+admin-usage-balance = Использование: /{ $command } <пользователь> <сумма> <валюта> <причина>
+admin-usage-status = Использование: /{ $command } <пользователь>
+admin-usage-setlimit = Использование: /setlimit <пользователь> <{ $operations }> <{ $currencies }> <min|max|daily|monthly> <сумма|unlimited|default>
+admin-usage-audit = Использование: /audit <пользователь> [валюта]
+admin-usage-reviewed = Использование: /reviewed <id платежа>
+admin-usage-session = Использование: /{ $command } <пользователь>
+admin-user-not-found = Пользователь { $query } не найден
+admin-invalid-currency = Неизвестная валюта { $currency }, используйте одну из: { $currencies }
+admin-command-failed = ❌ { $error }
+admin-none = —
+admin-user-details = 
+    👤 Пользователь #{ $id }
+    🆔 Telegram ID: { $telegramId }
+    📛 Имя пользователя: { $username }
+    🌐 Язык: { $language }
+    🚦 Статус: { $status }
+    📅 Зарегистрирован: { $createdAt }
+admin-section-balances = 💰 Балансы:
+admin-section-invoices = 📥 Последние счета:
+admin-section-transfers = 🔄 Последние переводы:
+admin-section-withdrawals = 💸 Последние выводы:
+admin-section-limits = 📏 Переопределённые лимиты:
+admin-invoice-item = #{ $id } { $amount } { $currency } - { $status } ({ $date })
+admin-transfer-item = #{ $id } { $amount } { $currency } → { $recipient } - { $status } ({ $date })
+admin-withdrawal-item = #{ $id } { $amount } { $currency } через { $network } - { $status } ({ $date })
+admin-limit-item = { $operation } { $currency }: { $limits }
+admin-section-audit = 🧾 Изменения баланса пользователя #{ $id }:
+admin-audit-item = #{ $id } { $date } { $action } { $amount } { $currency }: { $before } → { $after }, инициатор: { $actor }
+admin-section-mismatches = ⚠️ Платежи по инвойсам, ожидающие проверки:
+admin-mismatch-item = #{ $id } инвойс #{ $invoiceId } пользователя #{ $userId } { $mismatch }: оплачено { $paid } из { $requested } { $currency }, зачислено { $received } ({ $date })
+admin-payment-reviewed = ✅ Платеж #{ $id } отмечен как проверенный
+admin-payment-not-flagged = Платеж #{ $id } не найден или не ожидает проверки
+admin-session-details = Сессия пользователя #{ $id }:
+    { $session }
+admin-session-empty = У пользователя #{ $id } нет активной сессии
+admin-session-cleared = ✅ Сессия пользователя #{ $id } сброшена
+admin-balance-credited = ✅ Пользователю #{ $id } зачислено { $amount } { $currency }. Новый баланс: { $balance } { $currency }
+admin-balance-debited = ✅ С пользователя #{ $id } списано { $amount } { $currency }. Новый баланс: { $balance } { $currency }
+admin-user-banned = 🚫 Пользователь #{ $id } заблокирован
+admin-user-frozen = ❄️ Пользователь #{ $id } заморожен
+admin-user-active = ✅ Пользователь #{ $id } снова активен
+admin-limit-set = ✅ Лимит { $operation } { $kind } пользователя #{ $id } установлен: { $limit } { $currency }
+admin-limit-reset = ✅ Лимит { $operation } { $kind } пользователя #{ $id } в { $currency } сброшен к значению по умолчанию
+admin-limit-unlimited = ✅ Лимит { $operation } { $kind } пользователя #{ $id } в { $currency } снят
 
 # Common words
 total = всего 
\ No newline at end of file
@@ -1,9 +1,11 @@
 import { BotContext } from "../../types/bot";
 import { AppDataSource } from "../../config/database";
 import { UserInvoice } from "../../entities/user-invoice";
-import { createCoinSelectionKeyboard } from "../keyboards/deposit";
+import { createCoinSelectionKeyboard, createDepositExpiryKeyboard, createDepositPaymentsKeyboard } from "../keyboards/deposit";
 import { UserService } from "../../services/user";
 import { CurrencyConverter } from "../../types/currency";
+import { Money } from "../../types/money";
+import { INVOICE_CONFIG } from "../../config/invoice";
 import { InlineKeyboard } from "grammy";
 import { XRocketPayService } from "../../services/xrocket-pay";
 import logger from '../../utils/logger';
@@ -116,18 +118,158 @@ export async function handleAmountInput(ctx: BotContext): Promise<void> {
             throw new Error("Invalid context for amount input");
         }
 
-        const amount = validationService.validateAmount(ctx.message!.text!);
+        if (!validationService.validateSession(ctx, ['selectedCoin'])) {
+            throw new Error("No currency selected. Please start over.");
+        }
+
+        const selectedCoin = ctx.session.selectedCoin!;
+
+        const amount = validationService.validateAmount(ctx.message!.text!, selectedCoin);
         logger.info('[Deposit] Parsed amount:', amount);
 
         if (!amount) {
-            throw new Error("Invalid amount. Please try again.");
+            throw new Error(validationService.getInvalidAmountMessage(selectedCoin));
         }
 
-        if (!validationService.validateSession(ctx, ['selectedCoin'])) {
-            throw new Error("No currency selected. Please start over.");
+        // Get user
+        const userService = UserService.getInstance();
+        const user = await userService.findOrCreateUser(ctx);
+        logger.info('[Deposit] User:', user);
+
+        const limitValidation = await validationService.validateLimits(ctx, user, 'deposit', amount);
+        if (!limitValidation.isValid) {
+            throw new Error(limitValidation.errorMessage!);
         }
 
-        const selectedCoin = ctx.session.selectedCoin!;
+        // Store amount per payment in session
+        ctx.session.depositAmount = amount.toString();
+        ctx.session.step = "deposit_payments";
+
+        // Ask for number of payments
+        logger.info('[Deposit] Asking for number of payments');
+        await messageService.editMessage(
+            ctx,
+            ctx.t('deposit-enter-payments', { max: INVOICE_CONFIG.MAX_PAYMENTS }),
+            createDepositPaymentsKeyboard(ctx)
+        );
+    } catch (error) {
+        await errorHandler.handleConversationFlowError(ctx, error, 'deposit', 'amount_input');
+    }
+}
+
+/**
+ * Handles number of payments input in deposit flow
+ */
+export async function handlePaymentsInput(ctx: BotContext): Promise<void> {
+    logger.info('[Deposit] Payments input received');
+    
+    const validationService = ValidationService.getInstance();
+    const errorHandler = ErrorHandler.getInstance();
+    
+    try {
+        if (!validationService.validateMessageContext(ctx)) {
+            throw new Error("Invalid context for payments input");
+        }
+
+        const text = ctx.message!.text!.trim();
+        const payments = /^\d+$/.test(text) ? parseInt(text, 10) : NaN;
+        logger.info('[Deposit] Parsed payments:', payments);
+
+        await applyPayments(ctx, payments);
+    } catch (error) {
+        await errorHandler.handleConversationFlowError(ctx, error, 'deposit', 'payments_input');
+    }
+}
+
+/**
+ * Handles the single payment button in deposit flow
+ */
+export async function handlePaymentsSelection(ctx: BotContext): Promise<void> {
+    logger.info('[Deposit] Payments selection received');
+    
+    const validationService = ValidationService.getInstance();
+    const errorHandler = ErrorHandler.getInstance();
+    
+    try {
+        if (!validationService.validateCallbackContext(ctx)) {
+            throw new Error("Invalid context for payments selection");
+        }
+
+        await errorHandler.safeAnswerCallbackQuery(ctx);
+
+        const payments = parseInt(ctx.callbackQuery!.data!.replace('deposit_payments_', ''), 10);
+        await applyPayments(ctx, payments);
+    } catch (error) {
+        await errorHandler.handleConversationFlowError(ctx, error, 'deposit', 'payments_selection');
+    }
+}
+
+/**
+ * Validates the number of payments against the limits for the invoice total, then asks for the expiry
+ */
+async function applyPayments(ctx: BotContext, payments: number): Promise<void> {
+    const validationService = ValidationService.getInstance();
+    const messageService = MessageService.getInstance();
+
+    if (isNaN(payments) || payments < 1 || payments > INVOICE_CONFIG.MAX_PAYMENTS) {
+        throw new Error(ctx.t('deposit-invalid-payments', { max: INVOICE_CONFIG.MAX_PAYMENTS }));
+    }
+
+    if (!validationService.validateSession(ctx, ['selectedCoin', 'depositAmount'])) {
+        throw new Error("Session data missing. Please start over.");
+    }
+
+    // Every payment is credited, so the rolling limits apply to all of them together
+    const amount = Money.of(ctx.session.depositAmount!, ctx.session.selectedCoin!);
+    const user = await UserService.getInstance().findOrCreateUser(ctx);
+    const limitValidation = await validationService.validateLimits(ctx, user, 'deposit', amount.multipliedBy(payments));
+    if (!limitValidation.isValid) {
+        throw new Error(limitValidation.errorMessage!);
+    }
+
+    // Store number of payments in session
+    ctx.session.depositPayments = payments;
+    ctx.session.step = undefined;
+
+    // Ask for expiry
+    logger.info('[Deposit] Asking for expiry');
+    await messageService.editMessage(
+        ctx,
+        ctx.t('deposit-select-expiry'),
+        createDepositExpiryKeyboard(ctx)
+    );
+}
+
+/**
+ * Handles expiry selection in deposit flow and creates the invoice
+ */
+export async function handleExpirySelection(ctx: BotContext): Promise<void> {
+    logger.info('[Deposit] Expiry selection received');
+    
+    const validationService = ValidationService.getInstance();
+    const errorHandler = ErrorHandler.getInstance();
+    const messageService = MessageService.getInstance();
+    
+    try {
+        if (!validationService.validateCallbackContext(ctx)) {
+            throw new Error("Invalid context for expiry selection");
+        }
+
+        await errorHandler.safeAnswerCallbackQuery(ctx);
+
+        const expiresIn = parseInt(ctx.callbackQuery!.data!.replace('deposit_expiry_', ''), 10);
+        logger.info('[Deposit] Selected expiry:', expiresIn);
+
+        if (!(INVOICE_CONFIG.EXPIRY_OPTIONS as readonly number[]).includes(expiresIn)) {
+            throw new Error("Invalid callback data format");
+        }
+
+        if (!validationService.validateSession(ctx, ['selectedCoin', 'depositAmount', 'depositPayments'])) {
+            throw new Error("Session data missing. Please start over.");
+        }
+
+        const amount = Money.of(ctx.session.depositAmount!, ctx.session.selectedCoin!);
+        const payments = ctx.session.depositPayments!;
 
         // Get user
         const userService = UserService.getInstance();
@@ -137,7 +279,7 @@ export async function handleAmountInput(ctx: BotContext): Promise<void> {
         // Create invoice
         logger.info('[Deposit] Creating invoice');
         const invoiceRepo = AppDataSource.getRepository(UserInvoice);
-        const invoice = UserInvoice.create(user, amount, selectedCoin);
+        const invoice = UserInvoice.create(user, amount, payments, expiresIn);
         logger.info('[Deposit] Invoice created:', invoice);
         
         await invoiceRepo.save(invoice);
@@ -156,7 +298,8 @@ export async function handleAmountInput(ctx: BotContext): Promise<void> {
 
         // Store invoice ID in session
         ctx.session.invoiceId = invoiceId;
-        ctx.session.step = undefined; // Clear step
+        ctx.session.depositAmount = undefined;
+        ctx.session.depositPayments = undefined;
 
         // Show invoice details
         logger.info('[Deposit] Showing invoice details');
@@ -168,6 +311,6 @@ export async function handleAmountInput(ctx: BotContext): Promise<void> {
         );
         logger.info('[Deposit] Deposit flow completed');
     } catch (error) {
-        await errorHandler.handleConversationFlowError(ctx, error, 'deposit', 'amount_input');
+        await errorHandler.handleConversationFlowError(ctx, error, 'deposit', 'expiry_selection');
     }
 } 
\ No newline at end of file
@@ -4,12 +4,14 @@ import { createMainMenuKeyboard } from "../keyboards/main";
 import { UserService } from "../../services/user";
 import { XRocketPayService } from "../../services/xrocket-pay";
 import { CurrencyConverter, InternalCurrency, WithdrawalNetwork } from "../../types/currency";
+import { Money } from "../../types/money";
 import { formatCurrency, formatDate } from "../utils/formatters";
 import { AppDataSource } from "../../config/database";
 import { UserWithdrawal } from "../../entities/user-withdrawal";
 import logger from "../../utils/logger";
 import { createWithdrawalDetailKeyboard } from "../keyboards/withdrawal";
 import { TransactionService } from "../../services/transaction";
+import { AuditService } from "../../services/audit";
 import { ValidationService } from "../utils/validation";
 import { ErrorHandler, ErrorType } from "../utils/error-handler";
 import { MessageService } from "../services/message-service";
@@ -156,11 +158,11 @@ export async function handleWithdrawalNetworkSelection(ctx: BotContext): Promise
         
         const selectedCoin = ctx.session.selectedCoin!;
         const balance = await userService.getUserBalance(user, selectedCoin);
-        const currentBalance = balance ? balance.amount : 0;
+        const currentBalance = balance ? balance.amount : Money.zero(selectedCoin);
         
         // Get withdrawal fee for this currency and network
         const xrocketPay = XRocketPayService.getInstance();
-        let fee = 0;
+        let fee = Money.zero(selectedCoin);
         try {
             const feeResponse = await xrocketPay.getWithdrawalFees(selectedCoin, 1); // Use 1 as base amount for fee calculation
             if (feeResponse.data && feeResponse.data.length > 0) {
@@ -171,7 +173,7 @@ export async function handleWithdrawalNetworkSelection(ctx: BotContext): Promise
                 if (currencyData) {
                     const networkFee = currencyData.fees.find(f => f.networkCode === network);
                     if (networkFee) {
-                        fee = networkFee.feeWithdraw.fee;
+                        fee = Money.round(networkFee.feeWithdraw.fee, selectedCoin);
                     }
                 }
             }
@@ -183,11 +185,12 @@ export async function handleWithdrawalNetworkSelection(ctx: BotContext): Promise
             });
         }
         
-        ctx.session.withdrawalFee = fee;
+        ctx.session.withdrawalFee = fee.toString();
         ctx.session.step = "withdrawal_amount";
         
         const currencyConfig = CurrencyConverter.getConfig(selectedCoin);
-        const maxWithdrawal = Math.max(0, currentBalance - fee);
+        const available = currentBalance.minus(fee);
+        const maxWithdrawal = available.isNegative() ? Money.zero(selectedCoin) : available;
         
         await messageService.editMessage(
             ctx,
@@ -217,28 +220,33 @@ export async function handleWithdrawalAmountInput(ctx: BotContext): Promise<void
             throw new Error("Invalid context for amount input");
         }
         
-        const amount = validationService.validateAmount(ctx.message!.text!);
-        if (!amount) {
-            throw new Error("Invalid amount. Please try again.");
-        }
-        
         if (!validationService.validateSession(ctx, ['selectedCoin', 'withdrawalFee'])) {
             throw new Error("No currency selected. Please start over.");
         }
         
         const selectedCoin = ctx.session.selectedCoin!;
-        const fee = ctx.session.withdrawalFee ?? 0;
+        const fee = Money.of(ctx.session.withdrawalFee!, selectedCoin);
+        
+        const amount = validationService.validateAmount(ctx.message!.text!, selectedCoin);
+        if (!amount) {
+            throw new Error(validationService.getInvalidAmountMessage(selectedCoin));
+        }
         
         // Check user balance (including fee)
         const userService = UserService.getInstance();
         const user = await userService.findOrCreateUser(ctx);
         
+        const limitValidation = await validationService.validateLimits(ctx, user, 'withdrawal', amount);
+        if (!limitValidation.isValid) {
+            throw new Error(limitValidation.errorMessage!);
+        }
+        
         const withdrawalValidation = await validationService.validateWithdrawalAmount(user, selectedCoin, amount, fee);
         if (!withdrawalValidation.isValid) {
             throw new Error(withdrawalValidation.errorMessage!);
         }
         
-        ctx.session.withdrawalAmount = amount;
+        ctx.session.withdrawalAmount = amount.toString();
         ctx.session.step = "withdrawal_address";
         const currencyConfig = CurrencyConverter.getConfig(selectedCoin);
         const network = ctx.session.withdrawalNetwork;
@@ -284,10 +292,10 @@ export async function handleWithdrawalAddressInput(ctx: BotContext): Promise<voi
         }
         
         const selectedCoin = ctx.session.selectedCoin!;
-        const amount = ctx.session.withdrawalAmount!;
-        const fee = ctx.session.withdrawalFee!;
+        const amount = Money.of(ctx.session.withdrawalAmount!, selectedCoin);
+        const fee = Money.of(ctx.session.withdrawalFee!, selectedCoin);
         const network = ctx.session.withdrawalNetwork as WithdrawalNetwork;
-        const totalAmount = amount + fee;
+        const totalAmount = amount.plus(fee);
         
         await messageService.editMessage(
             ctx,
@@ -329,8 +337,8 @@ export async function handleWithdrawalConfirmation(ctx: BotContext): Promise<voi
         }
         
         const selectedCoin = ctx.session.selectedCoin!;
-        const amount = ctx.session.withdrawalAmount!;
-        const fee = ctx.session.withdrawalFee!;
+        const amount = Money.of(ctx.session.withdrawalAmount!, selectedCoin);
+        const fee = Money.of(ctx.session.withdrawalFee ?? '0', selectedCoin);
         const network = ctx.session.withdrawalNetwork as WithdrawalNetwork;
         const address = ctx.session.withdrawalAddress!;
         
@@ -343,10 +351,10 @@ export async function handleWithdrawalConfirmation(ctx: BotContext): Promise<voi
         const savedWithdrawal = await transactionService.executeWithdrawal(
             user,
             amount,
-            selectedCoin,
             fee,
             network,
-            address
+            address,
+            AuditService.getInstance().actorFromContext(ctx)
         );
         
         // Show withdrawal details page
@@ -359,7 +367,7 @@ export async function handleWithdrawalConfirmation(ctx: BotContext): Promise<voi
             emoji: currencyConfig.emoji,
             name: currencyConfig.name,
             fee: formatCurrency(fee),
-            total: formatCurrency(amount + fee),
+            total: formatCurrency(amount.plus(fee)),
             network: network,
             address: address,
             statusEmoji: statusEmoji,
@@ -385,7 +393,7 @@ export async function handleWithdrawalConfirmation(ctx: BotContext): Promise<voi
         ctx.session.withdrawalFee = undefined;
 
     } catch (error) {
-        await errorHandler.handleConversationFlowError(ctx, error, 'external_withdrawal', 'confirmation');
+        await errorHandler.handleConversationFlowError(ctx, validationService.localizeLimitError(ctx, error), 'external_withdrawal', 'confirmation');
     }
 }
 
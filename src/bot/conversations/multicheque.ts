@@ -3,16 +3,24 @@ import { InlineKeyboard } from "grammy";
 import { createMainMenuKeyboard } from "../keyboards/main";
 import { createChequeDetailKeyboard } from "../keyboards/cheque";
 import { UserService } from "../../services/user";
-import { XRocketPayService } from "../../services/xrocket-pay";
+import { TransactionService } from "../../services/transaction";
+import { AuditService } from "../../services/audit";
+import { ChequeOptions } from "../../entities/user-cheque";
 import { CurrencyConverter, InternalCurrency } from "../../types/currency";
+import { Money } from "../../types/money";
 import { formatCurrency } from "../utils/formatters";
-import { AppDataSource } from "../../config/database";
-import { UserCheque } from "../../entities/user-cheque";
 import logger from "../../utils/logger";
 import { ValidationService } from "../utils/validation";
 import { ErrorHandler, ErrorType } from "../utils/error-handler";
 import { MessageService } from "../services/message-service";
 
+/**
+ * Limits for multicheque options
+ */
+const MAX_CHEQUE_USERS = 1000;
+const MAX_PASSWORD_LENGTH = 100;
+const MAX_DESCRIPTION_LENGTH = 1000;
+
 /**
  * Creates inline keyboard for multicheque currency selection
  */
@@ -29,6 +37,86 @@ function createMultichequeCurrencyKeyboard(): InlineKeyboard {
     return keyboard;
 }
 
+/**
+ * Creates inline keyboard for multicheque options and confirmation
+ */
+function createMultichequeOptionsKeyboard(ctx: BotContext): InlineKeyboard {
+    const onOff = (enabled: boolean) => ctx.t(enabled ? 'multicheque-option-on' : 'multicheque-option-off');
+
+    return new InlineKeyboard()
+        .text(ctx.t('multicheque-button-password'), "multicheque_option_password")
+        .text(ctx.t('multicheque-button-description'), "multicheque_option_description")
+        .row()
+        .text(ctx.t('multicheque-button-ref', { percent: ctx.session.multichequeRefPercent ?? 0 }), "multicheque_option_ref")
+        .row()
+        .text(ctx.t('multicheque-button-captcha', { state: onOff(ctx.session.multichequeCaptcha ?? true) }), "multicheque_toggle_captcha")
+        .text(ctx.t('multicheque-button-premium', { state: onOff(ctx.session.multichequePremiumOnly ?? false) }), "multicheque_toggle_premium")
+        .row()
+        .text(ctx.t('buttons-confirm'), "confirm_multicheque")
+        .row()
+        .text(ctx.t('buttons-cancel'), "main_menu");
+}
+
+/**
+ * Creates inline keyboard shown while entering a text option
+ */
+function createMultichequeOptionInputKeyboard(ctx: BotContext, option: string): InlineKeyboard {
+    return new InlineKeyboard()
+        .text(ctx.t('multicheque-button-remove'), `multicheque_clear_${option}`)
+        .row()
+        .text(ctx.t('buttons-back'), "multicheque_options");
+}
+
+/**
+ * Clears all multicheque fields from the session
+ */
+function clearMultichequeSession(ctx: BotContext): void {
+    ctx.session.selectedCoin = undefined;
+    ctx.session.multichequeAmount = undefined;
+    ctx.session.multichequeUsers = undefined;
+    ctx.session.multichequePassword = undefined;
+    ctx.session.multichequeDescription = undefined;
+    ctx.session.multichequeRefPercent = undefined;
+    ctx.session.multichequeCaptcha = undefined;
+    ctx.session.multichequePremiumOnly = undefined;
+}
+
+/**
+ * Shows the cheque summary with option buttons
+ */
+async function showMultichequeOptions(ctx: BotContext): Promise<void> {
+    const validationService = ValidationService.getInstance();
+    const messageService = MessageService.getInstance();
+
+    if (!validationService.validateSession(ctx, ['selectedCoin', 'multichequeAmount', 'multichequeUsers'])) {
+        throw new Error("Session data missing. Please start over.");
+    }
+
+    const selectedCoin = ctx.session.selectedCoin!;
+    const amount = Money.of(ctx.session.multichequeAmount!, selectedCoin);
+    const users = ctx.session.multichequeUsers!;
+    const currencyConfig = CurrencyConverter.getConfig(selectedCoin);
+    const notSet = ctx.t('multicheque-option-not-set');
+    const onOff = (enabled: boolean) => ctx.t(enabled ? 'multicheque-option-on' : 'multicheque-option-off');
+
+    ctx.session.step = "multicheque_confirmation";
+
+    const confirmationMessage = ctx.t('multicheque-confirm-multicheque', {
+        amount: formatCurrency(amount),
+        users: users,
+        total: formatCurrency(amount.multipliedBy(users)),
+        emoji: currencyConfig.emoji,
+        name: currencyConfig.name,
+        password: ctx.session.multichequePassword ? messageService.escapeHtml(ctx.session.multichequePassword) : notSet,
+        description: ctx.session.multichequeDescription ? messageService.escapeHtml(ctx.session.multichequeDescription) : notSet,
+        refPercent: ctx.session.multichequeRefPercent ?? 0,
+        captcha: onOff(ctx.session.multichequeCaptcha ?? true),
+        premium: onOff(ctx.session.multichequePremiumOnly ?? false)
+    });
+
+    await messageService.editMessage(ctx, confirmationMessage, createMultichequeOptionsKeyboard(ctx));
+}
+
 /**
  * Handles the multicheque flow initiation
  */
@@ -49,8 +137,7 @@ export async function handleMultichequeFlow(ctx: BotContext): Promise<void> {
 
         // Initialize session
         ctx.session.step = "multicheque_currency";
-        ctx.session.selectedCoin = undefined;
-        ctx.session.multichequeAmount = undefined;
+        clearMultichequeSession(ctx);
 
         // Show currency selection
         logger.info('[Multicheque] Showing currency selection');
@@ -101,84 +188,289 @@ export async function handleMultichequeCurrencySelection(ctx: BotContext): Promi
 
         // Store currency in session
         ctx.session.selectedCoin = selectedCoin;
+        ctx.session.step = "multicheque_users";
+
+        // Ask for number of activations
+        logger.info('[Multicheque] Asking for number of users');
+        await messageService.editMessage(
+            ctx,
+            ctx.t('multicheque-enter-users', { max: MAX_CHEQUE_USERS }),
+            new InlineKeyboard()
+        );
+    } catch (error) {
+        await errorHandler.handleConversationFlowError(ctx, error, 'multicheque', 'currency_selection');
+    }
+}
+
+/**
+ * Handles number of activations input in multicheque flow
+ */
+export async function handleMultichequeUsersInput(ctx: BotContext): Promise<void> {
+    logger.info('[Multicheque] Users input received');
+    
+    const validationService = ValidationService.getInstance();
+    const errorHandler = ErrorHandler.getInstance();
+    const messageService = MessageService.getInstance();
+    
+    try {
+        if (!validationService.validateMessageContext(ctx)) {
+            throw new Error("Invalid context for users input");
+        }
+
+        const text = ctx.message!.text!.trim();
+        const users = /^\d+$/.test(text) ? parseInt(text, 10) : NaN;
+        logger.info('[Multicheque] Parsed users:', users);
+
+        if (isNaN(users) || users < 1 || users > MAX_CHEQUE_USERS) {
+            throw new Error(ctx.t('multicheque-invalid-users', { max: MAX_CHEQUE_USERS }));
+        }
+
+        if (!validationService.validateSession(ctx, ['selectedCoin'])) {
+            throw new Error("No currency selected. Please start over.");
+        }
+
+        // Store number of users in session
+        ctx.session.multichequeUsers = users;
         ctx.session.step = "multicheque_amount";
 
-        // Ask for amount
-        logger.info('[Multicheque] Asking for amount');
-        const currencyConfig = CurrencyConverter.getConfig(selectedCoin);
+        // Ask for amount per user
+        logger.info('[Multicheque] Asking for amount per user');
+        const currencyConfig = CurrencyConverter.getConfig(ctx.session.selectedCoin!);
         await messageService.editMessage(
             ctx,
             ctx.t('multicheque-enter-amount', {
                 emoji: currencyConfig.emoji,
-                name: currencyConfig.name
+                name: currencyConfig.name,
+                users: users
             }),
             new InlineKeyboard()
         );
     } catch (error) {
-        await errorHandler.handleConversationFlowError(ctx, error, 'multicheque', 'currency_selection');
+        await errorHandler.handleConversationFlowError(ctx, error, 'multicheque', 'users_input');
     }
 }
 
 /**
- * Handles amount input in multicheque flow
+ * Handles amount per user input in multicheque flow
  */
 export async function handleMultichequeAmountInput(ctx: BotContext): Promise<void> {
     logger.info('[Multicheque] Amount input received');
     
     const validationService = ValidationService.getInstance();
     const errorHandler = ErrorHandler.getInstance();
-    const messageService = MessageService.getInstance();
     
     try {
         if (!validationService.validateMessageContext(ctx)) {
             throw new Error("Invalid context for amount input");
         }
 
-        const amount = validationService.validateAmount(ctx.message!.text!);
-        logger.info('[Multicheque] Parsed amount:', amount);
-
-        if (!amount) {
-            throw new Error("Invalid amount. Please enter a positive number.");
-        }
-
-        if (!validationService.validateSession(ctx, ['selectedCoin'])) {
+        if (!validationService.validateSession(ctx, ['selectedCoin', 'multichequeUsers'])) {
             throw new Error("No currency selected. Please start over.");
         }
 
         const selectedCoin = ctx.session.selectedCoin!;
+        const users = ctx.session.multichequeUsers!;
+
+        const amount = validationService.validateAmount(ctx.message!.text!, selectedCoin);
+        logger.info('[Multicheque] Parsed amount:', amount);
+
+        if (!amount) {
+            throw new Error(validationService.getInvalidAmountMessage(selectedCoin));
+        }
 
         // Get user
         const userService = UserService.getInstance();
         const user = await userService.findOrCreateUser(ctx);
         logger.info('[Multicheque] User:', user);
 
-        // Check if user has sufficient balance
-        const balanceValidation = await validationService.validateBalance(user, selectedCoin, amount);
+        // Limits apply to the total of all activations, which is what leaves the balance
+        const totalAmount = amount.multipliedBy(users);
+        const limitValidation = await validationService.validateLimits(ctx, user, 'multicheque', totalAmount);
+        if (!limitValidation.isValid) {
+            throw new Error(limitValidation.errorMessage!);
+        }
+
+        // Check if user has sufficient balance for all activations
+        const balanceValidation = await validationService.validateBalance(user, selectedCoin, totalAmount);
         if (!balanceValidation.isValid) {
             throw new Error(balanceValidation.errorMessage!);
         }
 
-        // Store amount in session
-        ctx.session.multichequeAmount = amount;
-        ctx.session.step = "multicheque_confirmation";
+        // Store amount and default options in session
+        ctx.session.multichequeAmount = amount.toString();
+        ctx.session.multichequeRefPercent = 0;
+        ctx.session.multichequeCaptcha = true;
+        ctx.session.multichequePremiumOnly = false;
 
-        // Show confirmation
-        logger.info('[Multicheque] Showing confirmation');
-        const currencyConfig = CurrencyConverter.getConfig(selectedCoin);
-        const confirmationMessage = ctx.t('multicheque-confirm-multicheque', {
-            amount: formatCurrency(amount),
-            emoji: currencyConfig.emoji,
-            name: currencyConfig.name
-        });
+        // Show options and confirmation
+        logger.info('[Multicheque] Showing options');
+        await showMultichequeOptions(ctx);
+    } catch (error) {
+        await errorHandler.handleConversationFlowError(ctx, error, 'multicheque', 'amount_input');
+    }
+}
+
+/**
+ * Handles returning to the options screen
+ */
+export async function handleMultichequeShowOptions(ctx: BotContext): Promise<void> {
+    const errorHandler = ErrorHandler.getInstance();
+    
+    try {
+        await errorHandler.safeAnswerCallbackQuery(ctx);
+        await showMultichequeOptions(ctx);
+    } catch (error) {
+        await errorHandler.handleConversationFlowError(ctx, error, 'multicheque', 'show_options');
+    }
+}
+
+/**
+ * Handles selection of a text option (password, description, referral percent)
+ */
+export async function handleMultichequeOptionSelection(ctx: BotContext): Promise<void> {
+    logger.info('[Multicheque] Option selection received');
+    
+    const validationService = ValidationService.getInstance();
+    const errorHandler = ErrorHandler.getInstance();
+    const messageService = MessageService.getInstance();
+    
+    try {
+        if (!validationService.validateCallbackContext(ctx)) {
+            throw new Error("Invalid context for option selection");
+        }
+
+        await errorHandler.safeAnswerCallbackQuery(ctx);
 
-        const keyboard = new InlineKeyboard()
-            .text(ctx.t('buttons-confirm'), "confirm_multicheque")
-            .row()
-            .text(ctx.t('buttons-cancel'), "main_menu");
+        if (!validationService.validateSession(ctx, ['selectedCoin', 'multichequeAmount', 'multichequeUsers'])) {
+            throw new Error("Session data missing. Please start over.");
+        }
 
-        await messageService.editMessage(ctx, confirmationMessage, keyboard);
+        const option = ctx.callbackQuery!.data!.replace('multicheque_option_', '');
+        logger.info('[Multicheque] Selected option:', option);
+
+        switch (option) {
+            case 'password':
+                ctx.session.step = "multicheque_password";
+                await messageService.editMessage(
+                    ctx,
+                    ctx.t('multicheque-enter-password', { max: MAX_PASSWORD_LENGTH }),
+                    createMultichequeOptionInputKeyboard(ctx, 'password')
+                );
+                break;
+            case 'description':
+                ctx.session.step = "multicheque_description";
+                await messageService.editMessage(
+                    ctx,
+                    ctx.t('multicheque-enter-description', { max: MAX_DESCRIPTION_LENGTH }),
+                    createMultichequeOptionInputKeyboard(ctx, 'description')
+                );
+                break;
+            case 'ref':
+                ctx.session.step = "multicheque_ref_percent";
+                await messageService.editMessage(
+                    ctx,
+                    ctx.t('multicheque-enter-ref-percent'),
+                    createMultichequeOptionInputKeyboard(ctx, 'ref')
+                );
+                break;
+            default:
+                throw new Error("Invalid callback data format");
+        }
     } catch (error) {
-        await errorHandler.handleConversationFlowError(ctx, error, 'multicheque', 'amount_input');
+        await errorHandler.handleConversationFlowError(ctx, error, 'multicheque', 'option_selection');
+    }
+}
+
+/**
+ * Handles text input for password, description and referral percent options
+ */
+export async function handleMultichequeOptionInput(ctx: BotContext): Promise<void> {
+    logger.info('[Multicheque] Option input received:', ctx.session.step);
+    
+    const validationService = ValidationService.getInstance();
+    const errorHandler = ErrorHandler.getInstance();
+    
+    try {
+        if (!validationService.validateMessageContext(ctx)) {
+            throw new Error("Invalid context for option input");
+        }
+
+        const text = ctx.message!.text!.trim();
+
+        switch (ctx.session.step) {
+            case "multicheque_password":
+                if (!text || text.length > MAX_PASSWORD_LENGTH) {
+                    throw new Error(ctx.t('multicheque-text-too-long', { max: MAX_PASSWORD_LENGTH }));
+                }
+                ctx.session.multichequePassword = text;
+                break;
+            case "multicheque_description":
+                if (!text || text.length > MAX_DESCRIPTION_LENGTH) {
+                    throw new Error(ctx.t('multicheque-text-too-long', { max: MAX_DESCRIPTION_LENGTH }));
+                }
+                ctx.session.multichequeDescription = text;
+                break;
+            case "multicheque_ref_percent": {
+                const percent = /^\d+$/.test(text) ? parseInt(text, 10) : NaN;
+                if (isNaN(percent) || percent > 100) {
+                    throw new Error(ctx.t('multicheque-invalid-ref-percent'));
+                }
+                ctx.session.multichequeRefPercent = percent;
+                break;
+            }
+            default:
+                throw new Error("Session data missing. Please start over.");
+        }
+
+        await showMultichequeOptions(ctx);
+    } catch (error) {
+        await errorHandler.handleConversationFlowError(ctx, error, 'multicheque', 'option_input');
+    }
+}
+
+/**
+ * Handles removing a text option
+ */
+export async function handleMultichequeClearOption(ctx: BotContext): Promise<void> {
+    const errorHandler = ErrorHandler.getInstance();
+    
+    try {
+        await errorHandler.safeAnswerCallbackQuery(ctx);
+
+        const option = ctx.callbackQuery?.data?.replace('multicheque_clear_', '');
+        if (option === 'password') {
+            ctx.session.multichequePassword = undefined;
+        } else if (option === 'description') {
+            ctx.session.multichequeDescription = undefined;
+        } else if (option === 'ref') {
+            ctx.session.multichequeRefPercent = 0;
+        }
+
+        await showMultichequeOptions(ctx);
+    } catch (error) {
+        await errorHandler.handleConversationFlowError(ctx, error, 'multicheque', 'clear_option');
+    }
+}
+
+/**
+ * Handles captcha and premium-only toggles
+ */
+export async function handleMultichequeToggle(ctx: BotContext): Promise<void> {
+    const errorHandler = ErrorHandler.getInstance();
+    
+    try {
+        await errorHandler.safeAnswerCallbackQuery(ctx);
+
+        const option = ctx.callbackQuery?.data?.replace('multicheque_toggle_', '');
+        if (option === 'captcha') {
+            ctx.session.multichequeCaptcha = !(ctx.session.multichequeCaptcha ?? true);
+        } else if (option === 'premium') {
+            ctx.session.multichequePremiumOnly = !(ctx.session.multichequePremiumOnly ?? false);
+        }
+
+        await showMultichequeOptions(ctx);
+    } catch (error) {
+        await errorHandler.handleConversationFlowError(ctx, error, 'multicheque', 'toggle_option');
     }
 }
 
@@ -200,62 +492,71 @@ export async function handleMultichequeConfirmation(ctx: BotContext): Promise<vo
         // Use safe callback query answering
         await errorHandler.safeAnswerCallbackQuery(ctx);
 
-        if (!validationService.validateSession(ctx, ['selectedCoin', 'multichequeAmount'])) {
+        if (!validationService.validateSession(ctx, ['selectedCoin', 'multichequeAmount', 'multichequeUsers'])) {
             throw new Error("Session data missing. Please start over.");
         }
 
         const selectedCoin = ctx.session.selectedCoin!;
-        const amount = ctx.session.multichequeAmount!;
+        const amount = Money.of(ctx.session.multichequeAmount!, selectedCoin);
+        const users = ctx.session.multichequeUsers!;
+        const total = amount.multipliedBy(users);
+        const options: ChequeOptions = {
+            password: ctx.session.multichequePassword,
+            description: ctx.session.multichequeDescription,
+            refProgramPercent: ctx.session.multichequeRefPercent ?? 0,
+            enableCaptcha: ctx.session.multichequeCaptcha ?? true,
+            forPremium: ctx.session.multichequePremiumOnly ?? false
+        };
 
         // Get user
         const userService = UserService.getInstance();
         const user = await userService.findOrCreateUser(ctx);
         logger.info('[Multicheque] User:', user);
 
-        // Check if user has sufficient balance
-        const balanceValidation = await validationService.validateBalance(user, selectedCoin, amount);
+        // Check if user has sufficient balance for all activations
+        const balanceValidation = await validationService.validateBalance(user, selectedCoin, total);
         if (!balanceValidation.isValid) {
             throw new Error(balanceValidation.errorMessage!);
         }
 
-        // Create cheque record
-        logger.info('[Multicheque] Creating cheque record');
-        const chequeRepo = AppDataSource.getRepository(UserCheque);
-        const cheque = UserCheque.create(user, amount, selectedCoin, 1);
-        const savedCheque = await chequeRepo.save(cheque);
-        logger.info('[Multicheque] Cheque record created:', savedCheque);
-
-        // Create multicheque via XRocketPay
-        logger.info('[Multicheque] Creating multicheque via XRocketPay');
-        const xrocketPay = XRocketPayService.getInstance();
-        const { chequeId, link } = await xrocketPay.createMulticheque(cheque);
-        logger.info('[Multicheque] XRocketPay response:', { chequeId, link });
-
-        // Update cheque with payment details
-        savedCheque.chequeId = chequeId;
-        savedCheque.link = link;
-        const updatedCheque = await chequeRepo.save(savedCheque);
-        logger.info('[Multicheque] Cheque updated:', updatedCheque);
+        // Create cheque record, debit balance and create multicheque via XRocketPay
+        logger.info('[Multicheque] Executing multicheque via TransactionService');
+        const transactionService = TransactionService.getInstance();
+        const updatedCheque = await transactionService.executeMulticheque(
+            user,
+            amount,
+            users,
+            options,
+            AuditService.getInstance().actorFromContext(ctx)
+        );
+        const chequeId = updatedCheque.chequeId!;
+        const link = updatedCheque.link!;
+        logger.info('[Multicheque] Cheque created:', { chequeId, link });
 
         // Clear session
-        ctx.session.selectedCoin = undefined;
-        ctx.session.multichequeAmount = undefined;
+        clearMultichequeSession(ctx);
         ctx.session.step = undefined;
 
         // Show success message
         logger.info('[Multicheque] Showing success message');
         const currencyConfig = CurrencyConverter.getConfig(selectedCoin);
-        const successMessage = ctx.t('multicheque-multicheque-success', {
+        let successMessage = ctx.t('multicheque-multicheque-success', {
             amount: formatCurrency(amount),
+            users: users,
+            total: formatCurrency(total),
             emoji: currencyConfig.emoji,
             name: currencyConfig.name,
             chequeId: chequeId,
             link: link
         });
 
+        if (options.password) {
+            successMessage += `\n${ctx.t('cheques-password')} <code>${messageService.escapeHtml(options.password)}</code>`;
+        }
+
         await messageService.editMessage(ctx, successMessage, createChequeDetailKeyboard(updatedCheque, ctx));
         logger.info('[Multicheque] Multicheque flow completed');
     } catch (error) {
-        await errorHandler.handleConversationFlowError(ctx, error, 'multicheque', 'confirmation');
+        await errorHandler.handleConversationFlowError(ctx, validationService.localizeLimitError(ctx, error), 'multicheque', 'confirmation');
     }
-} 
\ No newline at end of file
+}
@@ -7,9 +7,11 @@ import { formatCurrency } from "../utils/formatters";
 import { UserService } from "../../services/user";
 import { XRocketPayService } from "../../services/xrocket-pay";
 import { CurrencyConverter, InternalCurrency } from "../../types/currency";
+import { Money } from "../../types/money";
 import { InlineKeyboard } from "grammy";
 import logger from '../../utils/logger';
 import { TransactionService } from "../../services/transaction";
+import { AuditService } from "../../services/audit";
 import { ValidationService } from "../utils/validation";
 import { ErrorHandler, ErrorType } from "../utils/error-handler";
 import { MessageService } from "../services/message-service";
@@ -121,29 +123,35 @@ export async function handleTransferAmountInput(ctx: BotContext): Promise<void>
             throw new Error("Invalid context for amount input");
         }
 
-        const amount = validationService.validateAmount(ctx.message!.text!);
-        logger.info('[Transfer] Parsed amount:', amount);
         logger.info('[Transfer] Current session before storing amount:', {
             step: ctx.session.step,
             selectedCoin: ctx.session.selectedCoin,
             transferAmount: ctx.session.transferAmount
         });
 
-        if (!amount) {
-            throw new Error("Invalid amount. Please try again.");
-        }
-
         if (!validationService.validateSession(ctx, ['selectedCoin'])) {
             throw new Error("No currency selected. Please start over.");
         }
 
         const selectedCoin = ctx.session.selectedCoin!;
 
+        const amount = validationService.validateAmount(ctx.message!.text!, selectedCoin);
+        logger.info('[Transfer] Parsed amount:', amount);
+
+        if (!amount) {
+            throw new Error(validationService.getInvalidAmountMessage(selectedCoin));
+        }
+
         // Get user
         const userService = UserService.getInstance();
         const user = await userService.findOrCreateUser(ctx);
         logger.info('[Transfer] User:', user);
 
+        const limitValidation = await validationService.validateLimits(ctx, user, 'transfer', amount);
+        if (!limitValidation.isValid) {
+            throw new Error(limitValidation.errorMessage!);
+        }
+
         // Check if user has sufficient balance
         const balanceValidation = await validationService.validateBalance(user, selectedCoin, amount);
         if (!balanceValidation.isValid) {
@@ -151,7 +159,7 @@ export async function handleTransferAmountInput(ctx: BotContext): Promise<void>
         }
 
         // Store amount in session
-        ctx.session.transferAmount = amount;
+        ctx.session.transferAmount = amount.toString();
         ctx.session.step = "transfer_recipient";
         
         logger.info('[Transfer] Session after storing amount:', {
@@ -164,16 +172,11 @@ export async function handleTransferAmountInput(ctx: BotContext): Promise<void>
         logger.info('[Transfer] Asking for recipient ID');
         const currencyConfig = CurrencyConverter.getConfig(selectedCoin);
         const formattedAmount = formatCurrency(amount);
-        logger.info('[Transfer] Amount formatting:', {
-            originalAmount: amount,
-            formattedAmount: formattedAmount,
-            amountType: typeof amount
-        });
         await messageService.editMessage(
             ctx,
             ctx.t('transfer-enter-recipient', {
                 userId: ctx.from?.id?.toString().replace(/\s/g, '') || 'Unknown',
-                amount: amount,
+                amount: formattedAmount,
                 emoji: currencyConfig.emoji,
                 name: currencyConfig.name
             }),
@@ -218,7 +221,7 @@ export async function handleTransferRecipientInput(ctx: BotContext): Promise<voi
     }
 
     const selectedCoin = ctx.session.selectedCoin!;
-    const amount = ctx.session.transferAmount!;
+    const amount = Money.of(ctx.session.transferAmount!, selectedCoin);
 
     // Get user
     const userService = UserService.getInstance();
@@ -276,7 +279,7 @@ export async function handleTransferConfirmation(ctx: BotContext): Promise<void>
         }
 
         const selectedCoin = ctx.session.selectedCoin!;
-        const amount = ctx.session.transferAmount!;
+        const amount = Money.of(ctx.session.transferAmount!, selectedCoin);
         const recipientId = ctx.session.transferRecipientId!;
 
         // Get user
@@ -293,7 +296,12 @@ export async function handleTransferConfirmation(ctx: BotContext): Promise<void>
         // Execute transfer
         logger.info('[Transfer] Executing transfer');
         const transactionService = TransactionService.getInstance();
-        const transfer = await transactionService.executeTransfer(user, selectedCoin, amount, recipientId.toString());
+        const transfer = await transactionService.executeTransfer(
+            user,
+            amount,
+            recipientId.toString(),
+            AuditService.getInstance().actorFromContext(ctx)
+        );
         logger.info('[Transfer] Transfer executed:', transfer);
 
         // Clear session
@@ -316,6 +324,6 @@ export async function handleTransferConfirmation(ctx: BotContext): Promise<void>
         await messageService.editMessage(ctx, successMessage, createMainMenuKeyboard(ctx));
         logger.info('[Transfer] Transfer flow completed');
     } catch (error) {
-        await errorHandler.handleConversationFlowError(ctx, error, 'transfer', 'confirmation');
+        await errorHandler.handleConversationFlowError(ctx, validationService.localizeLimitError(ctx, error), 'transfer', 'confirmation');
     }
 } 
\ No newline at end of file
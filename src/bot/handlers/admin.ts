@@ -0,0 +1,522 @@
+import { BotContext } from "../../types/bot";
+import { User, UserStatus } from "../../entities/user";
+import { AdminService } from "../../services/admin";
+import { UserService } from "../../services/user";
+import { LimitService } from "../../services/limit";
+import { AuditService } from "../../services/audit";
+import { SessionService } from "../../services/session";
+import { ADMIN_CONFIG } from "../../config/admin";
+import { LIMIT_KINDS, LIMIT_OPERATIONS, LimitKind, LimitOperation, LimitOverrideValue, UNLIMITED } from "../../config/limits";
+import { CURRENCIES, CurrencyConverter, InternalCurrency } from "../../types/currency";
+import { formatCurrency, formatDate } from "../utils/formatters";
+import { ValidationService } from "../utils/validation";
+import { ErrorHandler, ErrorType } from "../utils/error-handler";
+import logger from '../../utils/logger';
+
+const errorHandler = ErrorHandler.getInstance();
+
+/**
+ * Checks that the sender is an admin. Non-admins get no reply so the commands stay hidden
+ */
+function isAdminContext(ctx: BotContext): boolean {
+    const isAdmin = AdminService.getInstance().isAdmin(ctx.from?.id);
+    if (!isAdmin) {
+        logger.warn('[Admin] Ignoring admin command from non-admin:', ctx.from?.id);
+    }
+    return isAdmin;
+}
+
+/**
+ * Splits the text after the command into whitespace separated arguments
+ */
+function getArguments(ctx: BotContext): string[] {
+    return typeof ctx.match === 'string' ? ctx.match.trim().split(/\s+/).filter(arg => arg !== '') : [];
+}
+
+/**
+ * Parses a currency argument such as "usdt"
+ */
+function parseCurrency(value: string): InternalCurrency | null {
+    const currency = value.toUpperCase();
+    return CurrencyConverter.isSupportedInternal(currency) ? currency as InternalCurrency : null;
+}
+
+/**
+ * Looks up the user an admin command refers to, replying if they don't exist
+ */
+async function findTargetUser(ctx: BotContext, query: string): Promise<User | null> {
+    const user = await AdminService.getInstance().findUser(query);
+    if (!user) {
+        await ctx.reply(ctx.t('admin-user-not-found', { query }));
+    }
+    return user;
+}
+
+/**
+ * Reports a failed admin command to the admin
+ */
+async function replyWithError(ctx: BotContext, error: unknown, action: string): Promise<void> {
+    errorHandler.logError(error, ErrorType.UNKNOWN_ERROR, {
+        conversation: 'admin',
+        action,
+        data: { adminTelegramId: ctx.from?.id, arguments: ctx.match }
+    });
+    await ctx.reply(ctx.t('admin-command-failed', {
+        error: error instanceof Error ? error.message : String(error)
+    }));
+}
+
+/**
+ * Handles the /admin command
+ */
+export async function handleAdminHelp(ctx: BotContext): Promise<void> {
+    if (!isAdminContext(ctx)) {
+        return;
+    }
+
+    await ctx.reply(ctx.t('admin-help'));
+}
+
+/**
+ * Handles the /user command: shows a user's details, balances and recent activity
+ */
+export async function handleAdminUser(ctx: BotContext): Promise<void> {
+    if (!isAdminContext(ctx)) {
+        return;
+    }
+
+    const [query] = getArguments(ctx);
+    if (!query) {
+        await ctx.reply(ctx.t('admin-usage-user'));
+        return;
+    }
+
+    try {
+        const user = await findTargetUser(ctx, query);
+        if (!user) {
+            return;
+        }
+
+        const adminService = AdminService.getInstance();
+        const balances = await UserService.getInstance().getUserBalances(user);
+        const activity = await adminService.getRecentActivity(user);
+        const overrides = await LimitService.getInstance().getOverrides(user);
+        const none = ctx.t('admin-none');
+
+        const lines = [
+            ctx.t('admin-user-details', {
+                id: user.id,
+                telegramId: user.telegramId.toString(),
+                username: user.username,
+                language: user.language || none,
+                status: user.status,
+                createdAt: formatDate(user.createdAt)
+            }),
+            '',
+            ctx.t('admin-section-balances'),
+            ...(balances.length > 0
+                ? balances.map(balance => `${formatCurrency(balance.amount)} ${balance.coin}`)
+                : [none]),
+            '',
+            ctx.t('admin-section-invoices'),
+            ...(activity.invoices.length > 0
+                ? activity.invoices.map(invoice => ctx.t('admin-invoice-item', {
+                    id: invoice.id,
+                    amount: formatCurrency(invoice.amount),
+                    currency: invoice.currency,
+                    status: invoice.status,
+                    date: formatDate(invoice.createdAt)
+                }))
+                : [none]),
+            '',
+            ctx.t('admin-section-transfers'),
+            ...(activity.transfers.length > 0
+                ? activity.transfers.map(transfer => ctx.t('admin-transfer-item', {
+                    id: transfer.id,
+                    amount: formatCurrency(transfer.amount),
+                    currency: transfer.currency,
+                    recipient: transfer.recipientTelegramId.toString(),
+                    status: transfer.status,
+                    date: formatDate(transfer.createdAt)
+                }))
+                : [none]),
+            '',
+            ctx.t('admin-section-withdrawals'),
+            ...(activity.withdrawals.length > 0
+                ? activity.withdrawals.map(withdrawal => ctx.t('admin-withdrawal-item', {
+                    id: withdrawal.id,
+                    amount: formatCurrency(withdrawal.amount),
+                    currency: withdrawal.currency,
+                    network: withdrawal.network,
+                    status: withdrawal.status,
+                    date: formatDate(withdrawal.createdAt)
+                }))
+                : [none])
+        ];
+
+        if (overrides.length > 0) {
+            lines.push('', ctx.t('admin-section-limits'));
+            for (const override of overrides) {
+                const limits = override.getLimits();
+                const setLimits = LIMIT_KINDS.flatMap(kind => {
+                    const limit = limits[kind];
+                    if (limit === null) {
+                        return [];
+                    }
+                    return [`${kind} ${limit === UNLIMITED ? UNLIMITED : formatCurrency(limit)}`];
+                });
+                lines.push(ctx.t('admin-limit-item', {
+                    operation: override.operation,
+                    currency: override.coin,
+                    limits: setLimits.join(', ')
+                }));
+            }
+        }
+
+        await ctx.reply(lines.join('\n'));
+    } catch (error) {
+        await replyWithError(ctx, error, 'user_lookup');
+    }
+}
+
+/**
+ * Credits (direction 1) or debits (direction -1) a user's balance
+ * Expects: <user> <amount> <currency> <reason...>
+ */
+async function handleAdminBalanceChange(ctx: BotContext, direction: 1 | -1): Promise<void> {
+    if (!isAdminContext(ctx)) {
+        return;
+    }
+
+    const command = direction > 0 ? 'credit' : 'debit';
+    const [query, amountText, currencyText, ...reasonWords] = getArguments(ctx);
+    if (!query || !amountText || !currencyText || reasonWords.length === 0) {
+        await ctx.reply(ctx.t('admin-usage-balance', { command }));
+        return;
+    }
+
+    const currency = parseCurrency(currencyText);
+    if (!currency) {
+        await ctx.reply(ctx.t('admin-invalid-currency', {
+            currency: currencyText,
+            currencies: Object.keys(CURRENCIES).join(', ')
+        }));
+        return;
+    }
+
+    const amount = ValidationService.getInstance().validateAmount(amountText, currency);
+    if (!amount) {
+        await ctx.reply(ValidationService.getInstance().getInvalidAmountMessage(currency));
+        return;
+    }
+
+    try {
+        const user = await findTargetUser(ctx, query);
+        if (!user) {
+            return;
+        }
+
+        const change = direction > 0 ? amount : amount.negated();
+        const balance = await AdminService.getInstance().adjustBalance(ctx.from!.id, user, currency, change, reasonWords.join(' '));
+
+        await ctx.reply(ctx.t(direction > 0 ? 'admin-balance-credited' : 'admin-balance-debited', {
+            amount: formatCurrency(amount),
+            currency,
+            id: user.id,
+            balance: formatCurrency(balance.amount)
+        }));
+    } catch (error) {
+        await replyWithError(ctx, error, `balance_${command}`);
+    }
+}
+
+/**
+ * Handles the /credit command
+ */
+export async function handleAdminCredit(ctx: BotContext): Promise<void> {
+    await handleAdminBalanceChange(ctx, 1);
+}
+
+/**
+ * Handles the /debit command
+ */
+export async function handleAdminDebit(ctx: BotContext): Promise<void> {
+    await handleAdminBalanceChange(ctx, -1);
+}
+
+/**
+ * Sets a user's status, expects: <user>
+ */
+async function handleAdminStatusChange(ctx: BotContext, status: UserStatus, command: string): Promise<void> {
+    if (!isAdminContext(ctx)) {
+        return;
+    }
+
+    const [query] = getArguments(ctx);
+    if (!query) {
+        await ctx.reply(ctx.t('admin-usage-status', { command }));
+        return;
+    }
+
+    try {
+        const user = await findTargetUser(ctx, query);
+        if (!user) {
+            return;
+        }
+
+        await AdminService.getInstance().setUserStatus(ctx.from!.id, user, status);
+        await ctx.reply(ctx.t(`admin-user-${status}`, { id: user.id }));
+    } catch (error) {
+        await replyWithError(ctx, error, `user_${command}`);
+    }
+}
+
+/**
+ * Handles the /block command
+ */
+export async function handleAdminBlock(ctx: BotContext): Promise<void> {
+    await handleAdminStatusChange(ctx, 'banned', 'block');
+}
+
+/**
+ * Handles the /unblock command
+ */
+export async function handleAdminUnblock(ctx: BotContext): Promise<void> {
+    await handleAdminStatusChange(ctx, 'active', 'unblock');
+}
+
+/**
+ * Handles the /freeze command
+ */
+export async function handleAdminFreeze(ctx: BotContext): Promise<void> {
+    await handleAdminStatusChange(ctx, 'frozen', 'freeze');
+}
+
+/**
+ * Handles the /unfreeze command
+ */
+export async function handleAdminUnfreeze(ctx: BotContext): Promise<void> {
+    await handleAdminStatusChange(ctx, 'active', 'unfreeze');
+}
+
+/**
+ * Handles the /setlimit command, expects: <user> <operation> <currency> <min|max|daily|monthly> <amount|unlimited|default>
+ */
+export async function handleAdminSetLimit(ctx: BotContext): Promise<void> {
+    if (!isAdminContext(ctx)) {
+        return;
+    }
+
+    const [query, operationText, currencyText, kindText, amountText] = getArguments(ctx);
+    const operation = operationText?.toLowerCase() as LimitOperation;
+    const kind = kindText?.toLowerCase() as LimitKind;
+    const currency = currencyText ? parseCurrency(currencyText) : null;
+
+    if (!query || !LIMIT_OPERATIONS.includes(operation) || !currency || !LIMIT_KINDS.includes(kind) || !amountText) {
+        await ctx.reply(ctx.t('admin-usage-setlimit', {
+            operations: LIMIT_OPERATIONS.join('|'),
+            currencies: Object.keys(CURRENCIES).join('|')
+        }));
+        return;
+    }
+
+    let limit: LimitOverrideValue = null;
+    if (amountText.toLowerCase() === UNLIMITED) {
+        limit = UNLIMITED;
+    } else if (amountText.toLowerCase() !== 'default') {
+        limit = ValidationService.getInstance().validateAmount(amountText, currency);
+        if (!limit) {
+            await ctx.reply(ValidationService.getInstance().getInvalidAmountMessage(currency));
+            return;
+        }
+    }
+
+    try {
+        const user = await findTargetUser(ctx, query);
+        if (!user) {
+            return;
+        }
+
+        await LimitService.getInstance().setOverrideLimit(user, operation, currency, kind, limit);
+        logger.info('[Admin] Limit override changed by admin:', { adminTelegramId: ctx.from?.id, userId: user.id, operation, currency, kind, limit });
+
+        if (limit === UNLIMITED) {
+            await ctx.reply(ctx.t('admin-limit-unlimited', { id: user.id, operation, kind, currency }));
+        } else {
+            await ctx.reply(limit
+                ? ctx.t('admin-limit-set', { id: user.id, operation, kind, limit: formatCurrency(limit), currency })
+                : ctx.t('admin-limit-reset', { id: user.id, operation, kind, currency }));
+        }
+    } catch (error) {
+        await replyWithError(ctx, error, 'set_limit');
+    }
+}
+
+/**
+ * Handles the /audit command: shows a user's latest balance changes, expects: <user> [currency]
+ */
+export async function handleAdminAudit(ctx: BotContext): Promise<void> {
+    if (!isAdminContext(ctx)) {
+        return;
+    }
+
+    const [query, currencyText] = getArguments(ctx);
+    const currency = currencyText ? parseCurrency(currencyText) : undefined;
+    if (!query || currency === null) {
+        await ctx.reply(ctx.t('admin-usage-audit'));
+        return;
+    }
+
+    try {
+        const user = await findTargetUser(ctx, query);
+        if (!user) {
+            return;
+        }
+
+        const entries = await AuditService.getInstance().getUserTimeline(user, {
+            currency,
+            limit: ADMIN_CONFIG.AUDIT_ITEMS
+        });
+
+        const lines = [
+            ctx.t('admin-section-audit', { id: user.id }),
+            ...(entries.length > 0
+                ? entries.map(entry => ctx.t('admin-audit-item', {
+                    id: entry.id,
+                    date: formatDate(entry.createdAt),
+                    action: entry.targetId !== null ? `${entry.action} (${entry.targetType} #${entry.targetId})` : entry.action,
+                    amount: `${entry.amount.isPositive() ? '+' : ''}${formatCurrency(entry.amount)}`,
+                    currency: entry.coin,
+                    before: formatCurrency(entry.balanceBefore),
+                    after: formatCurrency(entry.balanceAfter),
+                    actor: entry.actorId ? `${entry.actorType} ${entry.actorId}` : entry.actorType
+                }))
+                : [ctx.t('admin-none')])
+        ];
+
+        await ctx.reply(lines.join('\n'));
+    } catch (error) {
+        await replyWithError(ctx, error, 'audit');
+    }
+}
+
+/**
+ * Handles the /mismatches command: lists invoice payments of a different amount than requested awaiting review
+ */
+export async function handleAdminMismatches(ctx: BotContext): Promise<void> {
+    if (!isAdminContext(ctx)) {
+        return;
+    }
+
+    try {
+        const payments = await AdminService.getInstance().getPaymentsToReview();
+
+        const lines = [
+            ctx.t('admin-section-mismatches'),
+            ...(payments.length > 0
+                ? payments.map(payment => ctx.t('admin-mismatch-item', {
+                    id: payment.id,
+                    invoiceId: payment.userInvoiceId,
+                    userId: payment.invoice.user.id,
+                    mismatch: payment.mismatch!,
+                    paid: formatCurrency(payment.amount),
+                    requested: formatCurrency(payment.requestedAmount),
+                    received: formatCurrency(payment.amountReceived),
+                    currency: payment.currency,
+                    date: formatDate(payment.createdAt)
+                }))
+                : [ctx.t('admin-none')])
+        ];
+
+        await ctx.reply(lines.join('\n'));
+    } catch (error) {
+        await replyWithError(ctx, error, 'mismatches');
+    }
+}
+
+/**
+ * Handles the /reviewed command: marks a flagged invoice payment as reviewed, expects: <payment id>
+ */
+export async function handleAdminReviewed(ctx: BotContext): Promise<void> {
+    if (!isAdminContext(ctx)) {
+        return;
+    }
+
+    const [paymentIdText] = getArguments(ctx);
+    if (!paymentIdText || !/^\d+$/.test(paymentIdText)) {
+        await ctx.reply(ctx.t('admin-usage-reviewed'));
+        return;
+    }
+
+    try {
+        const paymentId = Number(paymentIdText);
+        const payment = await AdminService.getInstance().markPaymentReviewed(ctx.from!.id, paymentId);
+        if (!payment) {
+            await ctx.reply(ctx.t('admin-payment-not-flagged', { id: paymentId }));
+            return;
+        }
+
+        await ctx.reply(ctx.t('admin-payment-reviewed', { id: payment.id }));
+    } catch (error) {
+        await replyWithError(ctx, error, 'reviewed');
+    }
+}
+
+/**
+ * Handles the /session command: shows the stored session of a user, expects: <user>
+ */
+export async function handleAdminSession(ctx: BotContext): Promise<void> {
+    if (!isAdminContext(ctx)) {
+        return;
+    }
+
+    const [query] = getArguments(ctx);
+    if (!query) {
+        await ctx.reply(ctx.t('admin-usage-session', { command: 'session' }));
+        return;
+    }
+
+    try {
+        const user = await findTargetUser(ctx, query);
+        if (!user) {
+            return;
+        }
+
+        const session = await SessionService.getInstance().getUserSession(user);
+        await ctx.reply(session
+            ? ctx.t('admin-session-details', { id: user.id, session: JSON.stringify(session, null, 2) })
+            : ctx.t('admin-session-empty', { id: user.id }));
+    } catch (error) {
+        await replyWithError(ctx, error, 'session');
+    }
+}
+
+/**
+ * Handles the /clearsession command: deletes a user's session so their next message starts from the main menu, expects: <user>
+ */
+export async function handleAdminClearSession(ctx: BotContext): Promise<void> {
+    if (!isAdminContext(ctx)) {
+        return;
+    }
+
+    const [query] = getArguments(ctx);
+    if (!query) {
+        await ctx.reply(ctx.t('admin-usage-session', { command: 'clearsession' }));
+        return;
+    }
+
+    try {
+        const user = await findTargetUser(ctx, query);
+        if (!user) {
+            return;
+        }
+
+        const cleared = await SessionService.getInstance().clearUserSession(user);
+        logger.info('[Admin] Session cleared by admin:', { adminTelegramId: ctx.from?.id, userId: user.id, cleared });
+        await ctx.reply(cleared
+            ? ctx.t('admin-session-cleared', { id: user.id })
+            : ctx.t('admin-session-empty', { id: user.id }));
+    } catch (error) {
+        await replyWithError(ctx, error, 'clear_session');
+    }
+}
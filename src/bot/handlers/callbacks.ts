@@ -1,4 +1,9 @@
 import { UserService } from "../../services/user";
+import { TransactionService } from "../../services/transaction";
+import { WithdrawalStatusService } from "../../services/withdrawal-status";
+import { ChequeService } from "../../services/cheque";
+import { AuditService } from "../../services/audit";
+import { MetricsService } from "../../services/metrics";
 import { BotContext } from "../../types/bot";
 import { createMainMenuKeyboard, createWithdrawMenuKeyboard } from "../keyboards/main";
 import { createCoinSelectionKeyboard } from "../keyboards/deposit";
@@ -7,6 +12,7 @@ import { createInvoiceDetailKeyboard } from "../keyboards/invoices";
 import { handleCurrencySelection, handleAmountInput } from "../conversations/deposit";
 import { AppDataSource } from "../../config/database";
 import { UserInvoice } from "../../entities/user-invoice";
+import { InvoicePayment } from "../../entities/invoice-payment";
 import { XRocketPayService } from "../../services/xrocket-pay";
 import logger from "../../utils/logger";
 import { handleTransferFlow } from "../conversations/transfer";
@@ -16,8 +22,9 @@ import { handleExternalWithdrawalFlow } from "../conversations/external-withdraw
 import { createWithdrawalDetailKeyboard, createWithdrawalsKeyboard, createWithdrawalHistoryMenuKeyboard } from "../keyboards/withdrawal";
 import { UserWithdrawal } from "../../entities/user-withdrawal";
 import { CurrencyConverter, InternalCurrency } from "../../types/currency";
+import { Money } from "../../types/money";
 import { createTransfersKeyboard, createTransferDetailKeyboard } from "../keyboards/transfer";
-import { createChequesKeyboard, createChequeDetailKeyboard } from "../keyboards/cheque";
+import { createChequesKeyboard, createChequeDetailKeyboard, createChequeCancelConfirmKeyboard } from "../keyboards/cheque";
 import { UserTransfer } from "../../entities/user-transfer";
 import { formatCurrency, formatDate } from "../utils/formatters";
 import { ValidationService } from "../utils/validation";
@@ -263,6 +270,9 @@ export async function handleInvoiceDetail(ctx: BotContext): Promise<void> {
             await invoiceRepo.update(invoice.id, {
                 status: newStatus
             });
+            if (newStatus === 'expired') {
+                MetricsService.getInstance().recordInvoice('expired', invoice.currency);
+            }
         }
     } catch (error) {
         errorHandler.logError(error, ErrorType.API_ERROR, {
@@ -348,61 +358,52 @@ export async function handleCheckPayment(ctx: BotContext): Promise<void> {
 
     try {
         const xrocketPay = XRocketPayService.getInstance();
-        const xrocketResponse = await xrocketPay.checkInvoiceStatus(invoice.invoiceId);
+        const { status, payments } = await xrocketPay.getInvoicePayments(invoice);
         
-        logger.info('[HandleCheckPayment] xRocket Pay response:', xrocketResponse);
+        logger.info('[HandleCheckPayment] xRocket Pay response:', { status, payments: payments.length });
         logger.info('[HandleCheckPayment] Current DB status:', invoice.status);
-        
-        if (xrocketResponse.status && xrocketResponse.status.toLowerCase() === 'paid' && invoice.status !== 'paid') {
-            logger.info('[HandleCheckPayment] Payment confirmed, updating status');
-            
-            // Update invoice status
-            await invoiceRepo.update(invoice.id, {
-                status: 'paid'
-            });
 
-            // Calculate the amount to add based on paymentAmountReceived
-            let amountToAdd: number;
-            let paymentAmountReceived: number | undefined;
-            
-            if (xrocketResponse.data && xrocketResponse.data.payments && xrocketResponse.data.payments.length > 0) {
-                // Use paymentAmountReceived from the first payment
-                amountToAdd = xrocketResponse.data.payments[0].paymentAmountReceived;
-                paymentAmountReceived = amountToAdd;
-                logger.info('[HandleCheckPayment] Using paymentAmountReceived:', {
-                    paymentAmount: xrocketResponse.data.payments[0].paymentAmount,
-                    paymentAmountReceived: amountToAdd,
-                    fee: xrocketResponse.data.payments[0].paymentAmount - amountToAdd
-                });
-            } else {
-                // Fallback to original amount if payment data not available
-                amountToAdd = parseFloat(invoice.amount.toString());
-                logger.info('[HandleCheckPayment] Using fallback amount:', amountToAdd);
-            }
-
-            // Update invoice with paymentAmountReceived if available
-            if (paymentAmountReceived !== undefined) {
-                await invoiceRepo.update(invoice.id, {
-                    paymentAmountReceived: paymentAmountReceived
+        // Store and credit every payment made so far, those already credited are skipped
+        const userService = UserService.getInstance();
+        const transactionService = TransactionService.getInstance();
+        const actor = AuditService.getInstance().actorFromContext(ctx);
+        const creditedPayments: InvoicePayment[] = [];
+        if (invoice.status !== 'paid') {
+            for (const payment of payments) {
+                logger.info('[HandleCheckPayment] Payment details:', {
+                    paymentNum: payment.paymentNum,
+                    paymentAmount: payment.amount,
+                    paymentAmountReceived: payment.amountReceived,
+                    fee: payment.amount.minus(payment.amountReceived)
                 });
+                const storedPayment = await transactionService.processInvoicePayment(invoice, payment, actor);
+                if (storedPayment) {
+                    creditedPayments.push(storedPayment);
+                }
             }
-
-            logger.info('[HandleCheckPayment] Updating user balance');
-            // Update user balance using paymentAmountReceived (amount after fees)
-            const userService = UserService.getInstance();
-            
-            logger.info('[HandleCheckPayment] Amount details:', {
-                originalAmount: invoice.amount,
-                amountToAdd: amountToAdd,
-                currency: invoice.currency
-            });
-            
-            await userService.updateBalance(invoice.user, invoice.currency as any, amountToAdd);
+        }
+        
+        if (creditedPayments.length > 0) {
+            logger.info('[HandleCheckPayment] Payment confirmed, credited payments:', creditedPayments.length);
+
+            // Explain every payment credited with a different amount than requested
+            const currencyConfig = CurrencyConverter.getConfig(invoice.currency as InternalCurrency);
+            const mismatchInfo = creditedPayments
+                .filter(payment => payment.mismatch)
+                .map(payment => ctx.t(`deposit-payment-${payment.mismatch}`, {
+                    paid: formatCurrency(payment.amount),
+                    requested: formatCurrency(payment.requestedAmount),
+                    received: formatCurrency(payment.amountReceived),
+                    emoji: currencyConfig.emoji,
+                    name: currencyConfig.name
+                }));
 
             logger.info('[HandleCheckPayment] Getting updated balances');
             // Show updated balance
             const balances = await userService.getUserBalances(invoice.user);
-            const message = "✅ Payment confirmed! Your balance has been updated.\n\n" + userService.formatBalanceMessage(balances, ctx);
+            const message = "✅ Payment confirmed! Your balance has been updated.\n\n"
+                + mismatchInfo.map(info => info + '\n\n').join('')
+                + userService.formatBalanceMessage(balances, ctx);
             
             logger.info('[HandleCheckPayment] Sending success message');
             await messageService.editMessage(
@@ -449,6 +450,12 @@ export async function handleDeleteInvoice(ctx: BotContext): Promise<void> {
         return;
     }
 
+    // Payments are kept with their invoice, so invoices that received any can't be deleted
+    if (invoice.paymentsCount > 0) {
+        await messageService.showError(ctx, ctx.t('error-invoice-has-payments'));
+        return;
+    }
+
     // Delete the invoice
     await invoiceRepo.remove(invoice);
 
@@ -564,26 +571,10 @@ export async function handleWithdrawalDetail(ctx: BotContext): Promise<void> {
     // Fetch latest status from xRocket Pay if we have a withdrawal ID
     if (withdrawal.withdrawalId) {
         try {
-            const xrocketPay = XRocketPayService.getInstance();
-            const statusResponse = await xrocketPay.getWithdrawalStatus(withdrawal.withdrawalId);
-            
-            logger.info('[HandleWithdrawalDetail] xRocket Pay status response:', statusResponse);
-            
-            if (statusResponse.success && statusResponse.data) {
-                const xrocketStatus = statusResponse.data.status;
-                logger.info('[HandleWithdrawalDetail] xRocket Pay status:', xrocketStatus);
-                
-                // Update database if status changed
-                if (withdrawal.status !== xrocketStatus) {
-                    logger.info('[HandleWithdrawalDetail] Status changed from', withdrawal.status, 'to', xrocketStatus);
-                    await withdrawalRepo.update(withdrawal.id, {
-                        status: xrocketStatus,
-                        txHash: statusResponse.data.txHash || withdrawal.txHash,
-                        txLink: statusResponse.data.txLink || withdrawal.txLink,
-                        error: statusResponse.data.error || withdrawal.error
-                    });
-                }
-            }
+            // Syncing also refunds failed withdrawals and notifies the user
+            const withdrawalStatusService = WithdrawalStatusService.getInstance();
+            const syncedWithdrawal = await withdrawalStatusService.syncWithdrawal(withdrawal);
+            logger.info('[HandleWithdrawalDetail] xRocket Pay status:', syncedWithdrawal.status);
         } catch (error) {
             errorHandler.logError(error, ErrorType.API_ERROR, {
                 conversation: 'callback_handlers',
@@ -613,7 +604,7 @@ export async function handleWithdrawalDetail(ctx: BotContext): Promise<void> {
     let detailMessage = `${ctx.t('withdrawals-details-title')}\n\n` +
         `${ctx.t('withdrawals-amount')} ${formatCurrency(updatedWithdrawal.amount)} ${currencyConfig.emoji} ${currencyConfig.name}\n` +
         `${ctx.t('withdrawals-fee')} ${formatCurrency(updatedWithdrawal.fee)} ${currencyConfig.name}\n` +
-        `${ctx.t('withdrawals-total')} ${formatCurrency(updatedWithdrawal.amount + updatedWithdrawal.fee)} ${currencyConfig.name}\n` +
+        `${ctx.t('withdrawals-total')} ${formatCurrency(updatedWithdrawal.amount.plus(updatedWithdrawal.fee))} ${currencyConfig.name}\n` +
         `${ctx.t('withdrawals-network')} ${updatedWithdrawal.network}\n` +
         `${ctx.t('withdrawals-address')} ${updatedWithdrawal.address}\n` +
         `${ctx.t('withdrawals-status')} ${statusEmoji} ${updatedWithdrawal.status}\n` +
@@ -673,67 +664,46 @@ export async function handleCheckWithdrawalStatus(ctx: BotContext): Promise<void
     }
 
     try {
-        const xrocketPay = XRocketPayService.getInstance();
-        const statusResponse = await xrocketPay.getWithdrawalStatus(withdrawal.withdrawalId);
+        // Syncing also refunds failed withdrawals and notifies the user
+        const withdrawalStatusService = WithdrawalStatusService.getInstance();
+        const updatedWithdrawal = await withdrawalStatusService.syncWithdrawal(withdrawal);
+        const newStatus = updatedWithdrawal.status;
         
-        if (statusResponse.success && statusResponse.data) {
-            const newStatus = statusResponse.data.status;
+        // Update the message if status changed
+        if (withdrawal.status !== newStatus) {
+            const currencyConfig = CurrencyConverter.getConfig(updatedWithdrawal.currency as InternalCurrency);
+            const statusEmoji = getWithdrawalStatusEmoji(newStatus);
             
-            // Update database if status changed
-            if (withdrawal.status !== newStatus) {
-                await withdrawalRepo.update(withdrawal.id, {
-                    status: newStatus,
-                    txHash: statusResponse.data.txHash || withdrawal.txHash,
-                    txLink: statusResponse.data.txLink || withdrawal.txLink,
-                    error: statusResponse.data.error || withdrawal.error
-                });
-                
-                // Reload withdrawal to get updated data
-                const updatedWithdrawal = await withdrawalRepo.findOne({ 
-                    where: { id: withdrawalId },
-                    relations: ['user']
-                });
-                
-                if (updatedWithdrawal) {
-                    // Update the message with new status
-                    const currencyConfig = CurrencyConverter.getConfig(updatedWithdrawal.currency as InternalCurrency);
-                    const statusEmoji = getWithdrawalStatusEmoji(newStatus);
-                    
-                    let detailMessage = `${ctx.t('withdrawals-details-title')}\n\n` +
-                        `${ctx.t('withdrawals-amount')} ${formatCurrency(updatedWithdrawal.amount)} ${currencyConfig.emoji} ${currencyConfig.name}\n` +
-                        `${ctx.t('withdrawals-fee')} ${formatCurrency(updatedWithdrawal.fee)} ${currencyConfig.name}\n` +
-                        `${ctx.t('withdrawals-total')} ${formatCurrency(updatedWithdrawal.amount + updatedWithdrawal.fee)} ${currencyConfig.name}\n` +
-                        `${ctx.t('withdrawals-network')} ${updatedWithdrawal.network}\n` +
-                        `${ctx.t('withdrawals-address')} ${updatedWithdrawal.address}\n` +
-                        `${ctx.t('withdrawals-status')} ${statusEmoji} ${newStatus}\n` +
-                        `${ctx.t('withdrawals-created')} ${formatDate(updatedWithdrawal.createdAt)}\n`;
-
-                    if (updatedWithdrawal.txHash) {
-                        detailMessage += `${ctx.t('withdrawals-tx-hash')} ${updatedWithdrawal.txHash}\n`;
-                    }
-
-                    if (updatedWithdrawal.error) {
-                        detailMessage += `${ctx.t('withdrawals-error')} ${updatedWithdrawal.error}\n`;
-                    }
-
-                    if (updatedWithdrawal.comment) {
-                        detailMessage += `${ctx.t('withdrawals-comment')} ${updatedWithdrawal.comment}\n`;
-                    }
-
-                    await messageService.editMessage(
-                        ctx,
-                        detailMessage,
-                        createWithdrawalDetailKeyboard(updatedWithdrawal, ctx)
-                    );
-                }
-                
-                const statusEmoji = getWithdrawalStatusEmoji(newStatus);
-                await errorHandler.safeAnswerCallbackQuery(ctx, `✅ Status updated: ${statusEmoji} ${newStatus}`);
-            } else {
-                await errorHandler.safeAnswerCallbackQuery(ctx, "⏳ Status unchanged");
+            let detailMessage = `${ctx.t('withdrawals-details-title')}\n\n` +
+                `${ctx.t('withdrawals-amount')} ${formatCurrency(updatedWithdrawal.amount)} ${currencyConfig.emoji} ${currencyConfig.name}\n` +
+                `${ctx.t('withdrawals-fee')} ${formatCurrency(updatedWithdrawal.fee)} ${currencyConfig.name}\n` +
+                `${ctx.t('withdrawals-total')} ${formatCurrency(updatedWithdrawal.amount.plus(updatedWithdrawal.fee))} ${currencyConfig.name}\n` +
+                `${ctx.t('withdrawals-network')} ${updatedWithdrawal.network}\n` +
+                `${ctx.t('withdrawals-address')} ${updatedWithdrawal.address}\n` +
+                `${ctx.t('withdrawals-status')} ${statusEmoji} ${newStatus}\n` +
+                `${ctx.t('withdrawals-created')} ${formatDate(updatedWithdrawal.createdAt)}\n`;
+
+            if (updatedWithdrawal.txHash) {
+                detailMessage += `${ctx.t('withdrawals-tx-hash')} ${updatedWithdrawal.txHash}\n`;
             }
+
+            if (updatedWithdrawal.error) {
+                detailMessage += `${ctx.t('withdrawals-error')} ${updatedWithdrawal.error}\n`;
+            }
+
+            if (updatedWithdrawal.comment) {
+                detailMessage += `${ctx.t('withdrawals-comment')} ${updatedWithdrawal.comment}\n`;
+            }
+
+            await messageService.editMessage(
+                ctx,
+                detailMessage,
+                createWithdrawalDetailKeyboard(updatedWithdrawal, ctx)
+            );
+            
+            await errorHandler.safeAnswerCallbackQuery(ctx, `✅ Status updated: ${statusEmoji} ${newStatus}`);
         } else {
-            await errorHandler.safeAnswerCallbackQuery(ctx, "❌ Failed to get status from external service");
+            await errorHandler.safeAnswerCallbackQuery(ctx, "⏳ Status unchanged");
         }
     } catch (error) {
         errorHandler.logError(error, ErrorType.API_ERROR, {
@@ -1014,6 +984,8 @@ export async function handleTransferDetail(ctx: BotContext): Promise<void> {
     const detailMessage = `🔄 Transfer Details\n\n` +
         `💰 Amount: ${formatCurrency(transfer.amount)} ${currencyConfig.emoji} ${currencyConfig.name}\n` +
         `👤 Recipient ID: ${transfer.recipientTelegramId}\n` +
+        `📊 Status: ${transfer.status}\n` +
+        (transfer.refundedAt ? `↩️ Refunded: ${formatDate(transfer.refundedAt)}\n` : '') +
         `📅 Created: ${formatDate(transfer.createdAt)}\n` +
         `🆔 Transfer ID: ${transfer.id}`;
 
@@ -1052,23 +1024,11 @@ export async function handleChequeDetail(ctx: BotContext): Promise<void> {
         relations: ['user']
     });
 
-    // Update status from xRocket Pay if we have chequeId
+    // Update status and activations from xRocket Pay if we have chequeId
     if (cheque && cheque.chequeId) {
         try {
-            const xrocketPay = XRocketPayService.getInstance();
-            const response = await xrocketPay.getMulticheque(cheque.chequeId);
-            if (response.success && response.data) {
-                // Update local cheque if status or link changed
-                const newStatus = response.data.state;
-                const newLink = response.data.link;
-                if (cheque.status !== newStatus || cheque.link !== newLink) {
-                    await chequeRepo.update(cheque.id, {
-                        status: newStatus,
-                        link: newLink
-                    });
-                    cheque = await chequeRepo.findOne({ where: { id: chequeId }, relations: ['user'] });
-                }
-            }
+            const chequeService = ChequeService.getInstance();
+            cheque = await chequeService.syncCheque(cheque);
         } catch (err) {
             errorHandler.logError(err, ErrorType.API_ERROR, {
                 conversation: 'callback_handlers',
@@ -1091,17 +1051,123 @@ export async function handleChequeDetail(ctx: BotContext): Promise<void> {
     let detailMessage = `${ctx.t('cheques-details-title')}\n\n` +
         `${ctx.t('cheques-amount')} ${formatCurrency(cheque.amount)} ${currencyConfig.emoji} ${currencyConfig.name}\n` +
         `${ctx.t('cheques-users')} ${cheque.usersNumber}\n` +
+        `${ctx.t('cheques-activations', { activations: cheque.activations, users: cheque.usersNumber })}\n` +
         `${ctx.t('cheques-status')} ${statusEmoji} ${cheque.status}\n` +
         `${ctx.t('cheques-cheque-id')} ${cheque.chequeId}\n` +
         `${ctx.t('cheques-created')} ${formatDate(cheque.createdAt)}\n`;
 
+    if (cheque.status === 'active') {
+        detailMessage += `${ctx.t('cheques-remaining')} ${formatCurrency(cheque.getRemainingAmount())} ${currencyConfig.emoji} ${currencyConfig.name}\n`;
+    }
+
+    if (cheque.password) {
+        detailMessage += `${ctx.t('cheques-password')} <code>${messageService.escapeHtml(cheque.password)}</code>\n`;
+    }
+    if (cheque.description) {
+        detailMessage += `${ctx.t('cheques-description')} ${messageService.escapeHtml(cheque.description)}\n`;
+    }
+
+    const user = await UserService.getInstance().findOrCreateUser(ctx);
+    const canCancel = ChequeService.getInstance().canCancel(cheque, user);
+
     await messageService.editMessage(
         ctx,
         detailMessage,
-        createChequeDetailKeyboard(cheque, ctx)
+        createChequeDetailKeyboard(cheque, ctx, canCancel)
     );
 }
 
+/**
+ * Handles cheque cancellation request by asking for confirmation
+ */
+export async function handleCancelCheque(ctx: BotContext): Promise<void> {
+    logger.info('[HandleCancelCheque] Starting cheque cancellation');
+    
+    const messageService = MessageService.getInstance();
+    
+    const match = ctx.callbackQuery?.data?.match(/^cancel_cheque_(\d+)/);
+    if (!match) {
+        logger.error('[HandleCancelCheque] Invalid callback data format');
+        return;
+    }
+
+    const chequeId = parseInt(match[1]);
+    const user = await UserService.getInstance().findOrCreateUser(ctx);
+    const cheque = await AppDataSource.getRepository(UserCheque).findOne({
+        where: { id: chequeId },
+        relations: ['user']
+    });
+
+    if (!cheque || !ChequeService.getInstance().canCancel(cheque, user)) {
+        await errorHandler.safeAnswerCallbackQuery(ctx, ctx.t('cheques-cancel-unavailable'));
+        return;
+    }
+
+    await errorHandler.safeAnswerCallbackQuery(ctx);
+
+    const currencyConfig = CurrencyConverter.getConfig(cheque.currency as InternalCurrency);
+    await messageService.editMessage(
+        ctx,
+        ctx.t('cheques-cancel-confirm', {
+            chequeId: cheque.id,
+            amount: formatCurrency(cheque.getRemainingAmount()),
+            emoji: currencyConfig.emoji,
+            name: currencyConfig.name
+        }),
+        createChequeCancelConfirmKeyboard(cheque, ctx)
+    );
+}
+
+/**
+ * Handles confirmed cheque cancellation: deletes the cheque in xRocket Pay and refunds the unclaimed amount
+ */
+export async function handleConfirmCancelCheque(ctx: BotContext): Promise<void> {
+    logger.info('[HandleConfirmCancelCheque] Cancellation confirmed');
+    
+    const messageService = MessageService.getInstance();
+    
+    const match = ctx.callbackQuery?.data?.match(/^confirm_cancel_cheque_(\d+)/);
+    if (!match) {
+        logger.error('[HandleConfirmCancelCheque] Invalid callback data format');
+        return;
+    }
+
+    const chequeId = parseInt(match[1]);
+    const user = await UserService.getInstance().findOrCreateUser(ctx);
+    const cheque = await AppDataSource.getRepository(UserCheque).findOne({
+        where: { id: chequeId },
+        relations: ['user']
+    });
+
+    if (!cheque || !ChequeService.getInstance().canCancel(cheque, user)) {
+        await errorHandler.safeAnswerCallbackQuery(ctx, ctx.t('cheques-cancel-unavailable'));
+        return;
+    }
+
+    await errorHandler.safeAnswerCallbackQuery(ctx);
+
+    try {
+        const refundedAmount = await ChequeService.getInstance().cancelCheque(cheque, user, AuditService.getInstance().actorFromContext(ctx));
+        const currencyConfig = CurrencyConverter.getConfig(cheque.currency as InternalCurrency);
+        
+        await messageService.editMessage(
+            ctx,
+            ctx.t('cheques-cancelled', {
+                amount: formatCurrency(refundedAmount),
+                emoji: currencyConfig.emoji,
+                name: currencyConfig.name
+            }),
+            createMainMenuKeyboard(ctx)
+        );
+    } catch (error) {
+        await errorHandler.handleApiError(ctx, error, {
+            conversation: 'callback_handlers',
+            action: 'handle_confirm_cancel_cheque',
+            data: { chequeId }
+        });
+    }
+}
+
 /**
  * Get status emoji for cheque status
  */
@@ -1110,6 +1176,7 @@ function getChequeStatusEmoji(status: string): string {
         case 'active': return '⏳';
         case 'completed': return '✅';
         case 'draft': return '📝';
+        case 'cancelled': return '🚫';
         default: return '❓';
     }
 } 
\ No newline at end of file
@@ -9,7 +9,7 @@ import { MessageService } from "../services/message-service";
 import logger from '../../utils/logger';
 import { createLanguageKeyboard } from "../keyboards/lang";
 import { LocaleService } from "../../services/locale";
-import { SupportedLanguage } from "../../entities/user";
+import { LanguageService } from "../../services/language";
 
 const errorHandler = ErrorHandler.getInstance();
 
@@ -78,9 +78,13 @@ export async function handleSetLang(ctx: BotContext): Promise<void> {
  */
 export async function handleSetLangCallback(ctx: BotContext): Promise<void> {
     const localeService = LocaleService.getInstance();
-    let lang: SupportedLanguage = 'en';
-    if (ctx.callbackQuery?.data === 'setlang_ru') lang = 'ru';
-    if (ctx.callbackQuery?.data === 'setlang_en') lang = 'en';
+    const match = ctx.callbackQuery?.data?.match(/^setlang_(.+)$/);
+    const lang = match?.[1];
+    if (!lang || !LanguageService.getInstance().isSupportedLanguage(lang)) {
+        logger.warn('[HandleSetLang] Unsupported language selected:', { data: ctx.callbackQuery?.data });
+        await ctx.answerCallbackQuery();
+        return;
+    }
 
     await localeService.updateUserLanguage(ctx, lang);
     ctx.i18n.setLocale(lang);
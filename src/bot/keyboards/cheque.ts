@@ -3,11 +3,12 @@ import { UserCheque } from "../../entities/user-cheque";
 import { CurrencyConverter, InternalCurrency } from "../../types/currency";
 import { formatCurrency } from "../utils/formatters";
 import { BotContext } from "../../types/bot";
+import { i18n } from "../../config/i18n";
 
 /**
  * Creates inline keyboard for cheque details
  */
-export function createChequeDetailKeyboard(cheque: UserCheque, ctx: BotContext): InlineKeyboard {
+export function createChequeDetailKeyboard(cheque: UserCheque, ctx: BotContext, canCancel: boolean = false): InlineKeyboard {
     const keyboard = new InlineKeyboard();
     
     // Add "Open Cheque" button if we have a link
@@ -16,6 +17,12 @@ export function createChequeDetailKeyboard(cheque: UserCheque, ctx: BotContext):
         keyboard.row();
     }
     
+    // Add "Cancel Cheque" button while some activations are still unclaimed
+    if (canCancel) {
+        keyboard.text(ctx.t('cheques-cancel'), `cancel_cheque_${cheque.id}`);
+        keyboard.row();
+    }
+    
     keyboard.text(ctx.t('cheques-back-to-list'), "history_cheques");
     keyboard.row();
     keyboard.text(ctx.t('buttons-main-menu'), "main_menu");
@@ -23,6 +30,26 @@ export function createChequeDetailKeyboard(cheque: UserCheque, ctx: BotContext):
     return keyboard;
 }
 
+/**
+ * Creates confirmation keyboard for cheque cancellation
+ */
+export function createChequeCancelConfirmKeyboard(cheque: UserCheque, ctx: BotContext): InlineKeyboard {
+    return new InlineKeyboard()
+        .text(ctx.t('cheques-confirm-cancel'), `confirm_cancel_cheque_${cheque.id}`)
+        .row()
+        .text(ctx.t('buttons-back'), `cheque_${cheque.id}`);
+}
+
+/**
+ * Creates keyboard for cheque notifications sent outside of an update
+ */
+export function createChequeNotificationKeyboard(cheque: UserCheque, locale: string): InlineKeyboard {
+    return new InlineKeyboard()
+        .text(i18n.t(locale, 'cheques-view-details'), `cheque_${cheque.id}`)
+        .row()
+        .text(i18n.t(locale, 'buttons-main-menu'), "main_menu");
+}
+
 /**
  * Creates keyboard for cheque list with pagination
  */
@@ -78,6 +105,7 @@ function getChequeStatusEmoji(status: string): string {
         case 'active': return '⏳';
         case 'completed': return '✅';
         case 'draft': return '📝';
+        case 'cancelled': return '🚫';
         default: return '❓';
     }
 } 
\ No newline at end of file
@@ -1,6 +1,7 @@
 import { InlineKeyboard } from "grammy";
 import { CurrencyConverter } from "../../types/currency";
 import { BotContext } from "../../types/bot";
+import { INVOICE_CONFIG } from "../../config/invoice";
 
 /**
  * Creates inline keyboard for coin selection
@@ -16,4 +17,38 @@ export function createCoinSelectionKeyboard(): InlineKeyboard {
         }
     });
     return keyboard;
-} 
\ No newline at end of file
+}
+
+/**
+ * Creates inline keyboard shown while entering the number of payments of an invoice
+ */
+export function createDepositPaymentsKeyboard(ctx: BotContext): InlineKeyboard {
+    return new InlineKeyboard().text(ctx.t('deposit-single-payment'), "deposit_payments_1");
+}
+
+/**
+ * Creates inline keyboard for choosing how long an invoice stays open
+ */
+export function createDepositExpiryKeyboard(ctx: BotContext): InlineKeyboard {
+    const keyboard = new InlineKeyboard();
+    INVOICE_CONFIG.EXPIRY_OPTIONS.forEach((seconds, idx) => {
+        keyboard.text(formatExpiry(seconds, ctx), `deposit_expiry_${seconds}`);
+        if ((idx + 1) % 2 === 0 && idx !== INVOICE_CONFIG.EXPIRY_OPTIONS.length - 1) {
+            keyboard.row();
+        }
+    });
+    return keyboard;
+}
+
+/**
+ * Formats an expiry in seconds with the largest unit that divides it evenly
+ */
+function formatExpiry(seconds: number, ctx: BotContext): string {
+    if (seconds % 86400 === 0) {
+        return ctx.t('deposit-expiry-days', { count: seconds / 86400 });
+    }
+    if (seconds % 3600 === 0) {
+        return ctx.t('deposit-expiry-hours', { count: seconds / 3600 });
+    }
+    return ctx.t('deposit-expiry-minutes', { count: Math.round(seconds / 60) });
+}
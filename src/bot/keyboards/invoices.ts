@@ -3,6 +3,7 @@ import { UserInvoice } from "../../entities/user-invoice";
 import { BotContext } from "../../types/bot";
 import { CurrencyConverter, InternalCurrency } from "../../types/currency";
 import { formatCurrency } from "../utils/formatters";
+import { i18n } from "../../config/i18n";
 
 /**
  * Creates keyboard for invoice list with pagination
@@ -64,8 +65,8 @@ export function createInvoiceDetailKeyboard(invoice: UserInvoice, ctx: BotContex
         keyboard.row();
     }
 
-    // Add delete button for non-paid invoices (including expired)
-    if (invoice.status !== 'paid') {
+    // Add delete button for invoices without payments (including expired)
+    if (invoice.paymentsCount === 0) {
         keyboard.text(ctx.t('invoices-delete'), `delete_invoice_${invoice.id}`);
         keyboard.row();
     }
@@ -78,6 +79,16 @@ export function createInvoiceDetailKeyboard(invoice: UserInvoice, ctx: BotContex
     return keyboard;
 }
 
+/**
+ * Creates keyboard for payment notifications sent outside of an update
+ */
+export function createInvoiceNotificationKeyboard(invoice: UserInvoice, locale: string): InlineKeyboard {
+    return new InlineKeyboard()
+        .text(i18n.t(locale, 'invoices-view-details'), `invoice_${invoice.id}`)
+        .row()
+        .text(i18n.t(locale, 'buttons-main-menu'), "main_menu");
+}
+
 /**
  * Get status emoji for invoice status
  */
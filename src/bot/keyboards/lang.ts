@@ -1,7 +1,18 @@
 import { InlineKeyboard } from "grammy";
+import { LanguageService } from "../../services/language";
 
-export function createLanguageKeyboard() {
-    return new InlineKeyboard()
-        .text('🇬🇧 English', 'setlang_en')
-        .text('🇷🇺 Русский', 'setlang_ru');
-} 
\ No newline at end of file
+/**
+ * Creates inline keyboard with a button for each translation file in the locales directory
+ */
+export function createLanguageKeyboard(): InlineKeyboard {
+    const languageService = LanguageService.getInstance();
+    const languages = languageService.getSupportedLanguages();
+    const keyboard = new InlineKeyboard();
+    languages.forEach((language, idx) => {
+        keyboard.text(languageService.getLanguageName(language), `setlang_${language}`);
+        if ((idx + 1) % 2 === 0 && idx !== languages.length - 1) {
+            keyboard.row();
+        }
+    });
+    return keyboard;
+}
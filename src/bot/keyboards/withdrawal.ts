@@ -3,6 +3,7 @@ import { UserWithdrawal } from "../../entities/user-withdrawal";
 import { CurrencyConverter, InternalCurrency } from "../../types/currency";
 import { formatCurrency } from "../utils/formatters";
 import { BotContext } from "../../types/bot";
+import { i18n } from "../../config/i18n";
 
 /**
  * Creates keyboard for withdrawal list with pagination
@@ -73,6 +74,24 @@ export function createWithdrawalDetailKeyboard(withdrawal: UserWithdrawal, ctx:
     return keyboard;
 }
 
+/**
+ * Creates keyboard for withdrawal status notifications sent outside of an update
+ */
+export function createWithdrawalNotificationKeyboard(withdrawal: UserWithdrawal, locale: string): InlineKeyboard {
+    const keyboard = new InlineKeyboard();
+    
+    if (withdrawal.txLink) {
+        keyboard.url(i18n.t(locale, 'withdrawals-view-transaction'), withdrawal.txLink);
+        keyboard.row();
+    }
+    
+    keyboard.text(i18n.t(locale, 'withdrawals-view-details'), `withdrawal_${withdrawal.id}`);
+    keyboard.row();
+    keyboard.text(i18n.t(locale, 'buttons-main-menu'), "main_menu");
+    
+    return keyboard;
+}
+
 /**
  * Get status emoji for withdrawal status
  */
@@ -0,0 +1,23 @@
+import { sequentialize } from "@grammyjs/runner";
+import { BotContext } from "../../types/bot";
+
+/**
+ * Keys of the chat and the user an update belongs to, updates sharing a key wait for each other
+ */
+export function getUpdateConstraints(ctx: BotContext): string[] {
+    const keys: string[] = [];
+    if (ctx.chat) {
+        keys.push(`chat:${ctx.chat.id}`);
+    }
+    if (ctx.from) {
+        keys.push(`user:${ctx.from.id}`);
+    }
+    return keys;
+}
+
+/**
+ * Handles updates of the same chat or user one at a time, in the order they arrived.
+ * Webhook requests are handled concurrently, without this two quick button presses would read
+ * the same session and overwrite each other's step. Must run before the session middleware
+ */
+export const sequentializeUpdates = sequentialize(getUpdateConstraints);
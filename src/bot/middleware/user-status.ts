@@ -0,0 +1,78 @@
+import { NextFunction } from "grammy";
+import { BotContext } from "../../types/bot";
+import { UserService } from "../../services/user";
+import { createMainMenuButton } from "../keyboards/main";
+import { MessageService } from "../services/message-service";
+import { ErrorHandler } from "../utils/error-handler";
+import logger from "../../utils/logger";
+
+/**
+ * Callback data of the transfer, multicheque and external withdrawal flows
+ * Detail views such as withdrawal_<id> only read data and stay available
+ */
+const FUND_MOVING_CALLBACKS: RegExp[] = [
+    /^withdraw_(transfer|multicheque|external)$/,
+    /^transfer_coin_/,
+    /^confirm_transfer$/,
+    /^multicheque_/,
+    /^confirm_multicheque$/,
+    /^withdrawal_currency_/,
+    /^withdrawal_network_/,
+    /^withdrawal_confirm$/
+];
+
+/**
+ * Session steps of the same flows, for text input sent while one of them is in progress
+ */
+const FUND_MOVING_STEP_PREFIXES = ['transfer_', 'multicheque_', 'withdrawal_'];
+
+/**
+ * Checks whether an update belongs to a flow that moves funds out of the user's balance
+ */
+function isFundMovingUpdate(ctx: BotContext): boolean {
+    const callbackData = ctx.callbackQuery?.data;
+    if (callbackData) {
+        return FUND_MOVING_CALLBACKS.some(pattern => pattern.test(callbackData));
+    }
+
+    const step = ctx.session?.step;
+    return !!ctx.message?.text && !!step && FUND_MOVING_STEP_PREFIXES.some(prefix => step.startsWith(prefix));
+}
+
+/**
+ * Enforces the account status set by admins:
+ * - banned users are ignored
+ * - frozen users can view their balance and history but transfer, multicheque and withdrawal flows are refused
+ * Must run after the language middleware, which creates the user and sets the locale of the reply
+ */
+export async function userStatusMiddleware(ctx: BotContext, next: NextFunction): Promise<void> {
+    if (!ctx.from) {
+        await next();
+        return;
+    }
+
+    const user = await UserService.getInstance().getUserByTelegramId(ctx.from.id);
+    const status = user?.status ?? 'active';
+
+    if (status === 'banned') {
+        logger.info('[UserStatus] Ignoring update from banned user:', ctx.from.id);
+        return;
+    }
+
+    if (status === 'frozen' && isFundMovingUpdate(ctx)) {
+        logger.info('[UserStatus] Refusing fund movement for frozen user:', {
+            telegramId: ctx.from.id,
+            callbackData: ctx.callbackQuery?.data,
+            step: ctx.session?.step
+        });
+
+        ctx.session.step = undefined;
+        if (ctx.callbackQuery) {
+            await ErrorHandler.getInstance().safeAnswerCallbackQuery(ctx);
+        }
+        await MessageService.getInstance().editMessage(ctx, ctx.t('account-frozen'), createMainMenuButton(ctx));
+        return;
+    }
+
+    await next();
+}
@@ -283,7 +283,12 @@ export class MessageService {
         await this.editMessage(ctx, message, keyboard);
     }
 
-    private escapeHtml(text: string): string {
+    /**
+     * Escapes user-provided text for messages sent with HTML parse mode
+     * @param text - The text to escape
+     * @returns Escaped text
+     */
+    public escapeHtml(text: string): string {
         return text
             .replace(/&/g, '&amp;')
             .replace(/</g, '&lt;')
@@ -185,6 +185,23 @@ export class ErrorHandler {
         await this.sendUserErrorMessage(ctx, ErrorType.SESSION_ERROR, errorMessage);
     }
 
+    /**
+     * Checks whether a failed xRocket Pay call was definitely not executed.
+     * Only validation responses (400, 422) from xRocket Pay are definitive. Everything else,
+     * including timeouts, network errors, other statuses, database errors and errors raised after
+     * a request may already have moved funds, is ambiguous and left to the reconciler.
+     * @param error - The error thrown by an XRocketPayService call
+     * @returns True if it is safe to treat the operation as failed
+     */
+    public isDefinitiveApiFailure(error: any): boolean {
+        if (!error || typeof error !== 'object') {
+            return false;
+        }
+
+        const status = error.response?.status;
+        return status === 400 || status === 422;
+    }
+
     /**
      * Extracts clean error information from various error types
      * @param error - The error to extract information from
@@ -604,6 +621,12 @@ export class ErrorHandler {
             'transferAmount',
             'recipientId',
             'multichequeAmount',
+            'multichequeUsers',
+            'multichequePassword',
+            'multichequeDescription',
+            'multichequeRefPercent',
+            'multichequeCaptcha',
+            'multichequePremiumOnly',
             'withdrawalAmount',
             'withdrawalNetwork',
             'withdrawalAddress',
@@ -1,3 +1,5 @@
+import { Money } from "../../types/money";
+
 /**
  * Formats a number to 2 decimal places
  */
@@ -28,11 +30,16 @@ export function formatNumberClean(num: number | string, maxDecimals: number = 8)
 }
 
 /**
- * Formats a number for currency display (removes trailing zeros, shows up to 8 decimals)
- * @param num - The number to format
+ * Formats an amount for currency display (removes trailing zeros)
+ * Money is shown exactly with up to its currency's decimals, plain numbers (e.g. from API error messages) with up to 8
+ * @param num - The amount to format
  * @returns Formatted currency string
  */
-export function formatCurrency(num: number | string): string {
+export function formatCurrency(num: Money | number | string): string {
+    if (num instanceof Money) {
+        return num.toString();
+    }
+
     const formatted = formatNumberClean(num, 8);
     // Ensure we use dots for decimal separators regardless of locale
     return formatted.replace(',', '.');
@@ -1,7 +1,10 @@
 import { BotContext } from "../../types/bot";
 import { UserService } from "../../services/user";
 import { CurrencyConverter, InternalCurrency } from "../../types/currency";
+import { InvalidAmountError, Money } from "../../types/money";
 import { User } from "../../entities/user";
+import { LimitOperation } from "../../config/limits";
+import { LimitExceededError, LimitService, LimitViolation } from "../../services/limit";
 import logger from "../../utils/logger";
 import { formatCurrency } from "./formatters";
 
@@ -24,21 +27,33 @@ export class ValidationService {
     /**
      * Validates amount input from user
      * @param amountText - The amount as text input
-     * @returns Parsed amount as number or null if invalid
+     * @param currency - The currency of the amount, which limits the number of decimal places
+     * @returns Parsed amount or null if it isn't a positive number within the currency precision
      */
-    public validateAmount(amountText: string): number | null {
+    public validateAmount(amountText: string, currency: InternalCurrency): Money | null {
         if (!amountText || typeof amountText !== 'string') {
             return null;
         }
 
-        const trimmedAmount = amountText.trim();
-        const amount = parseFloat(trimmedAmount);
-
-        if (isNaN(amount) || amount <= 0) {
-            return null;
+        try {
+            const amount = Money.of(amountText.trim(), currency);
+            return amount.isPositive() ? amount : null;
+        } catch (error) {
+            if (error instanceof InvalidAmountError) {
+                return null;
+            }
+            throw error;
         }
+    }
 
-        return amount;
+    /**
+     * Builds the error message for amount input rejected by validateAmount
+     * @param currency - The currency of the amount
+     * @returns Error message mentioning the allowed number of decimal places
+     */
+    public getInvalidAmountMessage(currency: InternalCurrency): string {
+        const decimals = CurrencyConverter.getConfig(currency).decimals;
+        return `Invalid amount. Enter a positive number with at most ${decimals} decimal places and try again.`;
     }
 
     /**
@@ -93,13 +108,13 @@ export class ValidationService {
     public async validateBalance(
         user: User, 
         currency: InternalCurrency, 
-        amount: number
-    ): Promise<{ isValid: boolean; availableBalance: number; errorMessage?: string }> {
+        amount: Money
+    ): Promise<{ isValid: boolean; availableBalance: Money; errorMessage?: string }> {
         const userService = UserService.getInstance();
         const balance = await userService.getUserBalance(user, currency);
-        const availableBalance = balance ? balance.amount : 0;
+        const availableBalance = balance ? balance.amount : Money.zero(currency);
 
-        if (availableBalance < amount) {
+        if (availableBalance.isLessThan(amount)) {
             const currencyConfig = CurrencyConverter.getConfig(currency);
             const formattedAvailable = formatCurrency(availableBalance);
             const formattedAmount = formatCurrency(amount);
@@ -118,6 +133,49 @@ export class ValidationService {
         };
     }
 
+    /**
+     * Validates an amount against the user's limits for an operation
+     * @param ctx - The bot context for i18n
+     * @param user - The user instance
+     * @param operation - The limited operation
+     * @param amount - The amount of the operation
+     * @returns Object with validation result and a localized explanation of the limit hit
+     */
+    public async validateLimits(
+        ctx: BotContext,
+        user: User,
+        operation: LimitOperation,
+        amount: Money
+    ): Promise<{ isValid: boolean; errorMessage?: string }> {
+        const violation = await LimitService.getInstance().checkAmount(user, operation, amount);
+        if (!violation) {
+            return { isValid: true };
+        }
+
+        return { isValid: false, errorMessage: this.getLimitViolationMessage(ctx, violation) };
+    }
+
+    /**
+     * Replaces a LimitExceededError raised while debiting an operation with an error carrying the localized limit message
+     * @param ctx - The bot context for i18n
+     * @param error - The error thrown by the operation
+     * @returns The error to show the user
+     */
+    public localizeLimitError(ctx: BotContext, error: unknown): unknown {
+        return error instanceof LimitExceededError
+            ? new Error(this.getLimitViolationMessage(ctx, error.violation))
+            : error;
+    }
+
+    private getLimitViolationMessage(ctx: BotContext, violation: LimitViolation): string {
+        const currencyConfig = CurrencyConverter.getConfig(violation.limit.currency);
+        return ctx.t(`limits-${violation.kind}`, {
+            limit: formatCurrency(violation.limit),
+            remaining: 'remaining' in violation ? formatCurrency(violation.remaining) : '',
+            name: currencyConfig.name
+        });
+    }
+
     /**
      * Validates Telegram ID format
      * @param telegramIdText - The Telegram ID as string
@@ -217,10 +275,10 @@ export class ValidationService {
     public async validateWithdrawalAmount(
         user: User,
         currency: InternalCurrency,
-        amount: number,
-        fee: number
-    ): Promise<{ isValid: boolean; availableBalance: number; totalRequired: number; errorMessage?: string }> {
-        const totalRequired = amount + fee;
+        amount: Money,
+        fee: Money
+    ): Promise<{ isValid: boolean; availableBalance: Money; totalRequired: Money; errorMessage?: string }> {
+        const totalRequired = amount.plus(fee);
         const balanceValidation = await this.validateBalance(user, currency, totalRequired);
 
         if (!balanceValidation.isValid) {
@@ -0,0 +1,36 @@
+import * as dotenv from 'dotenv';
+
+dotenv.config();
+
+/**
+ * Parses a comma separated list of Telegram IDs
+ */
+function parseTelegramIds(value: string | undefined): number[] {
+    return (value || '')
+        .split(',')
+        .map(id => id.trim())
+        .filter(id => id !== '')
+        .map(id => {
+            const telegramId = Number(id);
+            if (!Number.isSafeInteger(telegramId) || telegramId <= 0) {
+                throw new Error(`Invalid Telegram ID "${id}" in ADMIN_TELEGRAM_IDS`);
+            }
+            return telegramId;
+        });
+}
+
+/**
+ * Admin configuration constants
+ */
+export const ADMIN_CONFIG = {
+    // Telegram users allowed to run admin commands
+    TELEGRAM_IDS: parseTelegramIds(process.env.ADMIN_TELEGRAM_IDS),
+    // Number of invoices, transfers and withdrawals shown by /user
+    RECENT_ITEMS: parseInt(process.env.ADMIN_RECENT_ITEMS || '5', 10),
+    // Number of audit log entries shown by /audit
+    AUDIT_ITEMS: 20,
+    // Number of flagged invoice payments shown by /mismatches
+    MISMATCH_ITEMS: 20,
+    // Leaves room in the ledger description for the admin ID
+    MAX_REASON_LENGTH: 200,
+} as const;
@@ -0,0 +1,55 @@
+import { ColumnType } from "typeorm";
+import * as dotenv from 'dotenv';
+import { MONEY_SCALE, MONEY_TRANSFORMER } from "../types/money";
+
+dotenv.config();
+
+/**
+ * Supported database backends
+ */
+export type DatabaseType = 'mysql' | 'postgres' | 'sqlite';
+
+const SUPPORTED_DATABASE_TYPES: readonly DatabaseType[] = ['mysql', 'postgres', 'sqlite'];
+
+/**
+ * Resolves the configured database backend, defaulting to MySQL
+ */
+function resolveDatabaseType(value: string | undefined): DatabaseType {
+    const type = (value || 'mysql').toLowerCase();
+    if (!SUPPORTED_DATABASE_TYPES.includes(type as DatabaseType)) {
+        throw new Error(`Unsupported DATABASE_TYPE "${value}", expected one of: ${SUPPORTED_DATABASE_TYPES.join(', ')}`);
+    }
+    return type as DatabaseType;
+}
+
+export const DATABASE_TYPE: DatabaseType = resolveDatabaseType(process.env.DATABASE_TYPE);
+
+const IS_SQLITE = DATABASE_TYPE === 'sqlite';
+
+/**
+ * Column types that differ between backends
+ * Entities are decorated at import time, so the backend is read from the environment here rather than from the DataSource
+ */
+export const COLUMN_TYPES = {
+    // SQLite has no timestamp type
+    TIMESTAMP: (IS_SQLITE ? 'datetime' : 'timestamp') as ColumnType,
+    // SQLite has no enum type, simple-enum stores the value as text with a CHECK constraint
+    ENUM: (IS_SQLITE ? 'simple-enum' : 'enum') as ColumnType,
+} as const;
+
+/**
+ * Lock for reads that must block concurrent writers until the transaction ends
+ * SQLite doesn't support row locks, the app runs its transactions one at a time instead (see serializeTransactions)
+ */
+export const PESSIMISTIC_WRITE_LOCK = IS_SQLITE ? undefined : { mode: 'pessimistic_write' as const };
+
+/**
+ * Options of decimal columns holding Money amounts
+ * The scale fits the currency with the most decimals (TON, 9) and 12 integer digits are kept as before
+ */
+export const MONEY_COLUMN = {
+    type: 'decimal' as const,
+    precision: 12 + MONEY_SCALE,
+    scale: MONEY_SCALE,
+    transformer: MONEY_TRANSFORMER,
+};
@@ -1,4 +1,5 @@
-import { DataSource } from "typeorm";
+import { DataSource, DataSourceOptions } from "typeorm";
+import * as path from "path";
 import { User } from "../entities/user";
 import { UserBalance } from "../entities/user-balance";
 import * as dotenv from 'dotenv';
@@ -6,6 +7,14 @@ import { UserInvoice } from "../entities/user-invoice";
 import { UserTransfer } from "../entities/user-transfer";
 import { UserCheque } from "../entities/user-cheque";
 import { UserWithdrawal } from "../entities/user-withdrawal";
+import { BalanceLedgerEntry } from "../entities/balance-ledger-entry";
+import { UserLimitOverride } from "../entities/user-limit-override";
+import { AuditLog } from "../entities/audit-log";
+import { WebhookDelivery } from "../entities/webhook-delivery";
+import { InvoicePayment } from "../entities/invoice-payment";
+import { BotSession } from "../entities/bot-session";
+import { DATABASE_TYPE } from "./database-type";
+import { serializeTransactions } from "../utils/sqlite-transactions";
 
 dotenv.config();
 
@@ -13,26 +22,77 @@ dotenv.config();
  * Database configuration constants
  */
 const DATABASE_CONFIG = {
+    TYPE: DATABASE_TYPE,
     HOST: process.env.DATABASE_HOST || 'localhost',
-    PORT: parseInt(process.env.DATABASE_PORT || '3306', 10),
-    USERNAME: process.env.DATABASE_USERNAME || 'root',
+    PORT: parseInt(process.env.DATABASE_PORT || (DATABASE_TYPE === 'postgres' ? '5432' : '3306'), 10),
+    USERNAME: process.env.DATABASE_USERNAME || (DATABASE_TYPE === 'postgres' ? 'postgres' : 'root'),
     PASSWORD: process.env.DATABASE_PASSWORD || '',
     NAME: process.env.DATABASE_NAME || 'xrocket_pay_bot',
+    // SQLite database file, ":memory:" keeps the whole database in memory for the lifetime of the process
+    PATH: process.env.DATABASE_PATH || 'data/xrocket_pay_bot.sqlite',
+    // Lets TypeORM alter the schema to match the entities on startup, for local development only
+    SYNCHRONIZE: process.env.DATABASE_SYNCHRONIZE === 'true',
 } as const;
 
+/**
+ * Builds the backend specific connection options
+ */
+function createConnectionOptions(): DataSourceOptions {
+    const common = {
+        synchronize: DATABASE_CONFIG.SYNCHRONIZE,
+        logging: ["error", "warn"] as ("error" | "warn")[],
+        entities: [User, UserBalance, UserInvoice, UserTransfer, UserCheque, UserWithdrawal, BalanceLedgerEntry, UserLimitOverride, AuditLog, WebhookDelivery, InvoicePayment, BotSession],
+        subscribers: [],
+        // Compiled .js files when running from dist, .ts sources under ts-node
+        migrations: [path.join(__dirname, '..', 'migrations', '*.{ts,js}')],
+    };
+
+    switch (DATABASE_CONFIG.TYPE) {
+        case 'sqlite':
+            return {
+                ...common,
+                type: "better-sqlite3",
+                database: DATABASE_CONFIG.PATH,
+            };
+        case 'postgres':
+            return {
+                ...common,
+                type: "postgres",
+                host: DATABASE_CONFIG.HOST,
+                port: DATABASE_CONFIG.PORT,
+                username: DATABASE_CONFIG.USERNAME,
+                password: DATABASE_CONFIG.PASSWORD,
+                database: DATABASE_CONFIG.NAME,
+            };
+        case 'mysql':
+            return {
+                ...common,
+                type: "mysql",
+                host: DATABASE_CONFIG.HOST,
+                port: DATABASE_CONFIG.PORT,
+                username: DATABASE_CONFIG.USERNAME,
+                password: DATABASE_CONFIG.PASSWORD,
+                database: DATABASE_CONFIG.NAME,
+            };
+    }
+}
+
+/**
+ * Refuses to start in production with synchronize enabled, where a changed entity could silently drop columns and data
+ * @throws Error if NODE_ENV is production and the DataSource has synchronize enabled
+ */
+export function assertSafeSchemaSettings(dataSource: DataSource): void {
+    if (process.env.NODE_ENV === 'production' && dataSource.options.synchronize) {
+        throw new Error('DATABASE_SYNCHRONIZE must not be enabled in production, apply schema changes with migrations instead');
+    }
+}
+
 /**
  * TypeORM DataSource configuration for the application
+ * The backend is selected with DATABASE_TYPE (mysql, postgres or sqlite)
  */
-export const AppDataSource = new DataSource({
-    type: "mysql",
-    host: DATABASE_CONFIG.HOST,
-    port: DATABASE_CONFIG.PORT,
-    username: DATABASE_CONFIG.USERNAME,
-    password: DATABASE_CONFIG.PASSWORD,
-    database: DATABASE_CONFIG.NAME,
-    synchronize: true,
-    logging: ["error", "warn"],
-    entities: [User, UserBalance, UserInvoice, UserTransfer, UserCheque, UserWithdrawal],
-    subscribers: [],
-    migrations: [],
-}); 
\ No newline at end of file
+export const AppDataSource = new DataSource(createConnectionOptions());
+
+if (DATABASE_TYPE === 'sqlite') {
+    serializeTransactions(AppDataSource);
+}
@@ -0,0 +1,12 @@
+import * as dotenv from 'dotenv';
+
+dotenv.config();
+
+/**
+ * Readiness check configuration constants
+ */
+export const HEALTH_CONFIG = {
+    // Components are checked in parallel, each one failing after this long
+    CHECK_TIMEOUT_MS: parseInt(process.env.HEALTH_CHECK_TIMEOUT_MS || '5000', 10),
+    PATH: '/ready',
+} as const;
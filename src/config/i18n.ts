@@ -0,0 +1,15 @@
+import { I18n } from "@grammyjs/i18n";
+import { BotContext } from "../types/bot";
+
+/**
+ * Shared i18n instance
+ * Used as bot middleware and for rendering messages outside of a grammY context (webhooks, background jobs)
+ */
+export const i18n = new I18n<BotContext>({
+    defaultLocale: "en",
+    directory: "locales",
+    useSession: true,
+    fluentBundleOptions: {
+        useIsolating: false
+    }
+});
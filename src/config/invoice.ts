@@ -0,0 +1,13 @@
+import * as dotenv from 'dotenv';
+
+dotenv.config();
+
+/**
+ * Deposit invoice configuration constants
+ */
+export const INVOICE_CONFIG = {
+    // Highest number of payments a single invoice can accept, e.g. for a shared top-up link
+    MAX_PAYMENTS: parseInt(process.env.INVOICE_MAX_PAYMENTS || '100', 10),
+    // Expiry choices offered in the deposit conversation, in seconds
+    EXPIRY_OPTIONS: [15 * 60, 60 * 60, 24 * 60 * 60, 7 * 24 * 60 * 60],
+} as const;
@@ -0,0 +1,86 @@
+import * as dotenv from 'dotenv';
+import { CURRENCIES, InternalCurrency } from '../types/currency';
+import { Money } from '../types/money';
+
+dotenv.config();
+
+/**
+ * Flows that move funds and can be limited
+ */
+export type LimitOperation = 'deposit' | 'transfer' | 'multicheque' | 'withdrawal';
+
+export const LIMIT_OPERATIONS: readonly LimitOperation[] = ['deposit', 'transfer', 'multicheque', 'withdrawal'];
+
+/**
+ * Amount limits of one operation in one currency, null means unlimited
+ * - min / max: bounds of a single operation
+ * - daily / monthly: caps on the total of the user's operations over a rolling 24 hours / 30 days
+ */
+export interface AmountLimits {
+    min: Money | null;
+    max: Money | null;
+    daily: Money | null;
+    monthly: Money | null;
+}
+
+export type LimitKind = keyof AmountLimits;
+
+/**
+ * Override value that lifts a configured limit for one user
+ */
+export const UNLIMITED = 'unlimited';
+
+/**
+ * One limit of a user override: an amount, UNLIMITED, or null where the configured limit applies
+ */
+export type LimitOverrideValue = Money | typeof UNLIMITED | null;
+
+export type OverriddenLimits = Record<LimitKind, LimitOverrideValue>;
+
+export const LIMIT_KINDS: readonly LimitKind[] = ['min', 'max', 'daily', 'monthly'];
+
+/**
+ * Length of the rolling windows of the daily and monthly caps
+ */
+export const LIMIT_WINDOWS_MS: Record<'daily' | 'monthly', number> = {
+    daily: 24 * 60 * 60 * 1000,
+    monthly: 30 * 24 * 60 * 60 * 1000,
+};
+
+/**
+ * Reads a limit from LIMIT_<OPERATION>_<CURRENCY>_<KIND>, e.g. LIMIT_WITHDRAWAL_USDT_DAILY=1000
+ */
+function readLimit(operation: LimitOperation, currency: InternalCurrency, kind: LimitKind): Money | null {
+    const name = `LIMIT_${operation}_${currency}_${kind}`.toUpperCase();
+    const value = process.env[name];
+    if (!value) {
+        return null;
+    }
+
+    const amount = Money.of(value, currency);
+    if (!amount.isPositive()) {
+        throw new Error(`${name} must be a positive amount, got "${value}"`);
+    }
+    return amount;
+}
+
+function readLimits(operation: LimitOperation, currency: InternalCurrency): AmountLimits {
+    return {
+        min: readLimit(operation, currency, 'min'),
+        max: readLimit(operation, currency, 'max'),
+        daily: readLimit(operation, currency, 'daily'),
+        monthly: readLimit(operation, currency, 'monthly'),
+    };
+}
+
+/**
+ * Default limits for every operation and currency, overridable per user with UserLimitOverride
+ */
+export const LIMITS_CONFIG = Object.fromEntries(
+    LIMIT_OPERATIONS.map(operation => [
+        operation,
+        Object.fromEntries(
+            (Object.keys(CURRENCIES) as InternalCurrency[]).map(currency => [currency, readLimits(operation, currency)])
+        ),
+    ])
+) as Record<LimitOperation, Record<InternalCurrency, AmountLimits>>;
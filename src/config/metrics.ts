@@ -0,0 +1,13 @@
+import * as dotenv from 'dotenv';
+
+dotenv.config();
+
+/**
+ * Prometheus metrics configuration constants
+ */
+export const METRICS_CONFIG = {
+    ENABLED: process.env.METRICS_ENABLED !== 'false',
+    PATH: process.env.METRICS_PATH || '/metrics',
+    // When set, scrapes must send it as a bearer token
+    TOKEN: process.env.METRICS_TOKEN || '',
+} as const;
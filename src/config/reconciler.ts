@@ -0,0 +1,18 @@
+import * as dotenv from 'dotenv';
+
+dotenv.config();
+
+/**
+ * Background reconciler configuration constants
+ */
+export const RECONCILER_CONFIG = {
+    ENABLED: process.env.RECONCILER_ENABLED !== 'false',
+    INTERVAL_MS: parseInt(process.env.RECONCILER_INTERVAL_MS || '60000', 10),
+    STALE_AFTER_MS: parseInt(process.env.RECONCILER_STALE_AFTER_MS || '300000', 10),
+    BATCH_SIZE: parseInt(process.env.RECONCILER_BATCH_SIZE || '50', 10),
+    // Pending withdrawals are polled more often than other records so users learn about the result quickly
+    WITHDRAWAL_SYNC_INTERVAL_MS: parseInt(process.env.WITHDRAWAL_SYNC_INTERVAL_MS || '30000', 10),
+    CHEQUE_SYNC_INTERVAL_MS: parseInt(process.env.CHEQUE_SYNC_INTERVAL_MS || '60000', 10),
+    // Invoices are created on xRocket Pay right after they are stored, anything without an xRocket ID after this never made it
+    ORPHAN_INVOICE_AFTER_MS: parseInt(process.env.RECONCILER_ORPHAN_INVOICE_AFTER_MS || '7200000', 10),
+} as const;
@@ -0,0 +1,40 @@
+import * as dotenv from 'dotenv';
+
+dotenv.config();
+
+/**
+ * Where bot sessions are kept
+ * - database: the bot_sessions table of the configured database
+ * - redis: any server speaking the Redis protocol (Redis, Valkey, KeyDB, ...)
+ * - memory: process memory, lost on restart and not shared between instances
+ */
+export type SessionStorageType = 'database' | 'redis' | 'memory';
+
+const SUPPORTED_SESSION_STORAGES: readonly SessionStorageType[] = ['database', 'redis', 'memory'];
+
+/**
+ * Resolves the configured session storage, defaulting to the database
+ */
+function resolveSessionStorage(value: string | undefined): SessionStorageType {
+    const type = (value || 'database').toLowerCase();
+    if (!SUPPORTED_SESSION_STORAGES.includes(type as SessionStorageType)) {
+        throw new Error(`Unsupported SESSION_STORAGE "${value}", expected one of: ${SUPPORTED_SESSION_STORAGES.join(', ')}`);
+    }
+    return type as SessionStorageType;
+}
+
+/**
+ * Session storage configuration constants
+ */
+export const SESSION_CONFIG = {
+    STORAGE: resolveSessionStorage(process.env.SESSION_STORAGE),
+    // Sessions untouched for this long are dropped, so users don't resume a conversation step from days ago
+    TTL_MS: parseInt(process.env.SESSION_TTL_MS || '86400000', 10),
+    // Expired rows of the database storage are deleted in the background, Redis and memory expire keys themselves
+    CLEANUP_INTERVAL_MS: parseInt(process.env.SESSION_CLEANUP_INTERVAL_MS || '3600000', 10),
+    REDIS_URL: process.env.REDIS_URL || 'redis://localhost:6379',
+    REDIS_KEY_PREFIX: process.env.REDIS_KEY_PREFIX || 'xrocket-pay-bot:session:',
+    // Every update reads and writes its session, so a stuck server must fail them quickly instead of piling them up
+    REDIS_CONNECT_TIMEOUT_MS: parseInt(process.env.REDIS_CONNECT_TIMEOUT_MS || '5000', 10),
+    REDIS_COMMAND_TIMEOUT_MS: parseInt(process.env.REDIS_COMMAND_TIMEOUT_MS || '2000', 10),
+} as const;
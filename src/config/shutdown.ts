@@ -0,0 +1,12 @@
+import * as dotenv from 'dotenv';
+
+dotenv.config();
+
+/**
+ * Graceful shutdown configuration constants
+ */
+export const SHUTDOWN_CONFIG = {
+    // How long SIGTERM/SIGINT waits for update handling and money operations before interrupting them,
+    // keep it below the container stop timeout (stop_grace_period in docker-compose.yml)
+    TIMEOUT_MS: parseInt(process.env.SHUTDOWN_TIMEOUT_MS || '20000', 10),
+} as const;
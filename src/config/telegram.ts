@@ -0,0 +1,36 @@
+import * as dotenv from 'dotenv';
+
+dotenv.config();
+
+/**
+ * How the bot receives Telegram updates
+ * - polling: the bot asks Telegram for updates (getUpdates), no public URL needed
+ * - webhook: Telegram posts updates to TELEGRAM_WEBHOOK_URL, served by the Express app
+ */
+export type TelegramUpdateMode = 'polling' | 'webhook';
+
+const SUPPORTED_UPDATE_MODES: readonly TelegramUpdateMode[] = ['polling', 'webhook'];
+
+/**
+ * Resolves the configured update mode, defaulting to long polling
+ */
+function resolveUpdateMode(value: string | undefined): TelegramUpdateMode {
+    const mode = (value || 'polling').toLowerCase();
+    if (!SUPPORTED_UPDATE_MODES.includes(mode as TelegramUpdateMode)) {
+        throw new Error(`Unsupported TELEGRAM_UPDATE_MODE "${value}", expected one of: ${SUPPORTED_UPDATE_MODES.join(', ')}`);
+    }
+    return mode as TelegramUpdateMode;
+}
+
+/**
+ * Telegram update delivery configuration constants
+ */
+export const TELEGRAM_CONFIG = {
+    UPDATE_MODE: resolveUpdateMode(process.env.TELEGRAM_UPDATE_MODE),
+    // Public HTTPS URL Telegram posts updates to, its path is the route served by the Express app
+    WEBHOOK_URL: process.env.TELEGRAM_WEBHOOK_URL || '',
+    // Sent by Telegram in X-Telegram-Bot-Api-Secret-Token, 1-256 characters of A-Z, a-z, 0-9, _ and -
+    WEBHOOK_SECRET: process.env.TELEGRAM_WEBHOOK_SECRET || '',
+    // Updates still being handled after this are acknowledged so Telegram doesn't deliver them again
+    WEBHOOK_TIMEOUT_MS: parseInt(process.env.TELEGRAM_WEBHOOK_TIMEOUT_MS || '9000', 10),
+} as const;
@@ -0,0 +1,11 @@
+import * as dotenv from 'dotenv';
+
+dotenv.config();
+
+/**
+ * xRocket Pay webhook configuration constants
+ */
+export const WEBHOOK_CONFIG = {
+    // Webhooks whose timestamp is further than this from the current time are rejected as replays, 0 disables the check
+    MAX_AGE_MS: parseInt(process.env.WEBHOOK_MAX_AGE_MS || '300000', 10),
+} as const;
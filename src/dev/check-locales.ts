@@ -0,0 +1,18 @@
+import { checkLocales, formatLocaleIssue } from '../utils/locale-check';
+
+/**
+ * Reports keys and Fluent variables that differ between the translation files in locales/ and the English one.
+ * Exits with a non-zero code when anything differs so it can run in CI.
+ */
+
+const LOCALES_DIRECTORY = 'locales';
+const BASE_LOCALE = 'en';
+
+const issues = checkLocales(LOCALES_DIRECTORY, BASE_LOCALE);
+if (issues.length === 0) {
+    console.log('All locales match the base locale');
+} else {
+    issues.forEach(issue => console.log(formatLocaleIssue(issue)));
+    console.log(`${issues.length} issue(s) found`);
+    process.exitCode = 1;
+}
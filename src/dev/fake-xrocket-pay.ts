@@ -0,0 +1,794 @@
+import express, { Request, Response, NextFunction } from 'express';
+import { createHash, createHmac } from 'crypto';
+import { Server } from 'http';
+import { AddressInfo } from 'net';
+import * as dotenv from 'dotenv';
+import logger from '../utils/logger';
+
+dotenv.config();
+
+/**
+ * In-process stand-in for the xRocket Pay endpoints used by XRocketPayService.
+ * Point XROCKET_API_URL at it to run the bot without a live xRocket Pay account.
+ * State lives in memory and can be driven from code (tests) or through the /_control routes (manual runs).
+ */
+
+export type FakeInvoiceStatus = 'active' | 'paid' | 'expired';
+export type FakeWithdrawalStatus = 'CREATED' | 'COMPLETED' | 'FAIL';
+export type FakeChequeState = 'active' | 'completed' | 'draft';
+
+/**
+ * Operations that can be told to fail with failNext()
+ */
+export type FakeOperation =
+    | 'createInvoice'
+    | 'getInvoice'
+    | 'deleteInvoice'
+    | 'createTransfer'
+    | 'createWithdrawal'
+    | 'getWithdrawalStatus'
+    | 'getWithdrawalFees'
+    | 'createMulticheque'
+    | 'getMulticheque'
+    | 'getMulticheques'
+    | 'deleteMulticheque'
+    | 'getAvailableCurrencies';
+
+export interface FakeInvoicePayment {
+    userId: number;
+    paymentNum: number;
+    paymentAmount: number;
+    paymentAmountReceived: number;
+    comment: string | null;
+    paid: string;
+}
+
+export interface FakeInvoice {
+    id: number;
+    amount: number;
+    minPayment: number;
+    totalActivations: number;
+    activationsLeft: number;
+    description: string | null;
+    hiddenMessage: string | null;
+    payload: string | null;
+    callbackUrl: string | null;
+    commentsEnabled: boolean;
+    currency: string;
+    created: string;
+    paid: string | null;
+    status: FakeInvoiceStatus;
+    expiredIn: number;
+    link: string;
+    payments: FakeInvoicePayment[];
+}
+
+export interface FakeTransfer {
+    id: number;
+    tgUserId: number;
+    currency: string;
+    amount: number;
+    description: string | null;
+    transferId: string;
+}
+
+export interface FakeWithdrawal {
+    network: string;
+    address: string;
+    currency: string;
+    amount: number;
+    withdrawalId: string;
+    status: FakeWithdrawalStatus;
+    comment: string | null;
+    txHash: string | null;
+    txLink: string | null;
+    error: string | null;
+}
+
+export interface FakeCheque {
+    id: number;
+    currency: string;
+    total: number;
+    perUser: number;
+    users: number;
+    password: string | null;
+    description: string | null;
+    sendNotifications: boolean;
+    captchaEnabled: boolean;
+    refProgramPercents: number;
+    refRewardPerUser: number;
+    state: FakeChequeState;
+    link: string;
+    forPremium: boolean;
+    activations: number;
+    refRewards: number;
+}
+
+/**
+ * Withdrawal fee for one network of a currency
+ */
+export interface FakeNetworkFee {
+    networkCode: string;
+    fee: number;
+}
+
+export interface FakeCurrency {
+    currency: string;
+    name: string;
+    minTransfer: number;
+    minCheque: number;
+    minInvoice: number;
+    minWithdraw: number;
+    networks: FakeNetworkFee[];
+}
+
+export interface FakeXRocketPayOptions {
+    /** API key expected in the Rocket-Pay-Key header and used to sign webhooks. Empty disables the check. */
+    apiKey?: string;
+    /** Absolute URL of the bot's xRocket Pay webhook route */
+    webhookUrl?: string;
+    /** Starting app balance for every currency */
+    initialBalance?: number;
+}
+
+interface PendingFailure {
+    status: number;
+    message: string;
+}
+
+const DEFAULT_CURRENCIES: FakeCurrency[] = [
+    {
+        currency: 'TONCOIN',
+        name: 'TON',
+        minTransfer: 0.0001,
+        minCheque: 0.0001,
+        minInvoice: 0.0001,
+        minWithdraw: 0.1,
+        networks: [{ networkCode: 'TON', fee: 0.01 }]
+    },
+    {
+        currency: 'USDT',
+        name: 'USDT',
+        minTransfer: 0.0001,
+        minCheque: 0.0001,
+        minInvoice: 0.0001,
+        minWithdraw: 1,
+        networks: [
+            { networkCode: 'TON', fee: 0.3 },
+            { networkCode: 'TRX', fee: 1 },
+            { networkCode: 'BSC', fee: 0.5 }
+        ]
+    },
+    {
+        currency: 'XROCK',
+        name: 'XROCK',
+        minTransfer: 0.0001,
+        minCheque: 0.0001,
+        minInvoice: 0.0001,
+        minWithdraw: 1,
+        networks: [{ networkCode: 'TON', fee: 1 }]
+    }
+];
+
+/**
+ * Error returned to the client with an HTTP status, mirroring xRocket Pay's { success: false } responses
+ */
+class FakeApiError extends Error {
+    constructor(public readonly status: number, message: string) {
+        super(message);
+    }
+}
+
+export class FakeXRocketPayServer {
+    public readonly invoices = new Map<number, FakeInvoice>();
+    public readonly transfers = new Map<number, FakeTransfer>();
+    public readonly withdrawals = new Map<string, FakeWithdrawal>();
+    public readonly cheques = new Map<number, FakeCheque>();
+    public readonly balances = new Map<string, number>();
+    public currencies: FakeCurrency[] = DEFAULT_CURRENCIES.map(c => ({ ...c, networks: [...c.networks] }));
+    public webhookUrl?: string;
+
+    private readonly apiKey: string;
+    private readonly initialBalance: number;
+    private readonly failures = new Map<FakeOperation, PendingFailure>();
+    private readonly app = express();
+    private server: Server | null = null;
+    private nextId = 1;
+
+    constructor(options: FakeXRocketPayOptions = {}) {
+        this.apiKey = options.apiKey ?? process.env.XROCKET_API_KEY ?? '';
+        this.webhookUrl = options.webhookUrl;
+        this.initialBalance = options.initialBalance ?? 1000000;
+        this.resetBalances();
+        this.registerRoutes();
+    }
+
+    /**
+     * Computes the rocket-pay-signature header value for a webhook body
+     */
+    public static signWebhook(body: string, apiKey: string): string {
+        const secret = createHash('sha256').update(apiKey).digest();
+        return createHmac('sha256', secret).update(body).digest('hex');
+    }
+
+    /**
+     * Starts listening. Port 0 picks a free port.
+     * @returns The base URL to use as XROCKET_API_URL
+     */
+    public async start(port = 0): Promise<string> {
+        if (this.server) {
+            return this.getBaseUrl();
+        }
+
+        await new Promise<void>((resolve, reject) => {
+            const server = this.app.listen(port, (error?: Error) => {
+                if (error) {
+                    reject(error);
+                    return;
+                }
+                resolve();
+            });
+            this.server = server;
+        });
+
+        logger.info('[FakeXRocketPay] Listening:', { url: this.getBaseUrl() });
+        return this.getBaseUrl();
+    }
+
+    /**
+     * Stops listening and closes open connections
+     */
+    public async stop(): Promise<void> {
+        const server = this.server;
+        if (!server) {
+            return;
+        }
+
+        this.server = null;
+        server.closeAllConnections();
+        await new Promise<void>(resolve => server.close(() => resolve()));
+        logger.info('[FakeXRocketPay] Stopped');
+    }
+
+    /**
+     * Gets the base URL of the running server
+     */
+    public getBaseUrl(): string {
+        if (!this.server) {
+            throw new Error('Fake xRocket Pay server is not running');
+        }
+        const { port } = this.server.address() as AddressInfo;
+        return `http://127.0.0.1:${port}`;
+    }
+
+    /**
+     * Drops all stored objects, queued failures and restores balances
+     */
+    public reset(): void {
+        this.invoices.clear();
+        this.transfers.clear();
+        this.withdrawals.clear();
+        this.cheques.clear();
+        this.failures.clear();
+        this.resetBalances();
+        this.nextId = 1;
+    }
+
+    /**
+     * Makes the next call of an operation fail with the given HTTP status
+     */
+    public failNext(operation: FakeOperation, status = 500, message = 'Internal server error'): void {
+        this.failures.set(operation, { status, message });
+    }
+
+    /**
+     * Sets the app balance for a currency (external code, e.g. TONCOIN)
+     */
+    public setBalance(currency: string, amount: number): void {
+        this.balances.set(currency, amount);
+    }
+
+    /**
+     * Records a payment for an invoice, as if a Telegram user paid it
+     * @param options.amount - Paid amount, defaults to the invoice amount
+     * @param options.fee - Part of the payment kept by xRocket Pay, defaults to 0
+     */
+    public payInvoice(
+        invoiceId: number,
+        options: { userId?: number; amount?: number; fee?: number; comment?: string } = {}
+    ): FakeInvoicePayment {
+        const invoice = this.getInvoiceOrFail(invoiceId);
+        if (invoice.status !== 'active' || invoice.activationsLeft <= 0) {
+            throw new FakeApiError(400, `Invoice ${invoiceId} can't be paid in status ${invoice.status}`);
+        }
+
+        const paymentAmount = options.amount ?? invoice.amount;
+        const now = new Date().toISOString();
+        const payment: FakeInvoicePayment = {
+            userId: options.userId ?? 1,
+            paymentNum: invoice.payments.length + 1,
+            paymentAmount,
+            paymentAmountReceived: paymentAmount - (options.fee ?? 0),
+            comment: options.comment ?? null,
+            paid: now
+        };
+
+        invoice.payments.push(payment);
+        invoice.activationsLeft--;
+        invoice.paid = now;
+        if (invoice.activationsLeft === 0) {
+            invoice.status = 'paid';
+        }
+        this.adjustBalance(invoice.currency, payment.paymentAmountReceived);
+
+        logger.info('[FakeXRocketPay] Invoice paid:', { invoiceId, paymentAmount });
+        return payment;
+    }
+
+    /**
+     * Marks an active invoice as expired
+     */
+    public expireInvoice(invoiceId: number): FakeInvoice {
+        const invoice = this.getInvoiceOrFail(invoiceId);
+        invoice.status = 'expired';
+        return invoice;
+    }
+
+    /**
+     * Builds the invoicePay webhook body for the given payment (the latest one by default)
+     */
+    public buildInvoiceWebhook(invoiceId: number, payment?: FakeInvoicePayment): string {
+        const invoice = this.getInvoiceOrFail(invoiceId);
+        const lastPayment = payment ?? invoice.payments[invoice.payments.length - 1];
+        if (!lastPayment) {
+            throw new Error(`Invoice ${invoiceId} has no payments`);
+        }
+
+        const { payments, ...invoiceData } = invoice;
+        return JSON.stringify({
+            type: 'invoicePay',
+            timestamp: new Date().toISOString(),
+            data: { ...invoiceData, payment: lastPayment }
+        });
+    }
+
+    /**
+     * Posts a correctly signed invoicePay webhook to the bot
+     * @returns The HTTP status and body returned by the webhook route
+     */
+    public async sendInvoiceWebhook(
+        invoiceId: number,
+        options: { url?: string; payment?: FakeInvoicePayment } = {}
+    ): Promise<{ status: number; body: any }> {
+        const url = options.url ?? this.webhookUrl;
+        if (!url) {
+            throw new Error('Webhook URL is not configured');
+        }
+
+        const body = this.buildInvoiceWebhook(invoiceId, options.payment);
+        const response = await fetch(url, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+                'rocket-pay-signature': FakeXRocketPayServer.signWebhook(body, this.apiKey)
+            },
+            body
+        });
+
+        const text = await response.text();
+        logger.info('[FakeXRocketPay] Webhook delivered:', { invoiceId, status: response.status });
+
+        let responseBody: any = text;
+        try {
+            responseBody = JSON.parse(text);
+        } catch {
+            // Keep the raw text for non-JSON responses
+        }
+        return { status: response.status, body: responseBody };
+    }
+
+    /**
+     * Moves a withdrawal to COMPLETED
+     */
+    public completeWithdrawal(withdrawalId: string, txHash?: string): FakeWithdrawal {
+        const withdrawal = this.getWithdrawalOrFail(withdrawalId);
+        withdrawal.status = 'COMPLETED';
+        withdrawal.txHash = txHash ?? createHash('sha256').update(withdrawalId).digest('hex');
+        withdrawal.txLink = `https://tonviewer.com/transaction/${withdrawal.txHash}`;
+        return withdrawal;
+    }
+
+    /**
+     * Moves a withdrawal to FAIL and returns its amount to the app balance
+     */
+    public failWithdrawal(withdrawalId: string, error = 'Withdrawal failed'): FakeWithdrawal {
+        const withdrawal = this.getWithdrawalOrFail(withdrawalId);
+        if (withdrawal.status === 'CREATED') {
+            this.adjustBalance(withdrawal.currency, withdrawal.amount);
+        }
+        withdrawal.status = 'FAIL';
+        withdrawal.error = error;
+        return withdrawal;
+    }
+
+    /**
+     * Claims a multicheque the given number of times
+     */
+    public activateCheque(chequeId: number, count = 1): FakeCheque {
+        const cheque = this.getChequeOrFail(chequeId);
+        if (cheque.state !== 'active') {
+            throw new FakeApiError(400, `Cheque ${chequeId} is not active`);
+        }
+
+        cheque.activations = Math.min(cheque.users, cheque.activations + count);
+        if (cheque.activations >= cheque.users) {
+            cheque.state = 'completed';
+        }
+        return cheque;
+    }
+
+    private registerRoutes(): void {
+        const app = this.app;
+        app.use(express.json());
+
+        app.use('/_control', this.controlRouter());
+        app.use((req: Request, res: Response, next: NextFunction) => this.authenticate(req, res, next));
+
+        this.route('post', '/tg-invoices', 'createInvoice', req => this.createInvoice(req.body));
+        this.route('get', '/tg-invoices/:id', 'getInvoice', req => this.getInvoiceOrFail(Number(req.params.id)));
+        this.route('delete', '/tg-invoices/:id', 'deleteInvoice', req => {
+            const invoice = this.getInvoiceOrFail(Number(req.params.id));
+            this.invoices.delete(invoice.id);
+            return undefined;
+        });
+
+        this.route('post', '/app/transfer', 'createTransfer', req => this.createTransfer(req.body));
+
+        this.route('get', '/app/withdrawal/fees', 'getWithdrawalFees', req => this.getWithdrawalFees(req.query.currency as string | undefined));
+        this.route('get', '/app/withdrawal/status/:withdrawalId', 'getWithdrawalStatus', req =>
+            this.getWithdrawalOrFail(req.params.withdrawalId as string)
+        );
+        this.route('post', '/app/withdrawal', 'createWithdrawal', req => this.createWithdrawal(req.body));
+
+        this.route('post', '/multi-cheque', 'createMulticheque', req => this.createCheque(req.body));
+        this.route('get', '/multi-cheque', 'getMulticheques', req => {
+            const limit = Number(req.query.limit ?? 100);
+            const offset = Number(req.query.offset ?? 0);
+            const results = [...this.cheques.values()];
+            return { total: results.length, limit, offset, results: results.slice(offset, offset + limit) };
+        });
+        this.route('get', '/multi-cheque/:id', 'getMulticheque', req => this.getChequeOrFail(Number(req.params.id)));
+        this.route('delete', '/multi-cheque/:id', 'deleteMulticheque', req => this.deleteCheque(Number(req.params.id)));
+
+        this.route('get', '/currencies/available', 'getAvailableCurrencies', () => ({
+            results: this.currencies.map(c => ({
+                currency: c.currency,
+                name: c.name,
+                minTransfer: c.minTransfer,
+                minCheque: c.minCheque,
+                minInvoice: c.minInvoice,
+                minWithdraw: c.minWithdraw,
+                feeWithdraw: {
+                    currency: c.currency,
+                    networks: c.networks.map(n => ({
+                        networkCode: n.networkCode,
+                        feeWithdraw: { fee: n.fee, currency: c.currency }
+                    }))
+                }
+            }))
+        }));
+
+        app.use((req: Request, res: Response) => {
+            res.status(404).json({ success: false, message: `Unknown endpoint ${req.method} ${req.path}` });
+        });
+    }
+
+    /**
+     * Registers an API route that applies queued failures and wraps the result in { success, data }
+     */
+    private route(
+        method: 'get' | 'post' | 'delete',
+        path: string,
+        operation: FakeOperation,
+        handler: (req: Request) => unknown
+    ): void {
+        this.app[method](path, (req: Request, res: Response) => {
+            try {
+                const failure = this.failures.get(operation);
+                if (failure) {
+                    this.failures.delete(operation);
+                    throw new FakeApiError(failure.status, failure.message);
+                }
+
+                const data = handler(req);
+                res.json(data === undefined ? { success: true } : { success: true, data });
+            } catch (error) {
+                this.sendError(res, error);
+            }
+        });
+    }
+
+    /**
+     * Routes for driving state over HTTP when the server runs standalone
+     */
+    private controlRouter(): express.Router {
+        const router = express.Router();
+        const handle = (handler: (req: Request) => unknown | Promise<unknown>) =>
+            async (req: Request, res: Response) => {
+                try {
+                    res.json({ success: true, data: await handler(req) });
+                } catch (error) {
+                    this.sendError(res, error);
+                }
+            };
+
+        router.post('/reset', handle(() => this.reset()));
+        router.post('/invoices/:id/pay', handle(async req => {
+            const invoiceId = Number(req.params.id);
+            const payment = this.payInvoice(invoiceId, req.body ?? {});
+            const webhook = this.webhookUrl ? await this.sendInvoiceWebhook(invoiceId, { payment }) : null;
+            return { payment, webhook };
+        }));
+        router.post('/invoices/:id/expire', handle(req => this.expireInvoice(Number(req.params.id))));
+        router.post('/withdrawals/:id/complete', handle(req =>
+            this.completeWithdrawal(req.params.id as string, req.body?.txHash)
+        ));
+        router.post('/withdrawals/:id/fail', handle(req =>
+            this.failWithdrawal(req.params.id as string, req.body?.error)
+        ));
+        router.post('/cheques/:id/activate', handle(req =>
+            this.activateCheque(Number(req.params.id), Number(req.body?.count ?? 1))
+        ));
+        router.post('/fail-next/:operation', handle(req =>
+            this.failNext(req.params.operation as FakeOperation, Number(req.body?.status ?? 500), req.body?.message)
+        ));
+        router.get('/state', handle(() => ({
+            invoices: [...this.invoices.values()],
+            transfers: [...this.transfers.values()],
+            withdrawals: [...this.withdrawals.values()],
+            cheques: [...this.cheques.values()],
+            balances: Object.fromEntries(this.balances)
+        })));
+
+        return router;
+    }
+
+    private authenticate(req: Request, res: Response, next: NextFunction): void {
+        if (this.apiKey && req.header('rocket-pay-key') !== this.apiKey) {
+            res.status(401).json({ success: false, message: 'Invalid API key' });
+            return;
+        }
+        next();
+    }
+
+    private sendError(res: Response, error: unknown): void {
+        if (error instanceof FakeApiError) {
+            res.status(error.status).json({ success: false, message: error.message });
+            return;
+        }
+        logger.error('[FakeXRocketPay] Unexpected error:', error);
+        res.status(500).json({ success: false, message: error instanceof Error ? error.message : 'Internal server error' });
+    }
+
+    private createInvoice(body: any): FakeInvoice {
+        const amount = this.requirePositive(body.amount, 'amount');
+        const currency = this.requireCurrency(body.currency);
+        const id = this.nextId++;
+        const numPayments = Number(body.numPayments ?? 1);
+
+        const invoice: FakeInvoice = {
+            id,
+            amount,
+            minPayment: amount,
+            totalActivations: numPayments,
+            activationsLeft: numPayments,
+            description: body.description ?? null,
+            hiddenMessage: body.hiddenMessage ?? null,
+            payload: body.payload ?? null,
+            callbackUrl: body.callbackUrl ?? null,
+            commentsEnabled: !!body.commentsEnabled,
+            currency,
+            created: new Date().toISOString(),
+            paid: null,
+            status: 'active',
+            expiredIn: Number(body.expiredIn ?? 0),
+            link: `https://t.me/xrocket?start=inv_fake${id}`,
+            payments: []
+        };
+
+        this.invoices.set(id, invoice);
+        return invoice;
+    }
+
+    private createTransfer(body: any): FakeTransfer {
+        // xRocket Pay deduplicates transfers by the caller supplied transferId
+        const existing = [...this.transfers.values()].find(t => t.transferId === String(body.transferId));
+        if (existing) {
+            return existing;
+        }
+
+        const amount = this.requirePositive(body.amount, 'amount');
+        const currency = this.requireCurrency(body.currency);
+        if (!body.tgUserId) {
+            throw new FakeApiError(400, 'tgUserId is required');
+        }
+        this.debit(currency, amount);
+
+        const transfer: FakeTransfer = {
+            id: this.nextId++,
+            tgUserId: Number(body.tgUserId),
+            currency,
+            amount,
+            description: body.description ?? null,
+            transferId: String(body.transferId)
+        };
+        this.transfers.set(transfer.id, transfer);
+        return transfer;
+    }
+
+    private createWithdrawal(body: any): FakeWithdrawal {
+        const withdrawalId = String(body.withdrawalId);
+        const existing = this.withdrawals.get(withdrawalId);
+        if (existing) {
+            return existing;
+        }
+
+        const amount = this.requirePositive(body.amount, 'amount');
+        const currency = this.requireCurrency(body.currency);
+        const network = this.currencies.find(c => c.currency === currency)!.networks.find(n => n.networkCode === body.network);
+        if (!network) {
+            throw new FakeApiError(400, `Network ${body.network} is not available for ${currency}`);
+        }
+        if (!body.address) {
+            throw new FakeApiError(400, 'address is required');
+        }
+        this.debit(currency, amount + network.fee);
+
+        const withdrawal: FakeWithdrawal = {
+            network: network.networkCode,
+            address: body.address,
+            currency,
+            amount,
+            withdrawalId,
+            status: 'CREATED',
+            comment: body.comment ?? null,
+            txHash: null,
+            txLink: null,
+            error: null
+        };
+        this.withdrawals.set(withdrawalId, withdrawal);
+        return withdrawal;
+    }
+
+    private getWithdrawalFees(currency?: string): unknown[] {
+        return this.currencies
+            .filter(c => !currency || c.currency === currency)
+            .map(c => ({
+                code: c.currency,
+                minWithdraw: c.minWithdraw,
+                fees: c.networks.map(n => ({
+                    networkCode: n.networkCode,
+                    feeWithdraw: { fee: n.fee, currency: c.currency }
+                }))
+            }));
+    }
+
+    private createCheque(body: any): FakeCheque {
+        const perUser = this.requirePositive(body.chequePerUser, 'chequePerUser');
+        const currency = this.requireCurrency(body.currency);
+        const users = Number(body.usersNumber);
+        if (!Number.isInteger(users) || users <= 0) {
+            throw new FakeApiError(400, 'usersNumber must be a positive integer');
+        }
+
+        const total = perUser * users;
+        this.debit(currency, total);
+
+        const id = this.nextId++;
+        const cheque: FakeCheque = {
+            id,
+            currency,
+            total,
+            perUser,
+            users,
+            password: body.password ?? null,
+            description: body.description ?? null,
+            sendNotifications: body.sendNotifications ?? true,
+            captchaEnabled: body.enableCaptcha ?? true,
+            refProgramPercents: Number(body.refProgram ?? 0),
+            refRewardPerUser: perUser * Number(body.refProgram ?? 0) / 100,
+            state: 'active',
+            link: `https://t.me/xrocket?start=mc_fake${id}`,
+            forPremium: !!body.forPremium,
+            activations: 0,
+            refRewards: 0
+        };
+        this.cheques.set(id, cheque);
+        return cheque;
+    }
+
+    private deleteCheque(chequeId: number): FakeCheque {
+        const cheque = this.getChequeOrFail(chequeId);
+        if (cheque.state === 'active') {
+            this.adjustBalance(cheque.currency, cheque.perUser * (cheque.users - cheque.activations));
+        }
+        this.cheques.delete(chequeId);
+        return cheque;
+    }
+
+    private getInvoiceOrFail(invoiceId: number): FakeInvoice {
+        const invoice = this.invoices.get(invoiceId);
+        if (!invoice) {
+            throw new FakeApiError(404, `Invoice ${invoiceId} not found`);
+        }
+        return invoice;
+    }
+
+    private getWithdrawalOrFail(withdrawalId: string): FakeWithdrawal {
+        const withdrawal = this.withdrawals.get(withdrawalId);
+        if (!withdrawal) {
+            throw new FakeApiError(404, `Withdrawal ${withdrawalId} not found`);
+        }
+        return withdrawal;
+    }
+
+    private getChequeOrFail(chequeId: number): FakeCheque {
+        const cheque = this.cheques.get(chequeId);
+        if (!cheque) {
+            throw new FakeApiError(404, `Cheque ${chequeId} not found`);
+        }
+        return cheque;
+    }
+
+    private requirePositive(value: unknown, field: string): number {
+        const amount = Number(value);
+        if (!Number.isFinite(amount) || amount <= 0) {
+            throw new FakeApiError(400, `${field} must be a positive number`);
+        }
+        return amount;
+    }
+
+    private requireCurrency(currency: unknown): string {
+        if (typeof currency !== 'string' || !this.currencies.some(c => c.currency === currency)) {
+            throw new FakeApiError(400, `Unsupported currency ${String(currency)}`);
+        }
+        return currency;
+    }
+
+    private debit(currency: string, amount: number): void {
+        if ((this.balances.get(currency) ?? 0) < amount) {
+            throw new FakeApiError(400, 'Insufficient funds');
+        }
+        this.adjustBalance(currency, -amount);
+    }
+
+    private adjustBalance(currency: string, amount: number): void {
+        this.balances.set(currency, (this.balances.get(currency) ?? 0) + amount);
+    }
+
+    private resetBalances(): void {
+        this.balances.clear();
+        for (const currency of this.currencies) {
+            this.balances.set(currency.currency, this.initialBalance);
+        }
+    }
+}
+
+// Standalone mode: npm run fake-xrocket
+if (require.main === module) {
+    const port = parseInt(process.env.FAKE_XROCKET_PORT || '3100', 10);
+    const botPort = process.env.PORT || 3000;
+    const fake = new FakeXRocketPayServer({
+        webhookUrl: process.env.FAKE_XROCKET_WEBHOOK_URL || `http://127.0.0.1:${botPort}${process.env.WEBHOOK_URL || '/webhook'}`
+    });
+
+    fake.start(port)
+        .then(url => {
+            logger.info(`[FakeXRocketPay] Set XROCKET_API_URL=${url} to use it from the bot`);
+            logger.info(`[FakeXRocketPay] Pay an invoice with: curl -X POST ${url}/_control/invoices/<id>/pay`);
+        })
+        .catch(error => {
+            logger.error('[FakeXRocketPay] Failed to start:', error);
+            process.exit(1);
+        });
+}
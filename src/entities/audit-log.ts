@@ -0,0 +1,135 @@
+import { Entity, PrimaryGeneratedColumn, Column, ManyToOne, JoinColumn, Index, AfterLoad, BeforeUpdate, BeforeRemove } from "typeorm";
+import { User } from "./user";
+import { LedgerReferenceType } from "./balance-ledger-entry";
+import { COLUMN_TYPES, MONEY_COLUMN } from "../config/database-type";
+import { InternalCurrency } from "../types/currency";
+import { Money } from "../types/money";
+
+/**
+ * Who caused a balance change
+ * - user: the balance owner through the bot
+ * - admin: an operator through admin commands
+ * - webhook: an xRocket Pay webhook
+ * - scheduler: a background job such as the reconciler or status sync
+ * - system: anything else, e.g. scripts and tests
+ */
+export type AuditActorType = 'user' | 'admin' | 'webhook' | 'scheduler' | 'system';
+
+/**
+ * What a balance change did
+ */
+export type AuditAction = 'deposit' | 'transfer' | 'cheque' | 'withdrawal' | 'refund' | 'adjustment';
+
+/**
+ * Represents one money-affecting action on a user's balance, with who performed it and the balance before and after.
+ * Rows are written in the same transaction as the balance change and are never updated or deleted.
+ */
+@Entity({ name: "audit_logs" })
+@Index("idx_audit_logs_user_id", ["userId", "id"])
+@Index("idx_audit_logs_target", ["targetType", "targetId"])
+export class AuditLog {
+    @PrimaryGeneratedColumn()
+    public readonly id!: number;
+
+    @Column({ name: "actor_type", type: 'varchar', length: 16 })
+    public readonly actorType!: AuditActorType;
+
+    @Column({ name: "actor_id", type: 'varchar', length: 64, nullable: true })
+    public readonly actorId!: string | null; // Telegram ID for users and admins, job or event name otherwise
+
+    @Column({ name: "action", type: 'varchar', length: 20 })
+    public readonly action!: AuditAction;
+
+    @Column({ name: "target_type", type: 'varchar', length: 20 })
+    public readonly targetType!: LedgerReferenceType;
+
+    @Column({ name: "target_id", type: 'int', nullable: true })
+    public readonly targetId!: number | null;
+
+    @ManyToOne(() => User)
+    @JoinColumn({ name: "user_id" })
+    public readonly user!: User;
+
+    @Column({ name: "user_id" })
+    public readonly userId!: number;
+
+    @Column({ name: "coin", type: 'varchar', length: 10 })
+    public readonly coin!: string;
+
+    @Column({ name: "amount", ...MONEY_COLUMN })
+    public readonly amount!: Money; // Signed: positive for credits, negative for debits
+
+    @Column({ name: "balance_before", ...MONEY_COLUMN })
+    public readonly balanceBefore!: Money;
+
+    @Column({ name: "balance_after", ...MONEY_COLUMN })
+    public readonly balanceAfter!: Money;
+
+    @Column({ name: "description", type: 'varchar', length: 255, nullable: true })
+    public readonly description!: string | null;
+
+    @Column({ name: "metadata", type: 'text', nullable: true })
+    public readonly metadata!: string | null; // JSON with details of the request that caused the change
+
+    @Column({ name: "created_at", type: COLUMN_TYPES.TIMESTAMP, default: () => 'CURRENT_TIMESTAMP' })
+    public readonly createdAt!: Date;
+
+    /**
+     * Creates a new audit log entry instance
+     */
+    public static create(params: {
+        actorType: AuditActorType;
+        actorId?: string;
+        action: AuditAction;
+        targetType: LedgerReferenceType;
+        targetId?: number;
+        user: User;
+        coin: string;
+        amount: Money;
+        balanceBefore: Money;
+        balanceAfter: Money;
+        description?: string;
+        metadata?: Record<string, unknown>;
+    }): AuditLog {
+        const entry = new AuditLog();
+        Object.assign(entry, {
+            actorType: params.actorType,
+            actorId: params.actorId ?? null,
+            action: params.action,
+            targetType: params.targetType,
+            targetId: params.targetId ?? null,
+            user: params.user,
+            userId: params.user.id,
+            coin: params.coin,
+            amount: params.amount,
+            balanceBefore: params.balanceBefore,
+            balanceAfter: params.balanceAfter,
+            description: params.description ?? null,
+            metadata: params.metadata ? JSON.stringify(params.metadata) : null
+        });
+        return entry;
+    }
+
+    /**
+     * Returns the parsed request metadata
+     */
+    public getMetadata(): Record<string, unknown> {
+        return this.metadata ? JSON.parse(this.metadata) : {};
+    }
+
+    @BeforeUpdate()
+    @BeforeRemove()
+    protected preventChanges(): void {
+        throw new Error('Audit log entries are immutable');
+    }
+
+    @AfterLoad()
+    protected loadAmounts(): void {
+        const currency = this.coin as InternalCurrency;
+        Object.assign(this, {
+            amount: Money.round(this.amount, currency),
+            balanceBefore: Money.round(this.balanceBefore, currency),
+            balanceAfter: Money.round(this.balanceAfter, currency)
+        });
+    }
+}
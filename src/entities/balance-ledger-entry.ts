@@ -0,0 +1,125 @@
+import { Entity, PrimaryGeneratedColumn, Column, ManyToOne, JoinColumn, Index, AfterLoad } from "typeorm";
+import { User } from "./user";
+import { COLUMN_TYPES, MONEY_COLUMN } from "../config/database-type";
+import { InternalCurrency } from "../types/currency";
+import { Money } from "../types/money";
+
+/**
+ * Side of a ledger entry. For user balance accounts a credit increases the balance and a debit decreases it
+ */
+export type LedgerDirection = 'credit' | 'debit';
+
+/**
+ * Accounts that can take part in a ledger transaction
+ * - user_balance: the internal balance of a single user (mirrors UserBalance)
+ * - xrocket_deposits: funds that entered the app through paid invoices
+ * - xrocket_payouts: funds that left the app through transfers, cheques and withdrawals
+ * - manual_adjustments: corrections made by operators
+ * - opening_balances: balances that existed before the ledger was introduced
+ */
+export type LedgerAccount = 'user_balance' | 'xrocket_deposits' | 'xrocket_payouts' | 'manual_adjustments' | 'opening_balances';
+
+/**
+ * Kind of record that caused a balance change
+ */
+export type LedgerReferenceType = 'invoice' | 'transfer' | 'cheque' | 'withdrawal' | 'adjustment' | 'opening';
+
+/**
+ * Represents one side of an append-only double-entry ledger transaction.
+ * Every balance change writes two rows sharing a transactionId: one on the user's balance account
+ * and one on the counter account, so credits and debits of a transaction always sum to zero.
+ * Rows are never updated or deleted.
+ */
+@Entity({ name: "balance_ledger_entries" })
+@Index("idx_ledger_user_coin", ["userId", "coin"])
+@Index("idx_ledger_reference", ["referenceType", "referenceId"])
+export class BalanceLedgerEntry {
+    @PrimaryGeneratedColumn()
+    public readonly id!: number;
+
+    @Index("idx_ledger_transaction_id")
+    @Column({ name: "transaction_id", type: 'varchar', length: 36 })
+    public readonly transactionId!: string;
+
+    @Column({ name: "account", type: 'varchar', length: 32 })
+    public readonly account!: LedgerAccount;
+
+    @ManyToOne(() => User, { nullable: true })
+    @JoinColumn({ name: "user_id" })
+    public readonly user!: User | null;
+
+    @Column({ name: "user_id", nullable: true })
+    public readonly userId!: number | null;
+
+    @Column({ name: "coin", type: 'varchar', length: 10 })
+    public readonly coin!: string;
+
+    @Column({ name: "direction", type: 'varchar', length: 6 })
+    public readonly direction!: LedgerDirection;
+
+    @Column({ name: "amount", ...MONEY_COLUMN })
+    public readonly amount!: Money;
+
+    @Column({ name: "balance_after", ...MONEY_COLUMN, nullable: true })
+    public readonly balanceAfter!: Money | null; // Only set on user_balance entries
+
+    @Column({ name: "reference_type", type: 'varchar', length: 20 })
+    public readonly referenceType!: LedgerReferenceType;
+
+    @Column({ name: "reference_id", type: 'int', nullable: true })
+    public readonly referenceId!: number | null;
+
+    @Column({ name: "description", type: 'varchar', length: 255, nullable: true })
+    public readonly description!: string | null;
+
+    @Column({ name: "created_at", type: COLUMN_TYPES.TIMESTAMP, default: () => 'CURRENT_TIMESTAMP' })
+    public readonly createdAt!: Date;
+
+    /**
+     * Creates a new ledger entry instance
+     */
+    public static create(params: {
+        transactionId: string;
+        account: LedgerAccount;
+        user: User | null;
+        coin: string;
+        direction: LedgerDirection;
+        amount: Money;
+        balanceAfter?: Money;
+        referenceType: LedgerReferenceType;
+        referenceId?: number;
+        description?: string;
+    }): BalanceLedgerEntry {
+        const entry = new BalanceLedgerEntry();
+        Object.assign(entry, {
+            transactionId: params.transactionId,
+            account: params.account,
+            user: params.user,
+            userId: params.user ? params.user.id : null,
+            coin: params.coin,
+            direction: params.direction,
+            amount: params.amount,
+            balanceAfter: params.balanceAfter ?? null,
+            referenceType: params.referenceType,
+            referenceId: params.referenceId ?? null,
+            description: params.description ?? null
+        });
+        return entry;
+    }
+
+    /**
+     * Returns the amount with sign applied (credits positive, debits negative)
+     */
+    public getSignedAmount(): Money {
+        return this.direction === 'credit' ? this.amount : this.amount.negated();
+    }
+
+    @AfterLoad()
+    protected loadAmounts(): void {
+        const currency = this.coin as InternalCurrency;
+        Object.assign(this, {
+            amount: Money.round(this.amount, currency),
+            balanceAfter: this.balanceAfter === null ? null : Money.round(this.balanceAfter, currency)
+        });
+    }
+}
@@ -0,0 +1,22 @@
+import { Entity, PrimaryColumn, Column, Index } from "typeorm";
+import { COLUMN_TYPES } from "../config/database-type";
+
+/**
+ * Represents the grammY session of a chat, stored as JSON so conversation steps survive restarts
+ * and are shared between bot instances
+ */
+@Entity({ name: "bot_sessions" })
+export class BotSession {
+    @PrimaryColumn({ name: "session_key", type: 'varchar', length: 64 })
+    public key!: string; // grammY session key, the chat ID
+
+    @Column({ name: "data", type: 'text' })
+    public data!: string;
+
+    @Index("idx_bot_sessions_expires_at")
+    @Column({ name: "expires_at", type: COLUMN_TYPES.TIMESTAMP })
+    public expiresAt!: Date;
+
+    @Column({ name: "updated_at", type: COLUMN_TYPES.TIMESTAMP, default: () => 'CURRENT_TIMESTAMP', onUpdate: 'CURRENT_TIMESTAMP' })
+    public updatedAt!: Date;
+}
@@ -0,0 +1,120 @@
+import { Entity, PrimaryGeneratedColumn, Column, ManyToOne, JoinColumn, Index, AfterLoad } from "typeorm";
+import { UserInvoice } from "./user-invoice";
+import { COLUMN_TYPES, MONEY_COLUMN } from "../config/database-type";
+import { InternalCurrency } from "../types/currency";
+import { Money } from "../types/money";
+
+/**
+ * How a payment differs from the amount the invoice asked for
+ */
+export type InvoicePaymentMismatch = 'underpaid' | 'overpaid';
+
+/**
+ * A payment reported by xRocket Pay for an invoice
+ */
+export interface InvoicePaymentDetails {
+    paymentNum: number;
+    payerTelegramId?: number;
+    amount: Money; // Paid by the payer
+    amountReceived: Money; // Left after xRocket Pay fees, this is what gets credited
+    comment?: string;
+    paidAt?: Date;
+}
+
+/**
+ * Represents one payment of an invoice. Invoices accepting several payments get a row for each,
+ * and each row is credited to the invoice owner's balance exactly once.
+ * Payments of a different amount than requested are flagged with a mismatch until an admin reviews them
+ */
+@Entity({ name: "invoice_payments" })
+@Index("idx_invoice_payments_invoice_payment_num", ["userInvoiceId", "paymentNum"], { unique: true })
+@Index("idx_invoice_payments_mismatch", ["mismatch", "reviewedAt"])
+export class InvoicePayment {
+    @PrimaryGeneratedColumn()
+    public readonly id!: number;
+
+    @ManyToOne(() => UserInvoice, invoice => invoice.payments)
+    @JoinColumn({ name: "user_invoice_id" })
+    public readonly invoice!: UserInvoice;
+
+    @Column({ name: "user_invoice_id" })
+    public readonly userInvoiceId!: number;
+
+    @Column({ name: "payment_num", type: 'int' })
+    public readonly paymentNum!: number;
+
+    @Column({ name: "payer_telegram_id", type: 'bigint', nullable: true })
+    public readonly payerTelegramId!: number | null;
+
+    @Column({ name: "currency", type: 'varchar', length: 10 })
+    public readonly currency!: string;
+
+    @Column({ name: "requested_amount", ...MONEY_COLUMN })
+    public readonly requestedAmount!: Money; // What the invoice asked for
+
+    @Column({ name: "amount", ...MONEY_COLUMN })
+    public readonly amount!: Money; // What the payer paid
+
+    @Column({ name: "amount_received", ...MONEY_COLUMN })
+    public readonly amountReceived!: Money; // What was credited, after xRocket Pay fees
+
+    @Column({ name: "mismatch", type: 'varchar', length: 10, nullable: true })
+    public readonly mismatch!: InvoicePaymentMismatch | null;
+
+    @Column({ name: "reviewed_at", type: COLUMN_TYPES.TIMESTAMP, nullable: true })
+    public reviewedAt!: Date | null;
+
+    @Column({ name: "reviewed_by", type: 'bigint', nullable: true })
+    public reviewedBy!: number | null; // Telegram ID of the admin who reviewed the mismatch
+
+    @Column({ name: "comment", type: 'text', nullable: true })
+    public readonly comment!: string | null;
+
+    @Column({ name: "paid_at", type: COLUMN_TYPES.TIMESTAMP, nullable: true })
+    public readonly paidAt!: Date | null;
+
+    @Column({ name: "created_at", type: COLUMN_TYPES.TIMESTAMP, default: () => 'CURRENT_TIMESTAMP' })
+    public readonly createdAt!: Date;
+
+    /**
+     * Creates a new invoice payment instance
+     */
+    public static create(invoice: UserInvoice, details: InvoicePaymentDetails): InvoicePayment {
+        const payment = new InvoicePayment();
+        Object.assign(payment, {
+            invoice,
+            userInvoiceId: invoice.id,
+            paymentNum: details.paymentNum,
+            payerTelegramId: details.payerTelegramId ?? null,
+            currency: invoice.currency,
+            requestedAmount: invoice.amount,
+            amount: details.amount,
+            amountReceived: details.amountReceived,
+            mismatch: details.amount.isLessThan(invoice.amount)
+                ? 'underpaid'
+                : details.amount.isGreaterThan(invoice.amount) ? 'overpaid' : null,
+            reviewedAt: null,
+            reviewedBy: null,
+            comment: details.comment ?? null,
+            paidAt: details.paidAt ?? null
+        });
+        return payment;
+    }
+
+    /**
+     * Checks whether the payment differs from the requested amount and hasn't been reviewed yet
+     */
+    public needsReview(): boolean {
+        return this.mismatch !== null && this.reviewedAt === null;
+    }
+
+    @AfterLoad()
+    protected loadAmounts(): void {
+        const currency = this.currency as InternalCurrency;
+        Object.assign(this, {
+            requestedAmount: Money.round(this.requestedAmount, currency),
+            amount: Money.round(this.amount, currency),
+            amountReceived: Money.round(this.amountReceived, currency)
+        });
+    }
+}
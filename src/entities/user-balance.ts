@@ -1,5 +1,8 @@
-import { Entity, PrimaryGeneratedColumn, Column, ManyToOne, JoinColumn } from "typeorm";
+import { Entity, PrimaryGeneratedColumn, Column, ManyToOne, JoinColumn, AfterLoad } from "typeorm";
 import { User } from "./user";
+import { COLUMN_TYPES, MONEY_COLUMN } from "../config/database-type";
+import { InternalCurrency } from "../types/currency";
+import { Money } from "../types/money";
 
 /**
  * Represents a user's balance for a specific cryptocurrency
@@ -9,8 +12,8 @@ export class UserBalance {
     @PrimaryGeneratedColumn()
     public readonly id!: number;
 
-    @Column({ name: "amount", type: 'decimal', precision: 20, scale: 8 })
-    public amount!: number;
+    @Column({ name: "amount", ...MONEY_COLUMN })
+    public amount!: Money;
 
     @Column({ name: "coin" })
     public readonly coin!: string;
@@ -19,10 +22,10 @@ export class UserBalance {
     @JoinColumn({ name: "user_id" })
     public readonly user!: User;
 
-    @Column({ name: "created_at", type: 'timestamp', default: () => 'CURRENT_TIMESTAMP' })
+    @Column({ name: "created_at", type: COLUMN_TYPES.TIMESTAMP, default: () => 'CURRENT_TIMESTAMP' })
     public readonly createdAt!: Date;
 
-    @Column({ name: "updated_at", type: 'timestamp', default: () => 'CURRENT_TIMESTAMP', onUpdate: 'CURRENT_TIMESTAMP' })
+    @Column({ name: "updated_at", type: COLUMN_TYPES.TIMESTAMP, default: () => 'CURRENT_TIMESTAMP', onUpdate: 'CURRENT_TIMESTAMP' })
     public readonly updatedAt!: Date;
 
     /**
@@ -31,7 +34,7 @@ export class UserBalance {
      * @param coin - The cryptocurrency type
      * @param amount - The initial amount
      */
-    public static create(user: User, coin: string, amount: number): UserBalance {
+    public static create(user: User, coin: InternalCurrency, amount: Money): UserBalance {
         const balance = new UserBalance();
         Object.assign(balance, { user, coin, amount });
         return balance;
@@ -39,9 +42,14 @@ export class UserBalance {
 
     /**
      * Adds amount to the current balance
-     * @param amount - The amount to add
+     * @param amount - The amount to add, negative to subtract
      */
-    public addAmount(amount: number): void {
-        this.amount = this.amount + amount;
+    public addAmount(amount: Money): void {
+        this.amount = this.amount.plus(amount);
+    }
+
+    @AfterLoad()
+    protected loadAmounts(): void {
+        this.amount = Money.round(this.amount, this.coin as InternalCurrency);
     }
 } 
\ No newline at end of file
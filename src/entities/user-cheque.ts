@@ -1,7 +1,25 @@
-import { Entity, PrimaryGeneratedColumn, Column, ManyToOne, CreateDateColumn, UpdateDateColumn, JoinColumn } from 'typeorm';
+import { Entity, PrimaryGeneratedColumn, Column, ManyToOne, CreateDateColumn, UpdateDateColumn, JoinColumn, AfterLoad } from 'typeorm';
 import { User } from './user';
+import { COLUMN_TYPES, MONEY_COLUMN } from '../config/database-type';
+import { InternalCurrency } from '../types/currency';
+import { Money } from '../types/money';
 
-export type ChequeStatus = 'active' | 'completed' | 'draft';
+/**
+ * Cheque states: 'active', 'completed' and 'draft' mirror xRocket Pay,
+ * 'cancelled' means the creator deleted the cheque and got the unclaimed amount back
+ */
+export type ChequeStatus = 'active' | 'completed' | 'draft' | 'cancelled';
+
+/**
+ * Optional multicheque settings chosen by the creator
+ */
+export interface ChequeOptions {
+    password?: string | null;
+    description?: string | null;
+    refProgramPercent?: number;
+    enableCaptcha?: boolean;
+    forPremium?: boolean;
+}
 
 @Entity('user_cheques')
 export class UserCheque {
@@ -21,22 +39,49 @@ export class UserCheque {
     @Column({ type: 'varchar', length: 10, nullable: false })
     currency!: string;
 
-    @Column({ type: 'decimal', precision: 20, scale: 8, nullable: false })
-    amount!: number; // Cheque amount
+    @Column({ ...MONEY_COLUMN, nullable: false })
+    amount!: Money; // Cheque amount per user
 
     @Column({ type: 'int', nullable: false })
-    usersNumber!: number; // Number of users (always 1 for our use case)
+    usersNumber!: number; // Number of users who can activate the cheque
+
+    @Column({ type: 'int', default: 0 })
+    activations!: number; // Number of users who already claimed the cheque
 
     @Column({ type: 'varchar', length: 255, nullable: true })
     link!: string | null;
 
+    @Column({ type: 'varchar', length: 100, nullable: true })
+    password!: string | null; // Shown to the creator so they can share it with recipients
+
+    @Column({ type: 'varchar', length: 1000, nullable: true })
+    description!: string | null;
+
+    @Column({ type: 'int', default: 0 })
+    refProgramPercent!: number; // Share of the cheque paid to referrers of new xRocket users
+
+    @Column({ type: 'boolean', default: true })
+    enableCaptcha!: boolean;
+
+    @Column({ type: 'boolean', default: false })
+    forPremium!: boolean; // Only Telegram Premium users can activate
+
     @Column({ 
-        type: 'enum', 
-        enum: ['active', 'completed', 'draft'], 
+        type: COLUMN_TYPES.ENUM, 
+        enum: ['active', 'completed', 'draft', 'cancelled'], 
         default: 'active' 
     })
     status!: ChequeStatus;
 
+    @Column({ name: 'refunded_at', type: COLUMN_TYPES.TIMESTAMP, nullable: true })
+    refundedAt!: Date | null; // Set once the debited amount was credited back
+
+    @Column({ name: 'interrupted_at', type: COLUMN_TYPES.TIMESTAMP, nullable: true })
+    interruptedAt!: Date | null; // Set when shutdown interrupted the xRocket Pay call
+
+    @Column({ name: 'cancel_requested_at', type: COLUMN_TYPES.TIMESTAMP, nullable: true })
+    cancelRequestedAt!: Date | null; // Set before the cheque is deleted in xRocket Pay, until the remainder is refunded
+
     @CreateDateColumn({ name: 'created_at' })
     createdAt!: Date;
 
@@ -48,22 +93,50 @@ export class UserCheque {
      */
     static create(
         user: User,
-        amount: number,
-        currency: string,
+        amount: Money,
         usersNumber: number,
         chequeId?: number,
         link?: string,
-        status?: ChequeStatus
+        status?: ChequeStatus,
+        options: ChequeOptions = {}
     ): UserCheque {
         const cheque = new UserCheque();
         cheque.user = user;
         cheque.userId = user.id;
         cheque.chequeId = chequeId || null;
         cheque.amount = amount;
-        cheque.currency = currency;
+        cheque.currency = amount.currency;
         cheque.usersNumber = usersNumber;
         cheque.link = link || null;
         cheque.status = status || 'active';
+        cheque.password = options.password || null;
+        cheque.description = options.description || null;
+        cheque.refProgramPercent = options.refProgramPercent ?? 0;
+        cheque.enableCaptcha = options.enableCaptcha ?? true;
+        cheque.forPremium = options.forPremium ?? false;
+        cheque.activations = 0;
+        cheque.refundedAt = null;
+        cheque.interruptedAt = null;
+        cheque.cancelRequestedAt = null;
         return cheque;
     }
+
+    /**
+     * Returns the amount that has not been claimed yet
+     */
+    getRemainingAmount(): Money {
+        return this.amount.multipliedBy(Math.max(this.usersNumber - this.activations, 0));
+    }
+
+    /**
+     * Returns the amount debited for the whole cheque
+     */
+    getTotalAmount(): Money {
+        return this.amount.multipliedBy(this.usersNumber);
+    }
+
+    @AfterLoad()
+    protected loadAmounts(): void {
+        this.amount = Money.round(this.amount, this.currency as InternalCurrency);
+    }
 } 
\ No newline at end of file
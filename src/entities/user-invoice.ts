@@ -1,8 +1,13 @@
-import { Entity, PrimaryGeneratedColumn, Column, ManyToOne, JoinColumn } from "typeorm";
+import { Entity, PrimaryGeneratedColumn, Column, ManyToOne, OneToMany, JoinColumn, AfterLoad } from "typeorm";
 import { User } from "./user";
+import { InvoicePayment } from "./invoice-payment";
+import { COLUMN_TYPES, MONEY_COLUMN } from "../config/database-type";
+import { InternalCurrency } from "../types/currency";
+import { Money } from "../types/money";
 
 /**
  * Represents a payment invoice for a user
+ * An invoice accepts numPayments payments of amount each and stays active until all of them are made or it expires
  */
 @Entity({ name: "user_invoices" })
 export class UserInvoice {
@@ -15,11 +20,26 @@ export class UserInvoice {
     @Column({ name: "payment_url", nullable: true })
     public paymentUrl!: string;
 
-    @Column({ name: "amount", type: 'decimal', precision: 20, scale: 8 })
-    public readonly amount!: number;
+    @Column({ name: "amount", ...MONEY_COLUMN })
+    public readonly amount!: Money;
 
-    @Column({ name: "payment_amount_received", type: 'decimal', precision: 20, scale: 8, nullable: true })
-    public paymentAmountReceived?: number;
+    @Column({ name: "payment_amount_paid", ...MONEY_COLUMN, nullable: true })
+    public paymentAmountPaid?: Money | null; // Total paid over all payments, may differ from amount × paymentsCount
+
+    @Column({ name: "payment_amount_received", ...MONEY_COLUMN, nullable: true })
+    public paymentAmountReceived?: Money | null; // Total received over all payments, after fees
+
+    @Column({ name: "num_payments", type: 'int', default: 1 })
+    public readonly numPayments!: number;
+
+    @Column({ name: "payments_count", type: 'int', default: 0 })
+    public paymentsCount!: number;
+
+    @Column({ name: "expires_at", type: COLUMN_TYPES.TIMESTAMP, nullable: true })
+    public readonly expiresAt!: Date | null;
+
+    @OneToMany(() => InvoicePayment, payment => payment.invoice)
+    public readonly payments?: InvoicePayment[];
 
     @Column({ name: "currency" })
     public readonly currency!: string;
@@ -31,18 +51,56 @@ export class UserInvoice {
     @JoinColumn({ name: "user_id" })
     public readonly user!: User;
 
-    @Column({ name: "created_at", type: 'timestamp', default: () => 'CURRENT_TIMESTAMP' })
+    @Column({ name: "created_at", type: COLUMN_TYPES.TIMESTAMP, default: () => 'CURRENT_TIMESTAMP' })
     public readonly createdAt!: Date;
 
-    @Column({ name: "updated_at", type: 'timestamp', default: () => 'CURRENT_TIMESTAMP', onUpdate: 'CURRENT_TIMESTAMP' })
+    @Column({ name: "updated_at", type: COLUMN_TYPES.TIMESTAMP, default: () => 'CURRENT_TIMESTAMP', onUpdate: 'CURRENT_TIMESTAMP' })
     public readonly updatedAt!: Date;
 
     /**
      * Creates a new user invoice instance
+     * @param user - The user whose balance the payments are credited to
+     * @param amount - The amount of each payment
+     * @param numPayments - How many payments the invoice accepts
+     * @param expiresIn - Seconds until the invoice expires, or null for no expiry
      */
-    public static create(user: User, amount: number, currency: string): UserInvoice {
+    public static create(user: User, amount: Money, numPayments: number = 1, expiresIn: number | null = null): UserInvoice {
         const invoice = new UserInvoice();
-        Object.assign(invoice, { user, amount, currency, status: 'active' });
+        Object.assign(invoice, {
+            user,
+            amount,
+            currency: amount.currency,
+            status: 'active',
+            numPayments,
+            paymentsCount: 0,
+            expiresAt: expiresIn ? new Date(Date.now() + expiresIn * 1000) : null
+        });
         return invoice;
     }
+
+    /**
+     * Returns the amount of all payments together
+     */
+    public getTotalAmount(): Money {
+        return this.amount.multipliedBy(this.numPayments);
+    }
+
+    /**
+     * Checks whether every payment the invoice accepts has been made
+     */
+    public isFullyPaid(): boolean {
+        return this.paymentsCount >= this.numPayments;
+    }
+
+    @AfterLoad()
+    protected loadAmounts(): void {
+        const currency = this.currency as InternalCurrency;
+        Object.assign(this, { amount: Money.round(this.amount, currency) });
+        if (this.paymentAmountPaid !== null && this.paymentAmountPaid !== undefined) {
+            this.paymentAmountPaid = Money.round(this.paymentAmountPaid, currency);
+        }
+        if (this.paymentAmountReceived !== null && this.paymentAmountReceived !== undefined) {
+            this.paymentAmountReceived = Money.round(this.paymentAmountReceived, currency);
+        }
+    }
 } 
\ No newline at end of file
@@ -0,0 +1,97 @@
+import { Entity, PrimaryGeneratedColumn, Column, ManyToOne, JoinColumn, Index, AfterLoad } from "typeorm";
+import { User } from "./user";
+import { COLUMN_TYPES, MONEY_COLUMN } from "../config/database-type";
+import { LIMIT_KINDS, LimitKind, LimitOperation, OverriddenLimits, UNLIMITED } from "../config/limits";
+import { InternalCurrency } from "../types/currency";
+import { Money } from "../types/money";
+
+/**
+ * Per-user replacement of the configured limits of one operation in one currency.
+ * A null amount falls back to the configured limit unless the limit is listed in unlimitedKinds.
+ */
+@Entity({ name: "user_limit_overrides" })
+@Index("idx_user_limit_overrides_user_operation_coin", ["userId", "operation", "coin"], { unique: true })
+export class UserLimitOverride {
+    @PrimaryGeneratedColumn()
+    public readonly id!: number;
+
+    @ManyToOne(() => User, { nullable: false })
+    @JoinColumn({ name: "user_id" })
+    public readonly user!: User;
+
+    @Column({ name: "user_id" })
+    public readonly userId!: number;
+
+    @Column({ name: "operation", type: 'varchar', length: 20 })
+    public readonly operation!: LimitOperation;
+
+    @Column({ name: "coin", type: 'varchar', length: 10 })
+    public readonly coin!: string;
+
+    @Column({ name: "min_amount", ...MONEY_COLUMN, nullable: true })
+    public minAmount!: Money | null;
+
+    @Column({ name: "max_amount", ...MONEY_COLUMN, nullable: true })
+    public maxAmount!: Money | null;
+
+    @Column({ name: "daily_limit", ...MONEY_COLUMN, nullable: true })
+    public dailyLimit!: Money | null;
+
+    @Column({ name: "monthly_limit", ...MONEY_COLUMN, nullable: true })
+    public monthlyLimit!: Money | null;
+
+    @Column({ name: "unlimited_kinds", type: 'simple-array', nullable: true })
+    public unlimitedKinds!: LimitKind[] | null; // Limits lifted for this user
+
+    @Column({ name: "created_at", type: COLUMN_TYPES.TIMESTAMP, default: () => 'CURRENT_TIMESTAMP' })
+    public readonly createdAt!: Date;
+
+    @Column({ name: "updated_at", type: COLUMN_TYPES.TIMESTAMP, default: () => 'CURRENT_TIMESTAMP', onUpdate: 'CURRENT_TIMESTAMP' })
+    public readonly updatedAt!: Date;
+
+    /**
+     * Creates a new limit override instance
+     */
+    public static create(user: User, operation: LimitOperation, currency: InternalCurrency, limits: Partial<OverriddenLimits>): UserLimitOverride {
+        const override = new UserLimitOverride();
+        Object.assign(override, { user, userId: user.id, operation, coin: currency });
+        override.setLimits(limits);
+        return override;
+    }
+
+    /**
+     * Replaces the overridden limits, limits left out fall back to the configured ones
+     */
+    public setLimits(limits: Partial<OverriddenLimits>): void {
+        const amount = (value: OverriddenLimits[LimitKind] | undefined) => value instanceof Money ? value : null;
+        this.minAmount = amount(limits.min);
+        this.maxAmount = amount(limits.max);
+        this.dailyLimit = amount(limits.daily);
+        this.monthlyLimit = amount(limits.monthly);
+        this.unlimitedKinds = LIMIT_KINDS.filter(kind => limits[kind] === UNLIMITED);
+    }
+
+    /**
+     * Gets the overridden limits, UNLIMITED where the limit is lifted and null where the configured limit applies
+     */
+    public getLimits(): OverriddenLimits {
+        const unlimited = this.unlimitedKinds ?? [];
+        const limit = (kind: LimitKind, amount: Money | null) => unlimited.includes(kind) ? UNLIMITED : amount;
+        return {
+            min: limit('min', this.minAmount),
+            max: limit('max', this.maxAmount),
+            daily: limit('daily', this.dailyLimit),
+            monthly: limit('monthly', this.monthlyLimit),
+        };
+    }
+
+    @AfterLoad()
+    protected loadAmounts(): void {
+        const currency = this.coin as InternalCurrency;
+        const toMoney = (value: Money | null) => value === null ? null : Money.round(value, currency);
+        this.minAmount = toMoney(this.minAmount);
+        this.maxAmount = toMoney(this.maxAmount);
+        this.dailyLimit = toMoney(this.dailyLimit);
+        this.monthlyLimit = toMoney(this.monthlyLimit);
+    }
+}
@@ -1,9 +1,19 @@
-import { Entity, PrimaryGeneratedColumn, Column, ManyToOne, JoinColumn } from "typeorm";
+import { Entity, PrimaryGeneratedColumn, Column, ManyToOne, JoinColumn, Index, AfterLoad } from "typeorm";
 import { User } from "./user";
+import { COLUMN_TYPES, MONEY_COLUMN } from "../config/database-type";
+import { InternalCurrency } from "../types/currency";
+import { Money } from "../types/money";
+
+/**
+ * Transfer lifecycle:
+ * - pending: balance debited, xRocket Pay transfer not confirmed yet
+ * - completed: xRocket Pay accepted the transfer
+ * - failed: xRocket Pay rejected the transfer and the balance was refunded
+ */
+export type TransferStatus = 'pending' | 'completed' | 'failed';
 
 /**
  * Represents a transfer between users
- * Note: Transfers are atomic operations with no status field
  */
 @Entity({ name: "user_transfers" })
 export class UserTransfer {
@@ -13,8 +23,8 @@ export class UserTransfer {
     @Column({ name: "transfer_id", nullable: true })
     public transferId!: string;
 
-    @Column({ name: "amount", type: 'decimal', precision: 20, scale: 8 })
-    public readonly amount!: number;
+    @Column({ name: "amount", ...MONEY_COLUMN })
+    public readonly amount!: Money;
 
     @Column({ name: "currency" })
     public readonly currency!: string;
@@ -23,16 +33,31 @@ export class UserTransfer {
     @JoinColumn({ name: "sender_id" })
     public readonly sender!: User;
 
+    @Index("idx_user_transfers_recipient_telegram_id")
     @Column({ name: "recipient_telegram_id", type: 'bigint' })
     public readonly recipientTelegramId!: number;
 
     @Column({ name: "recipient_username", nullable: true })
     public readonly recipientUsername!: string;
 
-    @Column({ name: "created_at", type: 'timestamp', default: () => 'CURRENT_TIMESTAMP' })
+    // Rows created before statuses were tracked default to completed
+    @Column({ name: "status", type: COLUMN_TYPES.ENUM, enum: ['pending', 'completed', 'failed'], default: 'completed' })
+    public status!: TransferStatus;
+
+    @Column({ name: "error", type: 'text', nullable: true })
+    public error!: string | null;
+
+    @Column({ name: "refunded_at", type: COLUMN_TYPES.TIMESTAMP, nullable: true })
+    public refundedAt!: Date | null;
+
+    // Set when shutdown interrupted the xRocket Pay call, the reconciler retries these right away
+    @Column({ name: "interrupted_at", type: COLUMN_TYPES.TIMESTAMP, nullable: true })
+    public interruptedAt!: Date | null;
+
+    @Column({ name: "created_at", type: COLUMN_TYPES.TIMESTAMP, default: () => 'CURRENT_TIMESTAMP' })
     public readonly createdAt!: Date;
 
-    @Column({ name: "updated_at", type: 'timestamp', default: () => 'CURRENT_TIMESTAMP', onUpdate: 'CURRENT_TIMESTAMP' })
+    @Column({ name: "updated_at", type: COLUMN_TYPES.TIMESTAMP, default: () => 'CURRENT_TIMESTAMP', onUpdate: 'CURRENT_TIMESTAMP' })
     public readonly updatedAt!: Date;
 
     /**
@@ -42,8 +67,7 @@ export class UserTransfer {
         sender: User,
         recipientTelegramId: number,
         recipientUsername: string | null,
-        amount: number,
-        currency: string
+        amount: Money
     ): UserTransfer {
         const transfer = new UserTransfer();
         Object.assign(transfer, {
@@ -51,8 +75,17 @@ export class UserTransfer {
             recipientTelegramId,
             recipientUsername,
             amount,
-            currency
+            currency: amount.currency,
+            status: 'pending',
+            error: null,
+            refundedAt: null,
+            interruptedAt: null
         });
         return transfer;
     }
+
+    @AfterLoad()
+    protected loadAmounts(): void {
+        Object.assign(this, { amount: Money.round(this.amount, this.currency as InternalCurrency) });
+    }
 } 
\ No newline at end of file
@@ -1,6 +1,8 @@
-import { Entity, PrimaryGeneratedColumn, Column, ManyToOne, CreateDateColumn, UpdateDateColumn, JoinColumn } from 'typeorm';
+import { Entity, PrimaryGeneratedColumn, Column, ManyToOne, CreateDateColumn, UpdateDateColumn, JoinColumn, AfterLoad } from 'typeorm';
 import { User } from './user';
-import { WithdrawalNetwork } from '../types/currency';
+import { InternalCurrency, WithdrawalNetwork } from '../types/currency';
+import { Money } from '../types/money';
+import { COLUMN_TYPES, MONEY_COLUMN } from '../config/database-type';
 
 export type WithdrawalStatus = 'CREATED' | 'COMPLETED' | 'FAIL';
 
@@ -22,24 +24,24 @@ export class UserWithdrawal {
     @Column({ type: 'varchar', length: 10, nullable: false })
     currency!: string;
 
-    @Column({ type: 'decimal', precision: 20, scale: 8, nullable: false })
-    amount!: number; // Withdrawal amount
+    @Column({ ...MONEY_COLUMN, nullable: false })
+    amount!: Money; // Withdrawal amount
 
-    @Column({ type: 'decimal', precision: 20, scale: 8, nullable: false })
-    fee!: number; // Withdrawal fee
+    @Column({ ...MONEY_COLUMN, nullable: false })
+    fee!: Money; // Withdrawal fee
 
-    @Column({ type: 'decimal', precision: 20, scale: 8, nullable: false })
-    netAmount!: number; // Amount after fee deduction
+    @Column({ ...MONEY_COLUMN, nullable: false })
+    netAmount!: Money; // Amount after fee deduction
 
     @Column({ 
-        type: 'enum', 
+        type: COLUMN_TYPES.ENUM, 
         enum: ['CREATED', 'COMPLETED', 'FAIL'], 
         default: 'CREATED' 
     })
     status!: WithdrawalStatus;
 
     @Column({ 
-        type: 'enum', 
+        type: COLUMN_TYPES.ENUM, 
         enum: ['TON', 'BSC', 'ETH', 'BTC', 'TRX', 'SOL'], 
         nullable: false 
     })
@@ -60,6 +62,12 @@ export class UserWithdrawal {
     @Column({ type: 'text', nullable: true })
     error!: string | null; // Error message if withdrawal failed (matches SDK field name)
 
+    @Column({ name: 'refunded_at', type: COLUMN_TYPES.TIMESTAMP, nullable: true })
+    refundedAt!: Date | null; // Set once the debited amount was credited back after a failure
+
+    @Column({ name: 'interrupted_at', type: COLUMN_TYPES.TIMESTAMP, nullable: true })
+    interruptedAt!: Date | null; // Set when shutdown interrupted the xRocket Pay call
+
     @CreateDateColumn({ name: 'created_at' })
     createdAt!: Date;
 
@@ -71,9 +79,8 @@ export class UserWithdrawal {
      */
     static create(
         user: User,
-        amount: number,
-        currency: string,
-        fee: number,
+        amount: Money,
+        fee: Money,
         network: WithdrawalNetwork,
         address: string,
         withdrawalId?: string,
@@ -88,9 +95,9 @@ export class UserWithdrawal {
         withdrawal.userId = user.id;
         withdrawal.withdrawalId = withdrawalId || null;
         withdrawal.amount = amount;
-        withdrawal.currency = currency;
+        withdrawal.currency = amount.currency;
         withdrawal.fee = fee;
-        withdrawal.netAmount = amount - fee;
+        withdrawal.netAmount = amount.minus(fee);
         withdrawal.network = network;
         withdrawal.address = address;
         withdrawal.status = status || 'CREATED';
@@ -98,6 +105,16 @@ export class UserWithdrawal {
         withdrawal.txHash = txHash || null;
         withdrawal.txLink = txLink || null;
         withdrawal.error = error || null;
+        withdrawal.refundedAt = null;
+        withdrawal.interruptedAt = null;
         return withdrawal;
     }
+
+    @AfterLoad()
+    protected loadAmounts(): void {
+        const currency = this.currency as InternalCurrency;
+        this.amount = Money.round(this.amount, currency);
+        this.fee = Money.round(this.fee, currency);
+        this.netAmount = Money.round(this.netAmount, currency);
+    }
 } 
\ No newline at end of file
@@ -1,10 +1,18 @@
-import { Entity, PrimaryGeneratedColumn, Column, OneToMany } from "typeorm";
+import { Entity, PrimaryGeneratedColumn, Column, OneToMany, Index } from "typeorm";
 import { UserBalance } from "./user-balance";
+import { COLUMN_TYPES } from "../config/database-type";
 
 /**
- * Supported languages for the bot
+ * Supported languages for the bot: the locale of a translation file in the locales directory, e.g. 'en'
  */
-export type SupportedLanguage = 'en' | 'ru';
+export type SupportedLanguage = string;
+
+/**
+ * Account states set by admins:
+ * - frozen users can view their balance and history but can't move funds
+ * - banned users are ignored by the bot
+ */
+export type UserStatus = 'active' | 'frozen' | 'banned';
 
 /**
  * Represents a user in the system
@@ -14,16 +22,20 @@ export class User {
     @PrimaryGeneratedColumn()
     public readonly id!: number;
 
+    @Index("idx_users_telegram_id")
     @Column({ name: "telegram_id", type: 'bigint' })
     public readonly telegramId!: number;
 
     @Column({ name: "username" })
     public readonly username!: string;
 
-    @Column({ name: "language", type: 'varchar', length: 2, nullable: true })
+    @Column({ name: "language", type: 'varchar', length: 10, nullable: true })
     public language?: SupportedLanguage;
 
-    @Column({ name: "created_at", type: 'timestamp', default: () => 'CURRENT_TIMESTAMP' })
+    @Column({ name: "status", type: 'varchar', length: 10, default: 'active' })
+    public status!: UserStatus;
+
+    @Column({ name: "created_at", type: COLUMN_TYPES.TIMESTAMP, default: () => 'CURRENT_TIMESTAMP' })
     public readonly createdAt!: Date;
 
     @OneToMany(() => UserBalance, (balance: UserBalance) => balance.user)
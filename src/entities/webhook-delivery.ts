@@ -0,0 +1,90 @@
+import { Entity, PrimaryGeneratedColumn, Column, Index } from "typeorm";
+import { COLUMN_TYPES } from "../config/database-type";
+
+/**
+ * Processing state of a webhook delivery
+ * - received: stored but not processed yet, or processing was interrupted
+ * - processed: handled, later deliveries of the same event are acknowledged without processing
+ * - failed: handling failed and the next delivery of the event is processed again
+ * - rejected: refused before processing, e.g. because of a stale timestamp
+ */
+export type WebhookDeliveryStatus = 'received' | 'processed' | 'failed' | 'rejected';
+
+/**
+ * Represents an xRocket Pay webhook event, identified by its event key, with the raw payload of its first delivery.
+ * The row is locked while the event is processed so concurrent deliveries of the same event are handled once
+ */
+@Entity({ name: "webhook_deliveries" })
+export class WebhookDelivery {
+    @PrimaryGeneratedColumn()
+    public id!: number;
+
+    @Index("idx_webhook_deliveries_event_key", { unique: true })
+    @Column({ name: "event_key", type: 'varchar', length: 128 })
+    public eventKey!: string;
+
+    @Column({ name: "event_type", type: 'varchar', length: 32 })
+    public eventType!: string;
+
+    @Index("idx_webhook_deliveries_invoice_id")
+    @Column({ name: "invoice_id", type: 'varchar', length: 255, nullable: true })
+    public invoiceId!: string | null; // xRocket Pay invoice ID
+
+    @Column({ name: "status", type: 'varchar', length: 10, default: 'received' })
+    public status!: WebhookDeliveryStatus;
+
+    @Column({ name: "attempts", type: 'int', default: 0 })
+    public attempts!: number;
+
+    @Column({ name: "event_timestamp", type: COLUMN_TYPES.TIMESTAMP, nullable: true })
+    public eventTimestamp!: Date | null;
+
+    @Column({ name: "payload", type: 'text' })
+    public payload!: string;
+
+    @Column({ name: "error", type: 'varchar', length: 255, nullable: true })
+    public error!: string | null;
+
+    @Column({ name: "processed_at", type: COLUMN_TYPES.TIMESTAMP, nullable: true })
+    public processedAt!: Date | null;
+
+    @Column({ name: "created_at", type: COLUMN_TYPES.TIMESTAMP, default: () => 'CURRENT_TIMESTAMP' })
+    public createdAt!: Date;
+
+    @Column({ name: "updated_at", type: COLUMN_TYPES.TIMESTAMP, default: () => 'CURRENT_TIMESTAMP', onUpdate: 'CURRENT_TIMESTAMP' })
+    public updatedAt!: Date;
+
+    /**
+     * Creates a new webhook delivery instance
+     */
+    public static create(params: {
+        eventKey: string;
+        eventType: string;
+        invoiceId?: string;
+        eventTimestamp?: Date;
+        payload: string;
+        status?: WebhookDeliveryStatus;
+        error?: string;
+    }): WebhookDelivery {
+        const delivery = new WebhookDelivery();
+        Object.assign(delivery, {
+            eventKey: params.eventKey,
+            eventType: params.eventType,
+            invoiceId: params.invoiceId ?? null,
+            eventTimestamp: params.eventTimestamp ?? null,
+            payload: params.payload,
+            status: params.status ?? 'received',
+            attempts: 0,
+            error: params.error ?? null,
+            processedAt: null
+        });
+        return delivery;
+    }
+
+    /**
+     * Checks whether the event was handled and must not be processed again
+     */
+    public isProcessed(): boolean {
+        return this.status === 'processed';
+    }
+}
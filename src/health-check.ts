@@ -0,0 +1,35 @@
+import { request } from 'http';
+import * as dotenv from 'dotenv';
+import { HEALTH_CONFIG } from './config/health';
+
+dotenv.config();
+
+/**
+ * Docker health check: asks the running app for its readiness report and exits with 0 if it is ready, 1 otherwise.
+ * The report is printed so `docker inspect` shows which component failed.
+ */
+
+const PORT = process.env.PORT || 3000;
+// The app checks its components in parallel, each within HEALTH_CHECK_TIMEOUT_MS
+const REQUEST_TIMEOUT_MS = HEALTH_CONFIG.CHECK_TIMEOUT_MS + 2000;
+
+const req = request({ host: '127.0.0.1', port: PORT, path: HEALTH_CONFIG.PATH, method: 'GET', timeout: REQUEST_TIMEOUT_MS }, res => {
+    let body = '';
+    res.setEncoding('utf8');
+    res.on('data', chunk => {
+        body += chunk;
+    });
+    res.on('end', () => {
+        console.log(body || `HTTP ${res.statusCode}`);
+        process.exit(res.statusCode === 200 ? 0 : 1);
+    });
+});
+
+req.on('timeout', () => {
+    req.destroy(new Error(`No response within ${REQUEST_TIMEOUT_MS}ms`));
+});
+req.on('error', error => {
+    console.error(`Health check failed: ${error.message}`);
+    process.exit(1);
+});
+req.end();
@@ -1,17 +1,48 @@
 import express, { Request, Response } from 'express';
 import { Bot, session } from "grammy";
-import { I18n } from "@grammyjs/i18n";
 import { BotContext } from "./types/bot";
-import { AppDataSource } from "./config/database";
+import { AppDataSource, assertSafeSchemaSettings } from "./config/database";
+import { i18n } from "./config/i18n";
 import { handleStart, handleSetLang, handleSetLangCallback } from "./bot/handlers/commands";
-import { handleBalance, handleCheckPayment, handleInvoices, handleInvoiceDetail, handleInvoicePagination, handleDeleteInvoice, handleMainMenu, handleWithdraw, handleMyWithdrawals, handleWithdrawTransfer, handleWithdrawMulticheque, handleWithdrawExternal, handleOpenCheque, handleWithdrawalDetail, handleCheckWithdrawalStatus, handleHistoryTransfers, handleHistoryCheques, handleHistoryWithdrawals, handleTransferPagination, handleChequePagination, handleWithdrawalPagination, handleChequeDetail, handleTransferDetail } from "./bot/handlers/callbacks";
-import { handleDepositFlow, handleCurrencySelection, handleAmountInput } from "./bot/conversations/deposit";
+import { handleAdminHelp, handleAdminUser, handleAdminCredit, handleAdminDebit, handleAdminBlock, handleAdminUnblock, handleAdminFreeze, handleAdminUnfreeze, handleAdminSetLimit, handleAdminAudit, handleAdminMismatches, handleAdminReviewed, handleAdminSession, handleAdminClearSession } from "./bot/handlers/admin";
+import { userStatusMiddleware } from "./bot/middleware/user-status";
+import { sequentializeUpdates } from "./bot/middleware/sequentialize";
+import { handleBalance, handleCheckPayment, handleInvoices, handleInvoiceDetail, handleInvoicePagination, handleDeleteInvoice, handleMainMenu, handleWithdraw, handleMyWithdrawals, handleWithdrawTransfer, handleWithdrawMulticheque, handleWithdrawExternal, handleOpenCheque, handleWithdrawalDetail, handleCheckWithdrawalStatus, handleHistoryTransfers, handleHistoryCheques, handleHistoryWithdrawals, handleTransferPagination, handleChequePagination, handleWithdrawalPagination, handleChequeDetail, handleTransferDetail, handleCancelCheque, handleConfirmCancelCheque } from "./bot/handlers/callbacks";
+import {
+    handleDepositFlow,
+    handleCurrencySelection,
+    handleAmountInput,
+    handlePaymentsInput,
+    handlePaymentsSelection,
+    handleExpirySelection
+} from "./bot/conversations/deposit";
 import { handleTransferFlow, handleTransferCurrencySelection, handleTransferAmountInput, handleTransferRecipientInput, handleTransferConfirmation } from "./bot/conversations/transfer";
-import { handleMultichequeCurrencySelection, handleMultichequeAmountInput, handleMultichequeConfirmation } from "./bot/conversations/multicheque";
+import {
+    handleMultichequeCurrencySelection,
+    handleMultichequeUsersInput,
+    handleMultichequeAmountInput,
+    handleMultichequeShowOptions,
+    handleMultichequeOptionSelection,
+    handleMultichequeOptionInput,
+    handleMultichequeClearOption,
+    handleMultichequeToggle,
+    handleMultichequeConfirmation
+} from "./bot/conversations/multicheque";
 import { handleExternalWithdrawalFlow, handleWithdrawalCurrencySelection, handleWithdrawalAmountInput, handleWithdrawalNetworkSelection, handleWithdrawalAddressInput, handleWithdrawalConfirmation } from "./bot/conversations/external-withdrawal";
 import { WebhookService } from "./services/webhook";
+import { ReconcilerService } from "./services/reconciler";
+import { NotificationService } from "./services/notification";
+import { WithdrawalStatusService } from "./services/withdrawal-status";
+import { ChequeService } from "./services/cheque";
 import { ErrorHandler, ErrorType } from "./bot/utils/error-handler";
 import { UserService } from "./services/user";
+import { SessionService } from "./services/session";
+import { TelegramUpdatesService } from "./services/telegram-updates";
+import { ShutdownService } from "./services/shutdown";
+import { MetricsService } from "./services/metrics";
+import { METRICS_CONFIG } from "./config/metrics";
+import { HEALTH_CONFIG } from "./config/health";
+import { HealthService } from "./services/health";
 import * as dotenv from 'dotenv';
 
 dotenv.config();
@@ -24,18 +55,28 @@ const userService = UserService.getInstance();
  */
 const bot = new Bot<BotContext>(process.env.BOT_TOKEN || "");
 
-// Session middleware
-bot.use(session({ initial: () => ({}) }));
+// Count failed Telegram Bot API calls for the metrics endpoint
+bot.api.config.use(async (prev, method, payload, signal) => {
+    try {
+        const result = await prev(method, payload, signal);
+        if (!result.ok) {
+            MetricsService.getInstance().recordTelegramApiError(method, result.error_code);
+        }
+        return result;
+    } catch (error) {
+        MetricsService.getInstance().recordTelegramApiError(method, 'network');
+        throw error;
+    }
+});
+
+// Updates of the same chat or user are handled one at a time, also when webhook requests arrive concurrently
+bot.use(sequentializeUpdates);
+
+// Session middleware, sessions are stored in SESSION_STORAGE so conversation steps survive restarts
+bot.use(session({ initial: () => ({}), storage: SessionService.getInstance().getStorage() }));
 
 // i18n middleware for internationalization
-bot.use(new I18n({
-    defaultLocale: "en",
-    directory: "locales",
-    useSession: true,
-    fluentBundleOptions: {
-        useIsolating: false
-    }
-}));
+bot.use(i18n);
 
 // Middleware to set user language based on database preference
 bot.use(async (ctx, next) => {
@@ -58,10 +99,29 @@ bot.use(async (ctx, next) => {
     await next();
 });
 
+// Middleware to ignore banned users and keep frozen users out of transfers, multicheques and withdrawals
+bot.use(userStatusMiddleware);
+
 // Register command handlers
 bot.command("start", handleStart);
 bot.command("setlang", handleSetLang);
 
+// Register admin command handlers, restricted to ADMIN_TELEGRAM_IDS
+bot.command("admin", handleAdminHelp);
+bot.command("user", handleAdminUser);
+bot.command("credit", handleAdminCredit);
+bot.command("debit", handleAdminDebit);
+bot.command("block", handleAdminBlock);
+bot.command("unblock", handleAdminUnblock);
+bot.command("freeze", handleAdminFreeze);
+bot.command("unfreeze", handleAdminUnfreeze);
+bot.command("setlimit", handleAdminSetLimit);
+bot.command("audit", handleAdminAudit);
+bot.command("mismatches", handleAdminMismatches);
+bot.command("reviewed", handleAdminReviewed);
+bot.command("session", handleAdminSession);
+bot.command("clearsession", handleAdminClearSession);
+
 // Register callback handlers
 bot.callbackQuery("deposit", handleDepositFlow);
 bot.callbackQuery("balance", handleBalance);
@@ -80,6 +140,8 @@ bot.callbackQuery(/^open_cheque_/, handleOpenCheque);
 
 // Register deposit flow handlers
 bot.callbackQuery(/^coin_/, handleCurrencySelection);
+bot.callbackQuery(/^deposit_payments_/, handlePaymentsSelection);
+bot.callbackQuery(/^deposit_expiry_/, handleExpirySelection);
 
 // Register transfer flow handlers
 bot.callbackQuery(/^transfer_coin_/, handleTransferCurrencySelection);
@@ -87,6 +149,10 @@ bot.callbackQuery("confirm_transfer", handleTransferConfirmation);
 
 // Register multicheque flow handlers
 bot.callbackQuery(/^multicheque_currency_/, handleMultichequeCurrencySelection);
+bot.callbackQuery("multicheque_options", handleMultichequeShowOptions);
+bot.callbackQuery(/^multicheque_option_/, handleMultichequeOptionSelection);
+bot.callbackQuery(/^multicheque_clear_/, handleMultichequeClearOption);
+bot.callbackQuery(/^multicheque_toggle_/, handleMultichequeToggle);
 bot.callbackQuery("confirm_multicheque", handleMultichequeConfirmation);
 
 // Register external withdrawal flow handlers
@@ -106,16 +172,21 @@ bot.callbackQuery(/^transfers_page_/, handleTransferPagination);
 bot.callbackQuery(/^cheques_page_/, handleChequePagination);
 bot.callbackQuery(/^withdrawals_page_/, handleWithdrawalPagination);
 bot.callbackQuery(/^cheque_/, handleChequeDetail);
+bot.callbackQuery(/^cancel_cheque_/, handleCancelCheque);
+bot.callbackQuery(/^confirm_cancel_cheque_/, handleConfirmCancelCheque);
 bot.callbackQuery(/^transfer_detail_/, handleTransferDetail);
 
-bot.callbackQuery("setlang_en", handleSetLangCallback);
-bot.callbackQuery("setlang_ru", handleSetLangCallback);
+bot.callbackQuery(/^setlang_/, handleSetLangCallback);
 
 bot.on("message:text", async (ctx) => {
     // Handle amount input for deposit flow
     if (ctx.session.step === "deposit_amount") {
         await handleAmountInput(ctx);
     }
+    // Handle number of payments input for deposit flow
+    else if (ctx.session.step === "deposit_payments") {
+        await handlePaymentsInput(ctx);
+    }
     // Handle amount input for transfer flow
     else if (ctx.session.step === "transfer_amount") {
         await handleTransferAmountInput(ctx);
@@ -124,10 +195,20 @@ bot.on("message:text", async (ctx) => {
     else if (ctx.session.step === "transfer_recipient") {
         await handleTransferRecipientInput(ctx);
     }
+    // Handle number of users input for multicheque flow
+    else if (ctx.session.step === "multicheque_users") {
+        await handleMultichequeUsersInput(ctx);
+    }
     // Handle amount input for multicheque flow
     else if (ctx.session.step === "multicheque_amount") {
         await handleMultichequeAmountInput(ctx);
     }
+    // Handle password, description and referral input for multicheque flow
+    else if (ctx.session.step === "multicheque_password"
+        || ctx.session.step === "multicheque_description"
+        || ctx.session.step === "multicheque_ref_percent") {
+        await handleMultichequeOptionInput(ctx);
+    }
     // Handle amount input for withdrawal flow
     else if (ctx.session.step === "withdrawal_amount") {
         await handleWithdrawalAmountInput(ctx);
@@ -153,14 +234,66 @@ bot.catch((err) => {
 const app = express();
 const PORT = process.env.PORT || 3000;
 
+// Refuse requests once shutdown started, so webhook senders retry them against the next instance
+app.use((req: Request, res: Response, next) => {
+    if (ShutdownService.getInstance().isShuttingDown()) {
+        res.set('Connection', 'close').status(503).json({ error: 'Shutting down' });
+        return;
+    }
+    next();
+});
+
 // Middleware for parsing JSON bodies
 app.use(express.json({ limit: '10mb' }));
 
-// Health check endpoint
+// Liveness endpoint, only tells that the process is up and serving requests
 app.get('/health', (req: Request, res: Response) => {
     res.json({ status: 'ok', timestamp: new Date().toISOString() });
 });
 
+/**
+ * Readiness endpoint: checks the database, xRocket Pay and Telegram and reports each one's status and latency.
+ * Answers 503 if any of them fails, dist/health-check.js uses it for the Docker health check
+ */
+app.get(HEALTH_CONFIG.PATH, (req: Request, res: Response) => {
+    HealthService.getInstance(bot).check()
+        .then(report => {
+            res.status(report.status === 'ok' ? 200 : 503).json(report);
+        })
+        .catch(error => {
+            errorHandler.logError(error, ErrorType.UNKNOWN_ERROR, {
+                conversation: 'health_endpoint',
+                action: 'readiness_check'
+            });
+            res.status(503).json({ status: 'error', timestamp: new Date().toISOString() });
+        });
+});
+
+/**
+ * Prometheus metrics endpoint, requires METRICS_TOKEN as bearer token when it is set
+ */
+if (METRICS_CONFIG.ENABLED) {
+    app.get(METRICS_CONFIG.PATH, (req: Request, res: Response) => {
+        if (METRICS_CONFIG.TOKEN && req.headers.authorization !== `Bearer ${METRICS_CONFIG.TOKEN}`) {
+            res.status(401).json({ error: 'Unauthorized' });
+            return;
+        }
+
+        const metricsService = MetricsService.getInstance();
+        metricsService.render()
+            .then(body => {
+                res.type(metricsService.getContentType()).send(body);
+            })
+            .catch(error => {
+                errorHandler.logError(error, ErrorType.UNKNOWN_ERROR, {
+                    conversation: 'metrics_endpoint',
+                    action: 'render_metrics'
+                });
+                res.status(500).json({ error: 'Internal server error' });
+            });
+    });
+}
+
 /**
  * Webhook endpoint for xRocket Pay invoice events
  */
@@ -169,6 +302,7 @@ app.post(process.env.WEBHOOK_URL as string, (req: Request, res: Response) => {
     const body = JSON.stringify(req.body);
 
     if (!signature) {
+        MetricsService.getInstance().recordWebhookVerificationFailure('xrocket', 'missing_signature');
         errorHandler.logError(new Error('Missing rocket-pay-signature header'), ErrorType.VALIDATION_ERROR, {
             conversation: 'webhook_endpoint',
             action: 'webhook_validation',
@@ -178,7 +312,7 @@ app.post(process.env.WEBHOOK_URL as string, (req: Request, res: Response) => {
         return;
     }
 
-    const webhookService = WebhookService.getInstance(bot);
+    const webhookService = WebhookService.getInstance();
     webhookService.handleInvoiceWebhook(body, signature)
         .then(result => {
             if (result.success) {
@@ -208,17 +342,40 @@ app.post(process.env.WEBHOOK_URL as string, (req: Request, res: Response) => {
  */
 async function bootstrap(): Promise<void> {
     try {
+        assertSafeSchemaSettings(AppDataSource);
         await AppDataSource.initialize();
         console.log("Database connection established");
         
+        // Bring the schema up to date before anything touches the database
+        const migrations = await AppDataSource.runMigrations({ transaction: 'each' });
+        console.log(`Applied ${migrations.length} pending database migration(s)`);
+        
         // Start the webhook server
-        app.listen(PORT, () => {
+        const server = app.listen(PORT, () => {
             console.log(`Webhook server started on port ${PORT}`);
         });
         
-        // Start the bot
-        await bot.start();
-        console.log("Bot started");
+        // Background jobs send messages through the bot
+        NotificationService.getInstance(bot);
+        
+        // Start background reconciliation of stuck transfers and invoices
+        ReconcilerService.getInstance().start();
+        
+        // Start tracking pending external withdrawals
+        WithdrawalStatusService.getInstance().start();
+        
+        // Start tracking multicheque activations
+        ChequeService.getInstance().start();
+        
+        // Start deleting expired sessions
+        SessionService.getInstance().start();
+        
+        // Start receiving Telegram updates by long polling or webhook, depending on TELEGRAM_UPDATE_MODE
+        const updateMode = await TelegramUpdatesService.getInstance(bot).start(app);
+        console.log(`Bot started (${updateMode})`);
+        
+        // Drain money operations and close connections on SIGTERM/SIGINT instead of dying mid-operation
+        ShutdownService.getInstance().handleSignals(server);
         
         console.log("Application started successfully");
     } catch (error) {
@@ -231,4 +388,9 @@ async function bootstrap(): Promise<void> {
     }
 }
 
-bootstrap();
+// Tests import the bot and app and drive them without launching (jest sets NODE_ENV=test)
+if (process.env.NODE_ENV !== 'test') {
+    bootstrap();
+}
+
+export { bot, app, bootstrap };
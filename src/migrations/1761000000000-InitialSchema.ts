@@ -0,0 +1,128 @@
+import { MigrationInterface, QueryRunner, Table } from "typeorm";
+import { ColumnTypes } from "../utils/migration-column-types";
+
+/**
+ * Creates the schema as synchronize: true produced it before the ledger, refunds and cheque settings were added.
+ * Databases created by synchronize already have these tables, so existing tables are left untouched
+ * and the migration is only recorded as run. The columns added since then come in the following migrations.
+ */
+export class InitialSchema1761000000000 implements MigrationInterface {
+    name = 'InitialSchema1761000000000';
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        const types = new ColumnTypes(queryRunner);
+
+        await this.createTable(queryRunner, new Table({
+            name: 'users',
+            columns: [
+                types.id(),
+                { name: 'telegram_id', type: 'bigint' },
+                { name: 'username', type: 'varchar' },
+                { name: 'language', type: 'varchar', length: '2', isNullable: true },
+                types.timestamp('created_at'),
+            ],
+        }));
+
+        await this.createTable(queryRunner, new Table({
+            name: 'user_balances',
+            columns: [
+                types.id(),
+                types.decimal('amount'),
+                { name: 'coin', type: 'varchar' },
+                { name: 'user_id', type: 'integer', isNullable: true },
+                types.timestamp('created_at'),
+                types.timestamp('updated_at', true),
+            ],
+            foreignKeys: [types.userForeignKey('user_id')],
+        }));
+
+        await this.createTable(queryRunner, new Table({
+            name: 'user_invoices',
+            columns: [
+                types.id(),
+                { name: 'invoice_id', type: 'varchar', isNullable: true },
+                { name: 'payment_url', type: 'varchar', isNullable: true },
+                types.decimal('amount'),
+                types.decimal('payment_amount_received', true),
+                { name: 'currency', type: 'varchar' },
+                { name: 'status', type: 'varchar', default: "'active'" },
+                { name: 'user_id', type: 'integer', isNullable: true },
+                types.timestamp('created_at'),
+                types.timestamp('updated_at', true),
+            ],
+            foreignKeys: [types.userForeignKey('user_id')],
+        }));
+
+        await this.createTable(queryRunner, new Table({
+            name: 'user_transfers',
+            columns: [
+                types.id(),
+                { name: 'transfer_id', type: 'varchar', isNullable: true },
+                types.decimal('amount'),
+                { name: 'currency', type: 'varchar' },
+                { name: 'sender_id', type: 'integer', isNullable: true },
+                { name: 'recipient_telegram_id', type: 'bigint' },
+                { name: 'recipient_username', type: 'varchar', isNullable: true },
+                types.timestamp('created_at'),
+                types.timestamp('updated_at', true),
+            ],
+            foreignKeys: [types.userForeignKey('sender_id')],
+        }));
+
+        await this.createTable(queryRunner, new Table({
+            name: 'user_cheques',
+            columns: [
+                types.id(),
+                { name: 'user_id', type: 'integer' },
+                { name: 'chequeId', type: 'bigint', isNullable: true },
+                { name: 'currency', type: 'varchar', length: '10' },
+                types.decimal('amount'),
+                { name: 'usersNumber', type: 'integer' },
+                { name: 'link', type: 'varchar', length: '255', isNullable: true },
+                types.enumeration('status', ['active', 'completed', 'draft'], 'active'),
+                types.createDate('created_at'),
+                types.updateDate('updated_at'),
+            ],
+            foreignKeys: [types.userForeignKey('user_id')],
+        }));
+
+        await this.createTable(queryRunner, new Table({
+            name: 'user_withdrawals',
+            columns: [
+                types.id(),
+                { name: 'user_id', type: 'integer' },
+                { name: 'withdrawalId', type: 'varchar', length: '255', isNullable: true },
+                { name: 'currency', type: 'varchar', length: '10' },
+                types.decimal('amount'),
+                types.decimal('fee'),
+                types.decimal('netAmount'),
+                types.enumeration('status', ['CREATED', 'COMPLETED', 'FAIL'], 'CREATED'),
+                types.enumeration('network', ['TON', 'BSC', 'ETH', 'BTC', 'TRX', 'SOL']),
+                { name: 'address', type: 'varchar', length: '255' },
+                { name: 'comment', type: 'varchar', length: '255', isNullable: true },
+                { name: 'txHash', type: 'varchar', length: '255', isNullable: true },
+                { name: 'txLink', type: 'varchar', length: '255', isNullable: true },
+                { name: 'error', type: 'text', isNullable: true },
+                types.createDate('created_at'),
+                types.updateDate('updated_at'),
+            ],
+            foreignKeys: [types.userForeignKey('user_id')],
+        }));
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.dropTable('user_withdrawals', true, true, true);
+        await queryRunner.dropTable('user_cheques', true, true, true);
+        await queryRunner.dropTable('user_transfers', true, true, true);
+        await queryRunner.dropTable('user_invoices', true, true, true);
+        await queryRunner.dropTable('user_balances', true, true, true);
+        await queryRunner.dropTable('users', true, true, true);
+    }
+
+    private async createTable(queryRunner: QueryRunner, table: Table): Promise<void> {
+        if (await queryRunner.hasTable(table.name)) {
+            return;
+        }
+        await queryRunner.createTable(table, false, true, true);
+    }
+}
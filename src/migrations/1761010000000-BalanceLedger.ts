@@ -0,0 +1,44 @@
+import { MigrationInterface, QueryRunner, Table, TableIndex } from "typeorm";
+import { ColumnTypes } from "../utils/migration-column-types";
+
+/**
+ * Creates the double-entry ledger behind user balances, unless synchronize already created it
+ */
+export class BalanceLedger1761010000000 implements MigrationInterface {
+    name = 'BalanceLedger1761010000000';
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        if (await queryRunner.hasTable('balance_ledger_entries')) {
+            return;
+        }
+
+        const types = new ColumnTypes(queryRunner);
+        await queryRunner.createTable(new Table({
+            name: 'balance_ledger_entries',
+            columns: [
+                types.id(),
+                { name: 'transaction_id', type: 'varchar', length: '36' },
+                { name: 'account', type: 'varchar', length: '32' },
+                { name: 'user_id', type: 'integer', isNullable: true },
+                { name: 'coin', type: 'varchar', length: '10' },
+                { name: 'direction', type: 'varchar', length: '6' },
+                types.decimal('amount'),
+                types.decimal('balance_after', true),
+                { name: 'reference_type', type: 'varchar', length: '20' },
+                { name: 'reference_id', type: 'integer', isNullable: true },
+                { name: 'description', type: 'varchar', length: '255', isNullable: true },
+                types.timestamp('created_at'),
+            ],
+            indices: [
+                new TableIndex({ name: 'idx_ledger_transaction_id', columnNames: ['transaction_id'] }),
+                new TableIndex({ name: 'idx_ledger_user_coin', columnNames: ['user_id', 'coin'] }),
+                new TableIndex({ name: 'idx_ledger_reference', columnNames: ['reference_type', 'reference_id'] }),
+            ],
+            foreignKeys: [types.userForeignKey('user_id')],
+        }), false, true, true);
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.dropTable('balance_ledger_entries', true, true, true);
+    }
+}
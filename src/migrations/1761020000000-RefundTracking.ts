@@ -0,0 +1,29 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+import { ColumnTypes } from "../utils/migration-column-types";
+import { addMissingColumns } from "../utils/migration-schema";
+
+/**
+ * Adds the status of transfers and the refund markers of transfers, cheques and withdrawals.
+ * Transfers made before statuses were tracked become completed.
+ */
+export class RefundTracking1761020000000 implements MigrationInterface {
+    name = 'RefundTracking1761020000000';
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        const types = new ColumnTypes(queryRunner);
+
+        await addMissingColumns(queryRunner, 'user_transfers', [
+            types.enumeration('status', ['pending', 'completed', 'failed'], 'completed'),
+            { name: 'error', type: 'text', isNullable: true },
+            types.nullableTimestamp('refunded_at'),
+        ]);
+        await addMissingColumns(queryRunner, 'user_cheques', [types.nullableTimestamp('refunded_at')]);
+        await addMissingColumns(queryRunner, 'user_withdrawals', [types.nullableTimestamp('refunded_at')]);
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.dropColumn('user_withdrawals', 'refunded_at');
+        await queryRunner.dropColumn('user_cheques', 'refunded_at');
+        await queryRunner.dropColumns('user_transfers', ['refunded_at', 'error', 'status']);
+    }
+}
@@ -0,0 +1,33 @@
+import { MigrationInterface, QueryRunner, TableColumn } from "typeorm";
+import { ColumnTypes } from "../utils/migration-column-types";
+import { addMissingColumns, getTableOrFail } from "../utils/migration-schema";
+
+/**
+ * Tracks cheque activations and adds the cancelled cheque status
+ */
+export class ChequeActivations1761050000000 implements MigrationInterface {
+    name = 'ChequeActivations1761050000000';
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        await addMissingColumns(queryRunner, 'user_cheques', [
+            { name: 'activations', type: 'integer', default: 0 },
+        ]);
+        await this.changeStatuses(queryRunner, ['active', 'completed', 'draft', 'cancelled']);
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await this.changeStatuses(queryRunner, ['active', 'completed', 'draft']);
+        await queryRunner.dropColumn('user_cheques', 'activations');
+    }
+
+    private async changeStatuses(queryRunner: QueryRunner, statuses: string[]): Promise<void> {
+        const table = await getTableOrFail(queryRunner, 'user_cheques');
+        const status = table.findColumnByName('status')!;
+        if (status.enum?.length === statuses.length && statuses.every(value => status.enum!.includes(value))) {
+            return;
+        }
+
+        const types = new ColumnTypes(queryRunner);
+        await queryRunner.changeColumn(table, status, new TableColumn(types.enumeration('status', statuses, 'active')));
+    }
+}
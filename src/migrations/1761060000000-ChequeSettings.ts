@@ -0,0 +1,26 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+import { ColumnTypes } from "../utils/migration-column-types";
+import { addMissingColumns } from "../utils/migration-schema";
+
+/**
+ * Adds the password, description, referral and captcha settings of multicheques
+ */
+export class ChequeSettings1761060000000 implements MigrationInterface {
+    name = 'ChequeSettings1761060000000';
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        const types = new ColumnTypes(queryRunner);
+
+        await addMissingColumns(queryRunner, 'user_cheques', [
+            { name: 'password', type: 'varchar', length: '100', isNullable: true },
+            { name: 'description', type: 'varchar', length: '1000', isNullable: true },
+            { name: 'refProgramPercent', type: 'integer', default: 0 },
+            types.boolean('enableCaptcha', true),
+            types.boolean('forPremium', false),
+        ]);
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.dropColumns('user_cheques', ['forPremium', 'enableCaptcha', 'refProgramPercent', 'description', 'password']);
+    }
+}
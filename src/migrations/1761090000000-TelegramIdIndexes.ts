@@ -0,0 +1,23 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+import { createMissingIndex } from "../utils/migration-schema";
+
+/**
+ * Indexes the Telegram ID lookups of users and transfer recipients.
+ * MySQL databases set up with the former mysql/init scripts may already have them.
+ */
+export class TelegramIdIndexes1761090000000 implements MigrationInterface {
+    name = 'TelegramIdIndexes1761090000000';
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        await createMissingIndex(queryRunner, 'users', { name: 'idx_users_telegram_id', columnNames: ['telegram_id'] });
+        await createMissingIndex(queryRunner, 'user_transfers', {
+            name: 'idx_user_transfers_recipient_telegram_id',
+            columnNames: ['recipient_telegram_id'],
+        });
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.dropIndex('user_transfers', 'idx_user_transfers_recipient_telegram_id');
+        await queryRunner.dropIndex('users', 'idx_users_telegram_id');
+    }
+}
@@ -0,0 +1,43 @@
+import { MigrationInterface, QueryRunner, TableColumn } from "typeorm";
+
+/**
+ * Amount columns of each table, with whether they are nullable
+ */
+const MONEY_COLUMNS: Record<string, Record<string, boolean>> = {
+    user_balances: { amount: false },
+    user_invoices: { amount: false, payment_amount_received: true },
+    user_transfers: { amount: false },
+    user_cheques: { amount: false },
+    user_withdrawals: { amount: false, fee: false, netAmount: false },
+    balance_ledger_entries: { amount: false, balance_after: true },
+};
+
+/**
+ * Widens amount columns from 8 to 9 decimals so TON amounts are stored exactly
+ */
+export class MoneyPrecision1761100000000 implements MigrationInterface {
+    name = 'MoneyPrecision1761100000000';
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        await this.changeScale(queryRunner, 21, 9);
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await this.changeScale(queryRunner, 20, 8);
+    }
+
+    private async changeScale(queryRunner: QueryRunner, precision: number, scale: number): Promise<void> {
+        for (const [tableName, columns] of Object.entries(MONEY_COLUMNS)) {
+            const table = await queryRunner.getTable(tableName);
+            if (!table) {
+                throw new Error(`Table ${tableName} not found`);
+            }
+
+            const changes = Object.entries(columns).map(([name, isNullable]) => ({
+                oldColumn: table.findColumnByName(name)!,
+                newColumn: new TableColumn({ name, type: 'decimal', precision, scale, isNullable }),
+            }));
+            await queryRunner.changeColumns(table, changes);
+        }
+    }
+}
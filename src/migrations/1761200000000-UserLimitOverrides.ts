@@ -0,0 +1,41 @@
+import { MigrationInterface, QueryRunner, Table, TableIndex } from "typeorm";
+import { ColumnTypes } from "../utils/migration-column-types";
+
+/**
+ * Adds per-user overrides of the configured amount limits
+ */
+export class UserLimitOverrides1761200000000 implements MigrationInterface {
+    name = 'UserLimitOverrides1761200000000';
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        const types = new ColumnTypes(queryRunner);
+
+        await queryRunner.createTable(new Table({
+            name: 'user_limit_overrides',
+            columns: [
+                types.id(),
+                { name: 'user_id', type: 'integer' },
+                { name: 'operation', type: 'varchar', length: '20' },
+                { name: 'coin', type: 'varchar', length: '10' },
+                types.money('min_amount', true),
+                types.money('max_amount', true),
+                types.money('daily_limit', true),
+                types.money('monthly_limit', true),
+                types.timestamp('created_at'),
+                types.timestamp('updated_at', true),
+            ],
+            indices: [
+                new TableIndex({
+                    name: 'idx_user_limit_overrides_user_operation_coin',
+                    columnNames: ['user_id', 'operation', 'coin'],
+                    isUnique: true,
+                }),
+            ],
+            foreignKeys: [types.userForeignKey('user_id')],
+        }), false, true, true);
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.dropTable('user_limit_overrides', true, true, true);
+    }
+}
@@ -0,0 +1,21 @@
+import { MigrationInterface, QueryRunner, TableColumn } from "typeorm";
+
+/**
+ * Adds the account status admins use to block users
+ */
+export class UserStatus1761300000000 implements MigrationInterface {
+    name = 'UserStatus1761300000000';
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.addColumn('users', new TableColumn({
+            name: 'status',
+            type: 'varchar',
+            length: '10',
+            default: "'active'",
+        }));
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.dropColumn('users', 'status');
+    }
+}
@@ -0,0 +1,42 @@
+import { MigrationInterface, QueryRunner, Table, TableIndex } from "typeorm";
+import { ColumnTypes } from "../utils/migration-column-types";
+
+/**
+ * Adds the audit log of balance changes
+ */
+export class AuditLog1761400000000 implements MigrationInterface {
+    name = 'AuditLog1761400000000';
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        const types = new ColumnTypes(queryRunner);
+
+        await queryRunner.createTable(new Table({
+            name: 'audit_logs',
+            columns: [
+                types.id(),
+                { name: 'actor_type', type: 'varchar', length: '16' },
+                { name: 'actor_id', type: 'varchar', length: '64', isNullable: true },
+                { name: 'action', type: 'varchar', length: '20' },
+                { name: 'target_type', type: 'varchar', length: '20' },
+                { name: 'target_id', type: 'integer', isNullable: true },
+                { name: 'user_id', type: 'integer' },
+                { name: 'coin', type: 'varchar', length: '10' },
+                types.money('amount'),
+                types.money('balance_before'),
+                types.money('balance_after'),
+                { name: 'description', type: 'varchar', length: '255', isNullable: true },
+                { name: 'metadata', type: 'text', isNullable: true },
+                types.timestamp('created_at'),
+            ],
+            indices: [
+                new TableIndex({ name: 'idx_audit_logs_user_id', columnNames: ['user_id', 'id'] }),
+                new TableIndex({ name: 'idx_audit_logs_target', columnNames: ['target_type', 'target_id'] }),
+            ],
+            foreignKeys: [types.userForeignKey('user_id')],
+        }), false, true, true);
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.dropTable('audit_logs', true, true, true);
+    }
+}
@@ -0,0 +1,39 @@
+import { MigrationInterface, QueryRunner, Table, TableIndex } from "typeorm";
+import { ColumnTypes } from "../utils/migration-column-types";
+
+/**
+ * Adds the webhook delivery records used to process every xRocket Pay event once
+ */
+export class WebhookDeliveries1761500000000 implements MigrationInterface {
+    name = 'WebhookDeliveries1761500000000';
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        const types = new ColumnTypes(queryRunner);
+
+        await queryRunner.createTable(new Table({
+            name: 'webhook_deliveries',
+            columns: [
+                types.id(),
+                { name: 'event_key', type: 'varchar', length: '128' },
+                { name: 'event_type', type: 'varchar', length: '32' },
+                { name: 'invoice_id', type: 'varchar', length: '255', isNullable: true },
+                { name: 'status', type: 'varchar', length: '10', default: "'received'" },
+                { name: 'attempts', type: 'integer', default: 0 },
+                types.nullableTimestamp('event_timestamp'),
+                { name: 'payload', type: 'text' },
+                { name: 'error', type: 'varchar', length: '255', isNullable: true },
+                types.nullableTimestamp('processed_at'),
+                types.timestamp('created_at'),
+                types.timestamp('updated_at', true),
+            ],
+            indices: [
+                new TableIndex({ name: 'idx_webhook_deliveries_event_key', columnNames: ['event_key'], isUnique: true }),
+                new TableIndex({ name: 'idx_webhook_deliveries_invoice_id', columnNames: ['invoice_id'] }),
+            ],
+        }), false, true, true);
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.dropTable('webhook_deliveries', true, true, true);
+    }
+}
@@ -0,0 +1,61 @@
+import { MigrationInterface, QueryRunner, Table, TableColumn, TableForeignKey, TableIndex } from "typeorm";
+import { ColumnTypes } from "../utils/migration-column-types";
+
+/**
+ * Lets invoices accept several payments with a chosen expiry, storing each payment as its own row
+ */
+export class InvoicePayments1761600000000 implements MigrationInterface {
+    name = 'InvoicePayments1761600000000';
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        const types = new ColumnTypes(queryRunner);
+
+        await queryRunner.addColumns('user_invoices', [
+            new TableColumn({ name: 'num_payments', type: 'integer', default: 1 }),
+            new TableColumn({ name: 'payments_count', type: 'integer', default: 0 }),
+            new TableColumn(types.nullableTimestamp('expires_at')),
+        ]);
+
+        // Invoices paid so far accepted a single payment, which has been made
+        await queryRunner.query(`UPDATE user_invoices SET payments_count = 1 WHERE status = 'paid'`);
+
+        await queryRunner.createTable(new Table({
+            name: 'invoice_payments',
+            columns: [
+                types.id(),
+                { name: 'user_invoice_id', type: 'integer' },
+                { name: 'payment_num', type: 'integer' },
+                { name: 'payer_telegram_id', type: 'bigint', isNullable: true },
+                { name: 'currency', type: 'varchar', length: '10' },
+                types.money('amount'),
+                types.money('amount_received'),
+                { name: 'comment', type: 'text', isNullable: true },
+                types.nullableTimestamp('paid_at'),
+                types.timestamp('created_at'),
+            ],
+            indices: [
+                new TableIndex({
+                    name: 'idx_invoice_payments_invoice_payment_num',
+                    columnNames: ['user_invoice_id', 'payment_num'],
+                    isUnique: true,
+                }),
+            ],
+            foreignKeys: [
+                new TableForeignKey({
+                    columnNames: ['user_invoice_id'],
+                    referencedTableName: 'user_invoices',
+                    referencedColumnNames: ['id'],
+                    onDelete: 'NO ACTION',
+                    onUpdate: 'NO ACTION',
+                }),
+            ],
+        }), false, true, true);
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.dropTable('invoice_payments', true, true, true);
+        await queryRunner.dropColumn('user_invoices', 'expires_at');
+        await queryRunner.dropColumn('user_invoices', 'payments_count');
+        await queryRunner.dropColumn('user_invoices', 'num_payments');
+    }
+}
@@ -0,0 +1,60 @@
+import { MigrationInterface, QueryRunner, TableColumn, TableIndex } from "typeorm";
+import { ColumnTypes } from "../utils/migration-column-types";
+
+/**
+ * Records the requested, paid and received amounts of invoice payments separately and flags payments
+ * of a different amount than requested for review
+ */
+export class InvoicePaymentMismatches1761700000000 implements MigrationInterface {
+    name = 'InvoicePaymentMismatches1761700000000';
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        const types = new ColumnTypes(queryRunner);
+
+        await queryRunner.addColumns('invoice_payments', [
+            new TableColumn(types.money('requested_amount', true)),
+            new TableColumn({ name: 'mismatch', type: 'varchar', length: '10', isNullable: true }),
+            new TableColumn(types.nullableTimestamp('reviewed_at')),
+            new TableColumn({ name: 'reviewed_by', type: 'bigint', isNullable: true }),
+        ]);
+
+        // Stored payments were requested at their invoice's amount
+        await queryRunner.query(`
+            UPDATE invoice_payments SET requested_amount = (
+                SELECT amount FROM user_invoices WHERE user_invoices.id = invoice_payments.user_invoice_id
+            )
+        `);
+        await queryRunner.query(`
+            UPDATE invoice_payments SET mismatch = CASE
+                WHEN amount < requested_amount THEN 'underpaid'
+                WHEN amount > requested_amount THEN 'overpaid'
+            END
+        `);
+        await queryRunner.changeColumn('invoice_payments', 'requested_amount', new TableColumn(types.money('requested_amount')));
+
+        await queryRunner.createIndex('invoice_payments', new TableIndex({
+            name: 'idx_invoice_payments_mismatch',
+            columnNames: ['mismatch', 'reviewed_at'],
+        }));
+
+        await queryRunner.addColumn('user_invoices', new TableColumn(types.money('payment_amount_paid', true)));
+
+        // Invoices paid before payments were stored had their amount replaced with the paid amount
+        await queryRunner.query(`
+            UPDATE user_invoices SET payment_amount_paid = COALESCE(
+                (SELECT SUM(amount) FROM invoice_payments WHERE invoice_payments.user_invoice_id = user_invoices.id),
+                amount
+            )
+            WHERE payments_count > 0
+        `);
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.dropColumn('user_invoices', 'payment_amount_paid');
+        await queryRunner.dropIndex('invoice_payments', 'idx_invoice_payments_mismatch');
+        await queryRunner.dropColumn('invoice_payments', 'reviewed_by');
+        await queryRunner.dropColumn('invoice_payments', 'reviewed_at');
+        await queryRunner.dropColumn('invoice_payments', 'mismatch');
+        await queryRunner.dropColumn('invoice_payments', 'requested_amount');
+    }
+}
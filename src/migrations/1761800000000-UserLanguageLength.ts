@@ -0,0 +1,21 @@
+import { MigrationInterface, QueryRunner, TableColumn } from "typeorm";
+
+/**
+ * Widens users.language so locales with a region or script, such as pt-br, fit
+ */
+export class UserLanguageLength1761800000000 implements MigrationInterface {
+    name = 'UserLanguageLength1761800000000';
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.changeColumn('users', 'language', new TableColumn({
+            name: 'language', type: 'varchar', length: '10', isNullable: true,
+        }));
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        // Languages longer than two characters must be reset before reverting
+        await queryRunner.changeColumn('users', 'language', new TableColumn({
+            name: 'language', type: 'varchar', length: '2', isNullable: true,
+        }));
+    }
+}
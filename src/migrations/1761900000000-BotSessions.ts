@@ -0,0 +1,30 @@
+import { MigrationInterface, QueryRunner, Table, TableIndex } from "typeorm";
+import { ColumnTypes } from "../utils/migration-column-types";
+
+/**
+ * Adds the bot_sessions table used by the database session storage
+ */
+export class BotSessions1761900000000 implements MigrationInterface {
+    name = 'BotSessions1761900000000';
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        const types = new ColumnTypes(queryRunner);
+
+        await queryRunner.createTable(new Table({
+            name: 'bot_sessions',
+            columns: [
+                { name: 'session_key', type: 'varchar', length: '64', isPrimary: true },
+                { name: 'data', type: 'text' },
+                types.requiredTimestamp('expires_at'),
+                types.timestamp('updated_at', true),
+            ],
+            indices: [
+                new TableIndex({ name: 'idx_bot_sessions_expires_at', columnNames: ['expires_at'] }),
+            ],
+        }), false, true, true);
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.dropTable('bot_sessions', true, true, true);
+    }
+}
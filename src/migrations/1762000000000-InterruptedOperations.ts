@@ -0,0 +1,25 @@
+import { MigrationInterface, QueryRunner, TableColumn } from "typeorm";
+import { ColumnTypes } from "../utils/migration-column-types";
+
+const TABLES = ['user_transfers', 'user_withdrawals', 'user_cheques'];
+
+/**
+ * Flags transfers, withdrawals and cheques whose xRocket Pay call was interrupted by a shutdown
+ */
+export class InterruptedOperations1762000000000 implements MigrationInterface {
+    name = 'InterruptedOperations1762000000000';
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        const types = new ColumnTypes(queryRunner);
+
+        for (const table of TABLES) {
+            await queryRunner.addColumn(table, new TableColumn(types.nullableTimestamp('interrupted_at')));
+        }
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        for (const table of TABLES) {
+            await queryRunner.dropColumn(table, 'interrupted_at');
+        }
+    }
+}
@@ -0,0 +1,20 @@
+import { MigrationInterface, QueryRunner, TableColumn } from "typeorm";
+
+/**
+ * Adds the limits a user override lifts instead of replacing with another amount
+ */
+export class UnlimitedLimitOverrides1762100000000 implements MigrationInterface {
+    name = 'UnlimitedLimitOverrides1762100000000';
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.addColumn('user_limit_overrides', new TableColumn({
+            name: 'unlimited_kinds',
+            type: 'text',
+            isNullable: true,
+        }));
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.dropColumn('user_limit_overrides', 'unlimited_kinds');
+    }
+}
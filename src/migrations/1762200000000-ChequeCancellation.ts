@@ -0,0 +1,18 @@
+import { MigrationInterface, QueryRunner, TableColumn } from "typeorm";
+import { ColumnTypes } from "../utils/migration-column-types";
+
+/**
+ * Marks cheques whose cancellation started, so a refund that fails after the delete in xRocket Pay is finished later
+ */
+export class ChequeCancellation1762200000000 implements MigrationInterface {
+    name = 'ChequeCancellation1762200000000';
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        const types = new ColumnTypes(queryRunner);
+        await queryRunner.addColumn('user_cheques', new TableColumn(types.nullableTimestamp('cancel_requested_at')));
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.dropColumn('user_cheques', 'cancel_requested_at');
+    }
+}
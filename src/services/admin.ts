@@ -0,0 +1,189 @@
+import { IsNull, Not } from "typeorm";
+import { AppDataSource } from "../config/database";
+import { ADMIN_CONFIG } from "../config/admin";
+import { User, UserStatus } from "../entities/user";
+import { UserBalance } from "../entities/user-balance";
+import { UserInvoice } from "../entities/user-invoice";
+import { InvoicePayment } from "../entities/invoice-payment";
+import { UserTransfer } from "../entities/user-transfer";
+import { UserWithdrawal } from "../entities/user-withdrawal";
+import { InternalCurrency } from "../types/currency";
+import { Money } from "../types/money";
+import { UserService } from "./user";
+import logger from "../utils/logger";
+
+/**
+ * Latest records of a user shown to admins
+ */
+export interface UserActivity {
+    invoices: UserInvoice[];
+    transfers: UserTransfer[];
+    withdrawals: UserWithdrawal[];
+}
+
+/**
+ * Service for operator actions performed through admin commands
+ */
+export class AdminService {
+    private static instance: AdminService;
+    private userService: UserService;
+
+    private constructor() {
+        this.userService = UserService.getInstance();
+    }
+
+    public static getInstance(): AdminService {
+        if (!AdminService.instance) {
+            AdminService.instance = new AdminService();
+        }
+        return AdminService.instance;
+    }
+
+    /**
+     * Checks whether a Telegram user is listed in ADMIN_TELEGRAM_IDS
+     * @param telegramId - The Telegram user ID
+     * @returns True if the user is an admin
+     */
+    public isAdmin(telegramId: number | undefined): boolean {
+        // bigint columns come back as strings on MySQL and PostgreSQL
+        return telegramId !== undefined && ADMIN_CONFIG.TELEGRAM_IDS.includes(Number(telegramId));
+    }
+
+    /**
+     * Finds a user by Telegram ID or username
+     * @param query - A numeric Telegram ID or a username with or without the leading @
+     * @returns The user instance or null if not found
+     */
+    public async findUser(query: string): Promise<User | null> {
+        const trimmedQuery = query.trim();
+        if (/^\d+$/.test(trimmedQuery)) {
+            return await this.userService.getUserByTelegramId(Number(trimmedQuery));
+        }
+
+        const username = trimmedQuery.replace(/^@/, '');
+        if (!username) {
+            return null;
+        }
+        return await AppDataSource.getRepository(User).findOne({ where: { username } });
+    }
+
+    /**
+     * Gets the latest invoices, transfers and withdrawals of a user
+     * @param user - The user instance
+     * @param limit - Maximum number of records of each kind
+     * @returns The user's recent activity, newest first
+     */
+    public async getRecentActivity(user: User, limit: number = ADMIN_CONFIG.RECENT_ITEMS): Promise<UserActivity> {
+        const [invoices, transfers, withdrawals] = await Promise.all([
+            AppDataSource.getRepository(UserInvoice).find({
+                where: { user: { id: user.id } },
+                order: { id: 'DESC' },
+                take: limit
+            }),
+            AppDataSource.getRepository(UserTransfer).find({
+                where: { sender: { id: user.id } },
+                order: { id: 'DESC' },
+                take: limit
+            }),
+            AppDataSource.getRepository(UserWithdrawal).find({
+                where: { userId: user.id },
+                order: { id: 'DESC' },
+                take: limit
+            })
+        ]);
+
+        return { invoices, transfers, withdrawals };
+    }
+
+    /**
+     * Credits or debits a user's balance by hand, recorded in the ledger and audit log as an adjustment with the reason and admin
+     * @param adminTelegramId - The Telegram ID of the admin performing the change
+     * @param user - The user whose balance changes
+     * @param currency - The currency of the balance
+     * @param amount - The signed change (positive to credit, negative to debit)
+     * @param reason - Why the balance is changed
+     * @returns The updated balance
+     */
+    public async adjustBalance(
+        adminTelegramId: number,
+        user: User,
+        currency: InternalCurrency,
+        amount: Money,
+        reason: string
+    ): Promise<UserBalance> {
+        const trimmedReason = reason.trim();
+        if (!trimmedReason) {
+            throw new Error('A reason is required for manual balance changes');
+        }
+        if (trimmedReason.length > ADMIN_CONFIG.MAX_REASON_LENGTH) {
+            throw new Error(`Invalid reason: use at most ${ADMIN_CONFIG.MAX_REASON_LENGTH} characters`);
+        }
+
+        logger.info('[AdminService] Adjusting balance:', {
+            adminTelegramId,
+            userId: user.id,
+            currency,
+            amount,
+            reason: trimmedReason
+        });
+
+        return await this.userService.updateBalance(user, currency, amount, {
+            type: 'adjustment',
+            description: `${trimmedReason} (admin ${adminTelegramId})`
+        }, { type: 'admin', id: String(adminTelegramId), metadata: { reason: trimmedReason } });
+    }
+
+    /**
+     * Changes a user's account status
+     * @param adminTelegramId - The Telegram ID of the admin performing the change
+     * @param user - The user to update
+     * @param status - The new status
+     * @returns The updated user
+     */
+    public async setUserStatus(adminTelegramId: number, user: User, status: UserStatus): Promise<User> {
+        if (status !== 'active' && this.isAdmin(user.telegramId)) {
+            throw new Error('Admins cannot be blocked or frozen');
+        }
+
+        user.status = status;
+        const savedUser = await AppDataSource.getRepository(User).save(user);
+
+        logger.info('[AdminService] Changed user status:', { adminTelegramId, userId: user.id, status });
+        return savedUser;
+    }
+
+    /**
+     * Gets invoice payments of a different amount than requested that haven't been reviewed yet
+     * @param limit - Maximum number of payments
+     * @returns The flagged payments with their invoice and its user, oldest first
+     */
+    public async getPaymentsToReview(limit: number = ADMIN_CONFIG.MISMATCH_ITEMS): Promise<InvoicePayment[]> {
+        return await AppDataSource.getRepository(InvoicePayment).find({
+            where: { mismatch: Not(IsNull()), reviewedAt: IsNull() },
+            relations: ['invoice', 'invoice.user'],
+            order: { id: 'ASC' },
+            take: limit
+        });
+    }
+
+    /**
+     * Marks a flagged invoice payment as reviewed so it no longer shows up in /mismatches
+     * @param adminTelegramId - The Telegram ID of the admin reviewing the payment
+     * @param paymentId - The local invoice payment ID
+     * @returns The reviewed payment, or null if no payment with this ID awaits review
+     */
+    public async markPaymentReviewed(adminTelegramId: number, paymentId: number): Promise<InvoicePayment | null> {
+        const paymentRepo = AppDataSource.getRepository(InvoicePayment);
+        const payment = await paymentRepo.findOne({ where: { id: paymentId } });
+        if (!payment || !payment.needsReview()) {
+            return null;
+        }
+
+        payment.reviewedAt = new Date();
+        payment.reviewedBy = adminTelegramId;
+        const savedPayment = await paymentRepo.save(payment);
+
+        logger.info('[AdminService] Reviewed invoice payment:', { adminTelegramId, paymentId, mismatch: payment.mismatch });
+        return savedPayment;
+    }
+}
@@ -0,0 +1,169 @@
+import { EntityManager, LessThan } from "typeorm";
+import { AppDataSource } from "../config/database";
+import { AuditAction, AuditActorType, AuditLog } from "../entities/audit-log";
+import { LedgerReferenceType } from "../entities/balance-ledger-entry";
+import { User } from "../entities/user";
+import { BotContext } from "../types/bot";
+import { InternalCurrency } from "../types/currency";
+import { Money } from "../types/money";
+import { LedgerReference } from "./ledger";
+import logger from "../utils/logger";
+
+/**
+ * Describes who caused a balance change and the request they made it through
+ */
+export interface AuditActor {
+    type: AuditActorType;
+    id?: string;
+    metadata?: Record<string, unknown>;
+}
+
+/**
+ * Actor for balance changes that don't come from a user, admin, webhook or background job
+ */
+export const SYSTEM_ACTOR: AuditActor = { type: 'system' };
+
+/**
+ * Options for reading a user's audit timeline
+ */
+export interface AuditTimelineOptions {
+    currency?: InternalCurrency;
+    beforeId?: number; // Only entries older than this one, for paging
+    limit?: number;
+}
+
+/**
+ * Action recorded for each kind of reference. Credits on outgoing operations are refunds
+ */
+const REFERENCE_ACTIONS: Record<LedgerReferenceType, AuditAction> = {
+    invoice: 'deposit',
+    transfer: 'transfer',
+    cheque: 'cheque',
+    withdrawal: 'withdrawal',
+    adjustment: 'adjustment',
+    opening: 'adjustment'
+};
+
+/**
+ * Service for recording and querying the audit log of balance changes
+ */
+export class AuditService {
+    private static instance: AuditService;
+
+    private constructor() {}
+
+    public static getInstance(): AuditService {
+        if (!AuditService.instance) {
+            AuditService.instance = new AuditService();
+        }
+        return AuditService.instance;
+    }
+
+    /**
+     * Builds the actor for a balance change a user makes through the bot
+     * @param ctx - The bot context of the update
+     * @returns The actor with the update and chat the change was requested in
+     */
+    public actorFromContext(ctx: BotContext): AuditActor {
+        return {
+            type: 'user',
+            id: ctx.from ? String(ctx.from.id) : undefined,
+            metadata: {
+                updateId: ctx.update.update_id,
+                chatId: ctx.chat?.id,
+                username: ctx.from?.username
+            }
+        };
+    }
+
+    /**
+     * Builds the actor for a balance change made on behalf of a user without a bot update at hand
+     * @param user - The user instance
+     * @returns The actor identified by the user's Telegram ID
+     */
+    public userActor(user: User): AuditActor {
+        return { type: 'user', id: String(user.telegramId) };
+    }
+
+    /**
+     * Records a balance change in the audit log
+     * Must be called with the same manager that updates UserBalance so both are committed together
+     * @param manager - The transaction entity manager
+     * @param actor - Who caused the change
+     * @param user - The user whose balance changed
+     * @param currency - The currency of the balance
+     * @param amountChange - The signed change (positive for credit, negative for debit)
+     * @param balanceAfter - The user's balance after the change
+     * @param reference - The record that caused the change
+     */
+    public async record(
+        manager: EntityManager,
+        actor: AuditActor,
+        user: User,
+        currency: InternalCurrency,
+        amountChange: Money,
+        balanceAfter: Money,
+        reference: LedgerReference
+    ): Promise<void> {
+        if (amountChange.isZero()) {
+            return;
+        }
+
+        const isRefund = amountChange.isPositive() && ['transfer', 'cheque', 'withdrawal'].includes(reference.type);
+        const entry = AuditLog.create({
+            actorType: actor.type,
+            actorId: actor.id,
+            action: isRefund ? 'refund' : REFERENCE_ACTIONS[reference.type],
+            targetType: reference.type,
+            targetId: reference.id,
+            user,
+            coin: currency,
+            amount: amountChange,
+            balanceBefore: balanceAfter.minus(amountChange),
+            balanceAfter,
+            description: reference.description,
+            metadata: actor.metadata
+        });
+
+        await manager.getRepository(AuditLog).save(entry);
+
+        logger.info('[AuditService] Recorded balance change:', {
+            userId: user.id,
+            actor: { type: actor.type, id: actor.id },
+            action: entry.action,
+            currency,
+            amountChange
+        });
+    }
+
+    /**
+     * Gets the audit timeline of a user, newest first
+     * @param user - The user instance
+     * @param options - Optional currency filter, paging cursor and page size
+     * @returns Array of audit log entries
+     */
+    public async getUserTimeline(user: User, options: AuditTimelineOptions = {}): Promise<AuditLog[]> {
+        return await AppDataSource.getRepository(AuditLog).find({
+            where: {
+                userId: user.id,
+                ...(options.currency ? { coin: options.currency } : {}),
+                ...(options.beforeId ? { id: LessThan(options.beforeId) } : {})
+            },
+            order: { id: 'DESC' },
+            take: options.limit ?? 50
+        });
+    }
+
+    /**
+     * Gets all audit log entries of a specific record (e.g. a transfer and its refund)
+     * @param targetType - The kind of record
+     * @param targetId - The local record ID
+     * @returns Array of audit log entries in chronological order
+     */
+    public async getTargetHistory(targetType: LedgerReferenceType, targetId: number): Promise<AuditLog[]> {
+        return await AppDataSource.getRepository(AuditLog).find({
+            where: { targetType, targetId },
+            order: { id: 'ASC' }
+        });
+    }
+}
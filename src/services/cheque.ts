@@ -0,0 +1,268 @@
+import { Not, IsNull, MoreThan } from "typeorm";
+import { AppDataSource } from "../config/database";
+import { RECONCILER_CONFIG } from "../config/reconciler";
+import { UserCheque } from "../entities/user-cheque";
+import { User } from "../entities/user";
+import { Money } from "../types/money";
+import { TransactionService } from "./transaction";
+import { AuditActor, AuditService } from "./audit";
+import { XRocketPayService } from "./xrocket-pay";
+import { NotificationService } from "./notification";
+import { ErrorHandler, ErrorType } from "../bot/utils/error-handler";
+import { BatchCursor } from "../utils/batch-cursor";
+import logger from "../utils/logger";
+
+/**
+ * Tracks multicheque activations in xRocket Pay, notifies creators when their cheques
+ * are claimed and lets them cancel unclaimed cheques for a refund
+ */
+export class ChequeService {
+    private static instance: ChequeService;
+    private transactionService: TransactionService;
+    private xrocketPayService: XRocketPayService;
+    private errorHandler: ErrorHandler;
+    private timer: NodeJS.Timeout | null = null;
+    private isRunning = false;
+    // Unclaimed cheques stay active indefinitely, so each sync continues where the previous one stopped
+    private readonly activeCheques = new BatchCursor(RECONCILER_CONFIG.BATCH_SIZE);
+
+    private constructor() {
+        this.transactionService = TransactionService.getInstance();
+        this.xrocketPayService = XRocketPayService.getInstance();
+        this.errorHandler = ErrorHandler.getInstance();
+    }
+
+    public static getInstance(): ChequeService {
+        if (!ChequeService.instance) {
+            ChequeService.instance = new ChequeService();
+        }
+        return ChequeService.instance;
+    }
+
+    /**
+     * Starts periodic syncing of active cheques
+     */
+    public start(): void {
+        if (!RECONCILER_CONFIG.ENABLED) {
+            logger.info('[ChequeService] Cheque tracking disabled by configuration');
+            return;
+        }
+
+        if (this.timer) {
+            return;
+        }
+
+        logger.info('[ChequeService] Starting cheque tracking:', {
+            intervalMs: RECONCILER_CONFIG.CHEQUE_SYNC_INTERVAL_MS
+        });
+
+        this.timer = setInterval(() => {
+            this.syncActiveCheques().catch(error => {
+                this.errorHandler.logError(error, ErrorType.UNKNOWN_ERROR, {
+                    conversation: 'cheque_service',
+                    action: 'scheduled_sync'
+                });
+            });
+        }, RECONCILER_CONFIG.CHEQUE_SYNC_INTERVAL_MS);
+    }
+
+    /**
+     * Stops periodic syncing. A sync already in progress finishes on its own.
+     */
+    public stop(): void {
+        if (this.timer) {
+            clearInterval(this.timer);
+            this.timer = null;
+            logger.info('[ChequeService] Cheque tracking stopped');
+        }
+    }
+
+    /**
+     * Syncs the next batch of cheques that are active in xRocket Pay
+     * @returns Number of cheques synced, or null if a sync is already running
+     */
+    public async syncActiveCheques(): Promise<number | null> {
+        if (this.isRunning) {
+            return null;
+        }
+
+        this.isRunning = true;
+        try {
+            const cheques = await this.activeCheques.next((afterId, take) => AppDataSource.getRepository(UserCheque).find({
+                where: { status: 'active', chequeId: Not(IsNull()), cancelRequestedAt: IsNull(), id: MoreThan(afterId) },
+                relations: ['user'],
+                order: { id: 'ASC' },
+                take
+            }));
+
+            for (const cheque of cheques) {
+                try {
+                    await this.syncCheque(cheque);
+                } catch (error) {
+                    this.errorHandler.logError(error, ErrorType.API_ERROR, {
+                        conversation: 'cheque_service',
+                        action: 'sync_cheque',
+                        data: { chequeId: cheque.id }
+                    });
+                }
+            }
+
+            return cheques.length;
+        } finally {
+            this.isRunning = false;
+        }
+    }
+
+    /**
+     * Fetches the cheque from xRocket Pay and stores its state, link and activations.
+     * The creator is notified only by the sync that actually stored new activations,
+     * so concurrent syncs never notify twice.
+     * @param cheque - The cheque with the user relation loaded
+     * @returns The cheque as stored after the sync
+     */
+    public async syncCheque(cheque: UserCheque): Promise<UserCheque> {
+        // A cheque being cancelled may already be deleted in xRocket Pay
+        if (!cheque.chequeId || cheque.status === 'cancelled' || cheque.cancelRequestedAt) {
+            return cheque;
+        }
+
+        const response = await this.xrocketPayService.getMulticheque(cheque.chequeId);
+        if (!response.data) {
+            return cheque;
+        }
+
+        const chequeRepo = AppDataSource.getRepository(UserCheque);
+        const newStatus = response.data.state;
+        const newLink = response.data.link;
+        const newActivations = response.data.activations ?? cheque.activations;
+
+        if (cheque.status === newStatus && cheque.link === newLink && cheque.activations === newActivations) {
+            return cheque;
+        }
+
+        // Only update if nobody else stored these activations in the meantime
+        const result = await chequeRepo.update(
+            { id: cheque.id, activations: cheque.activations, status: cheque.status },
+            { status: newStatus, link: newLink, activations: newActivations }
+        );
+
+        const updatedCheque = await this.reload(cheque);
+        if (result.affected && newActivations > cheque.activations) {
+            logger.info('[ChequeService] Cheque activated:', {
+                chequeId: cheque.id,
+                activations: newActivations,
+                usersNumber: cheque.usersNumber
+            });
+            await NotificationService.getInstance().notifyChequeActivated(updatedCheque);
+        }
+
+        return updatedCheque;
+    }
+
+    /**
+     * Checks whether the user may cancel the cheque
+     */
+    public canCancel(cheque: UserCheque, user: User): boolean {
+        return cheque.userId === user.id
+            && cheque.status === 'active'
+            && !!cheque.chequeId
+            && !cheque.refundedAt
+            && !cheque.cancelRequestedAt
+            && cheque.activations < cheque.usersNumber;
+    }
+
+    /**
+     * Deletes the cheque in xRocket Pay and credits the unclaimed amount back to the creator.
+     * The cheque is marked as being cancelled before the delete, so a refund that fails after
+     * the delete went through is finished by the reconciler with finishCancellation.
+     * @param cheque - The cheque to cancel
+     * @param user - The user requesting the cancellation
+     * @param actor - Who requested the cancellation, for the audit log (defaults to the user)
+     * @returns The refunded amount
+     */
+    public async cancelCheque(cheque: UserCheque, user: User, actor?: AuditActor): Promise<Money> {
+        // Pick up activations that happened since the cheque was last synced
+        const syncedCheque = await this.syncCheque(cheque);
+
+        if (!this.canCancel(syncedCheque, user)) {
+            throw new Error('Cheque can no longer be cancelled');
+        }
+
+        // Only one cancellation of the cheque gets past this update
+        const marked = await AppDataSource.getRepository(UserCheque).update(
+            { id: syncedCheque.id, status: 'active', cancelRequestedAt: IsNull() },
+            { cancelRequestedAt: new Date() }
+        );
+        if (!marked.affected) {
+            throw new Error('Cheque is already being cancelled');
+        }
+
+        logger.info('[ChequeService] Cancelling cheque:', { chequeId: syncedCheque.id, userId: user.id });
+        const activations = await this.deleteRemoteCheque(syncedCheque);
+
+        const refundedAmount = await this.transactionService.refundChequeRemainder(
+            syncedCheque.id,
+            activations ?? syncedCheque.activations,
+            actor ?? AuditService.getInstance().userActor(user)
+        );
+
+        if (refundedAmount === null) {
+            throw new Error('Cheque has already been cancelled');
+        }
+
+        return refundedAmount;
+    }
+
+    /**
+     * Finishes a cancellation that stopped before the refund: deletes the cheque in xRocket Pay
+     * unless it is already gone and credits back the unclaimed amount
+     * @param cheque - A cheque with cancelRequestedAt set
+     * @param actor - Who finishes the cancellation, for the audit log
+     * @returns The refunded amount, or null if the cheque was already refunded
+     */
+    public async finishCancellation(cheque: UserCheque, actor: AuditActor): Promise<Money | null> {
+        const activations = await this.deleteRemoteCheque(cheque);
+
+        // A cheque the cancellation already deleted keeps the activations synced right before it
+        const refundedAmount = await this.transactionService.refundChequeRemainder(cheque.id, activations ?? cheque.activations, actor);
+        if (refundedAmount !== null) {
+            logger.info('[ChequeService] Cheque cancellation finished:', { chequeId: cheque.id, refundedAmount });
+        }
+        return refundedAmount;
+    }
+
+    /**
+     * Deletes a cheque marked as being cancelled in xRocket Pay.
+     * If xRocket Pay refuses the delete the mark is removed again and the cheque stays active.
+     * @returns The final activation count reported by xRocket Pay, or null if the cheque was already deleted
+     */
+    private async deleteRemoteCheque(cheque: UserCheque): Promise<number | null> {
+        try {
+            const response = await this.xrocketPayService.deleteMulticheque(cheque.chequeId!);
+            return response.data?.activations ?? cheque.activations;
+        } catch (apiError) {
+            if ((apiError as any)?.response?.status === 404) {
+                return null;
+            }
+            if (this.errorHandler.isDefinitiveApiFailure(apiError)) {
+                await AppDataSource.getRepository(UserCheque).update(cheque.id, { cancelRequestedAt: null });
+            }
+            throw apiError;
+        }
+    }
+
+    /**
+     * Reloads a cheque with its user
+     */
+    private async reload(cheque: UserCheque): Promise<UserCheque> {
+        const updatedCheque = await AppDataSource.getRepository(UserCheque).findOne({
+            where: { id: cheque.id },
+            relations: ['user']
+        });
+
+        if (!updatedCheque) {
+            throw new Error(`Cheque ${cheque.id} not found`);
+        }
+        return updatedCheque;
+    }
+}
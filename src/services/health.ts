@@ -0,0 +1,106 @@
+import { Bot } from "grammy";
+import { AppDataSource } from "../config/database";
+import { HEALTH_CONFIG } from "../config/health";
+import { BotContext } from "../types/bot";
+import { XRocketPayService } from "./xrocket-pay";
+import logger from "../utils/logger";
+
+/**
+ * Components the readiness check covers
+ * - database: a query through AppDataSource
+ * - xrocket: an authenticated xRocket Pay API request, so a wrong XROCKET_API_KEY fails it too
+ * - telegram: getMe with the bot token
+ */
+export type HealthComponent = 'database' | 'xrocket' | 'telegram';
+
+export interface ComponentHealth {
+    status: 'ok' | 'error';
+    latencyMs: number;
+    error?: string;
+}
+
+/**
+ * Result of a readiness check, ok only if every component is
+ */
+export interface HealthReport {
+    status: 'ok' | 'error';
+    timestamp: string;
+    components: Record<HealthComponent, ComponentHealth>;
+}
+
+/**
+ * Checks that the app can reach everything it needs to serve users
+ */
+export class HealthService {
+    private static instance: HealthService;
+    private bot: Bot<BotContext>;
+
+    private constructor(bot: Bot<BotContext>) {
+        this.bot = bot;
+    }
+
+    /**
+     * Gets the health service instance
+     * The bot must be passed on first use, later callers may omit it
+     */
+    public static getInstance(bot?: Bot<BotContext>): HealthService {
+        if (!HealthService.instance) {
+            if (!bot) {
+                throw new Error('HealthService is not initialized with a bot instance');
+            }
+            HealthService.instance = new HealthService(bot);
+        }
+        return HealthService.instance;
+    }
+
+    /**
+     * Checks all components in parallel
+     */
+    public async check(): Promise<HealthReport> {
+        const [database, xrocket, telegram] = await Promise.all([
+            this.checkComponent('database', () => this.checkDatabase()),
+            this.checkComponent('xrocket', () => XRocketPayService.getInstance().getAvailableCurrencies()),
+            this.checkComponent('telegram', () => this.bot.api.getMe())
+        ]);
+
+        const components = { database, xrocket, telegram };
+        const healthy = Object.values(components).every(component => component.status === 'ok');
+        return {
+            status: healthy ? 'ok' : 'error',
+            timestamp: new Date().toISOString(),
+            components
+        };
+    }
+
+    private async checkDatabase(): Promise<void> {
+        if (!AppDataSource.isInitialized) {
+            throw new Error('Database connection is not initialized');
+        }
+        await AppDataSource.query('SELECT 1');
+    }
+
+    /**
+     * Runs a component check with a timeout, measuring how long it took
+     */
+    private async checkComponent(component: HealthComponent, check: () => Promise<unknown>): Promise<ComponentHealth> {
+        const startedAt = Date.now();
+        let timer: NodeJS.Timeout | undefined;
+        const timeout = new Promise<never>((_, reject) => {
+            timer = setTimeout(
+                () => reject(new Error(`Timed out after ${HEALTH_CONFIG.CHECK_TIMEOUT_MS}ms`)),
+                HEALTH_CONFIG.CHECK_TIMEOUT_MS
+            );
+        });
+
+        try {
+            await Promise.race([check(), timeout]);
+            return { status: 'ok', latencyMs: Date.now() - startedAt };
+        } catch (error) {
+            const message = error instanceof Error ? error.message : String(error);
+            logger.warn('[HealthService] Component check failed:', { component, error: message });
+            return { status: 'error', latencyMs: Date.now() - startedAt, error: message };
+        } finally {
+            clearTimeout(timer);
+        }
+    }
+}
@@ -1,7 +1,22 @@
 import { BotContext } from "../types/bot";
 import { SupportedLanguage } from "../entities/user";
+import { i18n } from "../config/i18n";
 import logger from "../utils/logger";
 
+const DEFAULT_LANGUAGE: SupportedLanguage = 'en';
+
+/**
+ * Telegram language codes without a translation of their own, shown in a close language if it is available
+ */
+const FALLBACK_LANGUAGES: Record<string, SupportedLanguage> = {
+    'uk': 'ru', // Ukrainian -> Russian
+    'be': 'ru', // Belarusian -> Russian
+    'kk': 'ru', // Kazakh -> Russian
+    'ky': 'ru', // Kyrgyz -> Russian
+    'tg': 'ru', // Tajik -> Russian
+    'uz': 'ru', // Uzbek -> Russian
+};
+
 /**
  * Service for handling language detection and management
  */
@@ -20,12 +35,12 @@ export class LanguageService {
     /**
      * Detects user language from Telegram context
      * @param ctx - The bot context
-     * @returns Detected language or 'en' as fallback
+     * @returns Detected language or the default language as fallback
      */
     public detectUserLanguage(ctx: BotContext): SupportedLanguage {
         if (!ctx.from) {
             logger.warn('[LanguageService] No user context found, using fallback language');
-            return 'en';
+            return this.getDefaultLanguage();
         }
 
         // Get language from Telegram user object
@@ -33,22 +48,13 @@ export class LanguageService {
         
         if (!telegramLanguage) {
             logger.info('[LanguageService] No language code found, using fallback language');
-            return 'en';
+            return this.getDefaultLanguage();
         }
 
         // Map Telegram language codes to supported languages
-        const languageMap: Record<string, SupportedLanguage> = {
-            'ru': 'ru',
-            'en': 'en',
-            'uk': 'ru', // Ukrainian -> Russian
-            'be': 'ru', // Belarusian -> Russian
-            'kk': 'ru', // Kazakh -> Russian
-            'ky': 'ru', // Kyrgyz -> Russian
-            'tg': 'ru', // Tajik -> Russian
-            'uz': 'ru', // Uzbek -> Russian
-        };
-
-        const detectedLanguage = languageMap[telegramLanguage.toLowerCase()];
+        const languageCode = telegramLanguage.toLowerCase();
+        const detectedLanguage = [languageCode, FALLBACK_LANGUAGES[languageCode]]
+            .find(language => language !== undefined && this.isSupportedLanguage(language));
         
         if (detectedLanguage) {
             logger.info('[LanguageService] Detected language:', {
@@ -63,7 +69,7 @@ export class LanguageService {
             telegramLanguage,
             userId: ctx.from.id
         });
-        return 'en';
+        return this.getDefaultLanguage();
     }
 
     /**
@@ -72,7 +78,7 @@ export class LanguageService {
      * @returns True if supported, false otherwise
      */
     public isSupportedLanguage(language: string): language is SupportedLanguage {
-        return language === 'en' || language === 'ru';
+        return i18n.locales.includes(language);
     }
 
     /**
@@ -80,14 +86,24 @@ export class LanguageService {
      * @returns Default language
      */
     public getDefaultLanguage(): SupportedLanguage {
-        return 'en';
+        return DEFAULT_LANGUAGE;
     }
 
     /**
-     * Gets all supported languages
-     * @returns Array of supported languages
+     * Gets all supported languages, one for each translation file in the locales directory
+     * @returns Array of supported languages, the default language first
      */
     public getSupportedLanguages(): SupportedLanguage[] {
-        return ['en', 'ru'];
+        const otherLanguages = i18n.locales.filter(language => language !== DEFAULT_LANGUAGE).sort();
+        return [DEFAULT_LANGUAGE, ...otherLanguages];
+    }
+
+    /**
+     * Gets the name a language is shown with in the language picker, in that language
+     * @param language - The language
+     * @returns The language-name message of its translation file
+     */
+    public getLanguageName(language: SupportedLanguage): string {
+        return i18n.t(language, 'language-name');
     }
 } 
\ No newline at end of file
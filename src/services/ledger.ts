@@ -0,0 +1,242 @@
+import { randomUUID } from "crypto";
+import { EntityManager } from "typeorm";
+import { AppDataSource } from "../config/database";
+import { BalanceLedgerEntry, LedgerAccount, LedgerReferenceType } from "../entities/balance-ledger-entry";
+import { User } from "../entities/user";
+import { UserBalance } from "../entities/user-balance";
+import { InternalCurrency } from "../types/currency";
+import { Money } from "../types/money";
+import logger from "../utils/logger";
+
+/**
+ * Describes the record that caused a balance change
+ */
+export interface LedgerReference {
+    type: LedgerReferenceType;
+    id?: number;
+    description?: string;
+}
+
+/**
+ * Result of comparing a stored balance with the balance derived from the ledger
+ */
+export interface BalanceVerification {
+    currency: InternalCurrency;
+    balance: Money;
+    ledgerBalance: Money;
+    difference: Money;
+    isConsistent: boolean;
+}
+
+/**
+ * Counter account used for each kind of reference
+ */
+const COUNTER_ACCOUNTS: Record<LedgerReferenceType, LedgerAccount> = {
+    invoice: 'xrocket_deposits',
+    transfer: 'xrocket_payouts',
+    cheque: 'xrocket_payouts',
+    withdrawal: 'xrocket_payouts',
+    adjustment: 'manual_adjustments',
+    opening: 'opening_balances'
+};
+
+/**
+ * Service for recording and querying the double-entry balance ledger
+ */
+export class LedgerService {
+    private static instance: LedgerService;
+
+    private constructor() {}
+
+    public static getInstance(): LedgerService {
+        if (!LedgerService.instance) {
+            LedgerService.instance = new LedgerService();
+        }
+        return LedgerService.instance;
+    }
+
+    /**
+     * Records a balance change as a balanced pair of ledger entries
+     * Must be called with the same manager that updates UserBalance so both are committed together
+     * @param manager - The transaction entity manager
+     * @param user - The user whose balance changed
+     * @param currency - The currency of the balance
+     * @param amountChange - The signed change (positive for credit, negative for debit)
+     * @param balanceAfter - The user's balance after the change
+     * @param reference - The record that caused the change
+     */
+    public async recordBalanceChange(
+        manager: EntityManager,
+        user: User,
+        currency: InternalCurrency,
+        amountChange: Money,
+        balanceAfter: Money,
+        reference: LedgerReference
+    ): Promise<void> {
+        if (amountChange.isZero()) {
+            return;
+        }
+
+        const transactionId = randomUUID();
+        const amount = amountChange.abs();
+        const userDirection = amountChange.isPositive() ? 'credit' : 'debit';
+        const counterDirection = amountChange.isPositive() ? 'debit' : 'credit';
+
+        const userEntry = BalanceLedgerEntry.create({
+            transactionId,
+            account: 'user_balance',
+            user,
+            coin: currency,
+            direction: userDirection,
+            amount,
+            balanceAfter,
+            referenceType: reference.type,
+            referenceId: reference.id,
+            description: reference.description
+        });
+
+        const counterEntry = BalanceLedgerEntry.create({
+            transactionId,
+            account: COUNTER_ACCOUNTS[reference.type],
+            user: null,
+            coin: currency,
+            direction: counterDirection,
+            amount,
+            referenceType: reference.type,
+            referenceId: reference.id,
+            description: reference.description
+        });
+
+        await manager.getRepository(BalanceLedgerEntry).save([userEntry, counterEntry]);
+
+        logger.info('[LedgerService] Recorded balance change:', {
+            transactionId,
+            userId: user.id,
+            currency,
+            amountChange,
+            balanceAfter,
+            reference
+        });
+    }
+
+    /**
+     * Records an opening entry for a balance that existed before the ledger was introduced
+     * Does nothing if the user already has ledger entries for this currency
+     * @param manager - The transaction entity manager
+     * @param user - The balance owner
+     * @param currency - The currency of the balance
+     * @param currentAmount - The balance amount before any new change is applied
+     */
+    public async ensureOpeningEntry(
+        manager: EntityManager,
+        user: User,
+        currency: InternalCurrency,
+        currentAmount: Money
+    ): Promise<void> {
+        if (currentAmount.isZero()) {
+            return;
+        }
+
+        const existingEntries = await manager.getRepository(BalanceLedgerEntry).count({
+            where: { userId: user.id, coin: currency, account: 'user_balance' }
+        });
+
+        if (existingEntries > 0) {
+            return;
+        }
+
+        await this.recordBalanceChange(manager, user, currency, currentAmount, currentAmount, {
+            type: 'opening',
+            description: 'Balance carried over from before ledger tracking'
+        });
+    }
+
+    /**
+     * Gets ledger entries of a user's balance account, newest first
+     * @param user - The user instance
+     * @param currency - Optional currency filter
+     * @param limit - Maximum number of entries to return
+     * @returns Array of ledger entries
+     */
+    public async getUserEntries(user: User, currency?: InternalCurrency, limit: number = 50): Promise<BalanceLedgerEntry[]> {
+        const ledgerRepo = AppDataSource.getRepository(BalanceLedgerEntry);
+        return await ledgerRepo.find({
+            where: {
+                userId: user.id,
+                account: 'user_balance',
+                ...(currency ? { coin: currency } : {})
+            },
+            order: { id: 'DESC' },
+            take: limit
+        });
+    }
+
+    /**
+     * Gets all ledger entries linked to a specific record (e.g. a transfer and its refund)
+     * @param referenceType - The kind of record
+     * @param referenceId - The local record ID
+     * @returns Array of ledger entries in chronological order
+     */
+    public async getEntriesForReference(referenceType: LedgerReferenceType, referenceId: number): Promise<BalanceLedgerEntry[]> {
+        const ledgerRepo = AppDataSource.getRepository(BalanceLedgerEntry);
+        return await ledgerRepo.find({
+            where: { referenceType, referenceId },
+            order: { id: 'ASC' }
+        });
+    }
+
+    /**
+     * Derives a user's balance from the ledger
+     * @param user - The user instance
+     * @param currency - The currency to sum
+     * @returns The balance according to the ledger
+     */
+    public async getLedgerBalance(user: User, currency: InternalCurrency): Promise<Money> {
+        const result = await AppDataSource.getRepository(BalanceLedgerEntry)
+            .createQueryBuilder("entry")
+            .select("SUM(CASE WHEN entry.direction = 'credit' THEN entry.amount ELSE -entry.amount END)", "total")
+            .where("entry.user_id = :userId", { userId: user.id })
+            .andWhere("entry.coin = :currency", { currency })
+            .andWhere("entry.account = :account", { account: 'user_balance' })
+            .getRawOne<{ total: string | number | null }>();
+
+        return result?.total !== null && result?.total !== undefined
+            ? Money.round(result.total, currency)
+            : Money.zero(currency);
+    }
+
+    /**
+     * Checks a user's stored balances against the ledger
+     * @param user - The user instance
+     * @returns Verification result for every currency the user holds
+     */
+    public async verifyUserBalances(user: User): Promise<BalanceVerification[]> {
+        const balances = await AppDataSource.getRepository(UserBalance).find({
+            where: { user: { id: user.id } },
+            order: { coin: 'ASC' }
+        });
+
+        const results: BalanceVerification[] = [];
+        for (const balance of balances) {
+            const currency = balance.coin as InternalCurrency;
+            const storedAmount = balance.amount;
+            const ledgerBalance = await this.getLedgerBalance(user, currency);
+            const difference = storedAmount.minus(ledgerBalance);
+            const isConsistent = difference.isZero();
+
+            if (!isConsistent) {
+                logger.warn('[LedgerService] Balance does not match ledger:', {
+                    userId: user.id,
+                    currency,
+                    balance: storedAmount,
+                    ledgerBalance,
+                    difference
+                });
+            }
+
+            results.push({ currency, balance: storedAmount, ledgerBalance, difference, isConsistent });
+        }
+
+        return results;
+    }
+}
@@ -0,0 +1,270 @@
+import { EntityManager, MoreThanOrEqual, Not } from "typeorm";
+import { AppDataSource } from "../config/database";
+import { AmountLimits, LIMIT_WINDOWS_MS, LIMITS_CONFIG, LimitKind, LimitOperation, LimitOverrideValue, OverriddenLimits, UNLIMITED } from "../config/limits";
+import { User } from "../entities/user";
+import { UserInvoice } from "../entities/user-invoice";
+import { UserTransfer } from "../entities/user-transfer";
+import { UserCheque } from "../entities/user-cheque";
+import { UserWithdrawal } from "../entities/user-withdrawal";
+import { UserLimitOverride } from "../entities/user-limit-override";
+import { InternalCurrency } from "../types/currency";
+import { Money } from "../types/money";
+import logger from "../utils/logger";
+
+/**
+ * Describes the limit an amount ran into
+ * For the daily and monthly caps, remaining is how much the user can still use in the window
+ */
+export type LimitViolation =
+    | { kind: 'min' | 'max'; limit: Money }
+    | { kind: 'daily' | 'monthly'; limit: Money; remaining: Money };
+
+/**
+ * Resolves one limit of a user override: UNLIMITED lifts the configured limit, null keeps it
+ */
+function applyOverride(overridden: LimitOverrideValue, configured: Money | null): Money | null {
+    if (overridden === UNLIMITED) {
+        return null;
+    }
+    return overridden ?? configured;
+}
+
+/**
+ * Raised when an operation about to be debited runs into one of the user's limits
+ */
+export class LimitExceededError extends Error {
+    constructor(public readonly operation: LimitOperation, public readonly violation: LimitViolation) {
+        super(`${operation} amount exceeds the ${violation.kind} limit of ${violation.limit}`);
+        this.name = 'LimitExceededError';
+    }
+}
+
+/**
+ * Service for enforcing per-currency amount limits of deposits, transfers, multicheques and withdrawals
+ */
+export class LimitService {
+    private static instance: LimitService;
+
+    private constructor() {}
+
+    public static getInstance(): LimitService {
+        if (!LimitService.instance) {
+            LimitService.instance = new LimitService();
+        }
+        return LimitService.instance;
+    }
+
+    /**
+     * Gets the limits that apply to a user, with their overrides taking precedence over the configured limits
+     * @param user - The user instance
+     * @param operation - The limited operation
+     * @param currency - The currency of the operation
+     * @param manager - The entity manager to read with, the one of a running transaction to read within it
+     * @returns The effective limits
+     */
+    public async getLimits(
+        user: User,
+        operation: LimitOperation,
+        currency: InternalCurrency,
+        manager: EntityManager = AppDataSource.manager
+    ): Promise<AmountLimits> {
+        const configured = LIMITS_CONFIG[operation][currency];
+        const override = await manager.getRepository(UserLimitOverride).findOne({
+            where: { userId: user.id, operation, coin: currency }
+        });
+
+        if (!override) {
+            return configured;
+        }
+
+        const overridden = override.getLimits();
+        return {
+            min: applyOverride(overridden.min, configured.min),
+            max: applyOverride(overridden.max, configured.max),
+            daily: applyOverride(overridden.daily, configured.daily),
+            monthly: applyOverride(overridden.monthly, configured.monthly),
+        };
+    }
+
+    /**
+     * Checks an amount against the user's limits
+     * @param user - The user instance
+     * @param operation - The limited operation
+     * @param amount - The amount of the new operation
+     * @param manager - The entity manager to read with, the one of a running transaction to read within it
+     * @returns The first limit the amount runs into, or null if it is within all limits
+     */
+    public async checkAmount(
+        user: User,
+        operation: LimitOperation,
+        amount: Money,
+        manager: EntityManager = AppDataSource.manager
+    ): Promise<LimitViolation | null> {
+        const limits = await this.getLimits(user, operation, amount.currency, manager);
+
+        if (limits.min && amount.isLessThan(limits.min)) {
+            return { kind: 'min', limit: limits.min };
+        }
+        if (limits.max && amount.isGreaterThan(limits.max)) {
+            return { kind: 'max', limit: limits.max };
+        }
+
+        for (const kind of ['daily', 'monthly'] as const) {
+            const limit = limits[kind];
+            if (!limit) {
+                continue;
+            }
+
+            const since = new Date(Date.now() - LIMIT_WINDOWS_MS[kind]);
+            const used = await this.getUsage(user, operation, amount.currency, since, manager);
+            if (used.plus(amount).isGreaterThan(limit)) {
+                const remaining = limit.minus(used);
+                logger.info('[LimitService] Amount exceeds rolling limit:', { userId: user.id, operation, kind, limit, used, amount });
+                return { kind, limit, remaining: remaining.isNegative() ? Money.zero(amount.currency) : remaining };
+            }
+        }
+
+        return null;
+    }
+
+    /**
+     * Sums the amounts of a user's operations since a point in time
+     * Failed transfers and withdrawals don't count, paid and expired invoices and refunded cheques count with their used part only
+     * @param user - The user instance
+     * @param operation - The limited operation
+     * @param currency - The currency to sum
+     * @param since - Start of the window
+     * @param manager - The entity manager to read with, the one of a running transaction to read within it
+     * @returns The total amount
+     */
+    public async getUsage(
+        user: User,
+        operation: LimitOperation,
+        currency: InternalCurrency,
+        since: Date,
+        manager: EntityManager = AppDataSource.manager
+    ): Promise<Money> {
+        const createdAt = MoreThanOrEqual(since);
+
+        switch (operation) {
+            case 'deposit': {
+                const invoices = await manager.getRepository(UserInvoice).find({
+                    where: { user: { id: user.id }, currency, createdAt }
+                });
+                return Money.sum(invoices.map(invoice => invoice.status === 'active'
+                    ? invoice.getTotalAmount()
+                    : invoice.amount.multipliedBy(invoice.paymentsCount)
+                ), currency);
+            }
+            case 'transfer': {
+                const transfers = await manager.getRepository(UserTransfer).find({
+                    where: { sender: { id: user.id }, currency, status: Not('failed'), createdAt }
+                });
+                return Money.sum(transfers.map(transfer => transfer.amount), currency);
+            }
+            case 'multicheque': {
+                const cheques = await manager.getRepository(UserCheque).find({
+                    where: { userId: user.id, currency, createdAt }
+                });
+                // A refund returns everything but the claimed part, which is nothing for cheques xRocket Pay never created
+                return Money.sum(cheques.map(cheque => cheque.refundedAt
+                    ? cheque.amount.multipliedBy(cheque.activations)
+                    : cheque.getTotalAmount()
+                ), currency);
+            }
+            case 'withdrawal': {
+                const withdrawals = await manager.getRepository(UserWithdrawal).find({
+                    where: { userId: user.id, currency, status: Not('FAIL'), createdAt }
+                });
+                return Money.sum(withdrawals.map(withdrawal => withdrawal.amount), currency);
+            }
+        }
+    }
+
+    /**
+     * Gets all limit overrides of a user
+     * @param user - The user instance
+     * @returns Array of overrides
+     */
+    public async getOverrides(user: User): Promise<UserLimitOverride[]> {
+        return await AppDataSource.getRepository(UserLimitOverride).find({
+            where: { userId: user.id },
+            order: { operation: 'ASC', coin: 'ASC' }
+        });
+    }
+
+    /**
+     * Overrides the configured limits of one operation and currency for a user
+     * @param user - The user instance
+     * @param operation - The limited operation
+     * @param currency - The currency of the limits
+     * @param limits - The limits to apply, UNLIMITED lifts a limit, limits left out fall back to the configured ones
+     * @returns The saved override
+     */
+    public async setOverride(
+        user: User,
+        operation: LimitOperation,
+        currency: InternalCurrency,
+        limits: Partial<OverriddenLimits>
+    ): Promise<UserLimitOverride> {
+        const overrideRepo = AppDataSource.getRepository(UserLimitOverride);
+        let override = await overrideRepo.findOne({ where: { userId: user.id, operation, coin: currency } });
+
+        if (override) {
+            override.setLimits(limits);
+        } else {
+            override = UserLimitOverride.create(user, operation, currency, limits);
+        }
+
+        const savedOverride = await overrideRepo.save(override);
+        logger.info('[LimitService] Set limit override:', { userId: user.id, operation, currency, limits });
+        return savedOverride;
+    }
+
+    /**
+     * Changes one limit of a user's override, keeping the other overridden limits
+     * The override is removed once none of its limits are set
+     * @param user - The user instance
+     * @param operation - The limited operation
+     * @param currency - The currency of the limit
+     * @param kind - The limit to change
+     * @param limit - The new limit, UNLIMITED to lift it, or null to fall back to the configured one
+     * @returns The saved override, or null if it was removed
+     */
+    public async setOverrideLimit(
+        user: User,
+        operation: LimitOperation,
+        currency: InternalCurrency,
+        kind: LimitKind,
+        limit: LimitOverrideValue
+    ): Promise<UserLimitOverride | null> {
+        const existing = await AppDataSource.getRepository(UserLimitOverride).findOne({
+            where: { userId: user.id, operation, coin: currency }
+        });
+        const limits: OverriddenLimits = { ...(existing ? existing.getLimits() : { min: null, max: null, daily: null, monthly: null }), [kind]: limit };
+
+        if (Object.values(limits).every(value => value === null)) {
+            await this.removeOverride(user, operation, currency);
+            return null;
+        }
+
+        return await this.setOverride(user, operation, currency, limits);
+    }
+
+    /**
+     * Removes a user's override so the configured limits apply again
+     * @param user - The user instance
+     * @param operation - The limited operation
+     * @param currency - The currency of the limits
+     * @returns True if an override was removed
+     */
+    public async removeOverride(user: User, operation: LimitOperation, currency: InternalCurrency): Promise<boolean> {
+        const result = await AppDataSource.getRepository(UserLimitOverride).delete({ userId: user.id, operation, coin: currency });
+        const removed = (result.affected ?? 0) > 0;
+
+        if (removed) {
+            logger.info('[LimitService] Removed limit override:', { userId: user.id, operation, currency });
+        }
+        return removed;
+    }
+}
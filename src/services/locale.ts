@@ -1,6 +1,8 @@
 import { BotContext } from "../types/bot";
 import { User, SupportedLanguage } from "../entities/user";
 import { UserService } from "./user";
+import { Money } from "../types/money";
+import { formatCurrency } from "../bot/utils/formatters";
 import logger from "../utils/logger";
 
 /**
@@ -103,19 +105,17 @@ export class LocaleService {
      * Formats a currency amount with proper localization
      * @param ctx - The bot context
      * @param amount - The amount to format
-     * @param currency - The currency code
      * @returns The formatted currency string
      */
     public async formatCurrency(
         ctx: BotContext, 
-        amount: number, 
-        currency: string
+        amount: Money
     ): Promise<string> {
         const language = await this.getUserLanguage(ctx);
         
         // For now, use simple formatting. In the future, we can add proper currency formatting
         // based on the user's locale preferences
-        return amount.toFixed(2);
+        return formatCurrency(amount);
     }
 
     /**
@@ -0,0 +1,168 @@
+import { AppDataSource } from "../config/database";
+import { UserBalance } from "../entities/user-balance";
+import { Counter, Gauge, Histogram, Registry } from "prom-client";
+import { ErrorHandler, ErrorType } from "../bot/utils/error-handler";
+
+const PREFIX = 'xrocket_pay_bot_';
+
+/**
+ * Invoice lifecycle events counted per currency
+ */
+export type InvoiceEvent = 'created' | 'paid' | 'expired';
+
+/**
+ * Money operations whose outcomes are counted
+ */
+export type MoneyOperation = 'transfer' | 'withdrawal' | 'cheque';
+
+/**
+ * Outcome of a money operation:
+ * - created: accepted by xRocket Pay, final state still to come (withdrawals, cheques)
+ * - completed: reached its final successful state
+ * - failed: rejected by xRocket Pay and refunded
+ * - unknown: the xRocket Pay call failed ambiguously and was left for the reconciler
+ * - cancelled: cancelled by the user, the unclaimed rest was refunded (cheques)
+ * - paid_after_refund: xRocket Pay accepted the operation after it had already been refunded (withdrawals)
+ */
+export type OperationOutcome = 'created' | 'completed' | 'failed' | 'unknown' | 'cancelled' | 'paid_after_refund';
+
+/**
+ * Where a webhook came from, for verification failures
+ */
+export type WebhookSource = 'xrocket' | 'telegram';
+
+/**
+ * Upper bounds of the xRocket Pay request duration buckets, in seconds
+ */
+const XROCKET_API_DURATION_BUCKETS = [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30];
+
+/**
+ * Business and technical metrics exposed to Prometheus
+ */
+export class MetricsService {
+    private static instance: MetricsService;
+    private errorHandler: ErrorHandler;
+    // A registry of its own, so metrics of other libraries using prom-client's global registry aren't exposed
+    private readonly registry = new Registry();
+
+    private readonly invoices = new Counter({
+        name: `${PREFIX}invoices_total`,
+        help: 'Invoices created, fully paid and expired',
+        labelNames: ['currency', 'event'] as const,
+        registers: [this.registry]
+    });
+
+    private readonly operations = new Counter({
+        name: `${PREFIX}operations_total`,
+        help: 'Transfers, withdrawals and cheques by outcome',
+        labelNames: ['operation', 'currency', 'outcome'] as const,
+        registers: [this.registry]
+    });
+
+    private readonly xrocketApiDuration = new Histogram({
+        name: `${PREFIX}xrocket_api_request_duration_seconds`,
+        help: 'Duration of xRocket Pay API requests by method and outcome',
+        labelNames: ['method', 'outcome'] as const,
+        buckets: XROCKET_API_DURATION_BUCKETS,
+        registers: [this.registry]
+    });
+
+    private readonly webhookVerificationFailures = new Counter({
+        name: `${PREFIX}webhook_verification_failures_total`,
+        help: 'Webhook requests rejected because their signature, secret or timestamp did not verify',
+        labelNames: ['source', 'reason'] as const,
+        registers: [this.registry]
+    });
+
+    private readonly telegramApiErrors = new Counter({
+        name: `${PREFIX}telegram_api_errors_total`,
+        help: 'Failed Telegram Bot API calls by method and error code',
+        labelNames: ['method', 'error_code'] as const,
+        registers: [this.registry]
+    });
+
+    private readonly liabilities = new Gauge({
+        name: `${PREFIX}liabilities`,
+        help: 'Total of all user balances per currency, what the bot owes its users',
+        labelNames: ['currency'] as const,
+        registers: [this.registry],
+        collect: () => this.collectLiabilities()
+    });
+
+    private constructor() {
+        this.errorHandler = ErrorHandler.getInstance();
+    }
+
+    public static getInstance(): MetricsService {
+        if (!MetricsService.instance) {
+            MetricsService.instance = new MetricsService();
+        }
+        return MetricsService.instance;
+    }
+
+    public recordInvoice(event: InvoiceEvent, currency: string, count = 1): void {
+        if (count > 0) {
+            this.invoices.inc({ currency, event }, count);
+        }
+    }
+
+    public recordOperation(operation: MoneyOperation, outcome: OperationOutcome, currency: string): void {
+        this.operations.inc({ operation, currency, outcome });
+    }
+
+    /**
+     * Records an xRocket Pay request
+     * @param method - The API client method
+     * @param durationMs - How long the request took
+     * @param failed - Whether the request threw or reported no success
+     */
+    public recordXRocketRequest(method: string, durationMs: number, failed: boolean): void {
+        this.xrocketApiDuration.observe({ method, outcome: failed ? 'error' : 'success' }, durationMs / 1000);
+    }
+
+    public recordWebhookVerificationFailure(source: WebhookSource, reason: string): void {
+        this.webhookVerificationFailures.inc({ source, reason });
+    }
+
+    /**
+     * Records a failed Telegram Bot API call
+     * @param errorCode - The error code Telegram returned, or network if no response arrived
+     */
+    public recordTelegramApiError(method: string, errorCode: number | 'network'): void {
+        this.telegramApiErrors.inc({ method, error_code: String(errorCode) });
+    }
+
+    public getContentType(): string {
+        return this.registry.contentType;
+    }
+
+    /**
+     * Renders all metrics for a Prometheus scrape
+     */
+    public async render(): Promise<string> {
+        return await this.registry.metrics();
+    }
+
+    /**
+     * Sums the balances of all users per currency on every scrape. A failed query leaves the gauge empty
+     * for this scrape instead of failing the whole scrape
+     */
+    private async collectLiabilities(): Promise<void> {
+        this.liabilities.reset();
+        try {
+            const totals: Array<{ currency: string; total: string | number | null }> = await AppDataSource.getRepository(UserBalance)
+                .createQueryBuilder('balance')
+                .select('balance.coin', 'currency')
+                .addSelect('SUM(balance.amount)', 'total')
+                .groupBy('balance.coin')
+                .getRawMany();
+
+            totals.forEach(({ currency, total }) => this.liabilities.set({ currency }, Number(total ?? 0)));
+        } catch (error) {
+            this.errorHandler.logError(error, ErrorType.DATABASE_ERROR, {
+                conversation: 'metrics_service',
+                action: 'collect_liabilities'
+            });
+        }
+    }
+}
@@ -0,0 +1,179 @@
+import { Bot, InlineKeyboard } from "grammy";
+import { TranslationVariables } from "@grammyjs/i18n";
+import { BotContext } from "../types/bot";
+import { i18n } from "../config/i18n";
+import { User } from "../entities/user";
+import { UserWithdrawal } from "../entities/user-withdrawal";
+import { UserCheque } from "../entities/user-cheque";
+import { UserInvoice } from "../entities/user-invoice";
+import { InvoicePayment } from "../entities/invoice-payment";
+import { CurrencyConverter, InternalCurrency } from "../types/currency";
+import { formatCurrency } from "../bot/utils/formatters";
+import { createWithdrawalNotificationKeyboard } from "../bot/keyboards/withdrawal";
+import { createChequeNotificationKeyboard } from "../bot/keyboards/cheque";
+import { createInvoiceNotificationKeyboard } from "../bot/keyboards/invoices";
+import { UserService } from "./user";
+import { ErrorHandler, ErrorType } from "../bot/utils/error-handler";
+import logger from "../utils/logger";
+
+/**
+ * Service for sending localized messages to users outside of an update handler
+ */
+export class NotificationService {
+    private static instance: NotificationService;
+    private bot: Bot<BotContext>;
+    private userService: UserService;
+    private errorHandler: ErrorHandler;
+
+    private constructor(bot: Bot<BotContext>) {
+        this.bot = bot;
+        this.userService = UserService.getInstance();
+        this.errorHandler = ErrorHandler.getInstance();
+    }
+
+    /**
+     * Gets the notification service instance
+     * The bot must be passed on first use, later callers may omit it
+     */
+    public static getInstance(bot?: Bot<BotContext>): NotificationService {
+        if (!NotificationService.instance) {
+            if (!bot) {
+                throw new Error('NotificationService is not initialized with a bot instance');
+            }
+            NotificationService.instance = new NotificationService(bot);
+        }
+        return NotificationService.instance;
+    }
+
+    /**
+     * Translates a message into the user's stored language
+     * @param user - The user to translate for
+     * @param key - The Fluent message key
+     * @param variables - Optional message variables
+     * @returns The translated message
+     */
+    public translate(user: User, key: string, variables?: TranslationVariables): string {
+        return i18n.t(this.userService.getUserLanguage(user), key, variables);
+    }
+
+    /**
+     * Sends a message to the user. Delivery failures (e.g. the user blocked the bot) are logged, not thrown.
+     * @param user - The recipient
+     * @param text - The already translated message text
+     * @param keyboard - Optional inline keyboard
+     * @returns True if the message was delivered
+     */
+    public async sendToUser(user: User, text: string, keyboard?: InlineKeyboard): Promise<boolean> {
+        try {
+            await this.bot.api.sendMessage(user.telegramId, text, keyboard ? { reply_markup: keyboard } : {});
+            logger.info('[NotificationService] Notification sent:', { userId: user.id });
+            return true;
+        } catch (error) {
+            this.errorHandler.logError(error, ErrorType.MESSAGE_ERROR, {
+                conversation: 'notification_service',
+                action: 'send_to_user',
+                userId: user.id
+            });
+            return false;
+        }
+    }
+
+    /**
+     * Tells the invoice owner that a payment was credited to their balance,
+     * explaining the difference when the payment wasn't of the requested amount
+     * @param invoice - The invoice with the user relation loaded
+     * @param payment - The credited payment
+     * @returns True if the message was delivered
+     */
+    public async notifyInvoicePaid(invoice: UserInvoice, payment: InvoicePayment): Promise<boolean> {
+        const user = invoice.user;
+        const locale = this.userService.getUserLanguage(user);
+        const currencyConfig = CurrencyConverter.getConfig(invoice.currency as InternalCurrency);
+
+        let message = i18n.t(locale, 'deposit-notification-paid', {
+            amount: formatCurrency(payment.amountReceived),
+            emoji: currencyConfig.emoji,
+            name: currencyConfig.name
+        });
+        if (invoice.numPayments > 1) {
+            message += `\n${i18n.t(locale, 'deposit-notification-payment-num', {
+                paymentNum: payment.paymentNum,
+                total: invoice.numPayments
+            })}`;
+        }
+        if (payment.mismatch) {
+            message += `\n\n${i18n.t(locale, `deposit-payment-${payment.mismatch}`, {
+                paid: formatCurrency(payment.amount),
+                requested: formatCurrency(payment.requestedAmount),
+                received: formatCurrency(payment.amountReceived),
+                emoji: currencyConfig.emoji,
+                name: currencyConfig.name
+            })}`;
+        }
+
+        return await this.sendToUser(user, message, createInvoiceNotificationKeyboard(invoice, locale));
+    }
+
+    /**
+     * Tells the user that their withdrawal reached a final state
+     * @param withdrawal - The withdrawal with the user relation loaded
+     * @returns True if the message was delivered
+     */
+    public async notifyWithdrawalStatus(withdrawal: UserWithdrawal): Promise<boolean> {
+        const user = withdrawal.user;
+        const locale = this.userService.getUserLanguage(user);
+        const currencyConfig = CurrencyConverter.getConfig(withdrawal.currency as InternalCurrency);
+        const variables = {
+            amount: formatCurrency(withdrawal.amount),
+            emoji: currencyConfig.emoji,
+            name: currencyConfig.name,
+            network: withdrawal.network,
+            address: withdrawal.address
+        };
+
+        let message: string;
+        if (withdrawal.status === 'COMPLETED') {
+            message = i18n.t(locale, 'withdrawals-notification-completed', variables);
+            if (withdrawal.txHash) {
+                message += `\n${i18n.t(locale, 'withdrawals-tx-hash')} ${withdrawal.txHash}`;
+            }
+        } else if (withdrawal.status === 'FAIL') {
+            message = i18n.t(locale, 'withdrawals-notification-failed', variables);
+            if (withdrawal.error) {
+                message += `\n${i18n.t(locale, 'withdrawals-error')} ${withdrawal.error}`;
+            }
+            if (withdrawal.refundedAt) {
+                message += `\n\n${i18n.t(locale, 'withdrawals-notification-refunded', variables)}`;
+            }
+        } else {
+            return false;
+        }
+
+        return await this.sendToUser(user, message, createWithdrawalNotificationKeyboard(withdrawal, locale));
+    }
+
+    /**
+     * Tells the creator that their cheque was claimed
+     * @param cheque - The cheque with the user relation loaded
+     * @returns True if the message was delivered
+     */
+    public async notifyChequeActivated(cheque: UserCheque): Promise<boolean> {
+        const user = cheque.user;
+        const locale = this.userService.getUserLanguage(user);
+        const currencyConfig = CurrencyConverter.getConfig(cheque.currency as InternalCurrency);
+        const key = cheque.activations >= cheque.usersNumber
+            ? 'cheques-notification-completed'
+            : 'cheques-notification-activated';
+
+        const message = i18n.t(locale, key, {
+            amount: formatCurrency(cheque.amount),
+            emoji: currencyConfig.emoji,
+            name: currencyConfig.name,
+            activations: cheque.activations,
+            users: cheque.usersNumber,
+            chequeId: cheque.id
+        });
+
+        return await this.sendToUser(user, message, createChequeNotificationKeyboard(cheque, locale));
+    }
+}
@@ -0,0 +1,306 @@
+import { IsNull, LessThan, MoreThan, Not } from "typeorm";
+import { AppDataSource } from "../config/database";
+import { RECONCILER_CONFIG } from "../config/reconciler";
+import { UserInvoice } from "../entities/user-invoice";
+import { UserTransfer } from "../entities/user-transfer";
+import { UserCheque } from "../entities/user-cheque";
+import { TransactionService } from "./transaction";
+import { AuditActor } from "./audit";
+import { XRocketPayService } from "./xrocket-pay";
+import { NotificationService } from "./notification";
+import { ChequeService } from "./cheque";
+import { MetricsService } from "./metrics";
+import { ErrorHandler, ErrorType } from "../bot/utils/error-handler";
+import { BatchCursor } from "../utils/batch-cursor";
+import logger from "../utils/logger";
+
+/**
+ * Number of records driven to each outcome during a reconciliation run
+ */
+export interface ReconciliationSummary {
+    transfersCompleted: number;
+    transfersRefunded: number;
+    invoicesPaid: number;
+    invoicesExpired: number;
+    chequesNeedingReview: number;
+    chequesCancelled: number;
+    errors: number;
+}
+
+/**
+ * Audit log actor for balance changes made by the reconciler
+ */
+const RECONCILER_ACTOR: AuditActor = { type: 'scheduler', id: 'reconciler' };
+
+/**
+ * Background job that drives stale transfers and invoices to a final state.
+ * Records get stuck when the xRocket Pay outcome is unknown (timeouts, 5xx, crashes) or a webhook is lost.
+ * Pending withdrawals are tracked by WithdrawalStatusService.
+ */
+export class ReconcilerService {
+    private static instance: ReconcilerService;
+    private transactionService: TransactionService;
+    private xrocketPayService: XRocketPayService;
+    private errorHandler: ErrorHandler;
+    private metricsService: MetricsService;
+    private timer: NodeJS.Timeout | null = null;
+    private isRunning = false;
+    // Invoices without expiry can stay active indefinitely, so each run continues where the previous one stopped
+    private readonly activeInvoices = new BatchCursor(RECONCILER_CONFIG.BATCH_SIZE);
+    // Transfers whose retries keep failing ambiguously stay pending, so they are rotated the same way
+    private readonly pendingTransfers = new BatchCursor(RECONCILER_CONFIG.BATCH_SIZE);
+    private readonly cancellingCheques = new BatchCursor(RECONCILER_CONFIG.BATCH_SIZE);
+
+    private constructor() {
+        this.transactionService = TransactionService.getInstance();
+        this.xrocketPayService = XRocketPayService.getInstance();
+        this.errorHandler = ErrorHandler.getInstance();
+        this.metricsService = MetricsService.getInstance();
+    }
+
+    public static getInstance(): ReconcilerService {
+        if (!ReconcilerService.instance) {
+            ReconcilerService.instance = new ReconcilerService();
+        }
+        return ReconcilerService.instance;
+    }
+
+    /**
+     * Starts periodic reconciliation
+     */
+    public start(): void {
+        if (!RECONCILER_CONFIG.ENABLED) {
+            logger.info('[ReconcilerService] Reconciler disabled by configuration');
+            return;
+        }
+
+        if (this.timer) {
+            return;
+        }
+
+        logger.info('[ReconcilerService] Starting reconciler:', {
+            intervalMs: RECONCILER_CONFIG.INTERVAL_MS,
+            staleAfterMs: RECONCILER_CONFIG.STALE_AFTER_MS
+        });
+
+        this.timer = setInterval(() => {
+            this.runOnce().catch(error => {
+                this.errorHandler.logError(error, ErrorType.UNKNOWN_ERROR, {
+                    conversation: 'reconciler_service',
+                    action: 'scheduled_run'
+                });
+            });
+        }, RECONCILER_CONFIG.INTERVAL_MS);
+    }
+
+    /**
+     * Stops periodic reconciliation. A run already in progress finishes on its own.
+     */
+    public stop(): void {
+        if (this.timer) {
+            clearInterval(this.timer);
+            this.timer = null;
+            logger.info('[ReconcilerService] Reconciler stopped');
+        }
+    }
+
+    /**
+     * Runs a single reconciliation pass over all stale records
+     * @returns Summary of what was changed, or null if a pass is already running
+     */
+    public async runOnce(): Promise<ReconciliationSummary | null> {
+        if (this.isRunning) {
+            logger.info('[ReconcilerService] Previous run still in progress, skipping');
+            return null;
+        }
+
+        this.isRunning = true;
+        const summary: ReconciliationSummary = {
+            transfersCompleted: 0,
+            transfersRefunded: 0,
+            invoicesPaid: 0,
+            invoicesExpired: 0,
+            chequesNeedingReview: 0,
+            chequesCancelled: 0,
+            errors: 0
+        };
+
+        try {
+            const cutoff = new Date(Date.now() - RECONCILER_CONFIG.STALE_AFTER_MS);
+            await this.reconcileTransfers(cutoff, summary);
+            await this.reconcileInvoices(cutoff, summary);
+            await this.finishChequeCancellations(cutoff, summary);
+            await this.reportInterruptedCheques(summary);
+
+            logger.info('[ReconcilerService] Reconciliation run finished:', summary);
+            return summary;
+        } finally {
+            this.isRunning = false;
+        }
+    }
+
+    /**
+     * Retries pending transfers with their original transferId.
+     * xRocket Pay deduplicates transfers by transferId, so a retry of a transfer that already went
+     * through returns the existing transfer instead of paying twice.
+     * Transfers interrupted by a shutdown are retried without waiting for them to become stale.
+     */
+    private async reconcileTransfers(cutoff: Date, summary: ReconciliationSummary): Promise<void> {
+        const transferRepo = AppDataSource.getRepository(UserTransfer);
+        const transfers = await this.pendingTransfers.next((afterId, take) => transferRepo.find({
+            where: [
+                { status: 'pending', createdAt: LessThan(cutoff), id: MoreThan(afterId) },
+                { status: 'pending', interruptedAt: Not(IsNull()), id: MoreThan(afterId) }
+            ],
+            relations: ['sender'],
+            order: { id: 'ASC' },
+            take
+        }));
+
+        for (const transfer of transfers) {
+            try {
+                // The API call succeeded earlier but the status update was lost
+                if (transfer.transferId) {
+                    await transferRepo.update(transfer.id, { status: 'completed' });
+                    this.metricsService.recordOperation('transfer', 'completed', transfer.currency);
+                    summary.transfersCompleted++;
+                    continue;
+                }
+
+                logger.info('[ReconcilerService] Retrying pending transfer:', transfer.id);
+                try {
+                    const result = await this.xrocketPayService.createTransfer(transfer);
+                    await transferRepo.update(transfer.id, { transferId: result.transferId, status: 'completed' });
+                    this.metricsService.recordOperation('transfer', 'completed', transfer.currency);
+                    summary.transfersCompleted++;
+                } catch (apiError) {
+                    if (!this.errorHandler.isDefinitiveApiFailure(apiError)) {
+                        throw apiError;
+                    }
+                    const refunded = await this.transactionService.refundTransfer(
+                        transfer.id,
+                        this.errorHandler.formatApiErrorMessage(apiError),
+                        RECONCILER_ACTOR
+                    );
+                    if (refunded) {
+                        summary.transfersRefunded++;
+                    }
+                }
+            } catch (error) {
+                summary.errors++;
+                this.errorHandler.logError(error, ErrorType.API_ERROR, {
+                    conversation: 'reconciler_service',
+                    action: 'reconcile_transfer',
+                    data: { transferId: transfer.id }
+                });
+            }
+        }
+    }
+
+    /**
+     * Queries xRocket Pay for invoices still active locally, crediting paid ones and expiring the rest
+     */
+    private async reconcileInvoices(cutoff: Date, summary: ReconciliationSummary): Promise<void> {
+        const invoiceRepo = AppDataSource.getRepository(UserInvoice);
+
+        // Invoices whose creation never reached xRocket Pay can't be paid
+        const orphanCutoff = new Date(Date.now() - RECONCILER_CONFIG.ORPHAN_INVOICE_AFTER_MS);
+        const orphanResult = await invoiceRepo.update(
+            { status: 'active', invoiceId: IsNull(), createdAt: LessThan(orphanCutoff) },
+            { status: 'expired' }
+        );
+        summary.invoicesExpired += orphanResult.affected || 0;
+
+        const invoices = await this.activeInvoices.next((afterId, take) => invoiceRepo.find({
+            where: { status: 'active', invoiceId: Not(IsNull()), createdAt: LessThan(cutoff), id: MoreThan(afterId) },
+            relations: ['user'],
+            order: { id: 'ASC' },
+            take
+        }));
+
+        for (const invoice of invoices) {
+            try {
+                const { status, payments } = await this.xrocketPayService.getInvoicePayments(invoice);
+
+                // Payments already credited by the webhook or a manual check are skipped
+                let creditedPayments = 0;
+                for (const payment of payments) {
+                    const storedPayment = await this.transactionService.processInvoicePayment(invoice, payment, RECONCILER_ACTOR);
+                    if (storedPayment) {
+                        creditedPayments++;
+                        await NotificationService.getInstance().notifyInvoicePaid(invoice, storedPayment);
+                    }
+                }
+
+                if (creditedPayments > 0) {
+                    logger.info('[ReconcilerService] Credited invoice payments received without webhook:', {
+                        invoiceId: invoice.id,
+                        payments: creditedPayments
+                    });
+                    summary.invoicesPaid++;
+                }
+
+                if (status === 'expired') {
+                    await invoiceRepo.update(invoice.id, { status: 'expired' });
+                    this.metricsService.recordInvoice('expired', invoice.currency);
+                    summary.invoicesExpired++;
+                }
+            } catch (error) {
+                summary.errors++;
+                this.errorHandler.logError(error, ErrorType.API_ERROR, {
+                    conversation: 'reconciler_service',
+                    action: 'reconcile_invoice',
+                    data: { invoiceId: invoice.id }
+                });
+            }
+        }
+    }
+
+    /**
+     * Finishes cheque cancellations that stopped between marking the cheque and refunding the remainder,
+     * e.g. because the refund failed after xRocket Pay already deleted the cheque
+     */
+    private async finishChequeCancellations(cutoff: Date, summary: ReconciliationSummary): Promise<void> {
+        const cheques = await this.cancellingCheques.next((afterId, take) => AppDataSource.getRepository(UserCheque).find({
+            where: { status: 'active', refundedAt: IsNull(), cancelRequestedAt: LessThan(cutoff), id: MoreThan(afterId) },
+            order: { id: 'ASC' },
+            take
+        }));
+
+        for (const cheque of cheques) {
+            try {
+                const refundedAmount = await ChequeService.getInstance().finishCancellation(cheque, RECONCILER_ACTOR);
+                if (refundedAmount !== null) {
+                    summary.chequesCancelled++;
+                }
+            } catch (error) {
+                summary.errors++;
+                this.errorHandler.logError(error, ErrorType.API_ERROR, {
+                    conversation: 'reconciler_service',
+                    action: 'finish_cheque_cancellation',
+                    data: { chequeId: cheque.id }
+                });
+            }
+        }
+    }
+
+    /**
+     * Counts cheques whose creation was interrupted by a shutdown before xRocket Pay returned a cheque ID.
+     * xRocket Pay has no way to look up a cheque by our record, so whether it exists has to be checked
+     * in the xRocket Pay app before refunding.
+     */
+    private async reportInterruptedCheques(summary: ReconciliationSummary): Promise<void> {
+        const cheques = await AppDataSource.getRepository(UserCheque).find({
+            where: { status: 'active', chequeId: IsNull(), refundedAt: IsNull(), interruptedAt: Not(IsNull()) },
+            order: { id: 'ASC' },
+            take: RECONCILER_CONFIG.BATCH_SIZE
+        });
+
+        summary.chequesNeedingReview = cheques.length;
+        if (cheques.length > 0) {
+            logger.warn('[ReconcilerService] Cheques interrupted during creation need manual review:', {
+                chequeIds: cheques.map(cheque => cheque.id)
+            });
+        }
+    }
+}
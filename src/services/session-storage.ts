@@ -0,0 +1,80 @@
+import { StorageAdapter } from "grammy";
+import Redis from "ioredis";
+import { LessThan } from "typeorm";
+import { AppDataSource } from "../config/database";
+import { BotSession } from "../entities/bot-session";
+
+/**
+ * Session storage adapter with optional maintenance hooks
+ */
+export interface ExpiringStorage<T> extends StorageAdapter<T> {
+    /**
+     * Deletes sessions past their expiry, for backends that don't expire keys themselves
+     * @returns The number of deleted sessions
+     */
+    deleteExpired?(): Promise<number>;
+
+    /**
+     * Releases the connection held by the storage
+     */
+    close?(): Promise<void>;
+}
+
+/**
+ * Keeps sessions as JSON in the bot_sessions table. Every write extends the expiry by the TTL,
+ * expired sessions read as missing until deleteExpired removes them
+ */
+export class DatabaseSessionStorage<T> implements ExpiringStorage<T> {
+    constructor(private readonly ttlMs: number) {}
+
+    public async read(key: string): Promise<T | undefined> {
+        const session = await AppDataSource.getRepository(BotSession).findOne({ where: { key } });
+        if (!session || session.expiresAt.getTime() <= Date.now()) {
+            return undefined;
+        }
+        return JSON.parse(session.data) as T;
+    }
+
+    public async write(key: string, value: T): Promise<void> {
+        await AppDataSource.getRepository(BotSession).upsert({
+            key,
+            data: JSON.stringify(value),
+            expiresAt: new Date(Date.now() + this.ttlMs)
+        }, ['key']);
+    }
+
+    public async delete(key: string): Promise<void> {
+        await AppDataSource.getRepository(BotSession).delete({ key });
+    }
+
+    public async deleteExpired(): Promise<number> {
+        const result = await AppDataSource.getRepository(BotSession).delete({ expiresAt: LessThan(new Date()) });
+        return result.affected ?? 0;
+    }
+}
+
+/**
+ * Keeps sessions as JSON in a Redis-compatible server, which expires them after the TTL.
+ * Keys are prefixed by the client
+ */
+export class RedisSessionStorage<T> implements ExpiringStorage<T> {
+    constructor(private readonly client: Redis, private readonly ttlMs: number) {}
+
+    public async read(key: string): Promise<T | undefined> {
+        const data = await this.client.get(key);
+        return data !== null ? JSON.parse(data) as T : undefined;
+    }
+
+    public async write(key: string, value: T): Promise<void> {
+        // The value and its expiry are set in one command, so a failed write never leaves a session without TTL
+        await this.client.set(key, JSON.stringify(value), 'PX', this.ttlMs);
+    }
+
+    public async delete(key: string): Promise<void> {
+        await this.client.del(key);
+    }
+
+    public async close(): Promise<void> {
+        await this.client.quit();
+    }
+}
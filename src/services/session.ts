@@ -0,0 +1,141 @@
+import { MemorySessionStorage } from "grammy";
+import { SESSION_CONFIG } from "../config/session";
+import { User } from "../entities/user";
+import { SessionData } from "../types/bot";
+import { DatabaseSessionStorage, ExpiringStorage, RedisSessionStorage } from "./session-storage";
+import { ErrorHandler, ErrorType } from "../bot/utils/error-handler";
+import { createRedisClient } from "../utils/redis-client";
+import logger from "../utils/logger";
+
+/**
+ * Owns the storage behind the grammY session middleware, selected with SESSION_STORAGE,
+ * and lets admins inspect or clear the session of a user
+ */
+export class SessionService {
+    private static instance: SessionService;
+    private storage: ExpiringStorage<SessionData>;
+    private errorHandler: ErrorHandler;
+    private timer: NodeJS.Timeout | null = null;
+
+    private constructor() {
+        this.storage = this.createStorage();
+        this.errorHandler = ErrorHandler.getInstance();
+    }
+
+    public static getInstance(): SessionService {
+        if (!SessionService.instance) {
+            SessionService.instance = new SessionService();
+        }
+        return SessionService.instance;
+    }
+
+    /**
+     * Gets the storage to pass to the session middleware
+     */
+    public getStorage(): ExpiringStorage<SessionData> {
+        return this.storage;
+    }
+
+    /**
+     * Gets the session of a user's private chat with the bot
+     * @param user - The user instance
+     * @returns The session data, or undefined if the user has no session or it expired
+     */
+    public async getUserSession(user: User): Promise<SessionData | undefined> {
+        return await this.storage.read(this.getSessionKey(user));
+    }
+
+    /**
+     * Deletes the session of a user's private chat, e.g. to get them out of a stuck conversation step
+     * @param user - The user instance
+     * @returns True if the user had a session
+     */
+    public async clearUserSession(user: User): Promise<boolean> {
+        const key = this.getSessionKey(user);
+        const session = await this.storage.read(key);
+        await this.storage.delete(key);
+
+        logger.info('[SessionService] Cleared user session:', { userId: user.id, hadSession: session !== undefined });
+        return session !== undefined;
+    }
+
+    /**
+     * Starts periodic deletion of expired sessions for storages that don't expire them on their own
+     */
+    public start(): void {
+        if (!this.storage.deleteExpired || this.timer) {
+            return;
+        }
+
+        logger.info('[SessionService] Starting expired session cleanup:', {
+            intervalMs: SESSION_CONFIG.CLEANUP_INTERVAL_MS
+        });
+
+        this.timer = setInterval(() => {
+            this.deleteExpiredSessions().catch(error => {
+                this.errorHandler.logError(error, ErrorType.SESSION_ERROR, {
+                    conversation: 'session_service',
+                    action: 'scheduled_cleanup'
+                });
+            });
+        }, SESSION_CONFIG.CLEANUP_INTERVAL_MS);
+    }
+
+    /**
+     * Stops the periodic cleanup
+     */
+    public stop(): void {
+        if (this.timer) {
+            clearInterval(this.timer);
+            this.timer = null;
+            logger.info('[SessionService] Expired session cleanup stopped');
+        }
+    }
+
+    /**
+     * Stops the cleanup and closes the storage connection
+     */
+    public async close(): Promise<void> {
+        this.stop();
+        await this.storage.close?.();
+    }
+
+    /**
+     * Deletes expired sessions once
+     * @returns The number of deleted sessions
+     */
+    public async deleteExpiredSessions(): Promise<number> {
+        const deleted = await this.storage.deleteExpired?.() ?? 0;
+        if (deleted > 0) {
+            logger.info('[SessionService] Deleted expired sessions:', { deleted });
+        }
+        return deleted;
+    }
+
+    /**
+     * Session key of a user's private chat, matching grammY's default key (the chat ID)
+     */
+    private getSessionKey(user: User): string {
+        return String(user.telegramId);
+    }
+
+    private createStorage(): ExpiringStorage<SessionData> {
+        logger.info('[SessionService] Using session storage:', {
+            storage: SESSION_CONFIG.STORAGE,
+            ttlMs: SESSION_CONFIG.TTL_MS
+        });
+
+        switch (SESSION_CONFIG.STORAGE) {
+            case 'redis':
+                return new RedisSessionStorage<SessionData>(createRedisClient(SESSION_CONFIG.REDIS_URL, {
+                    keyPrefix: SESSION_CONFIG.REDIS_KEY_PREFIX,
+                    connectTimeoutMs: SESSION_CONFIG.REDIS_CONNECT_TIMEOUT_MS,
+                    commandTimeoutMs: SESSION_CONFIG.REDIS_COMMAND_TIMEOUT_MS
+                }), SESSION_CONFIG.TTL_MS);
+            case 'memory':
+                return new MemorySessionStorage<SessionData>(SESSION_CONFIG.TTL_MS);
+            case 'database':
+                return new DatabaseSessionStorage<SessionData>(SESSION_CONFIG.TTL_MS);
+        }
+    }
+}
@@ -0,0 +1,167 @@
+import { Server } from "http";
+import { AppDataSource } from "../config/database";
+import { SHUTDOWN_CONFIG } from "../config/shutdown";
+import { TransactionService } from "./transaction";
+import { TelegramUpdatesService } from "./telegram-updates";
+import { ReconcilerService } from "./reconciler";
+import { WithdrawalStatusService } from "./withdrawal-status";
+import { ChequeService } from "./cheque";
+import { SessionService } from "./session";
+import { ErrorHandler, ErrorType } from "../bot/utils/error-handler";
+import logger from "../utils/logger";
+
+const SHUTDOWN_SIGNALS: NodeJS.Signals[] = ['SIGTERM', 'SIGINT'];
+
+/**
+ * Stops the application on SIGTERM/SIGINT without cutting money operations short:
+ * 1. stops accepting HTTP requests and Telegram updates
+ * 2. stops the background jobs
+ * 3. waits up to SHUTDOWN_TIMEOUT_MS for running TransactionService operations
+ * 4. flags the records of operations still running for the reconciler
+ * 5. closes the session storage and the database connection
+ * A second signal exits right away.
+ */
+export class ShutdownService {
+    private static instance: ShutdownService;
+    private errorHandler: ErrorHandler;
+    private server: Server | null = null;
+    private shuttingDown = false;
+
+    private constructor() {
+        this.errorHandler = ErrorHandler.getInstance();
+    }
+
+    public static getInstance(): ShutdownService {
+        if (!ShutdownService.instance) {
+            ShutdownService.instance = new ShutdownService();
+        }
+        return ShutdownService.instance;
+    }
+
+    public isShuttingDown(): boolean {
+        return this.shuttingDown;
+    }
+
+    /**
+     * Shuts down on SIGTERM and SIGINT and exits once done
+     * @param server - The HTTP server serving the webhooks
+     */
+    public handleSignals(server: Server): void {
+        this.server = server;
+        SHUTDOWN_SIGNALS.forEach(signal => process.on(signal, () => this.handleSignal(signal)));
+    }
+
+    private handleSignal(signal: NodeJS.Signals): void {
+        if (this.shuttingDown) {
+            logger.warn('[ShutdownService] Received another signal during shutdown, exiting immediately:', { signal });
+            process.exit(1);
+        }
+
+        this.shutdown(signal).then(() => process.exit(0));
+    }
+
+    /**
+     * Runs the shutdown sequence. Failing steps are logged and the remaining steps still run.
+     * @param reason - What triggered the shutdown, for logs
+     */
+    public async shutdown(reason: string): Promise<void> {
+        if (this.shuttingDown) {
+            return;
+        }
+        this.shuttingDown = true;
+
+        const deadline = Date.now() + SHUTDOWN_CONFIG.TIMEOUT_MS;
+        logger.info('[ShutdownService] Shutting down:', { reason, timeoutMs: SHUTDOWN_CONFIG.TIMEOUT_MS });
+
+        // Requests already being handled finish, webhook senders retry the rest against the next instance
+        const serverClosed = this.closeServer();
+
+        await this.runStep('stop_updates', async () => {
+            const stopped = await this.waitUntil(TelegramUpdatesService.getInstance().stop(), deadline);
+            if (!stopped) {
+                logger.warn('[ShutdownService] Updates were still being handled when the shutdown timeout was reached');
+            }
+        });
+
+        await this.runStep('stop_jobs', async () => {
+            ReconcilerService.getInstance().stop();
+            WithdrawalStatusService.getInstance().stop();
+            ChequeService.getInstance().stop();
+            SessionService.getInstance().stop();
+        });
+
+        await this.runStep('drain_operations', async () => {
+            const transactionService = TransactionService.getInstance();
+            transactionService.stopAcceptingOperations();
+
+            if (await transactionService.waitForOperations(Math.max(deadline - Date.now(), 0))) {
+                logger.info('[ShutdownService] All money operations finished');
+                return;
+            }
+
+            const records = await transactionService.markInterruptedOperations();
+            logger.warn('[ShutdownService] Money operations still running, flagged their records for reconciliation:', {
+                records
+            });
+        });
+
+        await this.runStep('close_server', async () => {
+            this.server?.closeAllConnections();
+            await serverClosed;
+        });
+
+        await this.runStep('close_sessions', () => SessionService.getInstance().close());
+
+        await this.runStep('close_database', async () => {
+            if (AppDataSource.isInitialized) {
+                await AppDataSource.destroy();
+            }
+        });
+
+        logger.info('[ShutdownService] Shutdown complete');
+    }
+
+    /**
+     * Stops accepting connections and drops idle keep-alive ones
+     * @returns Resolves once every connection is closed
+     */
+    private closeServer(): Promise<void> {
+        const server = this.server;
+        if (!server) {
+            return Promise.resolve();
+        }
+
+        return new Promise<void>(resolve => {
+            server.close(() => resolve());
+            server.closeIdleConnections();
+        });
+    }
+
+    /**
+     * Waits for a promise until the deadline
+     * @returns True if the promise settled before the deadline
+     */
+    private async waitUntil(promise: Promise<unknown>, deadline: number): Promise<boolean> {
+        let timer: NodeJS.Timeout | undefined;
+        const timeout = new Promise<boolean>(resolve => {
+            timer = setTimeout(() => resolve(false), Math.max(deadline - Date.now(), 0));
+        });
+
+        try {
+            return await Promise.race([promise.then(() => true), timeout]);
+        } finally {
+            clearTimeout(timer);
+        }
+    }
+
+    private async runStep(action: string, step: () => Promise<void>): Promise<void> {
+        try {
+            await step();
+        } catch (error) {
+            this.errorHandler.logError(error, ErrorType.UNKNOWN_ERROR, {
+                conversation: 'shutdown_service',
+                action
+            });
+        }
+    }
+}
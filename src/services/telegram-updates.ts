@@ -0,0 +1,177 @@
+import { Bot, webhookCallback } from "grammy";
+import { Express, NextFunction, Request, Response } from "express";
+import { BotContext } from "../types/bot";
+import { TELEGRAM_CONFIG, TelegramUpdateMode } from "../config/telegram";
+import { ErrorHandler, ErrorType } from "../bot/utils/error-handler";
+import { MetricsService } from "./metrics";
+import logger from "../utils/logger";
+
+const WEBHOOK_SECRET_PATTERN = /^[A-Za-z0-9_-]{1,256}$/;
+
+/**
+ * Starts receiving Telegram updates by long polling or through a webhook served by the Express app.
+ * Both feed the same bot instance, so updates go through the same middleware chain either way.
+ * Outside production, webhook mode falls back to polling when it's not configured or setWebhook fails
+ */
+export class TelegramUpdatesService {
+    private static instance: TelegramUpdatesService;
+    private bot: Bot<BotContext>;
+    private errorHandler: ErrorHandler;
+    private mode: TelegramUpdateMode | null = null;
+    private polling: Promise<void> | null = null;
+
+    private constructor(bot: Bot<BotContext>) {
+        this.bot = bot;
+        this.errorHandler = ErrorHandler.getInstance();
+    }
+
+    /**
+     * Gets the Telegram updates service instance
+     * The bot must be passed on first use, later callers may omit it
+     */
+    public static getInstance(bot?: Bot<BotContext>): TelegramUpdatesService {
+        if (!TelegramUpdatesService.instance) {
+            if (!bot) {
+                throw new Error('TelegramUpdatesService is not initialized with a bot instance');
+            }
+            TelegramUpdatesService.instance = new TelegramUpdatesService(bot);
+        }
+        return TelegramUpdatesService.instance;
+    }
+
+    /**
+     * Gets the mode updates are received in, or null before start
+     */
+    public getMode(): TelegramUpdateMode | null {
+        return this.mode;
+    }
+
+    /**
+     * Starts receiving updates in the configured mode
+     * @param app - The Express app that serves the webhook route in webhook mode
+     * @returns The mode updates are received in
+     * @throws Error if webhook mode can't be set up in production
+     */
+    public async start(app: Express): Promise<TelegramUpdateMode> {
+        if (TELEGRAM_CONFIG.UPDATE_MODE === 'webhook' && await this.startWebhook(app)) {
+            this.mode = 'webhook';
+        } else {
+            await this.startPolling();
+            this.mode = 'polling';
+        }
+        return this.mode;
+    }
+
+    /**
+     * Stops receiving updates. In polling mode this waits for the updates already fetched to be handled,
+     * in webhook mode the HTTP server stops accepting requests and Telegram redelivers the updates later
+     */
+    public async stop(): Promise<void> {
+        if (this.mode === 'polling') {
+            await this.bot.stop();
+            await this.polling;
+            logger.info('[TelegramUpdatesService] Long polling stopped');
+        }
+        this.mode = null;
+    }
+
+    /**
+     * Registers the webhook with Telegram and serves it from the webhook URL's path
+     * @returns False if webhook mode is unavailable and polling should be used instead (development only)
+     */
+    private async startWebhook(app: Express): Promise<boolean> {
+        const isProduction = process.env.NODE_ENV === 'production';
+
+        const configError = this.getWebhookConfigError();
+        if (configError) {
+            if (isProduction) {
+                throw new Error(configError);
+            }
+            logger.warn('[TelegramUpdatesService] Webhook mode is not configured, falling back to long polling:', { reason: configError });
+            return false;
+        }
+
+        try {
+            await this.bot.api.setWebhook(TELEGRAM_CONFIG.WEBHOOK_URL, {
+                secret_token: TELEGRAM_CONFIG.WEBHOOK_SECRET
+            });
+        } catch (error) {
+            if (isProduction) {
+                throw error;
+            }
+            this.errorHandler.logError(error, ErrorType.API_ERROR, {
+                conversation: 'telegram_updates',
+                action: 'set_webhook',
+                data: { fallback: 'polling' }
+            });
+            return false;
+        }
+
+        // Created only once the webhook is set, since it disables bot.start() for the polling fallback
+        const path = new URL(TELEGRAM_CONFIG.WEBHOOK_URL).pathname;
+        app.post(path, (req: Request, _res: Response, next: NextFunction) => {
+            // webhookCallback answers 401 itself, this only counts the rejected requests
+            if (req.header('X-Telegram-Bot-Api-Secret-Token') !== TELEGRAM_CONFIG.WEBHOOK_SECRET) {
+                MetricsService.getInstance().recordWebhookVerificationFailure('telegram', 'invalid_secret');
+            }
+            next();
+        }, webhookCallback(this.bot, 'express', {
+            secretToken: TELEGRAM_CONFIG.WEBHOOK_SECRET,
+            timeoutMilliseconds: TELEGRAM_CONFIG.WEBHOOK_TIMEOUT_MS,
+            onTimeout: () => {
+                logger.warn('[TelegramUpdatesService] Update is taking long, acknowledging it and finishing in the background:', {
+                    timeoutMs: TELEGRAM_CONFIG.WEBHOOK_TIMEOUT_MS
+                });
+            }
+        }));
+
+        logger.info('[TelegramUpdatesService] Receiving updates through webhook:', { path });
+        return true;
+    }
+
+    /**
+     * Starts long polling, which also removes a webhook set by an earlier run
+     * @returns Resolves once polling has started
+     */
+    private async startPolling(): Promise<void> {
+        await new Promise<void>((resolve, reject) => {
+            this.polling = this.bot.start({
+                onStart: () => {
+                    logger.info('[TelegramUpdatesService] Receiving updates through long polling');
+                    resolve();
+                }
+            }).catch(error => {
+                this.errorHandler.logError(error, ErrorType.NETWORK_ERROR, {
+                    conversation: 'telegram_updates',
+                    action: 'polling'
+                });
+                reject(error);
+            });
+        });
+    }
+
+    /**
+     * Checks the webhook settings
+     * @returns A description of the problem, or null if webhook mode can be used
+     */
+    private getWebhookConfigError(): string | null {
+        if (!TELEGRAM_CONFIG.WEBHOOK_URL) {
+            return 'TELEGRAM_WEBHOOK_URL is required when TELEGRAM_UPDATE_MODE is webhook';
+        }
+
+        let url: URL;
+        try {
+            url = new URL(TELEGRAM_CONFIG.WEBHOOK_URL);
+        } catch {
+            return `Invalid TELEGRAM_WEBHOOK_URL "${TELEGRAM_CONFIG.WEBHOOK_URL}"`;
+        }
+        if (url.protocol !== 'https:') {
+            return 'TELEGRAM_WEBHOOK_URL must use HTTPS';
+        }
+
+        if (!WEBHOOK_SECRET_PATTERN.test(TELEGRAM_CONFIG.WEBHOOK_SECRET)) {
+            return 'TELEGRAM_WEBHOOK_SECRET is required in webhook mode and may only contain A-Z, a-z, 0-9, _ and -, up to 256 characters';
+        }
+        return null;
+    }
+}
@@ -1,13 +1,47 @@
+import { IsNull, QueryRunner } from "typeorm";
 import { AppDataSource } from "../config/database";
 import { UserInvoice } from "../entities/user-invoice";
+import { InvoicePayment, InvoicePaymentDetails } from "../entities/invoice-payment";
 import { UserTransfer } from "../entities/user-transfer";
 import { UserWithdrawal } from "../entities/user-withdrawal";
+import { UserCheque, ChequeOptions } from "../entities/user-cheque";
+import { User } from "../entities/user";
 import { UserBalance } from "../entities/user-balance";
 import { UserService } from "./user";
 import { XRocketPayService } from "./xrocket-pay";
+import { LedgerReference, LedgerService } from "./ledger";
+import { AuditActor, AuditService, SYSTEM_ACTOR } from "./audit";
+import { LimitExceededError, LimitService } from "./limit";
 import { InternalCurrency, WithdrawalNetwork } from "../types/currency";
+import { Money } from "../types/money";
 import logger from "../utils/logger";
 import { ErrorHandler, ErrorType } from "../bot/utils/error-handler";
+import { PESSIMISTIC_WRITE_LOCK } from "../config/database-type";
+import { LimitOperation } from "../config/limits";
+import { OperationTracker } from "../utils/operation-tracker";
+import { MetricsService } from "./metrics";
+
+/**
+ * A debited transfer, withdrawal or cheque whose xRocket Pay call is part of a running operation
+ */
+export interface InFlightRecord {
+    type: 'transfer' | 'withdrawal' | 'cheque';
+    id: number;
+}
+
+const operations = new OperationTracker<InFlightRecord>();
+
+/**
+ * Runs the decorated method as a tracked operation, so shutdown can wait for it to finish
+ */
+function trackedOperation(name: string) {
+    return (_target: object, _propertyKey: string, descriptor: PropertyDescriptor): void => {
+        const method = descriptor.value as (...args: unknown[]) => Promise<unknown>;
+        descriptor.value = function (this: TransactionService, ...args: unknown[]) {
+            return operations.run(name, () => method.apply(this, args));
+        };
+    };
+}
 
 /**
  * Transaction Service for handling all database transactions
@@ -17,12 +51,20 @@ export class TransactionService {
     private static instance: TransactionService;
     private userService: UserService;
     private xrocketPayService: XRocketPayService;
+    private ledgerService: LedgerService;
+    private auditService: AuditService;
+    private limitService: LimitService;
     private errorHandler: ErrorHandler;
+    private metricsService: MetricsService;
 
     private constructor() {
         this.userService = UserService.getInstance();
         this.xrocketPayService = XRocketPayService.getInstance();
+        this.ledgerService = LedgerService.getInstance();
+        this.auditService = AuditService.getInstance();
+        this.limitService = LimitService.getInstance();
         this.errorHandler = ErrorHandler.getInstance();
+        this.metricsService = MetricsService.getInstance();
     }
 
     public static getInstance(): TransactionService {
@@ -33,42 +75,82 @@ export class TransactionService {
     }
 
     /**
-     * Processes invoice payment with transaction safety
+     * Rejects money operations started from now on with OperationsClosedError, running ones continue
      */
-    public async processInvoicePayment(invoice: UserInvoice, amountToAdd?: number): Promise<void> {
+    public stopAcceptingOperations(): void {
+        operations.close();
+        logger.info('[TransactionService] No longer accepting new operations:', {
+            running: operations.getOperations().length
+        });
+    }
+
+    /**
+     * Waits for running money operations to finish
+     * @param timeoutMs - How long to wait at most
+     * @returns True if all operations finished in time
+     */
+    public async waitForOperations(timeoutMs: number): Promise<boolean> {
+        return await operations.waitForIdle(timeoutMs);
+    }
+
+    /**
+     * Flags the records of operations that are still running, so the reconciler and withdrawal tracking
+     * pick them up on the next start without waiting for them to become stale
+     * @returns The flagged records
+     */
+    public async markInterruptedOperations(): Promise<InFlightRecord[]> {
+        const running = operations.getOperations();
+        const records = running.flatMap(operation => operation.records);
+        const interruptedAt = new Date();
+
+        for (const record of records) {
+            const entity = record.type === 'transfer' ? UserTransfer : record.type === 'withdrawal' ? UserWithdrawal : UserCheque;
+            await AppDataSource.getRepository(entity).update(record.id, { interruptedAt });
+        }
+
+        running.forEach(operation => {
+            logger.warn('[TransactionService] Operation interrupted by shutdown:', {
+                operation: operation.name,
+                startedAt: operation.startedAt,
+                records: operation.records
+            });
+        });
+        return records;
+    }
+
+    /**
+     * Processes an invoice payment with transaction safety
+     * @param invoice - The invoice the payment was made for
+     * @param payment - The payment reported by xRocket Pay
+     * @param actor - Who reported the payment, for the audit log
+     * @returns The stored payment, or null if it had already been credited
+     */
+    @trackedOperation('process_invoice_payment')
+    public async processInvoicePayment(
+        invoice: UserInvoice,
+        payment: InvoicePaymentDetails,
+        actor: AuditActor = SYSTEM_ACTOR
+    ): Promise<InvoicePayment | null> {
         const queryRunner = AppDataSource.createQueryRunner();
         await queryRunner.connect();
         await queryRunner.startTransaction();
 
         try {
-            logger.info('[TransactionService] Processing invoice payment:', {
-                invoiceId: invoice.id,
-                amount: invoice.amount,
-                currency: invoice.currency,
-                amountToAdd: amountToAdd
-            });
-
-            // Update invoice status
-            const invoiceRepo = queryRunner.manager.getRepository(UserInvoice);
-            await invoiceRepo.update(invoice.id, { status: 'paid' });
-
-            // Update user balance
-            const amount = amountToAdd !== undefined ? amountToAdd : parseFloat(invoice.amount.toString());
-            await this.updateUserBalanceInTransaction(
-                queryRunner,
-                invoice.user,
-                invoice.currency as InternalCurrency,
-                amount
-            );
+            const storedPayment = await this.applyInvoicePayment(queryRunner, invoice, payment, actor);
+            if (!storedPayment) {
+                await queryRunner.rollbackTransaction();
+                return null;
+            }
 
             await queryRunner.commitTransaction();
             logger.info('[TransactionService] Invoice payment processed successfully');
+            return storedPayment;
         } catch (error) {
             await queryRunner.rollbackTransaction();
             this.errorHandler.logError(error, ErrorType.DATABASE_ERROR, {
                 conversation: 'transaction_service',
                 action: 'process_invoice_payment',
-                data: { invoiceId: invoice.id }
+                data: { invoiceId: invoice.id, paymentNum: payment.paymentNum }
             });
             throw error;
         } finally {
@@ -76,10 +158,107 @@ export class TransactionService {
         }
     }
 
+    /**
+     * Stores an invoice payment and credits the user within the caller's transaction
+     * The invoice row is locked so concurrent webhook, manual check and reconciler runs credit each payment only once
+     * The invoice becomes paid once all of its payments have been made
+     * @param queryRunner - Query runner with an open transaction
+     * @param invoice - The invoice the payment was made for, with its user loaded
+     * @param payment - The payment reported by xRocket Pay
+     * @param actor - Who reported the payment, for the audit log
+     * @returns The stored payment, or null if it had already been credited and nothing was changed
+     */
+    @trackedOperation('apply_invoice_payment')
+    public async applyInvoicePayment(
+        queryRunner: QueryRunner,
+        invoice: UserInvoice,
+        payment: InvoicePaymentDetails,
+        actor: AuditActor = SYSTEM_ACTOR
+    ): Promise<InvoicePayment | null> {
+        logger.info('[TransactionService] Processing invoice payment:', {
+            invoiceId: invoice.id,
+            paymentNum: payment.paymentNum,
+            amount: payment.amount,
+            amountReceived: payment.amountReceived,
+            currency: invoice.currency
+        });
+
+        const invoiceRepo = queryRunner.manager.getRepository(UserInvoice);
+        const paymentRepo = queryRunner.manager.getRepository(InvoicePayment);
+        const lockedInvoice = await invoiceRepo.findOne({
+            where: { id: invoice.id },
+            lock: PESSIMISTIC_WRITE_LOCK
+        });
+        if (!lockedInvoice) {
+            throw new Error(`Invoice ${invoice.id} not found`);
+        }
+
+        const existingPayment = await paymentRepo.findOne({
+            where: { userInvoiceId: invoice.id, paymentNum: payment.paymentNum }
+        });
+        if (existingPayment || lockedInvoice.isFullyPaid()) {
+            logger.info('[TransactionService] Invoice payment already credited, skipping:', {
+                invoiceId: invoice.id,
+                paymentNum: payment.paymentNum
+            });
+            return null;
+        }
+
+        const storedPayment = await paymentRepo.save(InvoicePayment.create(lockedInvoice, payment));
+        if (storedPayment.mismatch) {
+            logger.warn('[TransactionService] Invoice payment differs from the requested amount, flagged for review:', {
+                invoiceId: invoice.id,
+                paymentNum: payment.paymentNum,
+                mismatch: storedPayment.mismatch,
+                requestedAmount: storedPayment.requestedAmount,
+                amount: payment.amount,
+                amountReceived: payment.amountReceived
+            });
+        }
+
+        const currency = invoice.currency as InternalCurrency;
+        const paymentsCount = lockedInvoice.paymentsCount + 1;
+        const totalPaid = (lockedInvoice.paymentAmountPaid ?? Money.zero(currency)).plus(payment.amount);
+        const totalReceived = (lockedInvoice.paymentAmountReceived ?? Money.zero(currency)).plus(payment.amountReceived);
+        await invoiceRepo.update(invoice.id, {
+            paymentsCount,
+            paymentAmountPaid: totalPaid,
+            paymentAmountReceived: totalReceived,
+            ...(paymentsCount >= lockedInvoice.numPayments ? { status: 'paid' as const } : {})
+        });
+        if (paymentsCount >= lockedInvoice.numPayments) {
+            this.metricsService.recordInvoice('paid', currency);
+        }
+
+        // Update user balance
+        const descriptionParts: string[] = [];
+        if (lockedInvoice.numPayments > 1) {
+            descriptionParts.push(`Payment ${payment.paymentNum}`);
+        }
+        if (storedPayment.mismatch) {
+            descriptionParts.push(`${storedPayment.mismatch}: paid ${payment.amount} of ${storedPayment.requestedAmount} requested`);
+        }
+        await this.updateUserBalanceInTransaction(
+            queryRunner,
+            invoice.user,
+            currency,
+            payment.amountReceived,
+            {
+                type: 'invoice',
+                id: invoice.id,
+                description: descriptionParts.length > 0 ? descriptionParts.join(', ') : undefined
+            },
+            actor
+        );
+
+        return storedPayment;
+    }
+
     /**
      * Processes transfer with transaction safety
      */
-    public async processTransfer(transfer: UserTransfer): Promise<{ transferId: string }> {
+    @trackedOperation('process_transfer')
+    public async processTransfer(transfer: UserTransfer, actor?: AuditActor): Promise<{ transferId: string }> {
         const queryRunner = AppDataSource.createQueryRunner();
         await queryRunner.connect();
         await queryRunner.startTransaction();
@@ -105,7 +284,9 @@ export class TransactionService {
                 queryRunner,
                 transfer.sender,
                 transfer.currency as InternalCurrency,
-                -transfer.amount
+                transfer.amount.negated(),
+                { type: 'transfer', id: transfer.id },
+                actor ?? this.auditService.userActor(transfer.sender)
             );
 
             await queryRunner.commitTransaction();
@@ -127,7 +308,8 @@ export class TransactionService {
     /**
      * Processes withdrawal with transaction safety
      */
-    public async processWithdrawal(withdrawal: UserWithdrawal): Promise<{ withdrawalId: string }> {
+    @trackedOperation('process_withdrawal')
+    public async processWithdrawal(withdrawal: UserWithdrawal, actor?: AuditActor): Promise<{ withdrawalId: string }> {
         const queryRunner = AppDataSource.createQueryRunner();
         await queryRunner.connect();
         await queryRunner.startTransaction();
@@ -155,7 +337,9 @@ export class TransactionService {
                 queryRunner,
                 withdrawal.user,
                 withdrawal.currency as InternalCurrency,
-                -withdrawal.amount
+                withdrawal.amount.negated(),
+                { type: 'withdrawal', id: withdrawal.id },
+                actor ?? this.auditService.userActor(withdrawal.user)
             );
 
             await queryRunner.commitTransaction();
@@ -175,14 +359,33 @@ export class TransactionService {
     }
 
     /**
-     * Updates user balance within a transaction
+     * Checks an operation against the user's limits inside the transaction that debits it.
+     * The user row is locked first, so concurrent debits of the same user wait for each other
+     * and each one counts the operations committed before it.
+     * @throws LimitExceededError if the amount runs into one of the user's limits
+     */
+    private async assertWithinLimits(queryRunner: QueryRunner, user: any, operation: LimitOperation, amount: Money): Promise<void> {
+        await this.userService.lockUser(queryRunner.manager, user);
+
+        const violation = await this.limitService.checkAmount(user, operation, amount, queryRunner.manager);
+        if (violation) {
+            throw new LimitExceededError(operation, violation);
+        }
+    }
+
+    /**
+     * Updates user balance within a transaction and records the change in the ledger and the audit log
      */
     private async updateUserBalanceInTransaction(
         queryRunner: any,
         user: any,
         currency: InternalCurrency,
-        amountChange: number
+        amountChange: Money,
+        reference: LedgerReference,
+        actor: AuditActor
     ): Promise<void> {
+        // Credits and debits of the same user wait for each other, so neither overwrites the other's new amount
+        await this.userService.lockUser(queryRunner.manager, user);
         const balanceRepo = queryRunner.manager.getRepository(UserBalance);
         
         // Find existing balance
@@ -192,14 +395,19 @@ export class TransactionService {
 
         if (balance) {
             // Update existing balance
-            const currentAmount = parseFloat(balance.amount.toString());
-            const newAmount = currentAmount + amountChange;
+            const currentAmount: Money = balance.amount;
+            const newAmount = currentAmount.plus(amountChange);
             
-            if (newAmount < 0) {
-                throw new Error(`Insufficient balance. Current: ${currentAmount}, Required: ${Math.abs(amountChange)}`);
+            if (newAmount.isNegative()) {
+                throw new Error(`Insufficient balance. Current: ${currentAmount}, Required: ${amountChange.abs()}`);
             }
 
+            // Balances that predate the ledger get an opening entry first so the ledger sums up
+            await this.ledgerService.ensureOpeningEntry(queryRunner.manager, user, currency, currentAmount);
+
             await balanceRepo.update(balance.id, { amount: newAmount });
+            await this.ledgerService.recordBalanceChange(queryRunner.manager, user, currency, amountChange, newAmount, reference);
+            await this.auditService.record(queryRunner.manager, actor, user, currency, amountChange, newAmount, reference);
             logger.info('[TransactionService] Updated existing balance:', {
                 userId: user.id,
                 currency,
@@ -209,12 +417,14 @@ export class TransactionService {
             });
         } else {
             // Create new balance if it doesn't exist
-            if (amountChange < 0) {
+            if (amountChange.isNegative()) {
                 throw new Error(`Cannot create negative balance for currency: ${currency}`);
             }
 
             const newBalance = UserBalance.create(user, currency, amountChange);
             await balanceRepo.save(newBalance);
+            await this.ledgerService.recordBalanceChange(queryRunner.manager, user, currency, amountChange, amountChange, reference);
+            await this.auditService.record(queryRunner.manager, actor, user, currency, amountChange, amountChange, reference);
             logger.info('[TransactionService] Created new balance:', {
                 userId: user.id,
                 currency,
@@ -226,17 +436,20 @@ export class TransactionService {
     /**
      * Updates user balance (public method for external use)
      */
+    @trackedOperation('update_user_balance')
     public async updateUserBalance(
         user: any,
         currency: InternalCurrency,
-        amountChange: number
+        amountChange: Money,
+        reference: LedgerReference,
+        actor: AuditActor = SYSTEM_ACTOR
     ): Promise<void> {
         const queryRunner = AppDataSource.createQueryRunner();
         await queryRunner.connect();
         await queryRunner.startTransaction();
 
         try {
-            await this.updateUserBalanceInTransaction(queryRunner, user, currency, amountChange);
+            await this.updateUserBalanceInTransaction(queryRunner, user, currency, amountChange, reference, actor);
             await queryRunner.commitTransaction();
         } catch (error) {
             await queryRunner.rollbackTransaction();
@@ -248,13 +461,16 @@ export class TransactionService {
 
     /**
      * Executes a transfer by creating transfer record and processing it
+     * The actor defaults to the sender and is also used for the refund if xRocket Pay rejects the transfer
      */
+    @trackedOperation('execute_transfer')
     public async executeTransfer(
         sender: any,
-        currency: string,
-        amount: number,
-        recipientTelegramId: string
+        amount: Money,
+        recipientTelegramId: string,
+        actor: AuditActor = this.auditService.userActor(sender)
     ): Promise<UserTransfer> {
+        const currency = amount.currency;
         const queryRunner = AppDataSource.createQueryRunner();
         await queryRunner.connect();
         await queryRunner.startTransaction();
@@ -267,22 +483,27 @@ export class TransactionService {
                 recipientTelegramId
             });
 
+            await this.assertWithinLimits(queryRunner, sender, 'transfer', amount);
+
             // Create transfer record
             const transferRepo = queryRunner.manager.getRepository(UserTransfer);
-            const transfer = UserTransfer.create(sender, parseInt(recipientTelegramId), null, amount, currency);
+            const transfer = UserTransfer.create(sender, parseInt(recipientTelegramId), null, amount);
             const savedTransfer = await transferRepo.save(transfer);
 
             // Update sender balance (subtract amount) within the same transaction
             await this.updateUserBalanceInTransaction(
                 queryRunner,
                 sender,
-                currency as InternalCurrency,
-                -amount
+                currency,
+                amount.negated(),
+                { type: 'transfer', id: savedTransfer.id },
+                actor
             );
 
             // Commit transaction to release locks
             await queryRunner.commitTransaction();
             logger.info('[TransactionService] Transfer record created and balance updated');
+            operations.attachRecord({ type: 'transfer', id: savedTransfer.id });
 
             // Execute transfer via xRocket Pay AFTER committing transaction
             logger.info('[TransactionService] Calling xRocketPay API for transfer:', savedTransfer.id);
@@ -295,6 +516,7 @@ export class TransactionService {
                     action: 'execute_transfer',
                     data: { senderId: sender.id, currency, amount, recipientTelegramId }
                 });
+                await this.compensateFailedApiCall(apiError, 'transfer', savedTransfer.id, currency, actor);
                 throw apiError;
             }
 
@@ -305,8 +527,9 @@ export class TransactionService {
 
             try {
                 const updateTransferRepo = updateQueryRunner.manager.getRepository(UserTransfer);
-                await updateTransferRepo.update(savedTransfer.id, { transferId: result.transferId });
+                await updateTransferRepo.update(savedTransfer.id, { transferId: result.transferId, status: 'completed' });
                 await updateQueryRunner.commitTransaction();
+                this.metricsService.recordOperation('transfer', 'completed', currency);
                 logger.info('[TransactionService] Transfer ID updated successfully');
             } catch (updateError) {
                 await updateQueryRunner.rollbackTransaction();
@@ -337,9 +560,11 @@ export class TransactionService {
             }
             
             // Determine error type - preserve API errors
-            const errorType = (error && typeof error === 'object' && 'response' in error) 
-                ? ErrorType.API_ERROR 
-                : ErrorType.DATABASE_ERROR;
+            const errorType = error instanceof LimitExceededError
+                ? ErrorType.VALIDATION_ERROR
+                : (error && typeof error === 'object' && 'response' in error)
+                    ? ErrorType.API_ERROR
+                    : ErrorType.DATABASE_ERROR;
             
             this.errorHandler.logError(error, errorType, {
                 conversation: 'transaction_service',
@@ -354,15 +579,18 @@ export class TransactionService {
 
     /**
      * Executes a withdrawal by creating withdrawal record and processing it
+     * The actor defaults to the user and is also used for the refund if xRocket Pay rejects the withdrawal
      */
+    @trackedOperation('execute_withdrawal')
     public async executeWithdrawal(
         user: any,
-        amount: number,
-        currency: string,
-        fee: number,
+        amount: Money,
+        fee: Money,
         network: string,
-        address: string
+        address: string,
+        actor: AuditActor = this.auditService.userActor(user)
     ): Promise<UserWithdrawal> {
+        const currency = amount.currency;
         const queryRunner = AppDataSource.createQueryRunner();
         await queryRunner.connect();
         await queryRunner.startTransaction();
@@ -377,22 +605,27 @@ export class TransactionService {
                 address
             });
 
+            await this.assertWithinLimits(queryRunner, user, 'withdrawal', amount);
+
             // Create withdrawal record
             const withdrawalRepo = queryRunner.manager.getRepository(UserWithdrawal);
-            const withdrawal = UserWithdrawal.create(user, amount, currency, fee, network as WithdrawalNetwork, address);
+            const withdrawal = UserWithdrawal.create(user, amount, fee, network as WithdrawalNetwork, address);
             const savedWithdrawal = await withdrawalRepo.save(withdrawal);
 
             // Update user balance (subtract amount) within the same transaction
             await this.updateUserBalanceInTransaction(
                 queryRunner,
                 user,
-                currency as InternalCurrency,
-                -amount
+                currency,
+                amount.negated(),
+                { type: 'withdrawal', id: savedWithdrawal.id },
+                actor
             );
 
             // Commit transaction to release locks
             await queryRunner.commitTransaction();
             logger.info('[TransactionService] Withdrawal record created and balance updated');
+            operations.attachRecord({ type: 'withdrawal', id: savedWithdrawal.id });
 
             // Execute withdrawal via xRocket Pay AFTER committing transaction
             logger.info('[TransactionService] Calling xRocketPay API for withdrawal:', savedWithdrawal.id);
@@ -405,6 +638,7 @@ export class TransactionService {
                     action: 'execute_withdrawal',
                     data: { userId: user.id, amount, currency, fee, network, address }
                 });
+                await this.compensateFailedApiCall(apiError, 'withdrawal', savedWithdrawal.id, currency, actor);
                 throw apiError;
             }
 
@@ -415,12 +649,29 @@ export class TransactionService {
 
             try {
                 const updateWithdrawalRepo = updateQueryRunner.manager.getRepository(UserWithdrawal);
-                await updateWithdrawalRepo.update(savedWithdrawal.id, {
-                    withdrawalId: result.withdrawalId,
-                    status: 'CREATED' // Initial status from xRocket Pay
-                });
+                const updateResult = await updateWithdrawalRepo.update(
+                    { id: savedWithdrawal.id, refundedAt: IsNull() },
+                    {
+                        withdrawalId: result.withdrawalId,
+                        status: 'CREATED' // Initial status from xRocket Pay
+                    }
+                );
                 await updateQueryRunner.commitTransaction();
-                logger.info('[TransactionService] Withdrawal ID and status updated successfully');
+
+                if (updateResult.affected) {
+                    this.metricsService.recordOperation('withdrawal', 'created', currency);
+                    logger.info('[TransactionService] Withdrawal ID and status updated successfully');
+                } else {
+                    // The withdrawal was refunded while its API call was running, the user got both
+                    this.metricsService.recordOperation('withdrawal', 'paid_after_refund', currency);
+                    logger.error('[TransactionService] Withdrawal created in xRocket Pay after it was refunded, needs manual review:', {
+                        withdrawalId: savedWithdrawal.id,
+                        xrocketWithdrawalId: result.withdrawalId,
+                        userId: user.id,
+                        amount,
+                        currency
+                    });
+                }
             } catch (updateError) {
                 await updateQueryRunner.rollbackTransaction();
                 logger.error('[TransactionService] Failed to update withdrawal ID and status:', updateError);
@@ -450,9 +701,11 @@ export class TransactionService {
             }
             
             // Determine error type - preserve API errors
-            const errorType = (error && typeof error === 'object' && 'response' in error) 
-                ? ErrorType.API_ERROR 
-                : ErrorType.DATABASE_ERROR;
+            const errorType = error instanceof LimitExceededError
+                ? ErrorType.VALIDATION_ERROR
+                : (error && typeof error === 'object' && 'response' in error)
+                    ? ErrorType.API_ERROR
+                    : ErrorType.DATABASE_ERROR;
             
             this.errorHandler.logError(error, errorType, {
                 conversation: 'transaction_service',
@@ -464,4 +717,451 @@ export class TransactionService {
             await queryRunner.release();
         }
     }
+
+    /**
+     * Executes a multicheque by creating cheque record, debiting the total and creating it in xRocket Pay
+     * The amount is per activation, so amount * usersNumber is debited
+     * The actor defaults to the user and is also used for the refund if xRocket Pay rejects the cheque
+     */
+    @trackedOperation('execute_multicheque')
+    public async executeMulticheque(
+        user: any,
+        amount: Money,
+        usersNumber: number,
+        options: ChequeOptions = {},
+        actor: AuditActor = this.auditService.userActor(user)
+    ): Promise<UserCheque> {
+        const currency = amount.currency;
+        const queryRunner = AppDataSource.createQueryRunner();
+        await queryRunner.connect();
+        await queryRunner.startTransaction();
+
+        try {
+            logger.info('[TransactionService] Creating cheque record:', {
+                userId: user.id,
+                currency,
+                amount,
+                usersNumber
+            });
+
+            await this.assertWithinLimits(queryRunner, user, 'multicheque', amount.multipliedBy(usersNumber));
+
+            // Create cheque record
+            const chequeRepo = queryRunner.manager.getRepository(UserCheque);
+            const cheque = UserCheque.create(user, amount, usersNumber, undefined, undefined, undefined, options);
+            const savedCheque = await chequeRepo.save(cheque);
+
+            // Update user balance (subtract amount for every activation) within the same transaction
+            await this.updateUserBalanceInTransaction(
+                queryRunner,
+                user,
+                currency,
+                cheque.getTotalAmount().negated(),
+                { type: 'cheque', id: savedCheque.id },
+                actor
+            );
+
+            // Commit transaction to release locks
+            await queryRunner.commitTransaction();
+            logger.info('[TransactionService] Cheque record created and balance updated');
+            operations.attachRecord({ type: 'cheque', id: savedCheque.id });
+
+            // Create multicheque via xRocket Pay AFTER committing transaction
+            logger.info('[TransactionService] Calling xRocketPay API for multicheque:', savedCheque.id);
+            try {
+                await this.xrocketPayService.createMulticheque(savedCheque);
+            } catch (apiError) {
+                this.errorHandler.logError(apiError, ErrorType.API_ERROR, {
+                    conversation: 'transaction_service',
+                    action: 'execute_multicheque',
+                    data: { userId: user.id, currency, amount, usersNumber }
+                });
+                await this.compensateFailedApiCall(apiError, 'cheque', savedCheque.id, currency, actor);
+                throw apiError;
+            }
+
+            // Get the updated cheque object (createMulticheque stores cheque ID, link and state)
+            const updatedCheque = await AppDataSource.getRepository(UserCheque).findOne({
+                where: { id: savedCheque.id },
+                relations: ['user']
+            });
+
+            if (!updatedCheque) {
+                throw new Error('Cheque record not found after processing');
+            }
+
+            this.metricsService.recordOperation('cheque', 'created', currency);
+            logger.info('[TransactionService] Multicheque executed successfully');
+            return updatedCheque;
+        } catch (error) {
+            // Only rollback if transaction hasn't been committed yet
+            try {
+                await queryRunner.rollbackTransaction();
+            } catch (rollbackError) {
+                // Transaction might already be committed or rolled back
+                logger.warn('[TransactionService] Rollback failed, transaction might already be committed:', rollbackError);
+            }
+
+            // Determine error type - preserve API errors
+            const errorType = error instanceof LimitExceededError
+                ? ErrorType.VALIDATION_ERROR
+                : (error && typeof error === 'object' && 'response' in error)
+                    ? ErrorType.API_ERROR
+                    : ErrorType.DATABASE_ERROR;
+
+            this.errorHandler.logError(error, errorType, {
+                conversation: 'transaction_service',
+                action: 'execute_multicheque',
+                data: { userId: user.id, currency, amount, usersNumber }
+            });
+            throw error;
+        } finally {
+            await queryRunner.release();
+        }
+    }
+
+    /**
+     * Refunds a debited balance after its xRocket Pay call failed definitively.
+     * Ambiguous failures are left untouched for the reconciler, since the operation may have gone through.
+     */
+    private async compensateFailedApiCall(
+        apiError: unknown,
+        recordType: InFlightRecord['type'],
+        recordId: number,
+        currency: string,
+        actor: AuditActor
+    ): Promise<void> {
+        if (!this.errorHandler.isDefinitiveApiFailure(apiError)) {
+            logger.warn('[TransactionService] API call outcome unknown, leaving record for reconciliation:', {
+                recordType,
+                recordId
+            });
+            this.metricsService.recordOperation(recordType, 'unknown', currency);
+            return;
+        }
+
+        const reason = this.errorHandler.formatApiErrorMessage(apiError);
+        try {
+            if (recordType === 'transfer') {
+                await this.refundTransfer(recordId, reason, actor);
+            } else if (recordType === 'withdrawal') {
+                await this.refundWithdrawal(recordId, reason, actor);
+            } else {
+                await this.refundCheque(recordId, reason, actor);
+            }
+        } catch (refundError) {
+            // The original API error is what the caller needs to see
+            logger.error('[TransactionService] Failed to refund after API error:', {
+                recordType,
+                recordId,
+                error: refundError instanceof Error ? refundError.message : refundError
+            });
+        }
+    }
+
+    /**
+     * Marks a transfer as failed and credits the sender back. Safe to call more than once:
+     * the transfer row is locked and only refunded if it has not been refunded yet.
+     * @param transferId - The local transfer ID
+     * @param reason - Why the transfer failed
+     * @param actor - Who caused the refund, for the audit log
+     * @returns True if a refund was made, false if the transfer was already refunded or completed
+     */
+    @trackedOperation('refund_transfer')
+    public async refundTransfer(transferId: number, reason: string, actor: AuditActor = SYSTEM_ACTOR): Promise<boolean> {
+        const queryRunner = AppDataSource.createQueryRunner();
+        await queryRunner.connect();
+        await queryRunner.startTransaction();
+
+        try {
+            const transferRepo = queryRunner.manager.getRepository(UserTransfer);
+            const transfer = await transferRepo.findOne({
+                where: { id: transferId },
+                lock: PESSIMISTIC_WRITE_LOCK
+            });
+
+            if (!transfer) {
+                throw new Error(`Transfer ${transferId} not found`);
+            }
+
+            if (transfer.refundedAt || transfer.status === 'completed') {
+                logger.info('[TransactionService] Transfer not refundable, skipping:', {
+                    transferId,
+                    status: transfer.status,
+                    refundedAt: transfer.refundedAt
+                });
+                await queryRunner.rollbackTransaction();
+                return false;
+            }
+
+            const sender = await transferRepo
+                .createQueryBuilder()
+                .relation(UserTransfer, 'sender')
+                .of(transfer)
+                .loadOne();
+
+            if (!sender) {
+                throw new Error(`Sender of transfer ${transferId} not found`);
+            }
+
+            await transferRepo.update(transferId, {
+                status: 'failed',
+                error: reason,
+                refundedAt: new Date()
+            });
+
+            await this.updateUserBalanceInTransaction(
+                queryRunner,
+                sender,
+                transfer.currency as InternalCurrency,
+                transfer.amount,
+                { type: 'transfer', id: transferId, description: `Refund: ${reason}` },
+                actor
+            );
+
+            await queryRunner.commitTransaction();
+            logger.info('[TransactionService] Transfer refunded:', { transferId, reason });
+            this.metricsService.recordOperation('transfer', 'failed', transfer.currency);
+            return true;
+        } catch (error) {
+            await queryRunner.rollbackTransaction();
+            this.errorHandler.logError(error, ErrorType.DATABASE_ERROR, {
+                conversation: 'transaction_service',
+                action: 'refund_transfer',
+                data: { transferId, reason }
+            });
+            throw error;
+        } finally {
+            await queryRunner.release();
+        }
+    }
+
+    /**
+     * Marks a withdrawal as failed and credits the user back. Safe to call more than once:
+     * the withdrawal row is locked and only refunded if it has not been refunded yet.
+     * @param withdrawalId - The local withdrawal ID
+     * @param reason - Why the withdrawal failed
+     * @param actor - Who caused the refund, for the audit log
+     * @returns True if a refund was made, false if the withdrawal was already refunded or completed
+     */
+    @trackedOperation('refund_withdrawal')
+    public async refundWithdrawal(withdrawalId: number, reason: string, actor: AuditActor = SYSTEM_ACTOR): Promise<boolean> {
+        const queryRunner = AppDataSource.createQueryRunner();
+        await queryRunner.connect();
+        await queryRunner.startTransaction();
+
+        try {
+            const withdrawalRepo = queryRunner.manager.getRepository(UserWithdrawal);
+            const withdrawal = await withdrawalRepo.findOne({
+                where: { id: withdrawalId },
+                lock: PESSIMISTIC_WRITE_LOCK
+            });
+
+            if (!withdrawal) {
+                throw new Error(`Withdrawal ${withdrawalId} not found`);
+            }
+
+            if (withdrawal.refundedAt || withdrawal.status === 'COMPLETED') {
+                logger.info('[TransactionService] Withdrawal not refundable, skipping:', {
+                    withdrawalId,
+                    status: withdrawal.status,
+                    refundedAt: withdrawal.refundedAt
+                });
+                await queryRunner.rollbackTransaction();
+                return false;
+            }
+
+            const user = await queryRunner.manager.getRepository(User).findOne({
+                where: { id: withdrawal.userId }
+            });
+
+            if (!user) {
+                throw new Error(`User ${withdrawal.userId} not found`);
+            }
+
+            await withdrawalRepo.update(withdrawalId, {
+                status: 'FAIL',
+                error: withdrawal.error || reason,
+                refundedAt: new Date()
+            });
+
+            await this.updateUserBalanceInTransaction(
+                queryRunner,
+                user,
+                withdrawal.currency as InternalCurrency,
+                withdrawal.amount,
+                { type: 'withdrawal', id: withdrawalId, description: `Refund: ${reason}` },
+                actor
+            );
+
+            await queryRunner.commitTransaction();
+            logger.info('[TransactionService] Withdrawal refunded:', { withdrawalId, reason });
+            this.metricsService.recordOperation('withdrawal', 'failed', withdrawal.currency);
+            return true;
+        } catch (error) {
+            await queryRunner.rollbackTransaction();
+            this.errorHandler.logError(error, ErrorType.DATABASE_ERROR, {
+                conversation: 'transaction_service',
+                action: 'refund_withdrawal',
+                data: { withdrawalId, reason }
+            });
+            throw error;
+        } finally {
+            await queryRunner.release();
+        }
+    }
+
+    /**
+     * Credits back the full amount of a multicheque that xRocket Pay never created.
+     * Safe to call more than once: the cheque row is locked and only refunded if it has not been refunded yet.
+     * @param chequeId - The local cheque ID
+     * @param reason - Why the cheque failed
+     * @param actor - Who caused the refund, for the audit log
+     * @returns True if a refund was made, false if the cheque was already refunded or exists in xRocket Pay
+     */
+    @trackedOperation('refund_cheque')
+    public async refundCheque(chequeId: number, reason: string, actor: AuditActor = SYSTEM_ACTOR): Promise<boolean> {
+        const queryRunner = AppDataSource.createQueryRunner();
+        await queryRunner.connect();
+        await queryRunner.startTransaction();
+
+        try {
+            const chequeRepo = queryRunner.manager.getRepository(UserCheque);
+            const cheque = await chequeRepo.findOne({
+                where: { id: chequeId },
+                lock: PESSIMISTIC_WRITE_LOCK
+            });
+
+            if (!cheque) {
+                throw new Error(`Cheque ${chequeId} not found`);
+            }
+
+            if (cheque.refundedAt || cheque.chequeId) {
+                logger.info('[TransactionService] Cheque not refundable, skipping:', {
+                    chequeId,
+                    externalChequeId: cheque.chequeId,
+                    refundedAt: cheque.refundedAt
+                });
+                await queryRunner.rollbackTransaction();
+                return false;
+            }
+
+            const user = await queryRunner.manager.getRepository(User).findOne({
+                where: { id: cheque.userId }
+            });
+
+            if (!user) {
+                throw new Error(`User ${cheque.userId} not found`);
+            }
+
+            await chequeRepo.update(chequeId, {
+                status: 'draft',
+                refundedAt: new Date()
+            });
+
+            await this.updateUserBalanceInTransaction(
+                queryRunner,
+                user,
+                cheque.currency as InternalCurrency,
+                cheque.getTotalAmount(),
+                { type: 'cheque', id: chequeId, description: `Refund: ${reason}` },
+                actor
+            );
+
+            await queryRunner.commitTransaction();
+            logger.info('[TransactionService] Cheque refunded:', { chequeId, reason });
+            this.metricsService.recordOperation('cheque', 'failed', cheque.currency);
+            return true;
+        } catch (error) {
+            await queryRunner.rollbackTransaction();
+            this.errorHandler.logError(error, ErrorType.DATABASE_ERROR, {
+                conversation: 'transaction_service',
+                action: 'refund_cheque',
+                data: { chequeId, reason }
+            });
+            throw error;
+        } finally {
+            await queryRunner.release();
+        }
+    }
+
+    /**
+     * Cancels a multicheque that was deleted in xRocket Pay and credits back the unclaimed part.
+     * Safe to call more than once: the cheque row is locked and only refunded if it has not been refunded yet.
+     * @param chequeId - The local cheque ID
+     * @param activations - Final number of activations reported by xRocket Pay
+     * @param actor - Who cancelled the cheque, for the audit log
+     * @returns The refunded amount, or null if the cheque was already refunded or cancelled
+     */
+    @trackedOperation('refund_cheque_remainder')
+    public async refundChequeRemainder(chequeId: number, activations: number, actor: AuditActor = SYSTEM_ACTOR): Promise<Money | null> {
+        const queryRunner = AppDataSource.createQueryRunner();
+        await queryRunner.connect();
+        await queryRunner.startTransaction();
+
+        try {
+            const chequeRepo = queryRunner.manager.getRepository(UserCheque);
+            const cheque = await chequeRepo.findOne({
+                where: { id: chequeId },
+                lock: PESSIMISTIC_WRITE_LOCK
+            });
+
+            if (!cheque) {
+                throw new Error(`Cheque ${chequeId} not found`);
+            }
+
+            if (cheque.refundedAt || cheque.status === 'cancelled') {
+                logger.info('[TransactionService] Cheque already refunded, skipping:', {
+                    chequeId,
+                    status: cheque.status,
+                    refundedAt: cheque.refundedAt
+                });
+                await queryRunner.rollbackTransaction();
+                return null;
+            }
+
+            const user = await queryRunner.manager.getRepository(User).findOne({
+                where: { id: cheque.userId }
+            });
+
+            if (!user) {
+                throw new Error(`User ${cheque.userId} not found`);
+            }
+
+            cheque.activations = activations;
+            const remainingAmount = cheque.getRemainingAmount();
+
+            await chequeRepo.update(chequeId, {
+                status: 'cancelled',
+                activations,
+                refundedAt: new Date()
+            });
+
+            if (remainingAmount.isPositive()) {
+                await this.updateUserBalanceInTransaction(
+                    queryRunner,
+                    user,
+                    cheque.currency as InternalCurrency,
+                    remainingAmount,
+                    { type: 'cheque', id: chequeId, description: `Refund of ${cheque.usersNumber - activations} unclaimed activations` },
+                    actor
+                );
+            }
+
+            await queryRunner.commitTransaction();
+            logger.info('[TransactionService] Cheque cancelled and remainder refunded:', { chequeId, activations, remainingAmount });
+            this.metricsService.recordOperation('cheque', 'cancelled', cheque.currency);
+            return remainingAmount;
+        } catch (error) {
+            await queryRunner.rollbackTransaction();
+            this.errorHandler.logError(error, ErrorType.DATABASE_ERROR, {
+                conversation: 'transaction_service',
+                action: 'refund_cheque_remainder',
+                data: { chequeId, activations }
+            });
+            throw error;
+        } finally {
+            await queryRunner.release();
+        }
+    }
 } 
\ No newline at end of file
@@ -4,11 +4,15 @@ import { User, SupportedLanguage } from "../entities/user";
 import { UserBalance } from "../entities/user-balance";
 import { UserInvoice } from "../entities/user-invoice";
 import { CurrencyConverter, InternalCurrency } from "../types/currency";
+import { Money } from "../types/money";
 import { formatCurrency } from "../bot/utils/formatters";
 import { createMainMenuKeyboard } from "../bot/keyboards/main";
 import { EntityManager } from "typeorm";
 import { MessageService } from "../bot/services/message-service";
 import { LanguageService } from "./language";
+import { LedgerReference, LedgerService } from "./ledger";
+import { AuditActor, AuditService, SYSTEM_ACTOR } from "./audit";
+import { PESSIMISTIC_WRITE_LOCK } from "../config/database-type";
 import logger from "../utils/logger";
 
 /**
@@ -16,8 +20,13 @@ import logger from "../utils/logger";
  */
 export class UserService {
     private static instance: UserService;
+    private ledgerService: LedgerService;
+    private auditService: AuditService;
 
-    private constructor() {}
+    private constructor() {
+        this.ledgerService = LedgerService.getInstance();
+        this.auditService = AuditService.getInstance();
+    }
 
     public static getInstance(): UserService {
         if (!UserService.instance) {
@@ -143,71 +152,106 @@ export class UserService {
     }
 
     /**
-     * Updates user balance with validation
+     * Updates user balance with validation and records the change in the ledger and the audit log
      * @param user - The user instance
      * @param currency - The currency to update
      * @param amount - The amount to add/subtract (positive for add, negative for subtract)
+     * @param reference - The record that caused the change
+     * @param actor - Who caused the change
      * @param manager - Optional transaction manager
      * @returns The updated balance instance
      */
     public async updateBalance(
         user: User, 
         currency: InternalCurrency, 
-        amount: number, 
+        amount: Money, 
+        reference: LedgerReference,
+        actor: AuditActor = SYSTEM_ACTOR,
         manager?: EntityManager
     ): Promise<UserBalance> {
-        if (typeof amount !== 'number' || isNaN(amount)) {
-            throw new Error("Invalid amount provided");
+        if (amount.currency !== currency) {
+            throw new Error(`Invalid amount provided: ${amount.currency} amount for ${currency} balance`);
         }
 
-        const balanceRepo = manager ? manager.getRepository(UserBalance) : AppDataSource.getRepository(UserBalance);
-        
-        // Get balance using the same manager
-        let balance = manager 
-            ? await balanceRepo.findOne({ where: { user: { id: user.id }, coin: currency } })
-            : await this.getUserBalance(user, currency);
+        // Balance and ledger must be written together, so open a transaction if none was given
+        if (!manager) {
+            return await AppDataSource.transaction(transactionManager =>
+                this.updateBalance(user, currency, amount, reference, actor, transactionManager)
+            );
+        }
+
+        await this.lockUser(manager, user);
+        const balanceRepo = manager.getRepository(UserBalance);
+        let balance = await balanceRepo.findOne({ where: { user: { id: user.id }, coin: currency } });
         
         if (!balance) {
             // Create new balance if it doesn't exist
-            balance = UserBalance.create(user, currency, 0);
+            balance = UserBalance.create(user, currency, Money.zero(currency));
         }
 
         // Update balance
-        const currentAmount = parseFloat(balance.amount.toString());
-        const newAmount = currentAmount + amount;
+        const currentAmount = balance.amount;
+        const newAmount = currentAmount.plus(amount);
         
-        if (newAmount < 0) {
-            throw new Error(`Insufficient balance. Current: ${currentAmount}, Requested: ${Math.abs(amount)}`);
+        if (newAmount.isNegative()) {
+            throw new Error(`Insufficient balance. Current: ${currentAmount}, Requested: ${amount.abs()}`);
         }
 
+        await this.ledgerService.ensureOpeningEntry(manager, user, currency, currentAmount);
+
         balance.amount = newAmount;
+        const savedBalance = await balanceRepo.save(balance);
+
+        await this.ledgerService.recordBalanceChange(manager, user, currency, amount, newAmount, reference);
+        await this.auditService.record(manager, actor, user, currency, amount, newAmount, reference);
         
-        return await balanceRepo.save(balance);
+        return savedBalance;
+    }
+
+    /**
+     * Locks the user's row until the transaction ends, so concurrent changes of the user's balances
+     * wait for each other instead of overwriting each other's amount
+     * @param manager - The transaction manager
+     * @param user - The user instance
+     */
+    public async lockUser(manager: EntityManager, user: User): Promise<void> {
+        await manager.getRepository(User).findOne({
+            where: { id: user.id },
+            lock: PESSIMISTIC_WRITE_LOCK
+        });
     }
 
     /**
-     * Creates or updates user balance (for deposits)
+     * Sets user balance to an exact amount, recording the difference as a ledger adjustment
      * @param user - The user instance
      * @param currency - The currency
      * @param amount - The amount to set
+     * @param description - Optional reason for the adjustment
+     * @param actor - Who set the balance
      * @returns The balance instance
      */
-    public async setBalance(user: User, currency: InternalCurrency, amount: number): Promise<UserBalance> {
-        if (typeof amount !== 'number' || isNaN(amount) || amount < 0) {
+    public async setBalance(
+        user: User,
+        currency: InternalCurrency,
+        amount: Money,
+        description?: string,
+        actor: AuditActor = SYSTEM_ACTOR
+    ): Promise<UserBalance> {
+        if (amount.currency !== currency || amount.isNegative()) {
             throw new Error("Invalid amount provided");
         }
 
-        const balanceRepo = AppDataSource.getRepository(UserBalance);
-        let balance = await this.getUserBalance(user, currency);
-        
-        if (!balance) {
-            // Create new balance if it doesn't exist
-            balance = UserBalance.create(user, currency, amount);
-        } else {
-            balance.amount = amount;
-        }
-        
-        return await balanceRepo.save(balance);
+        return await AppDataSource.transaction(async manager => {
+            await this.lockUser(manager, user);
+            const balanceRepo = manager.getRepository(UserBalance);
+            const balance = await balanceRepo.findOne({ where: { user: { id: user.id }, coin: currency } });
+            const currentAmount = balance ? balance.amount : Money.zero(currency);
+
+            return await this.updateBalance(user, currency, amount.minus(currentAmount), {
+                type: 'adjustment',
+                description: description || 'Balance set manually'
+            }, actor, manager);
+        });
     }
 
     /**
@@ -315,10 +359,34 @@ export class UserService {
         }
         paymentInfo += '\n' + ctx.t('invoices-payment-info');
 
-        // Add amount received and fee information for paid invoices
+        // Add number of payments and expiry for invoices accepting several payments or expiring
+        const paymentsLines: string[] = [];
+        if (invoice.numPayments > 1) {
+            paymentsLines.push(ctx.t('invoices-payments-info', {
+                count: invoice.paymentsCount,
+                total: invoice.numPayments,
+                totalAmount: formatCurrency(invoice.getTotalAmount()),
+                emoji: currencyConfig.emoji,
+                name: currencyConfig.name
+            }));
+        }
+        if (invoice.paymentAmountPaid && !invoice.paymentAmountPaid.equals(invoice.amount.multipliedBy(invoice.paymentsCount))) {
+            paymentsLines.push(ctx.t('invoices-amount-mismatch-info', {
+                amountPaid: formatCurrency(invoice.paymentAmountPaid),
+                amountRequested: formatCurrency(invoice.amount.multipliedBy(invoice.paymentsCount)),
+                emoji: currencyConfig.emoji,
+                name: currencyConfig.name
+            }));
+        }
+        if (invoice.expiresAt && invoice.status === 'active') {
+            paymentsLines.push(ctx.t('invoices-expires-info', { expiresAt: invoice.expiresAt.toLocaleString() }));
+        }
+
+        // Add amount received and fee information once payments were made
         let amountReceivedInfo = '';
-        if (invoice.status === 'paid' && invoice.paymentAmountReceived !== undefined) {
-            const fee = parseFloat(invoice.amount.toString()) - invoice.paymentAmountReceived;
+        if (invoice.paymentsCount > 0 && invoice.paymentAmountReceived) {
+            const amountPaid = invoice.paymentAmountPaid ?? invoice.amount.multipliedBy(invoice.paymentsCount);
+            const fee = amountPaid.minus(invoice.paymentAmountReceived);
             amountReceivedInfo = ctx.t('invoices-amount-received-info', {
                 amountReceived: formatCurrency(invoice.paymentAmountReceived),
                 fee: formatCurrency(fee),
@@ -336,6 +404,7 @@ export class UserService {
             invoiceId: invoice.invoiceId,
             createdAt: invoice.createdAt.toLocaleDateString(),
             paymentInfo,
+            paymentsInfo: paymentsLines.join('\n'),
             amountReceivedInfo
         });
     }
@@ -1,5 +1,10 @@
+import { QueryRunner } from "typeorm";
 import { AppDataSource } from "../config/database";
+import { PESSIMISTIC_WRITE_LOCK } from "../config/database-type";
+import { WEBHOOK_CONFIG } from "../config/webhook";
 import { UserInvoice } from "../entities/user-invoice";
+import { InvoicePayment } from "../entities/invoice-payment";
+import { WebhookDelivery, WebhookDeliveryStatus } from "../entities/webhook-delivery";
 import { UserService } from "./user";
 import logger from "../utils/logger";
 import { 
@@ -7,42 +12,58 @@ import {
 } from 'xrocket-pay-api-sdk/dist/types/webhook';
 import { 
     verifyAndParseWebhook,
-    isInvoicePaid,
-    extractPaymentInfo,
     parseWebhookPayload
 } from 'xrocket-pay-api-sdk/dist/webhook-utils';
-import { CurrencyConverter } from "../types/currency";
-import { Bot, InlineKeyboard } from "grammy";
-import { BotContext } from "../types/bot";
 import { TransactionService } from "./transaction";
+import { NotificationService } from "./notification";
+import { XRocketPayService } from "./xrocket-pay";
+import { AuditActor } from "./audit";
+import { MetricsService } from "./metrics";
 import { ErrorHandler, ErrorType } from "../bot/utils/error-handler";
 
+/**
+ * Outcome of handling a webhook, returned to xRocket Pay as the HTTP response
+ */
+export interface WebhookResult {
+    success: boolean;
+    message: string;
+}
+
+/**
+ * Outcome of processing a webhook event, with the invoice to notify the user about once the payment is committed
+ */
+interface DeliveryResult extends WebhookResult {
+    paidInvoice?: UserInvoice;
+    payment?: InvoicePayment;
+}
+
 export class WebhookService {
     private static instance: WebhookService;
     private userService: UserService;
-    private bot: Bot<BotContext>;
     private errorHandler: ErrorHandler;
+    private metricsService: MetricsService;
 
-    private constructor(bot: Bot<BotContext>) {
+    private constructor() {
         this.userService = UserService.getInstance();
-        this.bot = bot;
         this.errorHandler = ErrorHandler.getInstance();
+        this.metricsService = MetricsService.getInstance();
     }
 
-    public static getInstance(bot: Bot<BotContext>): WebhookService {
+    public static getInstance(): WebhookService {
         if (!WebhookService.instance) {
-            WebhookService.instance = new WebhookService(bot);
+            WebhookService.instance = new WebhookService();
         }
         return WebhookService.instance;
     }
 
     /**
      * Handles invoice webhook events from xRocket Pay
+     * Every event is stored as a WebhookDelivery and processed at most once, however often it is delivered
      */
     public async handleInvoiceWebhook(
         body: string, 
         signature: string
-    ): Promise<{ success: boolean; message: string }> {
+    ): Promise<WebhookResult> {
         logger.info('[WebhookService] Processing invoice webhook');
 
         try {
@@ -53,7 +74,13 @@ export class WebhookService {
             }
 
             // Verify signature and parse webhook payload
-            const webhook = verifyAndParseWebhook(body, signature, secret);
+            let webhook: InvoicePaymentWebhook;
+            try {
+                webhook = verifyAndParseWebhook(body, signature, secret);
+            } catch (error) {
+                this.metricsService.recordWebhookVerificationFailure('xrocket', 'invalid_signature');
+                throw error;
+            }
 
             logger.info('[WebhookService] Webhook data:', webhook.data.payment);
 
@@ -67,18 +94,37 @@ export class WebhookService {
             logger.info('[WebhookService] Webhook verified and parsed:', {
                 type: webhook.type,
                 invoiceId: webhook.data.id,
-                status: webhook.data.status
+                status: webhook.data.status,
+                timestamp: webhook.timestamp
             });
 
-            // Process the webhook based on invoice status
-            if (isInvoicePaid(webhook)) {
-                return await this.handleInvoicePaid(webhook);
-            } else if (webhook.data.status === 'expired') {
-                return await this.handleInvoiceExpired(webhook);
-            } else {
+            const isPaid = this.isPaymentEvent(webhook);
+            if (!isPaid && webhook.data.status !== 'expired') {
                 logger.info('[WebhookService] Invoice status unchanged:', webhook.data.status);
                 return { success: true, message: 'Invoice status unchanged' };
             }
+
+            const eventKey = this.getEventKey(webhook);
+            const eventTimestamp = this.parseTimestamp(webhook.timestamp);
+            if (!this.isFresh(eventTimestamp)) {
+                logger.warn('[WebhookService] Rejecting webhook with stale timestamp:', { eventKey, timestamp: webhook.timestamp });
+                this.metricsService.recordWebhookVerificationFailure('xrocket', 'stale_timestamp');
+                await this.storeDelivery(eventKey, webhook, body, eventTimestamp, 'rejected', 'Stale timestamp');
+                return { success: false, message: 'Stale webhook timestamp' };
+            }
+
+            await this.storeDelivery(eventKey, webhook, body, eventTimestamp, 'received');
+
+            if (isPaid) {
+                const result = await this.processDelivery(eventKey, queryRunner => this.handleInvoicePaid(queryRunner, webhook));
+                // Notify the user once the payment is committed, a failed notification doesn't fail the webhook
+                if (result.paidInvoice && result.payment) {
+                    await NotificationService.getInstance().notifyInvoicePaid(result.paidInvoice, result.payment);
+                }
+                return { success: result.success, message: result.message };
+            }
+            const result = await this.processDelivery(eventKey, queryRunner => this.handleInvoiceExpired(queryRunner, webhook));
+            return { success: result.success, message: result.message };
         } catch (error) {
             this.errorHandler.logError(error, ErrorType.API_ERROR, {
                 conversation: 'webhook_service',
@@ -90,14 +136,144 @@ export class WebhookService {
     }
 
     /**
-     * Handles paid invoice webhook event
+     * Checks whether the webhook reports a payment. Invoices accepting several payments stay active
+     * until the last one, so every payment is reported with the invoice still in status active
+     */
+    private isPaymentEvent(webhook: InvoicePaymentWebhook): boolean {
+        return webhook.type === 'invoicePay' && !!webhook.data.payment;
+    }
+
+    /**
+     * Builds the key identifying a webhook event: the same payment or expiry always gets the same key
+     */
+    private getEventKey(webhook: InvoicePaymentWebhook): string {
+        const event = this.isPaymentEvent(webhook) ? `payment:${webhook.data.payment.paymentNum}` : webhook.data.status;
+        return `${webhook.type}:${webhook.data.id}:${event}`;
+    }
+
+    /**
+     * Parses the webhook timestamp, returning null if it is missing or invalid
+     */
+    private parseTimestamp(timestamp: string | undefined): Date | null {
+        const date = timestamp ? new Date(timestamp) : null;
+        return date && !isNaN(date.getTime()) ? date : null;
+    }
+
+    /**
+     * Checks that a webhook was sent within WEBHOOK_MAX_AGE_MS of now, so captured webhooks can't be replayed later
+     */
+    private isFresh(eventTimestamp: Date | null): boolean {
+        if (WEBHOOK_CONFIG.MAX_AGE_MS <= 0) {
+            return true;
+        }
+        return eventTimestamp !== null && Math.abs(Date.now() - eventTimestamp.getTime()) <= WEBHOOK_CONFIG.MAX_AGE_MS;
+    }
+
+    /**
+     * Stores the first delivery of an event with its raw payload, later deliveries keep the existing record
+     */
+    private async storeDelivery(
+        eventKey: string,
+        webhook: InvoicePaymentWebhook,
+        body: string,
+        eventTimestamp: Date | null,
+        status: WebhookDeliveryStatus,
+        error?: string
+    ): Promise<void> {
+        const delivery = WebhookDelivery.create({
+            eventKey,
+            eventType: webhook.type,
+            invoiceId: webhook.data.id.toString(),
+            eventTimestamp: eventTimestamp ?? undefined,
+            payload: body,
+            status,
+            error
+        });
+
+        await AppDataSource.createQueryBuilder()
+            .insert()
+            .into(WebhookDelivery)
+            .values(delivery)
+            .orIgnore()
+            .execute();
+    }
+
+    /**
+     * Runs the handler of an event in one transaction with its delivery record locked,
+     * skipping events that were already processed
+     */
+    private async processDelivery(
+        eventKey: string,
+        handler: (queryRunner: QueryRunner) => Promise<DeliveryResult>
+    ): Promise<DeliveryResult> {
+        const queryRunner = AppDataSource.createQueryRunner();
+        await queryRunner.connect();
+        await queryRunner.startTransaction();
+
+        try {
+            const deliveryRepo = queryRunner.manager.getRepository(WebhookDelivery);
+            const delivery = await deliveryRepo.findOne({
+                where: { eventKey },
+                lock: PESSIMISTIC_WRITE_LOCK
+            });
+
+            if (!delivery) {
+                throw new Error(`Webhook delivery ${eventKey} not found`);
+            }
+
+            if (delivery.isProcessed()) {
+                logger.info('[WebhookService] Webhook already processed, skipping:', eventKey);
+                await queryRunner.rollbackTransaction();
+                return { success: true, message: 'Webhook already processed' };
+            }
+
+            const result = await handler(queryRunner);
+
+            await deliveryRepo.update(delivery.id, {
+                status: result.success ? 'processed' : 'failed',
+                attempts: delivery.attempts + 1,
+                error: result.success ? null : result.message,
+                processedAt: result.success ? new Date() : null
+            });
+
+            await queryRunner.commitTransaction();
+            return result;
+        } catch (error) {
+            await queryRunner.rollbackTransaction();
+            await this.markDeliveryFailed(eventKey, error);
+            throw error;
+        } finally {
+            await queryRunner.release();
+        }
+    }
+
+    /**
+     * Records why processing an event failed, so the next delivery processes it again
+     */
+    private async markDeliveryFailed(eventKey: string, error: unknown): Promise<void> {
+        try {
+            await AppDataSource.getRepository(WebhookDelivery).update({ eventKey }, {
+                status: 'failed',
+                attempts: () => 'attempts + 1',
+                error: (error instanceof Error ? error.message : String(error)).substring(0, 255)
+            });
+        } catch (updateError) {
+            logger.error('[WebhookService] Failed to record webhook failure:', { eventKey, error: updateError });
+        }
+    }
+
+    /**
+     * Handles paid invoice webhook event within the delivery transaction
      */
-    private async handleInvoicePaid(webhook: InvoicePaymentWebhook): Promise<{ success: boolean; message: string }> {
+    private async handleInvoicePaid(
+        queryRunner: QueryRunner,
+        webhook: InvoicePaymentWebhook
+    ): Promise<DeliveryResult> {
         logger.info('[WebhookService] Processing paid invoice:', webhook.data.id);
 
         try {
             // Find invoice in database
-            const invoiceRepo = AppDataSource.getRepository(UserInvoice);
+            const invoiceRepo = queryRunner.manager.getRepository(UserInvoice);
             const invoice = await invoiceRepo.findOne({
                 where: { invoiceId: webhook.data.id.toString() },
                 relations: ['user']
@@ -108,56 +284,44 @@ export class WebhookService {
                 return { success: false, message: 'Invoice not found' };
             }
 
-            // Check if invoice is already paid
-            if (invoice.status === 'paid') {
-                logger.info('[WebhookService] Invoice already marked as paid:', webhook.data.id);
-                return { success: true, message: 'Invoice already paid' };
-            }
-
             // Extract payment information
-            const paymentInfo = extractPaymentInfo(webhook);
-            logger.info('[WebhookService] Payment info:', paymentInfo);
+            const paymentInfo = webhook.data.payment;
+            const payment = XRocketPayService.getInstance().parseInvoicePayment(paymentInfo, invoice.amount.currency);
 
             // Log payment amount received information
             logger.info('[WebhookService] Invoice payment details:', {
                 invoiceId: webhook.data.id,
+                paymentNum: payment.paymentNum,
                 requestedAmount: invoice.amount,
                 actualPaymentAmount: paymentInfo.paymentAmount,
                 paymentAmountReceived: paymentInfo.paymentAmountReceived,
-                fee: paymentInfo.paymentAmount - paymentInfo.paymentAmountReceived,
+                fee: payment.amount.minus(payment.amountReceived),
                 currency: webhook.data.currency
             });
 
-            // Update invoice amount with actual payment amount if different
-            if (paymentInfo.paymentAmount !== parseFloat(invoice.amount.toString())) {
-                await invoiceRepo.update(invoice.id, { amount: paymentInfo.paymentAmount });
-            }
-
-            // Update invoice with paymentAmountReceived
-            await invoiceRepo.update(invoice.id, { 
-                paymentAmountReceived: webhook.data.payment.paymentAmountReceived 
-            });
-
-            // Process invoice payment via TransactionService (ensures transaction safety)
-            // Use paymentAmountReceived (amount after fees) for balance update
+            // Store the payment and credit paymentAmountReceived (amount after fees)
+            const actor: AuditActor = {
+                type: 'webhook',
+                id: webhook.type,
+                metadata: {
+                    invoiceId: webhook.data.id,
+                    status: webhook.data.status,
+                    timestamp: webhook.timestamp,
+                    paymentNum: paymentInfo.paymentNum,
+                    paymentAmount: paymentInfo.paymentAmount,
+                    paymentAmountReceived: paymentInfo.paymentAmountReceived
+                }
+            };
             const transactionService = TransactionService.getInstance();
-            await transactionService.processInvoicePayment(invoice, paymentInfo.paymentAmountReceived);
+            const storedPayment = await transactionService.applyInvoicePayment(queryRunner, invoice, payment, actor);
 
-            logger.info('[WebhookService] Successfully processed paid invoice:', webhook.data.id);
+            if (!storedPayment) {
+                logger.info('[WebhookService] Invoice payment already credited:', webhook.data.id);
+                return { success: true, message: 'Invoice payment already credited' };
+            }
 
-            // Notify user about successful payment
-            const formattedAmount = parseFloat(invoice.amount.toString());
-            const internalCurrency = CurrencyConverter.toInternal(webhook.data.currency as any);
-            const keyboard = new InlineKeyboard().text("🏠 Main Menu", "main_menu");
-            await this.bot.api.sendMessage(
-                invoice.user.telegramId,
-                `You successfully deposited ${formattedAmount} ${internalCurrency}!`,
-                {
-                    reply_markup: keyboard,
-                },
-            );
-
-            return { success: true, message: 'Invoice paid successfully' };
+            logger.info('[WebhookService] Successfully processed paid invoice:', webhook.data.id);
+            return { success: true, message: 'Invoice paid successfully', paidInvoice: invoice, payment: storedPayment };
         } catch (error) {
             this.errorHandler.logError(error, ErrorType.DATABASE_ERROR, {
                 conversation: 'webhook_service',
@@ -169,16 +333,17 @@ export class WebhookService {
     }
 
     /**
-     * Handles expired invoice webhook event
+     * Handles expired invoice webhook event within the delivery transaction
      */
-    private async handleInvoiceExpired(webhook: InvoicePaymentWebhook): Promise<{ success: boolean; message: string }> {
+    private async handleInvoiceExpired(queryRunner: QueryRunner, webhook: InvoicePaymentWebhook): Promise<WebhookResult> {
         logger.info('[WebhookService] Processing expired invoice:', webhook.data.id);
 
         try {
             // Find and update invoice status
-            const invoiceRepo = AppDataSource.getRepository(UserInvoice);
+            const invoiceRepo = queryRunner.manager.getRepository(UserInvoice);
             const invoice = await invoiceRepo.findOne({
-                where: { invoiceId: webhook.data.id.toString() }
+                where: { invoiceId: webhook.data.id.toString() },
+                lock: PESSIMISTIC_WRITE_LOCK
             });
 
             if (!invoice) {
@@ -186,6 +351,12 @@ export class WebhookService {
                 return { success: false, message: 'Invoice not found' };
             }
 
+            // A fully paid invoice must not be turned back into an expired one
+            if (invoice.status === 'paid') {
+                logger.info('[WebhookService] Ignoring expiry of paid invoice:', webhook.data.id);
+                return { success: true, message: 'Invoice already paid' };
+            }
+
             // Update invoice status
             await invoiceRepo.update(invoice.id, {
                 status: 'expired',
@@ -193,6 +364,7 @@ export class WebhookService {
             });
 
             logger.info('[WebhookService] Successfully processed expired invoice:', webhook.data.id);
+            this.metricsService.recordInvoice('expired', invoice.currency);
             return { success: true, message: 'Invoice expired successfully' };
         } catch (error) {
             this.errorHandler.logError(error, ErrorType.DATABASE_ERROR, {
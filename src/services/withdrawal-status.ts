@@ -0,0 +1,242 @@
+import { IsNull, MoreThan } from "typeorm";
+import { AppDataSource } from "../config/database";
+import { RECONCILER_CONFIG } from "../config/reconciler";
+import { UserWithdrawal } from "../entities/user-withdrawal";
+import { TransactionService } from "./transaction";
+import { AuditActor } from "./audit";
+import { XRocketPayService } from "./xrocket-pay";
+import { NotificationService } from "./notification";
+import { MetricsService } from "./metrics";
+import { ErrorHandler, ErrorType } from "../bot/utils/error-handler";
+import { BatchCursor } from "../utils/batch-cursor";
+import logger from "../utils/logger";
+
+/**
+ * Audit log actor for refunds of withdrawals that xRocket Pay reported as failed
+ */
+const WITHDRAWAL_STATUS_ACTOR: AuditActor = { type: 'scheduler', id: 'withdrawal_status' };
+
+/**
+ * Tracks pending external withdrawals, syncs their status from xRocket Pay,
+ * refunds failed ones and notifies users when a withdrawal reaches a final state
+ */
+export class WithdrawalStatusService {
+    private static instance: WithdrawalStatusService;
+    private transactionService: TransactionService;
+    private xrocketPayService: XRocketPayService;
+    private errorHandler: ErrorHandler;
+    private metricsService: MetricsService;
+    private timer: NodeJS.Timeout | null = null;
+    private isRunning = false;
+    // Withdrawals xRocket Pay keeps processing stay in CREATED, so each sync continues where the previous one stopped
+    private readonly pendingWithdrawals = new BatchCursor(RECONCILER_CONFIG.BATCH_SIZE);
+
+    private constructor() {
+        this.transactionService = TransactionService.getInstance();
+        this.xrocketPayService = XRocketPayService.getInstance();
+        this.errorHandler = ErrorHandler.getInstance();
+        this.metricsService = MetricsService.getInstance();
+    }
+
+    public static getInstance(): WithdrawalStatusService {
+        if (!WithdrawalStatusService.instance) {
+            WithdrawalStatusService.instance = new WithdrawalStatusService();
+        }
+        return WithdrawalStatusService.instance;
+    }
+
+    /**
+     * Starts periodic polling of pending withdrawals
+     */
+    public start(): void {
+        if (!RECONCILER_CONFIG.ENABLED) {
+            logger.info('[WithdrawalStatusService] Withdrawal tracking disabled by configuration');
+            return;
+        }
+
+        if (this.timer) {
+            return;
+        }
+
+        logger.info('[WithdrawalStatusService] Starting withdrawal tracking:', {
+            intervalMs: RECONCILER_CONFIG.WITHDRAWAL_SYNC_INTERVAL_MS
+        });
+
+        this.timer = setInterval(() => {
+            this.syncPendingWithdrawals().catch(error => {
+                this.errorHandler.logError(error, ErrorType.UNKNOWN_ERROR, {
+                    conversation: 'withdrawal_status_service',
+                    action: 'scheduled_sync'
+                });
+            });
+        }, RECONCILER_CONFIG.WITHDRAWAL_SYNC_INTERVAL_MS);
+    }
+
+    /**
+     * Stops periodic polling. A sync already in progress finishes on its own.
+     */
+    public stop(): void {
+        if (this.timer) {
+            clearInterval(this.timer);
+            this.timer = null;
+            logger.info('[WithdrawalStatusService] Withdrawal tracking stopped');
+        }
+    }
+
+    /**
+     * Syncs the next batch of withdrawals that are still in CREATED state
+     * @returns Number of withdrawals that reached a final state, or null if a sync is already running
+     */
+    public async syncPendingWithdrawals(): Promise<number | null> {
+        if (this.isRunning) {
+            return null;
+        }
+
+        this.isRunning = true;
+        try {
+            const withdrawals = await this.pendingWithdrawals.next((afterId, take) => AppDataSource.getRepository(UserWithdrawal).find({
+                where: { status: 'CREATED', refundedAt: IsNull(), id: MoreThan(afterId) },
+                relations: ['user'],
+                order: { id: 'ASC' },
+                take
+            }));
+
+            let finalized = 0;
+            for (const withdrawal of withdrawals) {
+                try {
+                    const updated = await this.syncWithdrawal(withdrawal);
+                    if (updated.status !== 'CREATED') {
+                        finalized++;
+                    }
+                } catch (error) {
+                    this.errorHandler.logError(error, ErrorType.API_ERROR, {
+                        conversation: 'withdrawal_status_service',
+                        action: 'sync_withdrawal',
+                        data: { withdrawalId: withdrawal.id }
+                    });
+                }
+            }
+
+            if (withdrawals.length > 0) {
+                logger.info('[WithdrawalStatusService] Pending withdrawals synced:', {
+                    checked: withdrawals.length,
+                    finalized
+                });
+            }
+            return finalized;
+        } finally {
+            this.isRunning = false;
+        }
+    }
+
+    /**
+     * Fetches the withdrawal status from xRocket Pay and applies it.
+     * COMPLETED stores the transaction details, FAIL refunds the balance. The user is notified
+     * only by the caller that actually moved the withdrawal out of CREATED, so concurrent syncs
+     * (manual check button and background polling) never notify twice.
+     * @param withdrawal - The withdrawal to sync
+     * @returns The withdrawal as stored after the sync
+     */
+    public async syncWithdrawal(withdrawal: UserWithdrawal): Promise<UserWithdrawal> {
+        const withdrawalRepo = AppDataSource.getRepository(UserWithdrawal);
+
+        if (withdrawal.status !== 'CREATED' || withdrawal.refundedAt) {
+            return withdrawal;
+        }
+
+        let statusResponse;
+        try {
+            // We send our local ID as the withdrawalId, so it identifies the withdrawal even if the creation response was lost
+            statusResponse = await this.xrocketPayService.getWithdrawalStatus(
+                withdrawal.withdrawalId || withdrawal.id.toString()
+            );
+        } catch (apiError) {
+            const status = (apiError as any)?.response?.status;
+            if (!withdrawal.withdrawalId && status === 404) {
+                // A recent withdrawal may still have its createWithdrawal call in flight
+                if (!this.isAbandoned(withdrawal)) {
+                    return withdrawal;
+                }
+                // A withdrawal that was never acknowledged and is unknown to xRocket Pay was not created
+                await this.failWithdrawal(withdrawal, 'Withdrawal was not created in xRocket Pay');
+                return await this.reload(withdrawal);
+            }
+            throw apiError;
+        }
+
+        const data = statusResponse.data!;
+
+        if (data.status === 'COMPLETED') {
+            // Only the sync that flips the status from CREATED sends the notification
+            const result = await withdrawalRepo.update(
+                { id: withdrawal.id, status: 'CREATED' },
+                {
+                    status: 'COMPLETED',
+                    withdrawalId: withdrawal.withdrawalId || data.withdrawalId,
+                    txHash: data.txHash || withdrawal.txHash,
+                    txLink: data.txLink || withdrawal.txLink
+                }
+            );
+
+            const updatedWithdrawal = await this.reload(withdrawal);
+            if (result.affected) {
+                logger.info('[WithdrawalStatusService] Withdrawal completed:', withdrawal.id);
+                this.metricsService.recordOperation('withdrawal', 'completed', withdrawal.currency);
+                await NotificationService.getInstance().notifyWithdrawalStatus(updatedWithdrawal);
+            }
+            return updatedWithdrawal;
+        }
+
+        if (data.status === 'FAIL') {
+            await withdrawalRepo.update(withdrawal.id, {
+                withdrawalId: withdrawal.withdrawalId || data.withdrawalId,
+                txHash: data.txHash || withdrawal.txHash,
+                txLink: data.txLink || withdrawal.txLink,
+                error: data.error || withdrawal.error
+            });
+            await this.failWithdrawal(withdrawal, data.error || 'Withdrawal failed');
+            return await this.reload(withdrawal);
+        }
+
+        // Still processing
+        if (!withdrawal.withdrawalId && data.withdrawalId) {
+            await withdrawalRepo.update(withdrawal.id, { withdrawalId: data.withdrawalId });
+        }
+        return await this.reload(withdrawal);
+    }
+
+    /**
+     * Checks whether the createWithdrawal call of a withdrawal can no longer be running:
+     * the withdrawal is older than RECONCILER_STALE_AFTER_MS or was interrupted by a shutdown
+     */
+    private isAbandoned(withdrawal: UserWithdrawal): boolean {
+        return Boolean(withdrawal.interruptedAt)
+            || withdrawal.createdAt.getTime() < Date.now() - RECONCILER_CONFIG.STALE_AFTER_MS;
+    }
+
+    /**
+     * Refunds a failed withdrawal and notifies the user if this call made the refund
+     */
+    private async failWithdrawal(withdrawal: UserWithdrawal, reason: string): Promise<void> {
+        const refunded = await this.transactionService.refundWithdrawal(withdrawal.id, reason, WITHDRAWAL_STATUS_ACTOR);
+        if (refunded) {
+            logger.info('[WithdrawalStatusService] Withdrawal failed and refunded:', withdrawal.id);
+            await NotificationService.getInstance().notifyWithdrawalStatus(await this.reload(withdrawal));
+        }
+    }
+
+    /**
+     * Reloads a withdrawal with its user
+     */
+    private async reload(withdrawal: UserWithdrawal): Promise<UserWithdrawal> {
+        const updatedWithdrawal = await AppDataSource.getRepository(UserWithdrawal).findOne({
+            where: { id: withdrawal.id },
+            relations: ['user']
+        });
+
+        if (!updatedWithdrawal) {
+            throw new Error(`Withdrawal ${withdrawal.id} not found`);
+        }
+        return updatedWithdrawal;
+    }
+}
@@ -1,14 +1,18 @@
 import { XRocketPayClient } from 'xrocket-pay-api-sdk';
+import { IsNull } from 'typeorm';
 import { UserInvoice } from '../entities/user-invoice';
+import { InvoicePaymentDetails } from '../entities/invoice-payment';
 import { UserTransfer } from '../entities/user-transfer';
 import { UserCheque } from '../entities/user-cheque';
 import { UserWithdrawal } from '../entities/user-withdrawal';
 import { AppDataSource } from '../config/database';
 import { CurrencyConverter, InternalCurrency } from '../types/currency';
+import { Money } from '../types/money';
 import { CreateChequeDto, SimpleChequeResponse, PaginatedShortChequeDtoResponse } from 'xrocket-pay-api-sdk/dist/types/multicheque';
 import { CreateWithdrawalDto, AppWithdrawalResponse, WithdrawalFeesResponse, WithdrawalStatusResponse } from 'xrocket-pay-api-sdk/dist/types/app';
 import { AvailableCoinsResponse } from 'xrocket-pay-api-sdk/dist/types/currencies';
 import { ErrorHandler, ErrorType } from '../bot/utils/error-handler';
+import { MetricsService } from './metrics';
 
 const errorHandler = ErrorHandler.getInstance();
 
@@ -31,6 +35,23 @@ export class XRocketPayService {
         return XRocketPayService.instance;
     }
 
+    /**
+     * Calls the xRocket Pay API, recording its duration and outcome in the metrics
+     * @param method - The API client method, used as metric label
+     * @param call - The API call
+     */
+    private async request<T>(method: string, call: () => T): Promise<Awaited<T>> {
+        const startedAt = Date.now();
+        let failed = true;
+        try {
+            const response = await call();
+            failed = (response as { success?: boolean } | undefined)?.success === false;
+            return response;
+        } finally {
+            MetricsService.getInstance().recordXRocketRequest(method, Date.now() - startedAt, failed);
+        }
+    }
+
     /**
      * Creates a new payment invoice
      */
@@ -42,14 +63,17 @@ export class XRocketPayService {
             // Create callback URL to redirect back to bot
             const callbackUrl = `https://t.me/${process.env.BOT_USERNAME || 'xrocketpay_example_bot'}?start=invoice_${userInvoice.id}`;
             
-            const response = await this.client.createInvoice({
-                amount: userInvoice.amount,
+            const response = await this.request('createInvoice', () => this.client.createInvoice({
+                amount: userInvoice.amount.toNumber(),
                 currency: externalCurrency,
                 description: `Deposit for user ${userInvoice.user.telegramId}`,
-                numPayments: 1,
-                expiredIn: 3600, // 1 hour expiration
+                numPayments: userInvoice.numPayments,
+                // Seconds left until the chosen expiry, 0 keeps the invoice open until it is paid or deleted
+                expiredIn: userInvoice.expiresAt
+                    ? Math.max(1, Math.round((userInvoice.expiresAt.getTime() - Date.now()) / 1000))
+                    : 0,
                 callbackUrl: callbackUrl
-            });
+            }));
 
             if (!response.success || !response.data) {
                 throw new Error('Failed to create invoice');
@@ -62,6 +86,7 @@ export class XRocketPayService {
                 invoiceId: response.data.id.toString(),
                 paymentUrl: response.data.link
             });
+            MetricsService.getInstance().recordInvoice('created', userInvoice.currency);
 
             return {
                 paymentUrl: response.data.link,
@@ -82,7 +107,7 @@ export class XRocketPayService {
      */
     public async checkInvoiceStatus(invoiceId: string): Promise<{ status: string; data?: any }> {
         try {
-            const response = await this.client.getInvoice(invoiceId);
+            const response = await this.request('getInvoice', () => this.client.getInvoice(invoiceId));
             if (!response.success || !response.data) {
                 throw new Error('Failed to get invoice status');
             }
@@ -100,12 +125,49 @@ export class XRocketPayService {
         }
     }
 
+    /**
+     * Gets the status and all payments made so far of an invoice
+     * @param userInvoice - The local invoice, with its xRocket Pay invoice ID set
+     * @returns The xRocket Pay status and the payments in the invoice's currency
+     */
+    public async getInvoicePayments(userInvoice: UserInvoice): Promise<{ status: string; payments: InvoicePaymentDetails[] }> {
+        const { status, data } = await this.checkInvoiceStatus(userInvoice.invoiceId);
+        const currency = userInvoice.currency as InternalCurrency;
+        const payments: InvoicePaymentDetails[] = (data?.payments ?? []).map(
+            (payment: any) => this.parseInvoicePayment(payment, currency)
+        );
+
+        // Paid single-payment invoices without payment details are credited with the invoice amount
+        if (status === 'paid' && payments.length === 0) {
+            payments.push({ paymentNum: 1, amount: userInvoice.amount, amountReceived: userInvoice.amount });
+        }
+
+        return { status, payments };
+    }
+
+    /**
+     * Converts a payment as returned by xRocket Pay in invoices and webhooks
+     * @param payment - The raw payment object
+     * @param currency - The internal currency of the invoice
+     * @returns The payment details with exact amounts
+     */
+    public parseInvoicePayment(payment: any, currency: InternalCurrency): InvoicePaymentDetails {
+        return {
+            paymentNum: Number(payment.paymentNum ?? 1),
+            payerTelegramId: payment.userId ?? undefined,
+            amount: Money.round(payment.paymentAmount, currency),
+            amountReceived: Money.round(payment.paymentAmountReceived ?? payment.paymentAmount, currency),
+            comment: payment.comment ?? undefined,
+            paidAt: payment.paid ? new Date(payment.paid) : undefined
+        };
+    }
+
     /**
      * Deletes an invoice
      */
     public async deleteInvoice(invoiceId: string): Promise<boolean> {
         try {
-            const response = await this.client.deleteInvoice(invoiceId);
+            const response = await this.request('deleteInvoice', () => this.client.deleteInvoice(invoiceId));
             
             if (!response.success) {
                 throw new Error('Failed to delete invoice');
@@ -128,7 +190,7 @@ export class XRocketPayService {
     public async createTransfer(userTransfer: UserTransfer): Promise<{ transferId: string }> {
         try {
             // Validate input
-            if (!userTransfer.amount || userTransfer.amount <= 0) {
+            if (!userTransfer.amount || !userTransfer.amount.isPositive()) {
                 throw new Error('Invalid transfer amount');
             }
 
@@ -143,13 +205,13 @@ export class XRocketPayService {
             // Convert internal currency to external currency for xRocket Pay API
             const externalCurrency = CurrencyConverter.toExternal(userTransfer.currency as InternalCurrency);
             
-            const response = await this.client.createTransfer({
-                amount: userTransfer.amount,
+            const response = await this.request('createTransfer', () => this.client.createTransfer({
+                amount: userTransfer.amount.toNumber(),
                 currency: externalCurrency,
                 tgUserId: userTransfer.recipientTelegramId,
                 transferId: userTransfer.id.toString(),
                 description: `Transfer from ${userTransfer.sender.username || userTransfer.sender.telegramId}`
-            });
+            }));
 
             if (!response.success || !response.data) {
                 throw new Error('Failed to create transfer');
@@ -180,7 +242,7 @@ export class XRocketPayService {
     public async createMulticheque(userCheque: UserCheque): Promise<{ chequeId: number; link: string }> {
         try {
             // Validate input
-            if (!userCheque.amount || userCheque.amount <= 0) {
+            if (!userCheque.amount || !userCheque.amount.isPositive()) {
                 throw new Error('Invalid cheque amount');
             }
 
@@ -197,15 +259,17 @@ export class XRocketPayService {
             
             const chequeData: CreateChequeDto = {
                 currency: externalCurrency,
-                chequePerUser: userCheque.amount,
+                chequePerUser: userCheque.amount.toNumber(),
                 usersNumber: userCheque.usersNumber,
-                refProgram: 0, // No referral program for now
-                description: `Cheque from ${userCheque.user.username || userCheque.user.telegramId}`,
+                refProgram: userCheque.refProgramPercent,
+                description: userCheque.description || `Cheque from ${userCheque.user.username || userCheque.user.telegramId}`,
+                password: userCheque.password || undefined,
                 sendNotifications: true,
-                enableCaptcha: true
+                enableCaptcha: userCheque.enableCaptcha,
+                forPremium: userCheque.forPremium
             };
 
-            const response = await this.client.createMulticheque(chequeData);
+            const response = await this.request('createMulticheque', () => this.client.createMulticheque(chequeData));
 
             if (!response.success || !response.data) {
                 throw new Error('Failed to create multicheque');
@@ -238,7 +302,7 @@ export class XRocketPayService {
      */
     public async getMulticheque(chequeId: number): Promise<SimpleChequeResponse> {
         try {
-            const response = await this.client.getMulticheque(chequeId);
+            const response = await this.request('getMulticheque', () => this.client.getMulticheque(chequeId));
             
             if (!response.success) {
                 throw new Error('Failed to get multicheque');
@@ -260,7 +324,7 @@ export class XRocketPayService {
      */
     public async getMulticheques(params?: { page?: number; limit?: number }): Promise<PaginatedShortChequeDtoResponse> {
         try {
-            const response = await this.client.getMulticheques(params);
+            const response = await this.request('getMulticheques', () => this.client.getMulticheques(params));
             
             if (!response.success) {
                 throw new Error('Failed to get multicheques');
@@ -277,6 +341,28 @@ export class XRocketPayService {
         }
     }
 
+    /**
+     * Deletes a multicheque, returning its unclaimed funds to the app balance
+     */
+    public async deleteMulticheque(chequeId: number): Promise<SimpleChequeResponse> {
+        try {
+            const response = await this.request('deleteMulticheque', () => this.client.deleteMulticheque(chequeId));
+            
+            if (!response.success) {
+                throw new Error('Failed to delete multicheque');
+            }
+
+            return response;
+        } catch (error) {
+            errorHandler.logError(error, ErrorType.API_ERROR, {
+                conversation: 'xrocket_pay_service',
+                action: 'delete_multicheque',
+                data: { chequeId }
+            });
+            throw error;
+        }
+    }
+
     /**
      * Validates if a Telegram ID exists and is valid
      */
@@ -311,7 +397,7 @@ export class XRocketPayService {
     public async createWithdrawal(userWithdrawal: UserWithdrawal): Promise<{ withdrawalId: string }> {
         try {
             // Validate input
-            if (!userWithdrawal.amount || userWithdrawal.amount <= 0) {
+            if (!userWithdrawal.amount || !userWithdrawal.amount.isPositive()) {
                 throw new Error('Invalid withdrawal amount');
             }
             if (!userWithdrawal.currency) {
@@ -328,7 +414,7 @@ export class XRocketPayService {
             const externalCurrency = CurrencyConverter.toExternal(userWithdrawal.currency as InternalCurrency);
 
             const withdrawalDto: CreateWithdrawalDto = {
-                amount: userWithdrawal.amount,
+                amount: userWithdrawal.amount.toNumber(),
                 currency: externalCurrency,
                 withdrawalId: userWithdrawal.id.toString(),
                 network: userWithdrawal.network,
@@ -336,15 +422,15 @@ export class XRocketPayService {
                 comment: userWithdrawal.comment || undefined
             };
 
-            const response: AppWithdrawalResponse = await this.client.createWithdrawal(withdrawalDto);
+            const response: AppWithdrawalResponse = await this.request('createWithdrawal', () => this.client.createWithdrawal(withdrawalDto));
 
             if (!response.success || !response.data) {
                 throw new Error('Failed to create withdrawal');
             }
 
-            // Update withdrawal with withdrawal ID and status
+            // Update withdrawal with withdrawal ID and status, unless it was refunded meanwhile
             const withdrawalRepo = AppDataSource.getRepository(UserWithdrawal);
-            await withdrawalRepo.update(userWithdrawal.id, {
+            await withdrawalRepo.update({ id: userWithdrawal.id, refundedAt: IsNull() }, {
                 withdrawalId: response.data.withdrawalId,
                 status: response.data.status,
                 txHash: response.data.txHash || null,
@@ -370,7 +456,7 @@ export class XRocketPayService {
      */
     public async getAvailableCurrencies(): Promise<AvailableCoinsResponse> {
         try {
-            const response: AvailableCoinsResponse = await this.client.getAvailableCurrencies();
+            const response: AvailableCoinsResponse = await this.request('getAvailableCurrencies', () => this.client.getAvailableCurrencies());
             if (!response.success || !response.data) {
                 throw new Error('Failed to get available currencies');
             }
@@ -392,7 +478,7 @@ export class XRocketPayService {
             // Convert internal currency to external currency for xRocket Pay API
             const externalCurrency = CurrencyConverter.toExternal(currency as InternalCurrency);
             
-            const response: AvailableCoinsResponse = await this.client.getAvailableCurrencies();
+            const response: AvailableCoinsResponse = await this.request('getAvailableCurrencies', () => this.client.getAvailableCurrencies());
             if (!response.success || !response.data) {
                 throw new Error('Failed to get available networks');
             }
@@ -423,7 +509,7 @@ export class XRocketPayService {
             // Convert internal currency to external currency for xRocket Pay API
             const externalCurrency = CurrencyConverter.toExternal(currency as InternalCurrency);
             
-            const response: WithdrawalFeesResponse = await this.client.getWithdrawalFees(externalCurrency);
+            const response: WithdrawalFeesResponse = await this.request('getWithdrawalFees', () => this.client.getWithdrawalFees(externalCurrency));
             if (!response.success || !response.data) {
                 throw new Error('Failed to get withdrawal fees');
             }
@@ -443,7 +529,7 @@ export class XRocketPayService {
      */
     public async getWithdrawalStatus(withdrawalId: string): Promise<WithdrawalStatusResponse> {
         try {
-            const response: WithdrawalStatusResponse = await this.client.getWithdrawalStatus(withdrawalId);
+            const response: WithdrawalStatusResponse = await this.request('getWithdrawalStatus', () => this.client.getWithdrawalStatus(withdrawalId));
             if (!response.success || !response.data) {
                 throw new Error('Failed to get withdrawal status');
             }
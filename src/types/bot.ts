@@ -5,22 +5,33 @@ import { InternalCurrency } from "./currency";
 
 /**
  * Session data interface for the bot
+ * Amounts are kept as decimal strings (Money.toString) so they survive session serialization exactly
  */
 export interface SessionData {
     step?: string;
     selectedCoin?: InternalCurrency;
-    amount?: number;
+    amount?: string;
     messageId?: number;
     invoiceId?: string;
-    transferAmount?: number;
+    // Deposit flow fields
+    depositAmount?: string;
+    depositPayments?: number;
+    transferAmount?: string;
     recipientId?: number;
     transferRecipientId?: number;
-    multichequeAmount?: number;
+    multichequeAmount?: string;
+    // Multicheque options
+    multichequeUsers?: number;
+    multichequePassword?: string;
+    multichequeDescription?: string;
+    multichequeRefPercent?: number;
+    multichequeCaptcha?: boolean;
+    multichequePremiumOnly?: boolean;
     // External withdrawal flow fields
-    withdrawalAmount?: number;
+    withdrawalAmount?: string;
     withdrawalNetwork?: string;
     withdrawalAddress?: string;
-    withdrawalFee?: number;
+    withdrawalFee?: string;
 }
 
 /**
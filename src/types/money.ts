@@ -0,0 +1,240 @@
+import { ValueTransformer } from "typeorm";
+import { CURRENCIES, CurrencyConverter, InternalCurrency } from "./currency";
+
+/**
+ * Thrown when a value can't be represented as an amount of a currency
+ */
+export class InvalidAmountError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'InvalidAmountError';
+    }
+}
+
+/**
+ * Largest number of decimals of any supported currency, used as the scale of amount columns
+ */
+export const MONEY_SCALE = Math.max(...Object.values(CURRENCIES).map(c => c.decimals));
+
+const DECIMAL_PATTERN = /^([+-])?(\d+)(?:\.(\d+))?$/;
+const EXPONENT_PATTERN = /^([+-])?(\d+)(?:\.(\d+))?e([+-]?\d+)$/i;
+
+/**
+ * Converts a number to plain decimal notation, expanding exponents such as 1e-7
+ * The shortest representation is used, so 0.1 stays "0.1" rather than its binary approximation
+ */
+function numberToDecimalString(value: number): string {
+    if (!Number.isFinite(value)) {
+        throw new InvalidAmountError(`Amount must be a finite number, got ${value}`);
+    }
+
+    const text = String(value);
+    const match = EXPONENT_PATTERN.exec(text);
+    if (!match) {
+        return text;
+    }
+
+    const [, sign = '', integerPart, fractionPart = '', exponentText] = match;
+    const digits = integerPart + fractionPart;
+    const pointPosition = integerPart.length + parseInt(exponentText, 10);
+
+    if (pointPosition <= 0) {
+        return `${sign}0.${'0'.repeat(-pointPosition)}${digits}`;
+    }
+    if (pointPosition >= digits.length) {
+        return `${sign}${digits}${'0'.repeat(pointPosition - digits.length)}`;
+    }
+    return `${sign}${digits.slice(0, pointPosition)}.${digits.slice(pointPosition)}`;
+}
+
+/**
+ * Exact amount of a currency, stored as an integer number of the currency's smallest units
+ * All balance arithmetic goes through this type so amounts never pick up floating-point error
+ */
+export class Money {
+    private constructor(
+        public readonly currency: InternalCurrency,
+        private readonly units: bigint
+    ) {}
+
+    /**
+     * Creates a zero amount
+     */
+    public static zero(currency: InternalCurrency): Money {
+        return new Money(currency, 0n);
+    }
+
+    /**
+     * Creates an amount from an exact decimal value, e.g. user input
+     * @throws InvalidAmountError if the value isn't a decimal number or has more decimals than the currency supports
+     */
+    public static of(value: number | string, currency: InternalCurrency): Money {
+        const { sign, integerPart, fractionPart } = Money.parseDecimal(value);
+        const decimals = CurrencyConverter.getConfig(currency).decimals;
+        const significantFraction = fractionPart.replace(/0+$/, '');
+
+        if (significantFraction.length > decimals) {
+            throw new InvalidAmountError(`${currency} supports at most ${decimals} decimal places, got ${value}`);
+        }
+
+        return Money.fromParts(currency, sign, integerPart, fractionPart.padEnd(decimals, '0').slice(0, decimals));
+    }
+
+    /**
+     * Creates an amount from a value that may carry extra digits, rounding half away from zero to the currency precision
+     * Used for values read from the database or returned by the xRocket Pay API
+     * @throws InvalidAmountError if the value isn't a decimal number
+     */
+    public static round(value: Money | number | string, currency: InternalCurrency): Money {
+        if (value instanceof Money) {
+            Money.assertCurrency(value.currency, currency);
+            return value;
+        }
+
+        const { sign, integerPart, fractionPart } = Money.parseDecimal(value);
+        const decimals = CurrencyConverter.getConfig(currency).decimals;
+        const padded = fractionPart.padEnd(decimals + 1, '0');
+        const roundUp = padded[decimals] >= '5';
+
+        const amount = Money.fromParts(currency, '', integerPart, padded.slice(0, decimals));
+        const rounded = roundUp ? new Money(currency, amount.units + 1n) : amount;
+        return sign === '-' ? rounded.negated() : rounded;
+    }
+
+    /**
+     * Adds up amounts of the same currency
+     */
+    public static sum(amounts: Money[], currency: InternalCurrency): Money {
+        return amounts.reduce((total, amount) => total.plus(amount), Money.zero(currency));
+    }
+
+    /**
+     * Number of decimal places of the currency
+     */
+    public get decimals(): number {
+        return CurrencyConverter.getConfig(this.currency).decimals;
+    }
+
+    public plus(other: Money): Money {
+        Money.assertCurrency(this.currency, other.currency);
+        return new Money(this.currency, this.units + other.units);
+    }
+
+    public minus(other: Money): Money {
+        Money.assertCurrency(this.currency, other.currency);
+        return new Money(this.currency, this.units - other.units);
+    }
+
+    /**
+     * Multiplies the amount by a whole number, e.g. the per-user amount of a cheque by its number of users
+     */
+    public multipliedBy(factor: number): Money {
+        if (!Number.isSafeInteger(factor)) {
+            throw new InvalidAmountError(`Amounts can only be multiplied by whole numbers, got ${factor}`);
+        }
+        return new Money(this.currency, this.units * BigInt(factor));
+    }
+
+    public negated(): Money {
+        return new Money(this.currency, -this.units);
+    }
+
+    public abs(): Money {
+        return this.units < 0n ? this.negated() : this;
+    }
+
+    public isZero(): boolean {
+        return this.units === 0n;
+    }
+
+    public isPositive(): boolean {
+        return this.units > 0n;
+    }
+
+    public isNegative(): boolean {
+        return this.units < 0n;
+    }
+
+    /**
+     * Compares two amounts of the same currency
+     * @returns -1, 0 or 1 if this amount is less than, equal to or greater than the other
+     */
+    public compareTo(other: Money): number {
+        Money.assertCurrency(this.currency, other.currency);
+        return this.units === other.units ? 0 : this.units < other.units ? -1 : 1;
+    }
+
+    public equals(other: Money): boolean {
+        return this.currency === other.currency && this.units === other.units;
+    }
+
+    public isGreaterThan(other: Money): boolean {
+        return this.compareTo(other) > 0;
+    }
+
+    public isLessThan(other: Money): boolean {
+        return this.compareTo(other) < 0;
+    }
+
+    /**
+     * Formats the amount with all of the currency's decimal places, e.g. "1.500000" for USDT
+     */
+    public toFixed(): string {
+        const negative = this.units < 0n;
+        const digits = (negative ? -this.units : this.units).toString().padStart(this.decimals + 1, '0');
+        const integerPart = digits.slice(0, digits.length - this.decimals);
+        const fractionPart = digits.slice(digits.length - this.decimals);
+        return `${negative ? '-' : ''}${integerPart}${fractionPart ? `.${fractionPart}` : ''}`;
+    }
+
+    /**
+     * Formats the amount without trailing zeros, e.g. "1.5"
+     */
+    public toString(): string {
+        return this.toFixed().replace(/\.?0+$/, '') || '0';
+    }
+
+    /**
+     * Converts the amount to a number for APIs that only accept numbers
+     * Safe for any amount that fits into the decimal columns, but must not be used for arithmetic
+     */
+    public toNumber(): number {
+        return Number(this.toFixed());
+    }
+
+    public toJSON(): string {
+        return this.toString();
+    }
+
+    private static fromParts(currency: InternalCurrency, sign: string, integerPart: string, fractionPart: string): Money {
+        const units = BigInt(integerPart + fractionPart);
+        return new Money(currency, sign === '-' ? -units : units);
+    }
+
+    private static parseDecimal(value: number | string): { sign: string; integerPart: string; fractionPart: string } {
+        const text = typeof value === 'number' ? numberToDecimalString(value) : value.trim();
+        const match = DECIMAL_PATTERN.exec(text);
+        if (!match) {
+            throw new InvalidAmountError(`Invalid amount: ${value}`);
+        }
+
+        const [, sign = '', integerPart, fractionPart = ''] = match;
+        return { sign, integerPart, fractionPart };
+    }
+
+    private static assertCurrency(actual: InternalCurrency, expected: InternalCurrency): void {
+        if (actual !== expected) {
+            throw new InvalidAmountError(`Currency mismatch: expected ${expected}, got ${actual}`);
+        }
+    }
+}
+
+/**
+ * Writes Money to decimal columns
+ * Reads are left as the raw driver value (a string on MySQL and PostgreSQL, a number on SQLite) because the
+ * currency lives in another column; entities wrap them with Money.round in an @AfterLoad hook
+ */
+export const MONEY_TRANSFORMER: ValueTransformer = {
+    to: (value: unknown) => value instanceof Money ? value.toFixed() : value,
+    from: (value: unknown) => value
+};
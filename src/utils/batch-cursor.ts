@@ -0,0 +1,29 @@
+/**
+ * Walks through a set of records in ID order one batch at a time, starting over after the last record.
+ * Periodic jobs use it so records that stay in the set for a long time can't take up every batch
+ * and keep newer records from ever being processed.
+ */
+export class BatchCursor {
+    private lastId = 0;
+
+    constructor(private readonly batchSize: number) {}
+
+    /**
+     * Fetches the next batch, filled up from the start of the set once the end is reached
+     * @param fetch - Loads up to `take` records with an ID greater than `afterId`, ordered by ID
+     * @returns The records to process in this run
+     */
+    public async next<T extends { id: number }>(fetch: (afterId: number, take: number) => Promise<T[]>): Promise<T[]> {
+        const batch = await fetch(this.lastId, this.batchSize);
+
+        if (batch.length < this.batchSize && this.lastId > 0) {
+            const seen = new Set(batch.map(record => record.id));
+            const wrapped = await fetch(0, this.batchSize - batch.length);
+            batch.push(...wrapped.filter(record => !seen.has(record.id)));
+        }
+
+        // A short batch covered the whole set, the next run starts from the beginning again
+        this.lastId = batch.length < this.batchSize ? 0 : batch[batch.length - 1].id;
+        return batch;
+    }
+}
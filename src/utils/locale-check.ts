@@ -0,0 +1,169 @@
+import { readdirSync, readFileSync } from "fs";
+import { basename, extname, join } from "path";
+import { FluentResource } from "@fluent/bundle";
+
+type FluentEntry = FluentResource['body'][number];
+type FluentPattern = FluentEntry['value'];
+type FluentElement = Exclude<NonNullable<FluentPattern>, string>[number];
+
+/**
+ * Messages of one translation file, with the Fluent variables each message uses
+ */
+export interface LocaleMessages {
+    locale: string;
+    messages: Map<string, Set<string>>;
+}
+
+/**
+ * A difference between a translation file and the base locale
+ * - missing: the key exists in the base locale only
+ * - extra: the key exists in this locale only
+ * - variables: both have the key but use different variables
+ */
+export interface LocaleIssue {
+    locale: string;
+    key: string;
+    type: 'missing' | 'extra' | 'variables';
+    missingVariables?: string[];
+    extraVariables?: string[];
+}
+
+/**
+ * Collects variable names used by a Fluent pattern, including selectors, variants and function arguments
+ */
+function collectVariables(pattern: FluentPattern | FluentElement, variables: Set<string>): void {
+    if (pattern === null || typeof pattern === 'string') {
+        return;
+    }
+    if (Array.isArray(pattern)) {
+        pattern.forEach(element => collectVariables(element, variables));
+        return;
+    }
+
+    switch (pattern.type) {
+        case 'var':
+            variables.add(pattern.name);
+            break;
+        case 'select':
+            collectVariables(pattern.selector, variables);
+            pattern.variants.forEach(variant => collectVariables(variant.value, variables));
+            break;
+        case 'func':
+        case 'term':
+            pattern.args.forEach(arg => {
+                if (arg.type !== 'narg') {
+                    collectVariables(arg, variables);
+                }
+            });
+            break;
+    }
+}
+
+/**
+ * Parses a Fluent source into message keys and the variables each message uses.
+ * Attributes are reported as `key.attribute`, terms are skipped since they can't take outside variables.
+ * @param locale - The locale the source belongs to
+ * @param source - The Fluent source
+ * @returns The parsed messages
+ */
+export function parseLocale(locale: string, source: string): LocaleMessages {
+    const messages = new Map<string, Set<string>>();
+    for (const entry of new FluentResource(source).body) {
+        if (entry.id.startsWith('-')) {
+            continue;
+        }
+
+        const variables = new Set<string>();
+        collectVariables(entry.value, variables);
+        messages.set(entry.id, variables);
+
+        for (const [attribute, pattern] of Object.entries(entry.attributes)) {
+            const attributeVariables = new Set<string>();
+            collectVariables(pattern, attributeVariables);
+            messages.set(`${entry.id}.${attribute}`, attributeVariables);
+        }
+    }
+    return { locale, messages };
+}
+
+/**
+ * Reads every `.ftl` file of a directory, named after its locale like the i18n middleware expects
+ * @param directory - The locales directory
+ * @returns The parsed messages of each locale, sorted by locale
+ */
+export function loadLocales(directory: string): LocaleMessages[] {
+    return readdirSync(directory)
+        .filter(file => extname(file) === '.ftl')
+        .sort()
+        .map(file => parseLocale(basename(file, '.ftl'), readFileSync(join(directory, file), 'utf8')));
+}
+
+/**
+ * Compares every locale with the base locale
+ * @param locales - The parsed locales
+ * @param baseLocale - The locale other translations must match
+ * @returns The differences found, grouped by locale and ordered by key
+ */
+export function compareLocales(locales: LocaleMessages[], baseLocale: string): LocaleIssue[] {
+    const base = locales.find(locale => locale.locale === baseLocale);
+    if (!base) {
+        throw new Error(`Base locale ${baseLocale} not found`);
+    }
+
+    const issues: LocaleIssue[] = [];
+    for (const { locale, messages } of locales) {
+        if (locale === baseLocale) {
+            continue;
+        }
+
+        const keys = [...new Set([...base.messages.keys(), ...messages.keys()])].sort();
+        for (const key of keys) {
+            const baseVariables = base.messages.get(key);
+            const variables = messages.get(key);
+            if (!variables) {
+                issues.push({ locale, key, type: 'missing' });
+                continue;
+            }
+            if (!baseVariables) {
+                issues.push({ locale, key, type: 'extra' });
+                continue;
+            }
+
+            const missingVariables = [...baseVariables].filter(name => !variables.has(name));
+            const extraVariables = [...variables].filter(name => !baseVariables.has(name));
+            if (missingVariables.length > 0 || extraVariables.length > 0) {
+                issues.push({ locale, key, type: 'variables', missingVariables, extraVariables });
+            }
+        }
+    }
+    return issues;
+}
+
+/**
+ * Checks that all translation files of a directory have the same keys and variables as the base locale
+ * @param directory - The locales directory
+ * @param baseLocale - The locale other translations must match
+ * @returns The differences found
+ */
+export function checkLocales(directory: string, baseLocale: string): LocaleIssue[] {
+    return compareLocales(loadLocales(directory), baseLocale);
+}
+
+/**
+ * Formats an issue as a single line for the console
+ */
+export function formatLocaleIssue(issue: LocaleIssue): string {
+    switch (issue.type) {
+        case 'missing':
+            return `${issue.locale}: missing key ${issue.key}`;
+        case 'extra':
+            return `${issue.locale}: extra key ${issue.key}`;
+        case 'variables': {
+            const details = [
+                ...(issue.missingVariables ?? []).map(name => `missing $${name}`),
+                ...(issue.extraVariables ?? []).map(name => `extra $${name}`)
+            ];
+            return `${issue.locale}: ${issue.key} has mismatched variables (${details.join(', ')})`;
+        }
+    }
+}
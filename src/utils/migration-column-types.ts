@@ -0,0 +1,114 @@
+import { QueryRunner, TableColumnOptions, TableForeignKey } from "typeorm";
+import { MONEY_COLUMN } from "../config/database-type";
+
+/**
+ * Column definitions for migrations whose SQL types differ between MySQL, PostgreSQL and SQLite,
+ * matching what the entity decorators produce on each backend.
+ * Kept outside src/migrations so the migrations glob only picks up migration classes
+ */
+export class ColumnTypes {
+    private readonly isSqlite: boolean;
+    private readonly isMysql: boolean;
+
+    constructor(private readonly queryRunner: QueryRunner) {
+        const type = queryRunner.connection.options.type;
+        this.isSqlite = type === 'better-sqlite3' || type === 'sqlite';
+        this.isMysql = type === 'mysql' || type === 'mariadb';
+    }
+
+    public id(): TableColumnOptions {
+        return { name: 'id', type: 'integer', isPrimary: true, isGenerated: true, generationStrategy: 'increment' };
+    }
+
+    /**
+     * Amount column as it was before amounts were widened to MONEY_COLUMN
+     */
+    public decimal(name: string, isNullable = false): TableColumnOptions {
+        return { name, type: 'decimal', precision: 20, scale: 8, isNullable };
+    }
+
+    /**
+     * Amount column matching MONEY_COLUMN
+     */
+    public money(name: string, isNullable = false): TableColumnOptions {
+        return { name, type: 'decimal', precision: MONEY_COLUMN.precision, scale: MONEY_COLUMN.scale, isNullable };
+    }
+
+    public boolean(name: string, defaultValue: boolean): TableColumnOptions {
+        const value = this.isSqlite ? (defaultValue ? '1' : '0') : String(defaultValue);
+        return { name, type: 'boolean', default: value };
+    }
+
+    public enumeration(name: string, values: string[], defaultValue?: string): TableColumnOptions {
+        return {
+            name,
+            type: this.isSqlite ? 'simple-enum' : 'enum',
+            enum: values,
+            default: defaultValue !== undefined ? `'${defaultValue}'` : undefined,
+        };
+    }
+
+    /**
+     * Timestamp defaulting to the insert time, optionally refreshed on every update (MySQL only)
+     */
+    public timestamp(name: string, refreshOnUpdate = false): TableColumnOptions {
+        return {
+            name,
+            type: this.timestampType(),
+            default: 'CURRENT_TIMESTAMP',
+            onUpdate: refreshOnUpdate && this.isMysql ? 'CURRENT_TIMESTAMP' : undefined,
+        };
+    }
+
+    public nullableTimestamp(name: string): TableColumnOptions {
+        return { name, type: this.timestampType(), isNullable: true };
+    }
+
+    /**
+     * Timestamp without a default, always set by the application
+     */
+    public requiredTimestamp(name: string): TableColumnOptions {
+        return { name, type: this.timestampType() };
+    }
+
+    /**
+     * Column created by @CreateDateColumn
+     */
+    public createDate(name: string): TableColumnOptions {
+        const types = this.queryRunner.connection.driver.mappedDataTypes;
+        return {
+            name,
+            type: types.createDate as string,
+            precision: types.createDatePrecision,
+            default: types.createDateDefault,
+        };
+    }
+
+    /**
+     * Column created by @UpdateDateColumn
+     */
+    public updateDate(name: string): TableColumnOptions {
+        const types = this.queryRunner.connection.driver.mappedDataTypes;
+        return {
+            name,
+            type: types.updateDate as string,
+            precision: types.updateDatePrecision,
+            default: types.updateDateDefault,
+            onUpdate: this.isMysql ? types.updateDateDefault : undefined,
+        };
+    }
+
+    public userForeignKey(columnName: string): TableForeignKey {
+        return new TableForeignKey({
+            columnNames: [columnName],
+            referencedTableName: 'users',
+            referencedColumnNames: ['id'],
+            onDelete: 'NO ACTION',
+            onUpdate: 'NO ACTION',
+        });
+    }
+
+    private timestampType(): string {
+        return this.isSqlite ? 'datetime' : 'timestamp';
+    }
+}
@@ -0,0 +1,36 @@
+import { QueryRunner, Table, TableColumn, TableColumnOptions, TableIndex, TableIndexOptions } from "typeorm";
+
+/**
+ * Schema changes for migrations that also upgrade databases created with synchronize, which may
+ * already have some of the changes depending on the version that synchronized them.
+ * Kept outside src/migrations so the migrations glob only picks up migration classes
+ */
+
+export async function getTableOrFail(queryRunner: QueryRunner, tableName: string): Promise<Table> {
+    const table = await queryRunner.getTable(tableName);
+    if (!table) {
+        throw new Error(`Table ${tableName} not found`);
+    }
+    return table;
+}
+
+/**
+ * Adds the columns the table doesn't have yet
+ */
+export async function addMissingColumns(queryRunner: QueryRunner, tableName: string, columns: TableColumnOptions[]): Promise<void> {
+    const table = await getTableOrFail(queryRunner, tableName);
+    const missing = columns.filter(column => !table.findColumnByName(column.name));
+    if (missing.length > 0) {
+        await queryRunner.addColumns(table, missing.map(column => new TableColumn(column)));
+    }
+}
+
+/**
+ * Creates the index unless the table already has an index with the same name
+ */
+export async function createMissingIndex(queryRunner: QueryRunner, tableName: string, index: TableIndexOptions): Promise<void> {
+    const table = await getTableOrFail(queryRunner, tableName);
+    if (!table.indices.some(existing => existing.name === index.name)) {
+        await queryRunner.createIndex(table, new TableIndex(index));
+    }
+}
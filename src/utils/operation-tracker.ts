@@ -0,0 +1,101 @@
+import { AsyncLocalStorage } from "async_hooks";
+
+/**
+ * Thrown when an operation is started after the tracker stopped accepting new ones
+ */
+export class OperationsClosedError extends Error {
+    constructor(operation: string) {
+        super(`Not accepting new operations, ${operation} rejected`);
+        this.name = 'OperationsClosedError';
+    }
+}
+
+/**
+ * An operation that is still running, with the records it created so far
+ */
+export interface TrackedOperation<TRecord> {
+    name: string;
+    startedAt: Date;
+    records: TRecord[];
+}
+
+/**
+ * Keeps count of running async operations so shutdown can wait for them.
+ * Operations started from within another tracked operation are part of it and aren't counted separately
+ */
+export class OperationTracker<TRecord> {
+    private readonly operations = new Set<TrackedOperation<TRecord>>();
+    private readonly context = new AsyncLocalStorage<TrackedOperation<TRecord>>();
+    private idleListeners: Array<() => void> = [];
+    private accepting = true;
+
+    /**
+     * Runs a task as a tracked operation
+     * @param name - Name of the operation, for logs
+     * @param task - The operation itself
+     * @returns The task's result
+     * @throws OperationsClosedError if the tracker was closed and this isn't part of a running operation
+     */
+    public async run<T>(name: string, task: () => Promise<T>): Promise<T> {
+        if (this.context.getStore()) {
+            return await task();
+        }
+        if (!this.accepting) {
+            throw new OperationsClosedError(name);
+        }
+
+        const operation: TrackedOperation<TRecord> = { name, startedAt: new Date(), records: [] };
+        this.operations.add(operation);
+        try {
+            return await this.context.run(operation, task);
+        } finally {
+            this.operations.delete(operation);
+            if (this.operations.size === 0) {
+                const listeners = this.idleListeners;
+                this.idleListeners = [];
+                listeners.forEach(listener => listener());
+            }
+        }
+    }
+
+    /**
+     * Attaches a record to the operation running in the current async context, if any
+     */
+    public attachRecord(record: TRecord): void {
+        this.context.getStore()?.records.push(record);
+    }
+
+    /**
+     * Rejects operations started from now on, running ones continue
+     */
+    public close(): void {
+        this.accepting = false;
+    }
+
+    public getOperations(): TrackedOperation<TRecord>[] {
+        return [...this.operations];
+    }
+
+    /**
+     * Waits until no operation is running
+     * @param timeoutMs - How long to wait at most
+     * @returns True if all operations finished, false if some were still running after timeoutMs
+     */
+    public async waitForIdle(timeoutMs: number): Promise<boolean> {
+        if (this.operations.size === 0) {
+            return true;
+        }
+
+        return await new Promise<boolean>(resolve => {
+            const listener = () => {
+                clearTimeout(timer);
+                resolve(true);
+            };
+            const timer = setTimeout(() => {
+                this.idleListeners = this.idleListeners.filter(other => other !== listener);
+                resolve(false);
+            }, timeoutMs);
+            this.idleListeners.push(listener);
+        });
+    }
+}
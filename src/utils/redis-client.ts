@@ -0,0 +1,39 @@
+import Redis from "ioredis";
+import logger from "./logger";
+
+/**
+ * Limits that keep a slow or unreachable server from holding up updates
+ */
+export interface RedisClientOptions {
+    keyPrefix?: string;
+    connectTimeoutMs: number;
+    commandTimeoutMs: number;
+}
+
+// Reconnect attempts back off up to this delay and never stop
+const MAX_RECONNECT_DELAY_MS = 5000;
+
+/**
+ * Creates an ioredis client for servers speaking the Redis protocol (Redis, Valkey, KeyDB, ...).
+ * Supports redis:// and rediss:// URLs with optional username, password and database number.
+ * A dropped connection is reopened in the background; commands sent meanwhile fail after one
+ * reconnect attempt instead of waiting for the server, and every command fails after commandTimeoutMs.
+ * @param url - The server URL
+ * @param options - Key prefix and timeouts
+ */
+export function createRedisClient(url: string, options: RedisClientOptions): Redis {
+    const client = new Redis(url, {
+        keyPrefix: options.keyPrefix,
+        connectTimeout: options.connectTimeoutMs,
+        commandTimeout: options.commandTimeoutMs,
+        maxRetriesPerRequest: 1,
+        retryStrategy: attempt => Math.min(attempt * 200, MAX_RECONNECT_DELAY_MS)
+    });
+
+    client.on('ready', () => logger.info('[RedisClient] Connected:', { host: client.options.host, port: client.options.port }));
+    client.on('reconnecting', (delayMs: number) => logger.warn('[RedisClient] Reconnecting:', { delayMs }));
+    // ioredis reports connection errors as events, without a listener they are printed as unhandled
+    client.on('error', (error: Error) => logger.warn('[RedisClient] Connection error:', { error: error.message }));
+
+    return client;
+}
@@ -0,0 +1,75 @@
+import { DataSource, QueryRunner } from "typeorm";
+
+/**
+ * Runs the transactions of a better-sqlite3 DataSource one at a time.
+ * The driver hands every caller the same QueryRunner on a single connection, so a transaction started
+ * while another one is open would become a SAVEPOINT inside it, and the first transaction's commit or
+ * rollback would also commit or undo the writes of the second.
+ * Statements run outside a transaction aren't queued and execute inside whichever transaction is open,
+ * which is why SQLite is meant for tests and single-user development only.
+ */
+export function serializeTransactions(dataSource: DataSource): void {
+    let queue: Promise<void> = Promise.resolve();
+
+    // Resolves with the function that lets the next waiting transaction start
+    const acquire = (): Promise<() => void> => {
+        let unlock!: () => void;
+        const released = new Promise<void>(resolve => {
+            unlock = resolve;
+        });
+        const ready = queue;
+        queue = queue.then(() => released);
+        return ready.then(() => unlock);
+    };
+
+    const createQueryRunner = dataSource.createQueryRunner.bind(dataSource);
+    dataSource.createQueryRunner = (mode) => {
+        const runner = createQueryRunner(mode);
+        let unlock: (() => void) | null = null;
+        const unlockIfDone = () => {
+            if (unlock && !runner.isTransactionActive) {
+                unlock();
+                unlock = null;
+            }
+        };
+
+        const methods: Partial<QueryRunner> = {
+            startTransaction: async (isolationLevel) => {
+                // Nested transactions of the same caller are savepoints inside the one it already holds
+                if (!unlock) {
+                    unlock = await acquire();
+                }
+                try {
+                    await runner.startTransaction(isolationLevel);
+                } finally {
+                    unlockIfDone();
+                }
+            },
+            commitTransaction: async () => {
+                await runner.commitTransaction();
+                unlockIfDone();
+            },
+            rollbackTransaction: async () => {
+                try {
+                    await runner.rollbackTransaction();
+                } finally {
+                    unlockIfDone();
+                }
+            },
+            release: async () => {
+                // A transaction left open by a failed commit or rollback must not block everybody else
+                if (unlock) {
+                    unlock();
+                    unlock = null;
+                }
+                await runner.release();
+            },
+        };
+
+        return new Proxy(runner, {
+            get: (target, property, receiver) => property in methods
+                ? methods[property as keyof QueryRunner]
+                : Reflect.get(target, property, receiver),
+        });
+    };
+}
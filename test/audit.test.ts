@@ -0,0 +1,62 @@
+import { AppDataSource } from '../src/config/database';
+import { User } from '../src/entities/user';
+import { AuditActor, AuditService } from '../src/services/audit';
+import { UserService } from '../src/services/user';
+import { Money } from '../src/types/money';
+
+describe('audit timeline', () => {
+    const userService = UserService.getInstance();
+    const auditService = AuditService.getInstance();
+    const admin: AuditActor = { type: 'admin', id: '900001', metadata: { reason: 'Lost deposit' } };
+    let user: User;
+
+    beforeAll(async () => {
+        AppDataSource.setOptions({ dropSchema: true, synchronize: false, migrationsRun: true, logging: false });
+        await AppDataSource.initialize();
+
+        user = await AppDataSource.getRepository(User).save(User.create(700101, 'audited'));
+        await userService.updateBalance(user, 'TON', Money.of(10, 'TON'), { type: 'invoice', id: 1 }, { type: 'webhook' });
+        await userService.updateBalance(user, 'TON', Money.of(-4, 'TON'), { type: 'transfer', id: 2 }, { type: 'user', id: '700101' });
+        await userService.updateBalance(user, 'USDT', Money.of(5, 'USDT'), { type: 'adjustment', description: 'Lost deposit' }, admin);
+        await userService.updateBalance(user, 'TON', Money.of(4, 'TON'), { type: 'transfer', id: 2 }, { type: 'scheduler' });
+    });
+
+    afterAll(async () => {
+        await AppDataSource.destroy();
+    });
+
+    it('lists every balance change of the user newest first with its actor and balances', async () => {
+        const entries = await auditService.getUserTimeline(user);
+
+        expect(entries.map(entry => [entry.action, entry.actorType, entry.coin, entry.amount.toString()])).toEqual([
+            ['refund', 'scheduler', 'TON', '4'],
+            ['adjustment', 'admin', 'USDT', '5'],
+            ['transfer', 'user', 'TON', '-4'],
+            ['deposit', 'webhook', 'TON', '10'],
+        ]);
+        expect(entries.map(entry => `${entry.balanceBefore} → ${entry.balanceAfter}`)).toEqual([
+            '6 → 10',
+            '0 → 5',
+            '10 → 6',
+            '0 → 10',
+        ]);
+        expect(entries[1]).toMatchObject({ actorId: '900001', targetType: 'adjustment', description: 'Lost deposit' });
+        expect(entries[1].getMetadata()).toEqual({ reason: 'Lost deposit' });
+        expect(entries[2]).toMatchObject({ actorId: '700101', targetType: 'transfer', targetId: 2 });
+    });
+
+    it('filters by currency and pages with beforeId', async () => {
+        const ton = await auditService.getUserTimeline(user, { currency: 'TON' });
+        expect(ton.map(entry => entry.action)).toEqual(['refund', 'transfer', 'deposit']);
+
+        const firstPage = await auditService.getUserTimeline(user, { limit: 2 });
+        const secondPage = await auditService.getUserTimeline(user, { beforeId: firstPage[1].id, limit: 2 });
+        expect([...firstPage, ...secondPage].map(entry => entry.action)).toEqual(['refund', 'adjustment', 'transfer', 'deposit']);
+        expect(await auditService.getUserTimeline(user, { beforeId: secondPage[1].id })).toEqual([]);
+    });
+
+    it('keeps the entries of a record in chronological order', async () => {
+        const history = await auditService.getTargetHistory('transfer', 2);
+        expect(history.map(entry => entry.action)).toEqual(['transfer', 'refund']);
+    });
+});
@@ -0,0 +1,55 @@
+import { AppDataSource } from '../src/config/database';
+import { User } from '../src/entities/user';
+import { UserService } from '../src/services/user';
+import { LedgerService } from '../src/services/ledger';
+import { Money } from '../src/types/money';
+
+describe('balance updates', () => {
+    const userService = UserService.getInstance();
+    const ledgerService = LedgerService.getInstance();
+
+    beforeAll(async () => {
+        AppDataSource.setOptions({ dropSchema: true, synchronize: false, migrationsRun: true, logging: false });
+        await AppDataSource.initialize();
+    });
+
+    afterAll(async () => {
+        await AppDataSource.destroy();
+    });
+
+    it('keeps every concurrent credit and debit of a user in the balance and the ledger', async () => {
+        const user = await AppDataSource.getRepository(User).save(User.create(700001, 'concurrent'));
+        await userService.updateBalance(user, 'TON', Money.of(100, 'TON'), { type: 'adjustment', description: 'Opening' });
+
+        await Promise.all(Array.from({ length: 10 }, (_, i) => [
+            userService.updateBalance(user, 'TON', Money.of(1, 'TON'), { type: 'invoice', id: i }),
+            userService.updateBalance(user, 'TON', Money.of(-2, 'TON'), { type: 'transfer', id: i }),
+        ]).flat());
+
+        expect((await userService.getUserBalance(user, 'TON'))!.amount.toString()).toBe('90');
+        expect(await ledgerService.verifyUserBalances(user)).toEqual([
+            expect.objectContaining({ currency: 'TON', isConsistent: true })
+        ]);
+
+        // Every entry continues from the balance the previous one left
+        const entries = (await ledgerService.getUserEntries(user, 'TON', 100)).reverse();
+        let expected = Money.zero('TON');
+        for (const entry of entries) {
+            expected = entry.direction === 'credit' ? expected.plus(entry.amount) : expected.minus(entry.amount);
+            expect(entry.balanceAfter!.toString()).toBe(expected.toString());
+        }
+    });
+
+    it('refuses a debit that would overdraw the balance after a concurrent one', async () => {
+        const user = await AppDataSource.getRepository(User).save(User.create(700002, 'overdraft'));
+        await userService.updateBalance(user, 'TON', Money.of(5, 'TON'), { type: 'adjustment', description: 'Opening' });
+
+        const results = await Promise.allSettled([
+            userService.updateBalance(user, 'TON', Money.of(-4, 'TON'), { type: 'transfer', id: 1 }),
+            userService.updateBalance(user, 'TON', Money.of(-4, 'TON'), { type: 'transfer', id: 2 }),
+        ]);
+
+        expect(results.map(result => result.status).sort()).toEqual(['fulfilled', 'rejected']);
+        expect((await userService.getUserBalance(user, 'TON'))!.amount.toString()).toBe('1');
+    });
+});
@@ -0,0 +1,43 @@
+import { BatchCursor } from '../src/utils/batch-cursor';
+
+describe('BatchCursor', () => {
+    const fetchFrom = (ids: number[]) => async (afterId: number, take: number) =>
+        ids.filter(id => id > afterId).slice(0, take).map(id => ({ id }));
+
+    async function nextIds(cursor: BatchCursor, ids: number[]): Promise<number[]> {
+        return (await cursor.next(fetchFrom(ids))).map(record => record.id);
+    }
+
+    it('continues after the last record of the previous batch', async () => {
+        const cursor = new BatchCursor(2);
+        const ids = [1, 2, 3, 4, 5];
+
+        expect(await nextIds(cursor, ids)).toEqual([1, 2]);
+        expect(await nextIds(cursor, ids)).toEqual([3, 4]);
+    });
+
+    it('fills a short batch from the start of the set and starts over afterwards', async () => {
+        const cursor = new BatchCursor(2);
+        const ids = [1, 2, 3];
+
+        expect(await nextIds(cursor, ids)).toEqual([1, 2]);
+        expect(await nextIds(cursor, ids)).toEqual([3, 1]);
+        expect(await nextIds(cursor, ids)).toEqual([2, 3]);
+    });
+
+    it('reaches records added behind ones that never leave the set', async () => {
+        const cursor = new BatchCursor(2);
+        const ids = [1, 2];
+
+        await nextIds(cursor, ids);
+        ids.push(3);
+        expect(await nextIds(cursor, ids)).toContain(3);
+    });
+
+    it('does not repeat records when the whole set fits in one batch', async () => {
+        const cursor = new BatchCursor(5);
+
+        expect(await nextIds(cursor, [1, 2])).toEqual([1, 2]);
+        expect(await nextIds(cursor, [1, 2])).toEqual([1, 2]);
+    });
+});
@@ -0,0 +1,91 @@
+import { BotHarness, createTestUser, TestUser } from './harness';
+import { AuditService } from '../../src/services/audit';
+
+describe('admin balance corrections', () => {
+    const admin: TestUser = { id: 900001, username: 'admin' };
+    let harness: BotHarness;
+
+    beforeAll(async () => {
+        harness = await BotHarness.start();
+    });
+
+    afterAll(async () => {
+        await harness.stop();
+    });
+
+    it('credits a user with the reason and the admin in the audit log', async () => {
+        const user = createTestUser();
+        const record = await harness.findUser(user);
+
+        await harness.sendText(admin, `/credit ${user.id} 2.5 ton Lost deposit #17`);
+
+        expect(harness.lastText(admin)).toContain(`Credited 2.5 TON to user #${record.id}. New balance: 2.5 TON`);
+        expect(await harness.balanceOf(user, 'TON')).toBeCloseTo(2.5);
+
+        const [entry] = await AuditService.getInstance().getUserTimeline(record, { currency: 'TON', limit: 1 });
+        expect(entry).toMatchObject({
+            actorType: 'admin',
+            actorId: String(admin.id),
+            action: 'adjustment',
+            description: `Lost deposit #17 (admin ${admin.id})`
+        });
+        expect(entry.amount.toString()).toBe('2.5');
+        expect(entry.getMetadata()).toMatchObject({ reason: 'Lost deposit #17' });
+    });
+
+    it('debits a user by @username', async () => {
+        const user = createTestUser();
+        await harness.fund(user, 'USDT', 10);
+
+        await harness.sendText(admin, `/debit @${user.username} 4 USDT Duplicate credit`);
+
+        expect(harness.lastText(admin)).toContain('Debited 4 USDT');
+        expect(harness.lastText(admin)).toContain('New balance: 6 USDT');
+        expect(await harness.balanceOf(user, 'USDT')).toBeCloseTo(6);
+    });
+
+    it('refuses a debit that would overdraw the balance', async () => {
+        const user = createTestUser();
+        await harness.fund(user, 'USDT', 1);
+        const record = await harness.findUser(user);
+        const entriesBefore = await AuditService.getInstance().getUserTimeline(record);
+
+        await harness.sendText(admin, `/debit ${user.id} 5 USDT Chargeback`);
+
+        expect(harness.lastText(admin)).toContain('Insufficient balance');
+        expect(await harness.balanceOf(user, 'USDT')).toBeCloseTo(1);
+        expect(await AuditService.getInstance().getUserTimeline(record)).toHaveLength(entriesBefore.length);
+    });
+
+    it('shows the balance changes of a user newest first', async () => {
+        const user = createTestUser();
+        const record = await harness.findUser(user);
+
+        await harness.sendText(admin, `/credit ${user.id} 3 TON Lost deposit`);
+        await harness.sendText(admin, `/debit ${user.id} 1 TON Duplicate credit`);
+        await harness.sendText(admin, `/credit ${user.id} 2 USDT Bonus`);
+        await harness.sendText(admin, `/audit ${user.id}`);
+
+        const [title, ...items] = harness.lastText(admin).split('\n');
+        expect(title).toBe(`🧾 Balance changes of user #${record.id}:`);
+        expect(items).toHaveLength(3);
+        expect(items[0]).toMatch(/adjustment \+2 USDT: 0 → 2 by admin 900001$/);
+        expect(items[1]).toMatch(/adjustment -1 TON: 3 → 2 by admin 900001$/);
+        expect(items[2]).toMatch(/adjustment \+3 TON: 0 → 3 by admin 900001$/);
+
+        await harness.sendText(admin, `/audit ${user.id} usdt`);
+        expect(harness.lastText(admin).split('\n')).toHaveLength(2);
+    });
+
+    it('requires a reason and ignores users who are not admins', async () => {
+        const user = createTestUser();
+        await harness.findUser(user);
+
+        await harness.sendText(admin, `/credit ${user.id} 1 TON`);
+        expect(harness.lastText(admin)).toContain('/credit');
+
+        const calls = await harness.sendText(user, `/credit ${user.id} 1 TON Free money`);
+        expect(calls.filter(call => call.method === 'sendMessage')).toHaveLength(0);
+        expect(await harness.balanceOf(user, 'TON')).toBe(0);
+    });
+});
@@ -0,0 +1,245 @@
+import { BotHarness, createTestUser } from './harness';
+import { AppDataSource } from '../../src/config/database';
+import { UserInvoice } from '../../src/entities/user-invoice';
+import { WebhookDelivery } from '../../src/entities/webhook-delivery';
+import { FakeXRocketPayServer } from '../../src/dev/fake-xrocket-pay';
+
+describe('deposit flow', () => {
+    let harness: BotHarness;
+
+    beforeAll(async () => {
+        harness = await BotHarness.start();
+    });
+
+    afterAll(async () => {
+        await harness.stop();
+    });
+
+    it('shows the main menu on /start', async () => {
+        const user = createTestUser();
+
+        await harness.sendText(user, '/start');
+
+        expect(harness.lastButtons(user)).toEqual(expect.arrayContaining(['deposit', 'withdraw']));
+    });
+
+    it('creates an invoice and credits the balance when the paid webhook arrives', async () => {
+        const user = createTestUser();
+        await harness.sendText(user, '/start');
+
+        await harness.pressButton(user, 'deposit');
+        expect(harness.lastText(user)).toContain('Select currency for deposit');
+
+        await harness.pressButton(user, 'coin_TON');
+        expect(harness.lastText(user)).toContain('Enter amount to deposit');
+
+        await harness.sendText(user, '5');
+        expect(harness.lastText(user)).toContain('How many payments');
+
+        await harness.pressButton(user, 'deposit_payments_1');
+        expect(harness.lastText(user)).toContain('How long should the invoice stay open');
+
+        await harness.pressButton(user, 'deposit_expiry_3600');
+
+        const [remoteInvoice] = [...harness.fake.invoices.values()].filter(i => i.amount === 5);
+        expect(remoteInvoice).toMatchObject({ currency: 'TONCOIN', status: 'active', totalActivations: 1, expiredIn: 3600 });
+        expect(harness.lastText(user)).toContain(remoteInvoice.link);
+
+        const invoice = await AppDataSource.getRepository(UserInvoice).findOneByOrFail({
+            invoiceId: remoteInvoice.id.toString()
+        });
+        expect(invoice.status).toBe('active');
+
+        harness.fake.payInvoice(remoteInvoice.id, { userId: user.id, fee: 0.05 });
+        const response = await harness.fake.sendInvoiceWebhook(remoteInvoice.id);
+
+        expect(response.status).toBe(200);
+        expect(await harness.balanceOf(user, 'TON')).toBeCloseTo(4.95);
+        expect(harness.lastText(user)).toContain('successfully deposited');
+
+        const paidInvoice = await AppDataSource.getRepository(UserInvoice).findOneByOrFail({ id: invoice.id });
+        expect(paidInvoice.status).toBe('paid');
+    });
+
+    it('notifies the user about the payment in their language', async () => {
+        const user = { ...createTestUser(), languageCode: 'ru' };
+        await harness.sendText(user, '/start');
+        await harness.pressButton(user, 'deposit');
+        await harness.pressButton(user, 'coin_TON');
+        await harness.sendText(user, '4');
+        await harness.pressButton(user, 'deposit_payments_1');
+        await harness.pressButton(user, 'deposit_expiry_900');
+
+        const [remoteInvoice] = [...harness.fake.invoices.values()].filter(i => i.amount === 4);
+        harness.fake.payInvoice(remoteInvoice.id, { userId: user.id });
+        await harness.fake.sendInvoiceWebhook(remoteInvoice.id);
+
+        const invoice = await AppDataSource.getRepository(UserInvoice).findOneByOrFail({ invoiceId: remoteInvoice.id.toString() });
+        expect(harness.lastText(user)).toContain('Вы успешно пополнили баланс на 4 💎 TON');
+        expect(harness.lastButtons(user)).toEqual([`invoice_${invoice.id}`, 'main_menu']);
+    });
+
+    it('credits a payment only once when the webhook is delivered again', async () => {
+        const user = createTestUser();
+        await harness.sendText(user, '/start');
+        await harness.pressButton(user, 'deposit');
+        await harness.pressButton(user, 'coin_USDT');
+        await harness.sendText(user, '12');
+        await harness.pressButton(user, 'deposit_payments_1');
+        await harness.pressButton(user, 'deposit_expiry_3600');
+
+        const [remoteInvoice] = [...harness.fake.invoices.values()].filter(i => i.amount === 12);
+        harness.fake.payInvoice(remoteInvoice.id, { userId: user.id });
+
+        await harness.fake.sendInvoiceWebhook(remoteInvoice.id);
+        const retry = await harness.fake.sendInvoiceWebhook(remoteInvoice.id);
+
+        expect(retry.status).toBe(200);
+        expect(await harness.balanceOf(user, 'USDT')).toBeCloseTo(12);
+
+        const deliveries = await AppDataSource.getRepository(WebhookDelivery).findBy({ invoiceId: remoteInvoice.id.toString() });
+        expect(deliveries).toHaveLength(1);
+        expect(deliveries[0]).toMatchObject({ status: 'processed', attempts: 1 });
+        expect(JSON.parse(deliveries[0].payload)).toMatchObject({ type: 'invoicePay' });
+    });
+
+    it('credits every payment of an invoice accepting several payments', async () => {
+        const user = createTestUser();
+        await harness.sendText(user, '/start');
+        await harness.pressButton(user, 'deposit');
+        await harness.pressButton(user, 'coin_TON');
+        await harness.sendText(user, '3');
+        await harness.sendText(user, '3');
+        await harness.pressButton(user, 'deposit_expiry_86400');
+
+        const [remoteInvoice] = [...harness.fake.invoices.values()].filter(i => i.amount === 3);
+        expect(remoteInvoice).toMatchObject({ totalActivations: 3, expiredIn: 86400 });
+
+        harness.fake.payInvoice(remoteInvoice.id, { userId: 101 });
+        await harness.fake.sendInvoiceWebhook(remoteInvoice.id);
+        harness.fake.payInvoice(remoteInvoice.id, { userId: 102, fee: 0.1 });
+        await harness.fake.sendInvoiceWebhook(remoteInvoice.id);
+
+        expect(await harness.balanceOf(user, 'TON')).toBeCloseTo(5.9);
+
+        const invoice = await AppDataSource.getRepository(UserInvoice).findOneOrFail({
+            where: { invoiceId: remoteInvoice.id.toString() },
+            relations: ['payments']
+        });
+        expect(invoice).toMatchObject({ status: 'active', numPayments: 3, paymentsCount: 2 });
+        expect(invoice.payments!.map(payment => payment.paymentNum).sort()).toEqual([1, 2]);
+        expect(invoice.paymentAmountReceived!.toString()).toBe('5.9');
+    });
+
+    it('credits an underpaid payment and flags it for review', async () => {
+        const user = createTestUser();
+        await harness.sendText(user, '/start');
+        await harness.pressButton(user, 'deposit');
+        await harness.pressButton(user, 'coin_TON');
+        await harness.sendText(user, '9');
+        await harness.pressButton(user, 'deposit_payments_1');
+        await harness.pressButton(user, 'deposit_expiry_3600');
+
+        const [remoteInvoice] = [...harness.fake.invoices.values()].filter(i => i.amount === 9);
+        harness.fake.payInvoice(remoteInvoice.id, { userId: user.id, amount: 6, fee: 0.1 });
+        await harness.fake.sendInvoiceWebhook(remoteInvoice.id);
+
+        expect(await harness.balanceOf(user, 'TON')).toBeCloseTo(5.9);
+        expect(harness.lastText(user)).toContain('instead of the requested 9 💎 TON');
+
+        const invoice = await AppDataSource.getRepository(UserInvoice).findOneOrFail({
+            where: { invoiceId: remoteInvoice.id.toString() },
+            relations: ['payments']
+        });
+        expect(invoice.amount.toString()).toBe('9');
+        expect(invoice.paymentAmountPaid!.toString()).toBe('6');
+        expect(invoice.payments![0]).toMatchObject({ mismatch: 'underpaid', reviewedAt: null });
+        expect(invoice.payments![0].requestedAmount.toString()).toBe('9');
+    });
+
+    it('rejects webhooks with a stale timestamp', async () => {
+        const user = createTestUser();
+        await harness.sendText(user, '/start');
+        await harness.pressButton(user, 'deposit');
+        await harness.pressButton(user, 'coin_TON');
+        await harness.sendText(user, '8');
+        await harness.pressButton(user, 'deposit_payments_1');
+        await harness.pressButton(user, 'deposit_expiry_3600');
+
+        const [remoteInvoice] = [...harness.fake.invoices.values()].filter(i => i.amount === 8);
+        harness.fake.payInvoice(remoteInvoice.id, { userId: user.id });
+
+        const webhook = JSON.parse(harness.fake.buildInvoiceWebhook(remoteInvoice.id));
+        webhook.timestamp = new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString();
+        const body = JSON.stringify(webhook);
+
+        const response = await fetch(harness.webhookUrl, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+                'rocket-pay-signature': FakeXRocketPayServer.signWebhook(body, process.env.XROCKET_API_KEY!)
+            },
+            body
+        });
+
+        expect(response.status).toBe(400);
+        expect(await harness.balanceOf(user, 'TON')).toBe(0);
+    });
+
+    it('rejects webhooks with an invalid signature', async () => {
+        const user = createTestUser();
+        await harness.sendText(user, '/start');
+        await harness.pressButton(user, 'deposit');
+        await harness.pressButton(user, 'coin_XROCK');
+        await harness.sendText(user, '7');
+        await harness.pressButton(user, 'deposit_payments_1');
+        await harness.pressButton(user, 'deposit_expiry_3600');
+
+        const [remoteInvoice] = [...harness.fake.invoices.values()].filter(i => i.amount === 7);
+        harness.fake.payInvoice(remoteInvoice.id, { userId: user.id });
+
+        const response = await fetch(harness.webhookUrl, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json', 'rocket-pay-signature': 'forged' },
+            body: harness.fake.buildInvoiceWebhook(remoteInvoice.id)
+        });
+
+        expect(response.status).toBe(400);
+        expect(await harness.balanceOf(user, 'XROCK')).toBe(0);
+    });
+
+    it('exposes invoice, webhook and liability metrics for Prometheus', async () => {
+        const response = await fetch(`${harness.baseUrl}/metrics`);
+        const body = await response.text();
+
+        expect(response.status).toBe(200);
+        expect(response.headers.get('content-type')).toContain('text/plain');
+        expect(body).toMatch(/^xrocket_pay_bot_invoices_total\{currency="TON",event="created"\} [1-9]/m);
+        expect(body).toMatch(/^xrocket_pay_bot_invoices_total\{currency="TON",event="paid"\} [1-9]/m);
+        expect(body).toMatch(/^xrocket_pay_bot_webhook_verification_failures_total\{source="xrocket",reason="invalid_signature"\} 1$/m);
+        expect(body).toMatch(/^xrocket_pay_bot_webhook_verification_failures_total\{source="xrocket",reason="stale_timestamp"\} 1$/m);
+        expect(body).toMatch(/^xrocket_pay_bot_xrocket_api_request_duration_seconds_count\{method="createInvoice",outcome="success"\} [1-9]/m);
+        expect(body).toMatch(/^xrocket_pay_bot_liabilities\{currency="TON"\} [1-9]/m);
+    });
+
+    it('reports each component in the readiness check and fails it when xRocket Pay rejects the API key', async () => {
+        const ready = await fetch(`${harness.baseUrl}/ready`);
+        expect(ready.status).toBe(200);
+        expect(await ready.json()).toMatchObject({
+            status: 'ok',
+            components: {
+                database: { status: 'ok', latencyMs: expect.any(Number) },
+                xrocket: { status: 'ok', latencyMs: expect.any(Number) },
+                telegram: { status: 'ok', latencyMs: expect.any(Number) }
+            }
+        });
+
+        harness.fake.failNext('getAvailableCurrencies', 401, 'Invalid API key');
+        const notReady = await fetch(`${harness.baseUrl}/ready`);
+        expect(notReady.status).toBe(503);
+        expect(await notReady.json()).toMatchObject({
+            status: 'error',
+            components: { database: { status: 'ok' }, xrocket: { status: 'error' }, telegram: { status: 'ok' } }
+        });
+    });
+});
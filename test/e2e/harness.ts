@@ -0,0 +1,309 @@
+import { Server } from 'http';
+import { AddressInfo } from 'net';
+import type { Update, UserFromGetMe } from 'grammy/types';
+import { bot, app } from '../../src/index';
+import { AppDataSource } from '../../src/config/database';
+import { User } from '../../src/entities/user';
+import { UserService } from '../../src/services/user';
+import { NotificationService } from '../../src/services/notification';
+import { TelegramUpdatesService } from '../../src/services/telegram-updates';
+import { TELEGRAM_CONFIG } from '../../src/config/telegram';
+import { FakeXRocketPayServer } from '../../src/dev/fake-xrocket-pay';
+import { InternalCurrency } from '../../src/types/currency';
+import { Money } from '../../src/types/money';
+
+/**
+ * A Telegram Bot API call made by the bot while handling updates
+ */
+export interface ApiCall {
+    method: string;
+    payload: Record<string, any>;
+}
+
+/**
+ * A simulated Telegram user talking to the bot
+ */
+export interface TestUser {
+    id: number;
+    username: string;
+    languageCode?: string;
+}
+
+const BOT_INFO = {
+    id: 1000000001,
+    is_bot: true,
+    first_name: 'xRocket Pay Test Bot',
+    username: 'xrocket_pay_test_bot',
+    can_join_groups: true,
+    can_read_all_group_messages: false,
+    supports_inline_queries: false,
+    can_connect_to_business: false,
+    has_main_web_app: false
+} as UserFromGetMe;
+
+/**
+ * Runs the bot from src/index.ts against a fake xRocket Pay server and a throwaway database.
+ * Updates are fed straight into bot.handleUpdate, or posted to the Telegram webhook route after
+ * useWebhook, and every outgoing Telegram API call is captured instead of being sent,
+ * so flows can be asserted on end to end.
+ */
+export class BotHarness {
+    public readonly calls: ApiCall[] = [];
+
+    private server: Server | null = null;
+    private telegramWebhookPath: string | null = null;
+    private nextUpdateId = 1;
+    private nextMessageId = 1;
+    // Last message the bot sent to each chat, used as the message of simulated button presses
+    private readonly lastBotMessage = new Map<number, number>();
+
+    constructor(public readonly fake: FakeXRocketPayServer) {}
+
+    /**
+     * Starts the fake xRocket Pay server, points the app at it, initializes a fresh
+     * database schema from the migrations and starts the Express app for webhooks
+     */
+    public static async start(): Promise<BotHarness> {
+        const fake = new FakeXRocketPayServer({ apiKey: process.env.XROCKET_API_KEY });
+        process.env.XROCKET_API_URL = await fake.start();
+
+        const harness = new BotHarness(fake);
+        await harness.init();
+        return harness;
+    }
+
+    /**
+     * Stops the webhook server and fake xRocket Pay, and closes the database
+     */
+    public async stop(): Promise<void> {
+        if (this.server) {
+            const server = this.server;
+            this.server = null;
+            server.closeAllConnections();
+            await new Promise<void>(resolve => server.close(() => resolve()));
+        }
+        await this.fake.stop();
+        if (AppDataSource.isInitialized) {
+            await AppDataSource.destroy();
+        }
+    }
+
+    /**
+     * Serves Telegram updates through the webhook route like in production, later updates are posted to it.
+     * Updates sent without awaiting the previous ones are then handled concurrently like Telegram delivers them
+     */
+    public async useWebhook(): Promise<void> {
+        const mode = await TelegramUpdatesService.getInstance(bot).start(app);
+        if (mode !== 'webhook') {
+            throw new Error(`Expected webhook mode, the bot started in ${mode} mode`);
+        }
+        this.telegramWebhookPath = new URL(TELEGRAM_CONFIG.WEBHOOK_URL).pathname;
+    }
+
+    /**
+     * Sends a text message (or /command) from the user
+     * @returns API calls made while handling it
+     */
+    public async sendText(user: TestUser, text: string): Promise<ApiCall[]> {
+        const message: Record<string, any> = {
+            message_id: this.nextMessageId++,
+            date: Math.floor(Date.now() / 1000),
+            chat: this.chatOf(user),
+            from: this.fromOf(user),
+            text
+        };
+
+        if (text.startsWith('/')) {
+            message.entities = [{ type: 'bot_command', offset: 0, length: text.split(' ')[0].length }];
+        }
+
+        return await this.dispatch({ update_id: this.nextUpdateId++, message } as Update);
+    }
+
+    /**
+     * Presses an inline keyboard button on the last message the bot sent to the user
+     * @returns API calls made while handling it
+     */
+    public async pressButton(user: TestUser, data: string): Promise<ApiCall[]> {
+        const callbackQuery = {
+            id: `cb_${this.nextUpdateId}`,
+            from: this.fromOf(user),
+            chat_instance: `chat_${user.id}`,
+            data,
+            message: {
+                message_id: this.lastBotMessage.get(user.id) ?? this.nextMessageId++,
+                date: Math.floor(Date.now() / 1000),
+                chat: this.chatOf(user),
+                from: BOT_INFO,
+                text: '...'
+            }
+        };
+
+        return await this.dispatch({ update_id: this.nextUpdateId++, callback_query: callbackQuery } as Update);
+    }
+
+    /**
+     * Gets the text of the last message the bot sent or edited in the user's chat
+     */
+    public lastText(user: TestUser): string {
+        const call = this.messagesTo(user).pop();
+        if (!call) {
+            throw new Error(`No messages were sent to user ${user.id}`);
+        }
+        return call.payload.text;
+    }
+
+    /**
+     * Gets the callback data of every button of the last message sent to the user
+     */
+    public lastButtons(user: TestUser): string[] {
+        const call = this.messagesTo(user).pop();
+        const rows: any[][] = call?.payload.reply_markup?.inline_keyboard ?? [];
+        return rows.flat().map(button => button.callback_data ?? button.url);
+    }
+
+    /**
+     * Gets every sendMessage/editMessageText call addressed to the user
+     */
+    public messagesTo(user: TestUser): ApiCall[] {
+        return this.calls.filter(call =>
+            (call.method === 'sendMessage' || call.method === 'editMessageText')
+            && Number(call.payload.chat_id) === user.id
+        );
+    }
+
+    /**
+     * Gets the base URL of the running app
+     */
+    public get baseUrl(): string {
+        const { port } = this.server!.address() as AddressInfo;
+        return `http://127.0.0.1:${port}`;
+    }
+
+    /**
+     * Gets the URL of the xRocket Pay webhook route of the running app
+     */
+    public get webhookUrl(): string {
+        return `${this.baseUrl}${process.env.WEBHOOK_URL}`;
+    }
+
+    /**
+     * Credits the user's balance, creating the user if they never talked to the bot
+     */
+    public async fund(user: TestUser, currency: InternalCurrency, amount: number): Promise<void> {
+        await UserService.getInstance().updateBalance(await this.findUser(user), currency, Money.of(amount, currency), {
+            type: 'adjustment',
+            description: 'Test funding'
+        }, { type: 'system', id: 'e2e' });
+    }
+
+    /**
+     * Gets the user's balance as stored in the database
+     */
+    public async balanceOf(user: TestUser, currency: InternalCurrency): Promise<number> {
+        const balance = await UserService.getInstance().getUserBalance(await this.findUser(user), currency);
+        return balance ? balance.amount.toNumber() : 0;
+    }
+
+    /**
+     * Loads the database record of a test user, sending /start first if it doesn't exist yet
+     */
+    public async findUser(user: TestUser): Promise<User> {
+        const userRepo = AppDataSource.getRepository(User);
+        let record = await userRepo.findOne({ where: { telegramId: user.id } });
+        if (!record) {
+            await this.sendText(user, '/start');
+            record = await userRepo.findOneOrFail({ where: { telegramId: user.id } });
+        }
+        return record;
+    }
+
+    private async init(): Promise<void> {
+        bot.botInfo = BOT_INFO;
+        bot.api.config.use(async (_prev, method, payload) => {
+            this.calls.push({ method, payload: payload as Record<string, any> });
+            return { ok: true, result: this.fakeResult(method, payload as Record<string, any>) } as any;
+        });
+
+        // Build the schema from the migrations, the same way the app does on startup
+        AppDataSource.setOptions({ dropSchema: true, synchronize: false, migrationsRun: true, logging: false });
+        await AppDataSource.initialize();
+
+        NotificationService.getInstance(bot);
+
+        await new Promise<void>(resolve => {
+            this.server = app.listen(0, '127.0.0.1', () => resolve());
+        });
+        this.fake.webhookUrl = this.webhookUrl;
+    }
+
+    private async dispatch(update: Update): Promise<ApiCall[]> {
+        const before = this.calls.length;
+        if (this.telegramWebhookPath) {
+            await this.postUpdate(update);
+        } else {
+            await bot.handleUpdate(update);
+        }
+        return this.calls.slice(before);
+    }
+
+    /**
+     * Posts an update to the Telegram webhook route the way Telegram does
+     */
+    private async postUpdate(update: Update): Promise<void> {
+        const response = await fetch(`${this.baseUrl}${this.telegramWebhookPath}`, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+                'X-Telegram-Bot-Api-Secret-Token': TELEGRAM_CONFIG.WEBHOOK_SECRET
+            },
+            body: JSON.stringify(update)
+        });
+        if (!response.ok) {
+            throw new Error(`Webhook answered ${response.status} to update ${update.update_id}`);
+        }
+    }
+
+    /**
+     * Builds a plausible Bot API result so handlers that use the returned message keep working
+     */
+    private fakeResult(method: string, payload: Record<string, any>): unknown {
+        if (method === 'sendMessage' || method === 'editMessageText') {
+            const chatId = Number(payload.chat_id);
+            const messageId = method === 'sendMessage' ? this.nextMessageId++ : payload.message_id;
+            this.lastBotMessage.set(chatId, messageId);
+
+            return {
+                message_id: messageId,
+                date: Math.floor(Date.now() / 1000),
+                chat: { id: chatId, type: 'private', first_name: 'Test' },
+                from: BOT_INFO,
+                text: payload.text
+            };
+        }
+        return true;
+    }
+
+    private chatOf(user: TestUser) {
+        return { id: user.id, type: 'private' as const, first_name: user.username };
+    }
+
+    private fromOf(user: TestUser) {
+        return {
+            id: user.id,
+            is_bot: false,
+            first_name: user.username,
+            username: user.username,
+            language_code: user.languageCode ?? 'en'
+        };
+    }
+}
+
+/**
+ * Creates a test user with a unique Telegram ID
+ */
+let nextTelegramId = 500000;
+export function createTestUser(username = 'tester'): TestUser {
+    const id = nextTelegramId++;
+    return { id, username: `${username}_${id}` };
+}
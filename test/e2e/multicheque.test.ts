@@ -0,0 +1,179 @@
+import { BotHarness, createTestUser, TestUser } from './harness';
+import { AppDataSource } from '../../src/config/database';
+import { RECONCILER_CONFIG } from '../../src/config/reconciler';
+import { UserCheque } from '../../src/entities/user-cheque';
+import { ChequeService } from '../../src/services/cheque';
+import { ReconcilerService } from '../../src/services/reconciler';
+import { TransactionService } from '../../src/services/transaction';
+import { XRocketPayService } from '../../src/services/xrocket-pay';
+import { LimitService } from '../../src/services/limit';
+
+describe('multicheque flow', () => {
+    let harness: BotHarness;
+
+    beforeAll(async () => {
+        harness = await BotHarness.start();
+    });
+
+    afterAll(async () => {
+        await harness.stop();
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    async function createCheque(user: TestUser, users: string, perUser: string): Promise<UserCheque> {
+        await harness.pressButton(user, 'withdraw');
+        await harness.pressButton(user, 'withdraw_multicheque');
+        await harness.pressButton(user, 'multicheque_currency_TON');
+        await harness.sendText(user, users);
+        await harness.sendText(user, perUser);
+        await harness.pressButton(user, 'confirm_multicheque');
+        expect(harness.lastText(user)).toContain('Cheque created successfully');
+
+        const owner = await harness.findUser(user);
+        return await AppDataSource.getRepository(UserCheque).findOneOrFail({
+            where: { userId: owner.id },
+            order: { id: 'DESC' }
+        });
+    }
+
+    async function cancelCheque(user: TestUser, cheque: UserCheque): Promise<void> {
+        await harness.pressButton(user, `cheque_${cheque.id}`);
+        await harness.pressButton(user, `cancel_cheque_${cheque.id}`);
+        await harness.pressButton(user, `confirm_cancel_cheque_${cheque.id}`);
+    }
+
+    it('creates a cheque with the chosen options, tracks activations and refunds the rest on cancel', async () => {
+        const user = createTestUser();
+        await harness.fund(user, 'TON', 10);
+
+        await harness.pressButton(user, 'withdraw');
+        await harness.pressButton(user, 'withdraw_multicheque');
+        await harness.pressButton(user, 'multicheque_currency_TON');
+        await harness.sendText(user, '3');
+        await harness.sendText(user, '1');
+        expect(harness.lastText(user)).toContain('Cheque Confirmation');
+
+        await harness.pressButton(user, 'multicheque_toggle_captcha');
+        await harness.pressButton(user, 'multicheque_option_password');
+        await harness.sendText(user, 'secret');
+        expect(harness.lastText(user)).toContain('secret');
+
+        await harness.pressButton(user, 'confirm_multicheque');
+        expect(harness.lastText(user)).toContain('Cheque created successfully');
+        expect(await harness.balanceOf(user, 'TON')).toBeCloseTo(7);
+
+        const owner = await harness.findUser(user);
+        const cheque = await AppDataSource.getRepository(UserCheque).findOneByOrFail({ userId: owner.id });
+        const remoteCheque = harness.fake.cheques.get(cheque.chequeId!);
+        expect(remoteCheque).toMatchObject({
+            currency: 'TONCOIN',
+            perUser: 1,
+            users: 3,
+            password: 'secret',
+            captchaEnabled: false
+        });
+
+        harness.fake.activateCheque(remoteCheque!.id);
+        await ChequeService.getInstance().syncActiveCheques();
+
+        expect(harness.lastText(user)).toContain('1/3');
+
+        await harness.pressButton(user, `cheque_${cheque.id}`);
+        await harness.pressButton(user, `cancel_cheque_${cheque.id}`);
+        await harness.pressButton(user, `confirm_cancel_cheque_${cheque.id}`);
+
+        expect(await harness.balanceOf(user, 'TON')).toBeCloseTo(9);
+        expect(harness.fake.cheques.has(remoteCheque!.id)).toBe(false);
+
+        const cancelledCheque = await AppDataSource.getRepository(UserCheque).findOneByOrFail({ id: cheque.id });
+        expect(cancelledCheque.status).toBe('cancelled');
+
+        const usage = await LimitService.getInstance().getUsage(owner, 'multicheque', 'TON', new Date(0));
+        expect(usage.toString()).toBe('1');
+    });
+
+    it('refunds the creator when xRocket Pay rejects the cheque', async () => {
+        const user = createTestUser();
+        await harness.fund(user, 'USDT', 5);
+
+        await harness.pressButton(user, 'withdraw');
+        await harness.pressButton(user, 'withdraw_multicheque');
+        await harness.pressButton(user, 'multicheque_currency_USDT');
+        await harness.sendText(user, '2');
+        await harness.sendText(user, '2');
+
+        harness.fake.failNext('createMulticheque', 400, 'Insufficient funds');
+        await harness.pressButton(user, 'confirm_multicheque');
+
+        expect(await harness.balanceOf(user, 'USDT')).toBeCloseTo(5);
+
+        // The refunded cheque no longer takes up the user's daily and monthly caps
+        const usage = await LimitService.getInstance().getUsage(await harness.findUser(user), 'multicheque', 'USDT', new Date(0));
+        expect(usage.isZero()).toBe(true);
+    });
+
+    it('lets the reconciler finish a cancellation whose refund failed after the cheque was deleted', async () => {
+        const user = createTestUser();
+        await harness.fund(user, 'TON', 10);
+        const cheque = await createCheque(user, '3', '1');
+        const chequeRepo = AppDataSource.getRepository(UserCheque);
+
+        jest.spyOn(TransactionService.getInstance(), 'refundChequeRemainder')
+            .mockRejectedValueOnce(new Error('Database unavailable'));
+        await cancelCheque(user, cheque);
+
+        expect(harness.fake.cheques.has(cheque.chequeId!)).toBe(false);
+        expect(await harness.balanceOf(user, 'TON')).toBeCloseTo(7);
+        const pendingCheque = await chequeRepo.findOneByOrFail({ id: cheque.id });
+        expect(pendingCheque.status).toBe('active');
+        expect(pendingCheque.cancelRequestedAt).not.toBeNull();
+
+        // The sync leaves the deleted cheque alone instead of failing on it every run
+        const getMulticheque = jest.spyOn(XRocketPayService.getInstance(), 'getMulticheque');
+        await ChequeService.getInstance().syncActiveCheques();
+        expect(getMulticheque).not.toHaveBeenCalledWith(cheque.chequeId);
+
+        await chequeRepo.update(cheque.id, {
+            cancelRequestedAt: new Date(Date.now() - RECONCILER_CONFIG.STALE_AFTER_MS - 1000)
+        });
+        const summary = await ReconcilerService.getInstance().runOnce();
+
+        expect(summary?.chequesCancelled).toBe(1);
+        expect(await harness.balanceOf(user, 'TON')).toBeCloseTo(10);
+        expect((await chequeRepo.findOneByOrFail({ id: cheque.id })).status).toBe('cancelled');
+    });
+
+    it('keeps the cheque active when xRocket Pay refuses to delete it', async () => {
+        const user = createTestUser();
+        await harness.fund(user, 'TON', 10);
+        const cheque = await createCheque(user, '2', '1');
+
+        harness.fake.failNext('deleteMulticheque', 400, 'Cheque cannot be deleted');
+        await cancelCheque(user, cheque);
+
+        expect(await harness.balanceOf(user, 'TON')).toBeCloseTo(8);
+        const activeCheque = await AppDataSource.getRepository(UserCheque).findOneByOrFail({ id: cheque.id });
+        expect(activeCheque).toMatchObject({ status: 'active', cancelRequestedAt: null });
+
+        await cancelCheque(user, cheque);
+        expect(await harness.balanceOf(user, 'TON')).toBeCloseTo(10);
+    });
+
+    it('syncs activations of every active cheque and notifies the creator', async () => {
+        const user = createTestUser();
+        await harness.fund(user, 'TON', 10);
+        const first = await createCheque(user, '2', '1');
+        const second = await createCheque(user, '2', '1');
+
+        harness.fake.activateCheque(second.chequeId!, 2);
+        await ChequeService.getInstance().syncActiveCheques();
+
+        const chequeRepo = AppDataSource.getRepository(UserCheque);
+        expect(await chequeRepo.findOneByOrFail({ id: first.id })).toMatchObject({ status: 'active', activations: 0 });
+        expect(await chequeRepo.findOneByOrFail({ id: second.id })).toMatchObject({ status: 'completed', activations: 2 });
+        expect(harness.lastText(user)).toContain('2/2');
+    });
+});
@@ -0,0 +1,81 @@
+import { BotHarness, createTestUser } from './harness';
+import { bot } from '../../src/index';
+import { AppDataSource } from '../../src/config/database';
+import { SHUTDOWN_CONFIG } from '../../src/config/shutdown';
+import { UserTransfer } from '../../src/entities/user-transfer';
+import { ShutdownService } from '../../src/services/shutdown';
+import { TelegramUpdatesService } from '../../src/services/telegram-updates';
+import { TransactionService } from '../../src/services/transaction';
+import { XRocketPayService } from '../../src/services/xrocket-pay';
+import { OperationsClosedError } from '../../src/utils/operation-tracker';
+import { Money } from '../../src/types/money';
+
+describe('shutdown', () => {
+    const transactionService = TransactionService.getInstance();
+    let harness: BotHarness;
+
+    beforeAll(async () => {
+        harness = await BotHarness.start();
+        TelegramUpdatesService.getInstance(bot);
+    });
+
+    afterAll(async () => {
+        jest.restoreAllMocks();
+        await harness.stop();
+    });
+
+    /**
+     * Holds every transfer sent to xRocket Pay until its release function is called
+     */
+    function holdTransfers(): Array<() => void> {
+        const xrocketPay = XRocketPayService.getInstance();
+        const createTransfer = xrocketPay.createTransfer.bind(xrocketPay);
+        const held: Array<() => void> = [];
+        jest.spyOn(xrocketPay, 'createTransfer').mockImplementation(async transfer => {
+            await new Promise<void>(resolve => held.push(resolve));
+            return await createTransfer(transfer);
+        });
+        return held;
+    }
+
+    async function waitForHeld(held: unknown[], count: number): Promise<void> {
+        while (held.length < count) {
+            await new Promise(resolve => setTimeout(resolve, 5));
+        }
+    }
+
+    it('waits for running money operations and flags the ones still running at the timeout', async () => {
+        const user = createTestUser();
+        const [finishingRecipient, interruptedRecipient] = [createTestUser('recipient'), createTestUser('recipient')];
+        await harness.fund(user, 'TON', 10);
+        const sender = await harness.findUser(user);
+
+        jest.replaceProperty(SHUTDOWN_CONFIG, 'TIMEOUT_MS', 500);
+        // Keep the database open after the shutdown to look at the records, afterAll closes it
+        jest.spyOn(AppDataSource, 'destroy').mockResolvedValue(undefined);
+        const held = holdTransfers();
+
+        const finishing = transactionService.executeTransfer(sender, Money.of(1, 'TON'), String(finishingRecipient.id));
+        const interrupted = transactionService.executeTransfer(sender, Money.of(2, 'TON'), String(interruptedRecipient.id));
+        await waitForHeld(held, 2);
+
+        const shutdown = ShutdownService.getInstance().shutdown('test');
+        held[0]();
+        await shutdown;
+
+        // The transfer that finished within the timeout was awaited
+        expect(await finishing).toMatchObject({ status: 'completed', interruptedAt: null });
+
+        const transferRepo = AppDataSource.getRepository(UserTransfer);
+        const interruptedTransfer = await transferRepo.findOneByOrFail({ recipientTelegramId: interruptedRecipient.id });
+        expect(interruptedTransfer.status).toBe('pending');
+        expect(interruptedTransfer.interruptedAt).toBeInstanceOf(Date);
+
+        // Operations started after the shutdown began are refused
+        await expect(transactionService.executeTransfer(sender, Money.of(1, 'TON'), String(finishingRecipient.id)))
+            .rejects.toThrow(OperationsClosedError);
+
+        held[1]();
+        await interrupted;
+    });
+});
@@ -0,0 +1,67 @@
+import { BotHarness, createTestUser, TestUser } from './harness';
+
+describe('telegram webhook', () => {
+    let harness: BotHarness;
+
+    beforeAll(async () => {
+        harness = await BotHarness.start();
+        await harness.useWebhook();
+    });
+
+    afterAll(async () => {
+        await harness.stop();
+    });
+
+    async function startTransfer(user: TestUser, amount: string, recipientId: number): Promise<void> {
+        await harness.pressButton(user, 'withdraw');
+        await harness.pressButton(user, 'withdraw_transfer');
+        await harness.pressButton(user, 'transfer_coin_TON');
+        await harness.sendText(user, amount);
+        await harness.sendText(user, recipientId.toString());
+        expect(harness.lastButtons(user)).toContain('confirm_transfer');
+    }
+
+    it('runs a flow through the webhook route', async () => {
+        const user = createTestUser();
+        const recipient = createTestUser('recipient');
+        await harness.fund(user, 'TON', 10);
+
+        await startTransfer(user, '2', recipient.id);
+        await harness.pressButton(user, 'confirm_transfer');
+
+        expect(harness.lastText(user)).toContain('Transfer completed successfully');
+        expect(await harness.balanceOf(user, 'TON')).toBeCloseTo(8);
+    });
+
+    it('handles a double press of confirm once, the second press sees the finished flow', async () => {
+        const user = createTestUser();
+        const recipient = createTestUser('recipient');
+        await harness.fund(user, 'TON', 10);
+        await startTransfer(user, '3', recipient.id);
+
+        await Promise.all([
+            harness.pressButton(user, 'confirm_transfer'),
+            harness.pressButton(user, 'confirm_transfer')
+        ]);
+
+        const remoteTransfers = [...harness.fake.transfers.values()].filter(t => t.tgUserId === recipient.id);
+        expect(remoteTransfers).toHaveLength(1);
+        expect(await harness.balanceOf(user, 'TON')).toBeCloseTo(7);
+    });
+
+    it('keeps handling other users while one user\'s update is in progress', async () => {
+        const users = [createTestUser(), createTestUser(), createTestUser()];
+        const recipient = createTestUser('recipient');
+        for (const user of users) {
+            await harness.fund(user, 'TON', 5);
+            await startTransfer(user, '1', recipient.id);
+        }
+
+        await Promise.all(users.map(user => harness.pressButton(user, 'confirm_transfer')));
+
+        for (const user of users) {
+            expect(harness.lastText(user)).toContain('Transfer completed successfully');
+            expect(await harness.balanceOf(user, 'TON')).toBeCloseTo(4);
+        }
+    });
+});
@@ -0,0 +1,142 @@
+import { BotHarness, createTestUser, TestUser } from './harness';
+import { AppDataSource } from '../../src/config/database';
+import { UserTransfer } from '../../src/entities/user-transfer';
+import { SessionService } from '../../src/services/session';
+import { LimitService } from '../../src/services/limit';
+import { UNLIMITED } from '../../src/config/limits';
+import { Money } from '../../src/types/money';
+
+describe('transfer flow', () => {
+    let harness: BotHarness;
+
+    beforeAll(async () => {
+        harness = await BotHarness.start();
+    });
+
+    afterAll(async () => {
+        await harness.stop();
+    });
+
+    async function startTransfer(user: TestUser, amount: string, recipientId: number): Promise<void> {
+        await harness.pressButton(user, 'withdraw');
+        await harness.pressButton(user, 'withdraw_transfer');
+        expect(harness.lastText(user)).toContain('Select currency for transfer');
+
+        await harness.pressButton(user, 'transfer_coin_TON');
+        await harness.sendText(user, amount);
+        expect(harness.lastText(user)).toContain("Enter recipient's Telegram ID");
+
+        await harness.sendText(user, recipientId.toString());
+        expect(harness.lastText(user)).toContain('Transfer Confirmation');
+        expect(harness.lastButtons(user)).toContain('confirm_transfer');
+    }
+
+    it('sends the transfer through xRocket Pay and debits the sender', async () => {
+        const user = createTestUser();
+        const recipient = createTestUser('recipient');
+        await harness.fund(user, 'TON', 10);
+
+        await startTransfer(user, '2.5', recipient.id);
+        await harness.pressButton(user, 'confirm_transfer');
+
+        expect(harness.lastText(user)).toContain('Transfer completed successfully');
+        expect(await harness.balanceOf(user, 'TON')).toBeCloseTo(7.5);
+
+        const remoteTransfer = [...harness.fake.transfers.values()].find(t => t.tgUserId === recipient.id);
+        expect(remoteTransfer).toMatchObject({ currency: 'TONCOIN', amount: 2.5 });
+
+        const transfer = await AppDataSource.getRepository(UserTransfer).findOneByOrFail({
+            recipientTelegramId: recipient.id
+        });
+        expect(transfer.status).toBe('completed');
+        expect(transfer.transferId).toBe(remoteTransfer!.id.toString());
+    });
+
+    it('refunds the sender when xRocket Pay rejects the transfer', async () => {
+        const user = createTestUser();
+        const recipient = createTestUser('recipient');
+        await harness.fund(user, 'TON', 10);
+
+        await startTransfer(user, '4', recipient.id);
+        harness.fake.failNext('createTransfer', 400, 'Insufficient funds');
+        await harness.pressButton(user, 'confirm_transfer');
+
+        expect(await harness.balanceOf(user, 'TON')).toBeCloseTo(10);
+
+        const transfer = await AppDataSource.getRepository(UserTransfer).findOneByOrFail({
+            recipientTelegramId: recipient.id
+        });
+        expect(transfer.status).toBe('failed');
+        expect(transfer.refundedAt).not.toBeNull();
+    });
+
+    it('checks the limits again when the transfer is confirmed', async () => {
+        const user = createTestUser();
+        const recipient = createTestUser('recipient');
+        await harness.fund(user, 'TON', 10);
+
+        await startTransfer(user, '4', recipient.id);
+        // The cap changes while the transfer waits for confirmation
+        await LimitService.getInstance().setOverride(await harness.findUser(user), 'transfer', 'TON', {
+            daily: Money.of(3, 'TON')
+        });
+        await harness.pressButton(user, 'confirm_transfer');
+
+        expect(harness.lastText(user)).toContain('per 24 hours');
+        expect(await harness.balanceOf(user, 'TON')).toBeCloseTo(10);
+        expect(await AppDataSource.getRepository(UserTransfer).countBy({ recipientTelegramId: recipient.id })).toBe(0);
+    });
+
+    it('lets an override lift a configured limit for one user', async () => {
+        const user = createTestUser();
+        const recipient = createTestUser('recipient');
+        await harness.fund(user, 'TON', 100);
+
+        await LimitService.getInstance().setOverrideLimit(await harness.findUser(user), 'transfer', 'TON', 'max', UNLIMITED);
+        await startTransfer(user, '60', recipient.id);
+        await harness.pressButton(user, 'confirm_transfer');
+
+        expect(harness.lastText(user)).toContain('Transfer completed successfully');
+        expect(await harness.balanceOf(user, 'TON')).toBeCloseTo(40);
+    });
+
+    it('does not ask for a recipient when the balance is too low', async () => {
+        const user = createTestUser();
+        await harness.fund(user, 'TON', 1);
+        const transfersBefore = harness.fake.transfers.size;
+
+        await harness.pressButton(user, 'withdraw');
+        await harness.pressButton(user, 'withdraw_transfer');
+        await harness.pressButton(user, 'transfer_coin_TON');
+        await harness.sendText(user, '5');
+
+        expect(harness.lastText(user)).not.toContain("Enter recipient's Telegram ID");
+        expect(harness.fake.transfers.size).toBe(transfersBefore);
+    });
+
+    it('keeps the conversation step in the session storage until it is cleared', async () => {
+        const user = createTestUser();
+        const recipient = createTestUser('recipient');
+        await harness.fund(user, 'TON', 10);
+
+        await harness.pressButton(user, 'withdraw');
+        await harness.pressButton(user, 'withdraw_transfer');
+        await harness.pressButton(user, 'transfer_coin_TON');
+        await harness.sendText(user, '2');
+
+        const sessionService = SessionService.getInstance();
+        const storedUser = await harness.findUser(user);
+        expect(await sessionService.getUserSession(storedUser)).toMatchObject({
+            step: 'transfer_recipient',
+            selectedCoin: 'TON',
+            transferAmount: '2'
+        });
+
+        expect(await sessionService.clearUserSession(storedUser)).toBe(true);
+        expect(await sessionService.getUserSession(storedUser)).toBeUndefined();
+
+        // Without the stored step the recipient ID is no longer taken as conversation input
+        const calls = await harness.sendText(user, recipient.id.toString());
+        expect(calls).toHaveLength(0);
+    });
+});
@@ -0,0 +1,79 @@
+import { BotHarness, createTestUser, TestUser } from './harness';
+
+describe('account status', () => {
+    const admin: TestUser = { id: 900001, username: 'admin' };
+    let harness: BotHarness;
+
+    beforeAll(async () => {
+        harness = await BotHarness.start();
+    });
+
+    afterAll(async () => {
+        await harness.stop();
+    });
+
+    it('refuses the fund moving flows of a frozen user and lets them view their account', async () => {
+        const user = createTestUser();
+        await harness.fund(user, 'TON', 10);
+        await harness.sendText(admin, `/freeze ${user.id}`);
+        expect(harness.lastText(admin)).toContain('is frozen');
+
+        for (const flow of ['withdraw_transfer', 'withdraw_multicheque', 'withdraw_external']) {
+            await harness.pressButton(user, 'withdraw');
+            await harness.pressButton(user, flow);
+            expect(harness.lastText(user)).toContain('Your account is frozen');
+        }
+
+        await harness.pressButton(user, 'my_withdrawals');
+        expect(harness.lastText(user)).not.toContain('Your account is frozen');
+        expect(await harness.balanceOf(user, 'TON')).toBeCloseTo(10);
+    });
+
+    it('refuses input to a flow the user started before being frozen', async () => {
+        const user = createTestUser();
+        const recipient = createTestUser('recipient');
+        await harness.fund(user, 'TON', 10);
+
+        await harness.pressButton(user, 'withdraw');
+        await harness.pressButton(user, 'withdraw_transfer');
+        await harness.pressButton(user, 'transfer_coin_TON');
+        await harness.sendText(admin, `/freeze ${user.id}`);
+
+        await harness.sendText(user, '2');
+        expect(harness.lastText(user)).toContain('Your account is frozen');
+
+        // The refused flow is over, its next step no longer takes input
+        const calls = await harness.sendText(user, recipient.id.toString());
+        expect(calls.filter(call => call.method === 'sendMessage' || call.method === 'editMessageText')).toHaveLength(0);
+        expect(await harness.balanceOf(user, 'TON')).toBeCloseTo(10);
+    });
+
+    it('restores transfers when the user is unfrozen', async () => {
+        const user = createTestUser();
+        const recipient = createTestUser('recipient');
+        await harness.fund(user, 'TON', 10);
+        await harness.sendText(admin, `/freeze ${user.id}`);
+        await harness.sendText(admin, `/unfreeze ${user.id}`);
+        expect(harness.lastText(admin)).toContain('is active again');
+
+        await harness.pressButton(user, 'withdraw');
+        await harness.pressButton(user, 'withdraw_transfer');
+        expect(harness.lastText(user)).toContain('Select currency for transfer');
+        await harness.pressButton(user, 'transfer_coin_TON');
+        await harness.sendText(user, '3');
+        await harness.sendText(user, recipient.id.toString());
+        await harness.pressButton(user, 'confirm_transfer');
+
+        expect(harness.lastText(user)).toContain('Transfer completed successfully');
+        expect(await harness.balanceOf(user, 'TON')).toBeCloseTo(7);
+    });
+
+    it('ignores blocked users', async () => {
+        const user = createTestUser();
+        await harness.findUser(user);
+        await harness.sendText(admin, `/block ${user.id}`);
+
+        const calls = await harness.sendText(user, '/start');
+        expect(calls).toHaveLength(0);
+    });
+});
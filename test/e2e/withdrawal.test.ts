@@ -0,0 +1,103 @@
+import { BotHarness, createTestUser, TestUser } from './harness';
+import { AppDataSource } from '../../src/config/database';
+import { UserWithdrawal } from '../../src/entities/user-withdrawal';
+import { Money } from '../../src/types/money';
+import { RECONCILER_CONFIG } from '../../src/config/reconciler';
+import { WithdrawalStatusService } from '../../src/services/withdrawal-status';
+
+describe('external withdrawal flow', () => {
+    let harness: BotHarness;
+
+    beforeAll(async () => {
+        harness = await BotHarness.start();
+    });
+
+    afterAll(async () => {
+        await harness.stop();
+    });
+
+    async function withdraw(user: TestUser, amount: string, address: string): Promise<UserWithdrawal> {
+        await harness.pressButton(user, 'withdraw');
+        await harness.pressButton(user, 'withdraw_external');
+        await harness.pressButton(user, 'withdrawal_currency_USDT');
+        expect(harness.lastButtons(user)).toEqual(expect.arrayContaining(['withdrawal_network_TON', 'withdrawal_network_TRX']));
+
+        await harness.pressButton(user, 'withdrawal_network_TON');
+        expect(harness.lastText(user)).toContain('Enter amount to withdraw');
+
+        await harness.sendText(user, amount);
+        await harness.sendText(user, address);
+        expect(harness.lastText(user)).toContain('Please confirm your withdrawal');
+
+        await harness.pressButton(user, 'withdrawal_confirm');
+
+        return await AppDataSource.getRepository(UserWithdrawal).findOneByOrFail({ address });
+    }
+
+    it('creates the withdrawal and notifies the user once it completes', async () => {
+        const user = createTestUser();
+        await harness.fund(user, 'USDT', 20);
+
+        const withdrawal = await withdraw(user, '5', 'UQ-completed-withdrawal-address');
+
+        expect(withdrawal.status).toBe('CREATED');
+        expect(await harness.balanceOf(user, 'USDT')).toBeCloseTo(15);
+        expect(harness.fake.withdrawals.get(withdrawal.id.toString())).toMatchObject({
+            currency: 'USDT',
+            network: 'TON',
+            amount: 5
+        });
+
+        harness.fake.completeWithdrawal(withdrawal.id.toString(), 'test-tx-hash');
+        await WithdrawalStatusService.getInstance().syncPendingWithdrawals();
+
+        const completed = await AppDataSource.getRepository(UserWithdrawal).findOneByOrFail({ id: withdrawal.id });
+        expect(completed.status).toBe('COMPLETED');
+        expect(completed.txHash).toBe('test-tx-hash');
+        expect(harness.lastText(user)).toContain('test-tx-hash');
+    });
+
+    it('refunds the balance when the withdrawal fails on chain', async () => {
+        const user = createTestUser();
+        await harness.fund(user, 'USDT', 20);
+
+        const withdrawal = await withdraw(user, '8', 'UQ-failed-withdrawal-address');
+        expect(await harness.balanceOf(user, 'USDT')).toBeCloseTo(12);
+
+        harness.fake.failWithdrawal(withdrawal.id.toString(), 'Network congestion');
+        await WithdrawalStatusService.getInstance().syncPendingWithdrawals();
+
+        const failed = await AppDataSource.getRepository(UserWithdrawal).findOneByOrFail({ id: withdrawal.id });
+        expect(failed.status).toBe('FAIL');
+        expect(failed.refundedAt).not.toBeNull();
+        expect(await harness.balanceOf(user, 'USDT')).toBeCloseTo(20);
+    });
+
+    it('refunds a withdrawal unknown to xRocket Pay only once its creation can no longer be running', async () => {
+        const user = createTestUser();
+        const withdrawalRepo = AppDataSource.getRepository(UserWithdrawal);
+
+        // Stored and debited, createWithdrawal still in flight
+        const withdrawal = await withdrawalRepo.save(UserWithdrawal.create(
+            await harness.findUser(user),
+            Money.of(3, 'USDT'),
+            Money.of(0.1, 'USDT'),
+            'TON',
+            'UQ-in-flight-withdrawal-address'
+        ));
+
+        await WithdrawalStatusService.getInstance().syncPendingWithdrawals();
+        const inFlight = await withdrawalRepo.findOneByOrFail({ id: withdrawal.id });
+        expect(inFlight.status).toBe('CREATED');
+        expect(inFlight.refundedAt).toBeNull();
+
+        await withdrawalRepo.update(withdrawal.id, {
+            createdAt: new Date(Date.now() - RECONCILER_CONFIG.STALE_AFTER_MS - 1000)
+        });
+        await WithdrawalStatusService.getInstance().syncPendingWithdrawals();
+
+        const abandoned = await withdrawalRepo.findOneByOrFail({ id: withdrawal.id });
+        expect(abandoned.status).toBe('FAIL');
+        expect(abandoned.refundedAt).not.toBeNull();
+    });
+});
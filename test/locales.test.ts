@@ -0,0 +1,39 @@
+import { checkLocales, compareLocales, formatLocaleIssue, parseLocale } from '../src/utils/locale-check';
+import { createLanguageKeyboard } from '../src/bot/keyboards/lang';
+
+describe('locales', () => {
+    it('translates every English message with the same variables', () => {
+        const issues = checkLocales('locales', 'en');
+        expect(issues.map(formatLocaleIssue)).toEqual([]);
+    });
+
+    it('reports missing and extra keys and mismatched variables', () => {
+        const base = parseLocale('en', [
+            'greeting = Hello, { $name }!',
+            'balance = { $count ->',
+            '    [one] One coin',
+            '   *[other] { $count } coins',
+            '}',
+            'farewell = Bye',
+        ].join('\n'));
+        const translation = parseLocale('xx', [
+            'greeting = Hallo, { $username }!',
+            'balance = { $count } Münzen',
+            'unused = Extra',
+        ].join('\n'));
+
+        expect(compareLocales([base, translation], 'en')).toEqual([
+            { locale: 'xx', key: 'farewell', type: 'missing' },
+            { locale: 'xx', key: 'greeting', type: 'variables', missingVariables: ['name'], extraVariables: ['username'] },
+            { locale: 'xx', key: 'unused', type: 'extra' },
+        ]);
+    });
+
+    it('offers every translation file in the language picker', () => {
+        const buttons = createLanguageKeyboard().inline_keyboard.flat();
+
+        expect(buttons.map(button => 'callback_data' in button ? button.callback_data : undefined))
+            .toEqual(['setlang_en', 'setlang_ru']);
+        expect(buttons.map(button => button.text)).toEqual(['🇬🇧 English', '🇷🇺 Русский']);
+    });
+});
@@ -0,0 +1,64 @@
+import { AppDataSource } from '../src/config/database';
+import { User } from '../src/entities/user';
+import { MetricsService } from '../src/services/metrics';
+import { UserService } from '../src/services/user';
+import { Money } from '../src/types/money';
+
+describe('MetricsService', () => {
+    const metrics = MetricsService.getInstance();
+
+    beforeAll(async () => {
+        AppDataSource.setOptions({ dropSchema: true, synchronize: false, migrationsRun: true, logging: false });
+        await AppDataSource.initialize();
+    });
+
+    afterAll(async () => {
+        if (AppDataSource.isInitialized) {
+            await AppDataSource.destroy();
+        }
+    });
+
+    it('renders counters and histograms in the Prometheus text format', async () => {
+        metrics.recordInvoice('created', 'TON', 2);
+        metrics.recordInvoice('paid', 'TON', 0);
+        metrics.recordOperation('transfer', 'failed', 'USDT');
+        metrics.recordXRocketRequest('createTransfer', 300, false);
+        metrics.recordXRocketRequest('createTransfer', 2000, false);
+        metrics.recordTelegramApiError('sendMessage', 429);
+
+        const body = await metrics.render();
+
+        expect(metrics.getContentType()).toContain('text/plain');
+        expect(body).toContain('# TYPE xrocket_pay_bot_invoices_total counter');
+        expect(body).toMatch(/^xrocket_pay_bot_invoices_total\{currency="TON",event="created"\} 2$/m);
+        expect(body).not.toContain('event="paid"');
+        expect(body).toMatch(/^xrocket_pay_bot_operations_total\{operation="transfer",currency="USDT",outcome="failed"\} 1$/m);
+        expect(body).toMatch(/^xrocket_pay_bot_xrocket_api_request_duration_seconds_bucket\{le="0.25",method="createTransfer",outcome="success"\} 0$/m);
+        expect(body).toMatch(/^xrocket_pay_bot_xrocket_api_request_duration_seconds_bucket\{le="0.5",method="createTransfer",outcome="success"\} 1$/m);
+        expect(body).toMatch(/^xrocket_pay_bot_xrocket_api_request_duration_seconds_bucket\{le="\+Inf",method="createTransfer",outcome="success"\} 2$/m);
+        expect(body).toMatch(/^xrocket_pay_bot_xrocket_api_request_duration_seconds_sum\{method="createTransfer",outcome="success"\} 2.3$/m);
+        expect(body).toMatch(/^xrocket_pay_bot_telegram_api_errors_total\{method="sendMessage",error_code="429"\} 1$/m);
+    });
+
+    it('sums the user balances into the liabilities on every scrape', async () => {
+        const userService = UserService.getInstance();
+        const user = await AppDataSource.getRepository(User).save(User.create(700201, 'liable'));
+        await userService.updateBalance(user, 'TON', Money.of(4, 'TON'), { type: 'adjustment', description: 'Test' });
+        expect(await metrics.render()).toMatch(/^xrocket_pay_bot_liabilities\{currency="TON"\} 4$/m);
+
+        await userService.updateBalance(user, 'TON', Money.of(-4, 'TON'), { type: 'adjustment', description: 'Test' });
+        await userService.updateBalance(user, 'USDT', Money.of(1.5, 'USDT'), { type: 'adjustment', description: 'Test' });
+        const body = await metrics.render();
+        expect(body).toMatch(/^xrocket_pay_bot_liabilities\{currency="TON"\} 0$/m);
+        expect(body).toMatch(/^xrocket_pay_bot_liabilities\{currency="USDT"\} 1.5$/m);
+    });
+
+    it('leaves the liabilities empty when the database query fails', async () => {
+        await AppDataSource.destroy();
+        const body = await metrics.render();
+
+        expect(body).toContain('# TYPE xrocket_pay_bot_liabilities gauge');
+        expect(body).not.toMatch(/^xrocket_pay_bot_liabilities\{/m);
+        expect(body).toMatch(/^xrocket_pay_bot_invoices_total\{/m);
+    });
+});
@@ -0,0 +1,188 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { DataSource, DataSourceOptions, EntitySchema } from 'typeorm';
+import { AppDataSource } from '../src/config/database';
+import { COLUMN_TYPES, DATABASE_TYPE } from '../src/config/database-type';
+import { UserTransfer } from '../src/entities/user-transfer';
+import { UserCheque } from '../src/entities/user-cheque';
+import { UserWithdrawal } from '../src/entities/user-withdrawal';
+
+const TIMESTAMP = { type: COLUMN_TYPES.TIMESTAMP, default: () => 'CURRENT_TIMESTAMP' };
+const AMOUNT = { type: 'decimal' as const, precision: 20, scale: 8 };
+
+/**
+ * The entities as they were before migrations replaced synchronize
+ */
+const BASELINE_ENTITIES = [
+    new EntitySchema<any>({
+        name: 'BaselineUser',
+        tableName: 'users',
+        columns: {
+            id: { type: 'integer', primary: true, generated: true },
+            telegramId: { name: 'telegram_id', type: 'bigint' },
+            username: { name: 'username', type: 'varchar' },
+            language: { name: 'language', type: 'varchar', length: 2, nullable: true },
+            createdAt: { name: 'created_at', ...TIMESTAMP },
+        },
+    }),
+    new EntitySchema<any>({
+        name: 'BaselineUserBalance',
+        tableName: 'user_balances',
+        columns: {
+            id: { type: 'integer', primary: true, generated: true },
+            amount: { name: 'amount', ...AMOUNT },
+            coin: { name: 'coin', type: 'varchar' },
+            createdAt: { name: 'created_at', ...TIMESTAMP },
+            updatedAt: { name: 'updated_at', ...TIMESTAMP, onUpdate: 'CURRENT_TIMESTAMP' },
+        },
+        relations: {
+            user: { type: 'many-to-one', target: 'BaselineUser', joinColumn: { name: 'user_id' } },
+        },
+    }),
+    new EntitySchema<any>({
+        name: 'BaselineUserInvoice',
+        tableName: 'user_invoices',
+        columns: {
+            id: { type: 'integer', primary: true, generated: true },
+            invoiceId: { name: 'invoice_id', type: 'varchar', nullable: true },
+            paymentUrl: { name: 'payment_url', type: 'varchar', nullable: true },
+            amount: { name: 'amount', ...AMOUNT },
+            paymentAmountReceived: { name: 'payment_amount_received', ...AMOUNT, nullable: true },
+            currency: { name: 'currency', type: 'varchar' },
+            status: { name: 'status', type: 'varchar', default: 'active' },
+            createdAt: { name: 'created_at', ...TIMESTAMP },
+            updatedAt: { name: 'updated_at', ...TIMESTAMP, onUpdate: 'CURRENT_TIMESTAMP' },
+        },
+        relations: {
+            user: { type: 'many-to-one', target: 'BaselineUser', joinColumn: { name: 'user_id' } },
+        },
+    }),
+    new EntitySchema<any>({
+        name: 'BaselineUserTransfer',
+        tableName: 'user_transfers',
+        columns: {
+            id: { type: 'integer', primary: true, generated: true },
+            transferId: { name: 'transfer_id', type: 'varchar', nullable: true },
+            amount: { name: 'amount', ...AMOUNT },
+            currency: { name: 'currency', type: 'varchar' },
+            recipientTelegramId: { name: 'recipient_telegram_id', type: 'bigint' },
+            recipientUsername: { name: 'recipient_username', type: 'varchar', nullable: true },
+            createdAt: { name: 'created_at', ...TIMESTAMP },
+            updatedAt: { name: 'updated_at', ...TIMESTAMP, onUpdate: 'CURRENT_TIMESTAMP' },
+        },
+        relations: {
+            sender: { type: 'many-to-one', target: 'BaselineUser', joinColumn: { name: 'sender_id' } },
+        },
+    }),
+    new EntitySchema<any>({
+        name: 'BaselineUserCheque',
+        tableName: 'user_cheques',
+        columns: {
+            id: { type: 'integer', primary: true, generated: true },
+            userId: { name: 'user_id', type: 'integer' },
+            chequeId: { type: 'bigint', nullable: true },
+            currency: { type: 'varchar', length: 10 },
+            amount: AMOUNT,
+            usersNumber: { type: 'int' },
+            link: { type: 'varchar', length: 255, nullable: true },
+            status: { type: COLUMN_TYPES.ENUM, enum: ['active', 'completed', 'draft'], default: 'active' },
+            createdAt: { name: 'created_at', type: Date, createDate: true },
+            updatedAt: { name: 'updated_at', type: Date, updateDate: true },
+        },
+        relations: {
+            user: { type: 'many-to-one', target: 'BaselineUser', nullable: false, joinColumn: { name: 'user_id' } },
+        },
+    }),
+    new EntitySchema<any>({
+        name: 'BaselineUserWithdrawal',
+        tableName: 'user_withdrawals',
+        columns: {
+            id: { type: 'integer', primary: true, generated: true },
+            userId: { name: 'user_id', type: 'integer' },
+            withdrawalId: { type: 'varchar', length: 255, nullable: true },
+            currency: { type: 'varchar', length: 10 },
+            amount: AMOUNT,
+            fee: AMOUNT,
+            netAmount: AMOUNT,
+            status: { type: COLUMN_TYPES.ENUM, enum: ['CREATED', 'COMPLETED', 'FAIL'], default: 'CREATED' },
+            network: { type: COLUMN_TYPES.ENUM, enum: ['TON', 'BSC', 'ETH', 'BTC', 'TRX', 'SOL'] },
+            address: { type: 'varchar', length: 255 },
+            comment: { type: 'varchar', length: 255, nullable: true },
+            txHash: { type: 'varchar', length: 255, nullable: true },
+            txLink: { type: 'varchar', length: 255, nullable: true },
+            error: { type: 'text', nullable: true },
+            createdAt: { name: 'created_at', type: Date, createDate: true },
+            updatedAt: { name: 'updated_at', type: Date, updateDate: true },
+        },
+        relations: {
+            user: { type: 'many-to-one', target: 'BaselineUser', nullable: false, joinColumn: { name: 'user_id' } },
+        },
+    }),
+];
+
+describe('migrations', () => {
+    // The in-memory test database doesn't survive closing the connection, so SQLite runs go through a file
+    const database = DATABASE_TYPE === 'sqlite'
+        ? path.join(os.tmpdir(), `xrocket-pay-bot-migrations-${process.pid}.sqlite`)
+        : AppDataSource.options.database;
+    let dataSource: DataSource;
+
+    beforeAll(async () => {
+        const baseline = new DataSource({
+            ...AppDataSource.options,
+            database,
+            entities: BASELINE_ENTITIES,
+            migrations: [],
+            synchronize: true,
+            dropSchema: true,
+        } as DataSourceOptions);
+        await baseline.initialize();
+
+        const { identifiers } = await baseline.getRepository('BaselineUser').insert({ telegramId: 1001, username: 'baseline' });
+        const userId = identifiers[0].id;
+        await baseline.getRepository('BaselineUserTransfer').insert({
+            amount: 1.5, currency: 'TON', recipientTelegramId: 1002, sender: { id: userId }
+        });
+        await baseline.getRepository('BaselineUserCheque').insert({
+            userId, currency: 'TON', amount: 2, usersNumber: 1
+        });
+        await baseline.getRepository('BaselineUserWithdrawal').insert({
+            userId, currency: 'USDT', amount: 5, fee: 0.1, netAmount: 4.9, network: 'TON', address: 'UQ-baseline'
+        });
+        await baseline.destroy();
+
+        dataSource = new DataSource({ ...AppDataSource.options, database, synchronize: false } as DataSourceOptions);
+        await dataSource.initialize();
+        await dataSource.runMigrations({ transaction: 'each' });
+    });
+
+    afterAll(async () => {
+        await dataSource?.destroy();
+        if (DATABASE_TYPE === 'sqlite') {
+            fs.rmSync(database as string, { force: true });
+        }
+    });
+
+    it('upgrades a database synchronized by the version before migrations to the current entities', async () => {
+        const log = await dataSource.driver.createSchemaBuilder().log();
+        expect(log.upQueries.map(query => query.query)).toEqual([]);
+    });
+
+    it('keeps existing records usable after the upgrade', async () => {
+        const transfer = await dataSource.getRepository(UserTransfer).findOneByOrFail({ recipientTelegramId: 1002 });
+        expect(transfer.status).toBe('completed');
+        expect(transfer.refundedAt).toBeNull();
+        expect(transfer.amount.toString()).toBe('1.5');
+
+        const chequeRepo = dataSource.getRepository(UserCheque);
+        const cheque = await chequeRepo.findOneByOrFail({ currency: 'TON' });
+        expect(cheque.activations).toBe(0);
+        expect(cheque.enableCaptcha).toBe(true);
+        await chequeRepo.update(cheque.id, { status: 'cancelled', refundedAt: new Date() });
+        expect((await chequeRepo.findOneByOrFail({ id: cheque.id })).status).toBe('cancelled');
+
+        const withdrawal = await dataSource.getRepository(UserWithdrawal).findOneByOrFail({ address: 'UQ-baseline' });
+        expect(withdrawal.refundedAt).toBeNull();
+    });
+});
@@ -0,0 +1,124 @@
+import { InvalidAmountError, Money, MONEY_SCALE, MONEY_TRANSFORMER } from '../src/types/money';
+
+describe('Money', () => {
+    describe('of', () => {
+        it('parses decimal strings and numbers exactly', () => {
+            expect(Money.of('1.5', 'USDT').toFixed()).toBe('1.500000');
+            expect(Money.of(' 42 ', 'TON').toString()).toBe('42');
+            expect(Money.of('-0.25', 'USDT').toString()).toBe('-0.25');
+            expect(Money.of('+3', 'XROCK').toString()).toBe('3');
+            expect(Money.of(0.1, 'TON').plus(Money.of(0.2, 'TON')).toString()).toBe('0.3');
+        });
+
+        it('expands numbers written with an exponent', () => {
+            expect(Money.of(1e-7, 'TON').toFixed()).toBe('0.000000100');
+            expect(Money.of(1.5e-8, 'TON').toString()).toBe('0.000000015');
+            expect(Money.of(1e21, 'XROCK').toString()).toBe('1000000000000000000000');
+        });
+
+        it('accepts trailing zeros beyond the currency precision', () => {
+            expect(Money.of('1.5000000', 'USDT').toString()).toBe('1.5');
+        });
+
+        it('rejects more decimals than the currency supports', () => {
+            expect(() => Money.of('0.0000001', 'USDT')).toThrow(InvalidAmountError);
+            expect(() => Money.of(1e-10, 'TON')).toThrow(InvalidAmountError);
+        });
+
+        it('rejects values that are not plain decimal numbers', () => {
+            for (const value of ['', 'abc', '1,5', '1.', '.5', '1e3', '0x10']) {
+                expect(() => Money.of(value, 'TON')).toThrow(InvalidAmountError);
+            }
+            expect(() => Money.of(NaN, 'TON')).toThrow(InvalidAmountError);
+            expect(() => Money.of(Infinity, 'TON')).toThrow(InvalidAmountError);
+        });
+    });
+
+    describe('round', () => {
+        it('rounds half away from zero to the currency precision', () => {
+            expect(Money.round('1.0000005', 'USDT').toFixed()).toBe('1.000001');
+            expect(Money.round('1.0000004999', 'USDT').toFixed()).toBe('1.000000');
+            expect(Money.round('-1.0000005', 'USDT').toFixed()).toBe('-1.000001');
+            expect(Money.round(2.5e-7, 'USDT').toFixed()).toBe('0.000000');
+        });
+
+        it('reads database values with the column scale', () => {
+            expect(Money.round('12.340000000', 'USDT').toString()).toBe('12.34');
+            expect(Money.round(12.34, 'USDT').toString()).toBe('12.34');
+        });
+
+        it('passes Money of the same currency through and refuses other currencies', () => {
+            const amount = Money.of('1', 'TON');
+            expect(Money.round(amount, 'TON')).toBe(amount);
+            expect(() => Money.round(amount, 'USDT')).toThrow(InvalidAmountError);
+        });
+    });
+
+    describe('formatting', () => {
+        it('formats with every decimal of the currency or without trailing zeros', () => {
+            expect(Money.of('0.5', 'TON').toFixed()).toBe('0.500000000');
+            expect(Money.of('-0.000001', 'USDT').toFixed()).toBe('-0.000001');
+            expect(Money.zero('XROCK').toFixed()).toBe('0.00000000');
+            expect(Money.zero('XROCK').toString()).toBe('0');
+            expect(Money.of('10', 'TON').toString()).toBe('10');
+        });
+
+        it('converts to numbers and JSON', () => {
+            expect(Money.of('1.25', 'USDT').toNumber()).toBe(1.25);
+            expect(JSON.stringify({ amount: Money.of('1.25', 'USDT') })).toBe('{"amount":"1.25"}');
+        });
+
+        it('writes full precision to decimal columns', () => {
+            expect(MONEY_SCALE).toBe(9);
+            expect(MONEY_TRANSFORMER.to(Money.of('1.5', 'TON'))).toBe('1.500000000');
+            expect(MONEY_TRANSFORMER.to(null)).toBeNull();
+            expect(MONEY_TRANSFORMER.from('1.500000000')).toBe('1.500000000');
+        });
+    });
+
+    describe('arithmetic', () => {
+        it('adds, subtracts and multiplies in smallest units', () => {
+            const amount = Money.of('0.1', 'TON');
+            expect(amount.plus(Money.of('0.2', 'TON')).toString()).toBe('0.3');
+            expect(amount.minus(Money.of('0.3', 'TON')).toString()).toBe('-0.2');
+            expect(Money.of('0.000001', 'USDT').multipliedBy(3).toString()).toBe('0.000003');
+            expect(Money.sum([Money.of('1.1', 'USDT'), Money.of('2.2', 'USDT')], 'USDT').toString()).toBe('3.3');
+            expect(Money.sum([], 'USDT').isZero()).toBe(true);
+        });
+
+        it('negates and takes absolute values', () => {
+            expect(Money.of('2', 'TON').negated().toString()).toBe('-2');
+            expect(Money.of('-2', 'TON').abs().toString()).toBe('2');
+            expect(Money.of('-2', 'TON').isNegative()).toBe(true);
+            expect(Money.of('2', 'TON').isPositive()).toBe(true);
+        });
+
+        it('multiplies only by whole numbers', () => {
+            expect(() => Money.of('1', 'TON').multipliedBy(1.5)).toThrow(InvalidAmountError);
+        });
+
+        it('refuses to mix currencies', () => {
+            expect(() => Money.of('1', 'TON').plus(Money.of('1', 'USDT'))).toThrow(InvalidAmountError);
+            expect(() => Money.of('1', 'TON').minus(Money.of('1', 'USDT'))).toThrow(InvalidAmountError);
+            expect(() => Money.of('1', 'TON').compareTo(Money.of('1', 'USDT'))).toThrow(InvalidAmountError);
+        });
+    });
+
+    describe('comparison', () => {
+        it('compares amounts of the same currency', () => {
+            const one = Money.of('1', 'USDT');
+            const two = Money.of('2', 'USDT');
+
+            expect(one.compareTo(two)).toBe(-1);
+            expect(two.compareTo(one)).toBe(1);
+            expect(one.compareTo(Money.of('1.000000', 'USDT'))).toBe(0);
+            expect(one.isLessThan(two)).toBe(true);
+            expect(two.isGreaterThan(one)).toBe(true);
+        });
+
+        it('treats equal amounts of different currencies as different', () => {
+            expect(Money.of('1', 'USDT').equals(Money.of('1', 'USDT'))).toBe(true);
+            expect(Money.of('1', 'USDT').equals(Money.of('1', 'XROCK'))).toBe(false);
+        });
+    });
+});
@@ -0,0 +1,83 @@
+import { OperationsClosedError, OperationTracker } from '../src/utils/operation-tracker';
+
+/**
+ * A task that runs until release is called
+ */
+function heldTask<T>(result: T): { task: () => Promise<T>; release: () => void } {
+    let release!: () => void;
+    const released = new Promise<void>(resolve => {
+        release = resolve;
+    });
+    return { task: async () => { await released; return result; }, release };
+}
+
+describe('OperationTracker', () => {
+    it('waits for running operations to finish', async () => {
+        const tracker = new OperationTracker<string>();
+        const first = heldTask('first');
+        const second = heldTask('second');
+        const running = [tracker.run('first', first.task), tracker.run('second', second.task)];
+
+        let idle = false;
+        const waiting = tracker.waitForIdle(5000).then(result => {
+            idle = result;
+        });
+
+        first.release();
+        await running[0];
+        expect(idle).toBe(false);
+        expect(tracker.getOperations().map(operation => operation.name)).toEqual(['second']);
+
+        second.release();
+        await waiting;
+        expect(idle).toBe(true);
+        expect(await Promise.all(running)).toEqual(['first', 'second']);
+    });
+
+    it('gives up waiting after the timeout and keeps the operations still running with their records', async () => {
+        const tracker = new OperationTracker<string>();
+        const held = heldTask('done');
+        const running = tracker.run('transfer', async () => {
+            tracker.attachRecord('transfer #1');
+            return await held.task();
+        });
+        await new Promise(resolve => setImmediate(resolve));
+
+        expect(await tracker.waitForIdle(20)).toBe(false);
+        expect(tracker.getOperations()).toEqual([
+            expect.objectContaining({ name: 'transfer', records: ['transfer #1'] })
+        ]);
+
+        held.release();
+        await running;
+        expect(tracker.getOperations()).toEqual([]);
+        expect(await tracker.waitForIdle(0)).toBe(true);
+    });
+
+    it('rejects new operations once closed but lets running ones continue', async () => {
+        const tracker = new OperationTracker<string>();
+        const held = heldTask('done');
+        const running = tracker.run('outer', async () => {
+            await held.task();
+            // Part of the running operation, not a new one
+            return await tracker.run('inner', async () => 'nested');
+        });
+
+        tracker.close();
+        await expect(tracker.run('late', async () => 'late')).rejects.toThrow(OperationsClosedError);
+
+        held.release();
+        expect(await running).toBe('nested');
+        expect(tracker.getOperations()).toEqual([]);
+    });
+
+    it('stops tracking operations that fail', async () => {
+        const tracker = new OperationTracker<string>();
+        await expect(tracker.run('failing', async () => {
+            throw new Error('boom');
+        })).rejects.toThrow('boom');
+
+        expect(tracker.getOperations()).toEqual([]);
+        expect(await tracker.waitForIdle(0)).toBe(true);
+    });
+});
@@ -0,0 +1,155 @@
+import { AddressInfo, createServer, Server, Socket } from 'net';
+import Redis from 'ioredis';
+import { RedisSessionStorage } from '../src/services/session-storage';
+import { createRedisClient } from '../src/utils/redis-client';
+
+/**
+ * Answers GET, SET, DEL and the ready check like a Redis server, or stays silent when muted
+ */
+class FakeRedisServer {
+    public readonly commands: string[][] = [];
+    public muted = false;
+    private readonly values = new Map<string, string>();
+    private readonly sockets = new Set<Socket>();
+    private server!: Server;
+
+    public async listen(port = 0): Promise<number> {
+        this.server = createServer(socket => {
+            this.sockets.add(socket);
+            socket.on('close', () => this.sockets.delete(socket));
+            let buffer = '';
+            socket.on('data', chunk => {
+                buffer += chunk.toString();
+                let parsed: { args: string[]; rest: string } | null;
+                while ((parsed = parseCommand(buffer))) {
+                    buffer = parsed.rest;
+                    this.commands.push(parsed.args);
+                    if (!this.muted) {
+                        socket.write(this.reply(parsed.args));
+                    }
+                }
+            });
+        });
+        await new Promise<void>(resolve => this.server.listen(port, '127.0.0.1', resolve));
+        return (this.server.address() as AddressInfo).port;
+    }
+
+    public dropConnections(): void {
+        this.sockets.forEach(socket => socket.destroy());
+    }
+
+    public async close(): Promise<void> {
+        this.dropConnections();
+        await new Promise(resolve => this.server.close(resolve));
+    }
+
+    private reply([name, key, value]: string[]): string {
+        switch (name.toUpperCase()) {
+            case 'GET': {
+                const stored = this.values.get(key);
+                return stored === undefined ? '$-1\r\n' : `$${Buffer.byteLength(stored)}\r\n${stored}\r\n`;
+            }
+            case 'SET':
+                this.values.set(key, value);
+                return '+OK\r\n';
+            case 'DEL':
+                return `:${this.values.delete(key) ? 1 : 0}\r\n`;
+            case 'INFO':
+                return '$0\r\n\r\n';
+            default:
+                return '+OK\r\n';
+        }
+    }
+}
+
+/**
+ * Parses one command sent as an array of bulk strings
+ */
+function parseCommand(buffer: string): { args: string[]; rest: string } | null {
+    const header = /^\*(\d+)\r\n/.exec(buffer);
+    if (!header) {
+        return null;
+    }
+
+    const args: string[] = [];
+    let position = header[0].length;
+    for (let i = 0; i < Number(header[1]); i++) {
+        const length = /^\$(\d+)\r\n/.exec(buffer.slice(position));
+        if (!length || buffer.length < position + length[0].length + Number(length[1]) + 2) {
+            return null;
+        }
+        position += length[0].length;
+        args.push(buffer.slice(position, position + Number(length[1])));
+        position += Number(length[1]) + 2;
+    }
+    return { args, rest: buffer.slice(position) };
+}
+
+describe('RedisSessionStorage', () => {
+    let server: FakeRedisServer;
+    let port: number;
+    let client: Redis;
+
+    beforeEach(async () => {
+        server = new FakeRedisServer();
+        port = await server.listen();
+        client = createRedisClient(`redis://127.0.0.1:${port}`, {
+            keyPrefix: 'test:session:',
+            connectTimeoutMs: 500,
+            commandTimeoutMs: 300
+        });
+    });
+
+    afterEach(async () => {
+        client.disconnect();
+        await server.close();
+    });
+
+    it('stores sessions as JSON under the prefixed key with the TTL', async () => {
+        const storage = new RedisSessionStorage<{ step: string }>(client, 1500);
+
+        await storage.write('42', { step: 'transfer_amount' });
+        expect(await storage.read('42')).toEqual({ step: 'transfer_amount' });
+        await storage.delete('42');
+        expect(await storage.read('42')).toBeUndefined();
+
+        expect(server.commands).toContainEqual(['set', 'test:session:42', '{"step":"transfer_amount"}', 'PX', '1500']);
+        expect(server.commands).toContainEqual(['del', 'test:session:42']);
+    });
+
+    it('fails a read the server doesn\'t answer within the command timeout', async () => {
+        const storage = new RedisSessionStorage(client, 60000);
+        await storage.write('1', { step: 'deposit_amount' });
+
+        server.muted = true;
+        const startedAt = Date.now();
+        await expect(storage.read('1')).rejects.toThrow('Command timed out');
+        expect(Date.now() - startedAt).toBeLessThan(2000);
+    });
+
+    it('reconnects after the connection drops', async () => {
+        const storage = new RedisSessionStorage(client, 60000);
+        await storage.write('1', { step: 'deposit_amount' });
+
+        server.dropConnections();
+        await new Promise(resolve => client.once('ready', resolve));
+
+        expect(await storage.read('1')).toEqual({ step: 'deposit_amount' });
+    });
+
+    it('fails commands instead of queueing them while the server is down', async () => {
+        const storage = new RedisSessionStorage(client, 60000);
+        await storage.write('1', { step: 'deposit_amount' });
+        await server.close();
+
+        const startedAt = Date.now();
+        await expect(storage.read('1')).rejects.toThrow();
+        expect(Date.now() - startedAt).toBeLessThan(2000);
+
+        // The client keeps reconnecting and picks up once the server is back
+        await server.listen(port);
+        await new Promise(resolve => client.once('ready', resolve));
+        await storage.write('1', { step: 'withdrawal_amount' });
+        expect(await storage.read('1')).toEqual({ step: 'withdrawal_amount' });
+    });
+});
@@ -0,0 +1,49 @@
+import { Bot } from 'grammy';
+import type { Update, UserFromGetMe } from 'grammy/types';
+import { BotContext } from '../src/types/bot';
+import { getUpdateConstraints, sequentializeUpdates } from '../src/bot/middleware/sequentialize';
+
+const BOT_INFO = { id: 1000000001, is_bot: true, first_name: 'Test', username: 'test_bot' } as UserFromGetMe;
+
+let nextUpdateId = 1;
+function textUpdate(userId: number, text: string): Update {
+    return {
+        update_id: nextUpdateId++,
+        message: {
+            message_id: nextUpdateId,
+            date: 0,
+            chat: { id: userId, type: 'private', first_name: 'User' },
+            from: { id: userId, is_bot: false, first_name: 'User' },
+            text
+        }
+    } as Update;
+}
+
+describe('sequentializeUpdates', () => {
+    it('handles the updates of one user one after another and other users meanwhile', async () => {
+        const bot = new Bot<BotContext>('1000000001:test-token', { botInfo: BOT_INFO });
+        const order: string[] = [];
+        bot.use(sequentializeUpdates);
+        bot.on('message:text', async ctx => {
+            order.push(`start ${ctx.message.text}`);
+            await new Promise(resolve => setTimeout(resolve, 10));
+            order.push(`end ${ctx.message.text}`);
+        });
+
+        await Promise.all([
+            bot.handleUpdate(textUpdate(1, 'a1')),
+            bot.handleUpdate(textUpdate(1, 'a2')),
+            bot.handleUpdate(textUpdate(2, 'b1'))
+        ]);
+
+        expect(order.indexOf('end a1')).toBeLessThan(order.indexOf('start a2'));
+        expect(order.indexOf('start b1')).toBeLessThan(order.indexOf('end a1'));
+        expect(order).toHaveLength(6);
+    });
+
+    it('keys updates by chat and user', () => {
+        const ctx = { chat: { id: -100 }, from: { id: 7 } } as unknown as BotContext;
+        expect(getUpdateConstraints(ctx)).toEqual(['chat:-100', 'user:7']);
+        expect(getUpdateConstraints({} as BotContext)).toEqual([]);
+    });
+});
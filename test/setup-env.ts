@@ -0,0 +1,22 @@
+/**
+ * Environment for the test suite, applied before any application module is loaded
+ */
+process.env.NODE_ENV = 'test';
+process.env.BOT_TOKEN = '1000000001:test-token';
+process.env.WEBHOOK_URL = '/webhook/invoice';
+process.env.XROCKET_API_KEY = 'test-api-key';
+process.env.RECONCILER_ENABLED = 'false';
+// Only used by tests that call harness.useWebhook, the others feed updates to the bot directly
+process.env.TELEGRAM_UPDATE_MODE = 'webhook';
+process.env.TELEGRAM_WEBHOOK_URL = 'https://bot.example.com/webhook/telegram';
+process.env.TELEGRAM_WEBHOOK_SECRET = 'test-webhook-secret';
+// Telegram ID of the admin the e2e tests send admin commands as
+process.env.ADMIN_TELEGRAM_IDS = '900001';
+// Above every amount the flows move, so only tests that lift it for a user go over it
+process.env.LIMIT_TRANSFER_TON_MAX = '50';
+
+// Tests drop and recreate the schema, never point them at a real database.
+// In-memory SQLite by default, TEST_DATABASE_TYPE=mysql or postgres runs them against a throwaway server database.
+process.env.DATABASE_TYPE = process.env.TEST_DATABASE_TYPE || 'sqlite';
+process.env.DATABASE_PATH = ':memory:';
+process.env.DATABASE_NAME = process.env.TEST_DATABASE_NAME || 'xrocket_pay_bot_test';
@@ -0,0 +1,84 @@
+import { DataSource, EntitySchema } from 'typeorm';
+import { serializeTransactions } from '../src/utils/sqlite-transactions';
+
+const Entry = new EntitySchema<{ id: number; label: string }>({
+    name: 'Entry',
+    tableName: 'entries',
+    columns: {
+        id: { type: 'integer', primary: true, generated: true },
+        label: { type: 'varchar' },
+    },
+});
+
+describe('serializeTransactions', () => {
+    let dataSource: DataSource;
+
+    beforeEach(async () => {
+        dataSource = new DataSource({ type: 'better-sqlite3', database: ':memory:', entities: [Entry], synchronize: true });
+        serializeTransactions(dataSource);
+        await dataSource.initialize();
+    });
+
+    afterEach(async () => {
+        await dataSource.destroy();
+    });
+
+    async function labels(): Promise<string[]> {
+        const entries = await dataSource.getRepository(Entry).find({ order: { id: 'ASC' } });
+        return entries.map(entry => entry.label);
+    }
+
+    it('keeps a rollback from undoing a transaction that started while it was open', async () => {
+        let rolledBack!: () => void;
+        const first = (async () => {
+            const queryRunner = dataSource.createQueryRunner();
+            await queryRunner.startTransaction();
+            try {
+                await queryRunner.manager.insert(Entry, { label: 'rolled back' });
+                await new Promise<void>(resolve => {
+                    rolledBack = resolve;
+                });
+                await queryRunner.rollbackTransaction();
+            } finally {
+                await queryRunner.release();
+            }
+        })();
+
+        await new Promise(resolve => setImmediate(resolve));
+        const second = dataSource.transaction(async manager => {
+            await manager.insert(Entry, { label: 'committed' });
+        });
+
+        await new Promise(resolve => setImmediate(resolve));
+        rolledBack();
+        await Promise.all([first, second]);
+
+        expect(await labels()).toEqual(['committed']);
+    });
+
+    it('runs transactions one after another in the order they started', async () => {
+        const order: string[] = [];
+        await Promise.all(['a', 'b', 'c'].map(label => dataSource.transaction(async manager => {
+            order.push(`start ${label}`);
+            await manager.insert(Entry, { label });
+            await new Promise(resolve => setImmediate(resolve));
+            order.push(`end ${label}`);
+        })));
+
+        expect(order).toEqual(['start a', 'end a', 'start b', 'end b', 'start c', 'end c']);
+        expect(await labels()).toEqual(['a', 'b', 'c']);
+    });
+
+    it('lets the next transaction start after a failed one', async () => {
+        await expect(dataSource.transaction(async manager => {
+            await manager.insert(Entry, { label: 'failed' });
+            throw new Error('boom');
+        })).rejects.toThrow('boom');
+
+        await dataSource.transaction(async manager => {
+            await manager.insert(Entry, { label: 'next' });
+        });
+
+        expect(await labels()).toEqual(['next']);
+    });
+});